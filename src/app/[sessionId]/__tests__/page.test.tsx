@@ -26,8 +26,11 @@ vi.mock("next/navigation", () => ({
 
 // Mock chat-history
 const mockValidateSession = vi.fn();
+const mockLoadServerSession = vi.fn();
 vi.mock("@/lib/chat-history", () => ({
   validateSession: (id: string) => mockValidateSession(id),
+  loadServerSession: (id: string) => mockLoadServerSession(id),
+  whenStorageReady: () => Promise.resolve(),
   generateSessionId: () => "new-session-123",
   getSession: vi.fn(),
   saveSession: vi.fn(),
@@ -41,11 +44,13 @@ vi.mock("@/components/home", () => ({
     initialAgentId,
     resumeMessages,
     initialMessage,
+    highlightMessageId,
   }: {
     sessionId: string;
     initialAgentId?: string;
     resumeMessages?: unknown[];
     initialMessage?: string;
+    highlightMessageId?: string;
   }) => (
     <div data-testid="chat-view">
       <span data-testid="session-id">{sessionId}</span>
@@ -54,6 +59,9 @@ vi.mock("@/components/home", () => ({
       <span data-testid="resume-messages-count">
         {resumeMessages?.length ?? 0}
       </span>
+      <span data-testid="highlight-message-id">
+        {highlightMessageId ?? "none"}
+      </span>
     </div>
   ),
 }));
@@ -75,6 +83,7 @@ describe("SessionPage", () => {
       valid: false,
       session: null,
     });
+    mockLoadServerSession.mockResolvedValue(null);
   });
 
   describe("new chat flow", () => {
@@ -145,6 +154,79 @@ describe("SessionPage", () => {
       );
       expect(screen.getByTestId("resume-messages-count").textContent).toBe("2");
     });
+
+    it("highlights the message opened from history search", async () => {
+      mockSearchParamsGet.mockImplementation((key: string) =>
+        key === "message" ? "msg-2" : null,
+      );
+      mockValidateSession.mockReturnValue({
+        valid: true,
+        session: {
+          id: "existing-session",
+          agentId: "curator",
+          messages: [
+            { id: "msg-1", role: "user", parts: [] },
+            { id: "msg-2", role: "assistant", parts: [] },
+          ],
+        },
+      });
+
+      await act(async () => {
+        render(<TestWrapper sessionId="existing-session" />);
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("chat-view")).toBeDefined();
+      });
+
+      expect(screen.getByTestId("highlight-message-id").textContent).toBe(
+        "msg-2",
+      );
+    });
+
+    it("loads a session synced from another device", async () => {
+      mockLoadServerSession.mockResolvedValue({
+        id: "synced-session",
+        agentId: "appraiser",
+        messages: [{ id: "msg-1", role: "user", parts: [] }],
+      });
+
+      await act(async () => {
+        render(<TestWrapper sessionId="synced-session" />);
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("chat-view")).toBeDefined();
+      });
+
+      expect(mockLoadServerSession).toHaveBeenCalledWith("synced-session");
+      expect(screen.getByTestId("agent-id").textContent).toBe("appraiser");
+      expect(mockReplace).not.toHaveBeenCalled();
+    });
+
+    it("checks again once chat history has loaded", async () => {
+      mockValidateSession
+        .mockReturnValueOnce({ valid: false, session: null })
+        .mockReturnValue({
+          valid: true,
+          session: {
+            id: "stored-session",
+            agentId: "curator",
+            messages: [{ id: "msg-1", role: "user", parts: [] }],
+          },
+        });
+
+      await act(async () => {
+        render(<TestWrapper sessionId="stored-session" />);
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("chat-view")).toBeDefined();
+      });
+
+      expect(mockLoadServerSession).not.toHaveBeenCalled();
+      expect(mockReplace).not.toHaveBeenCalled();
+    });
   });
 
   describe("session not found", () => {
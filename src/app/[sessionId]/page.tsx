@@ -2,15 +2,22 @@
 
 /**
  * Dynamic session page for loading existing chat sessions.
- * Validates session ID, redirects to landing with error if not found.
- * Renders ChatView with resumed messages if session exists.
+ * Validates session ID, checking again once chat history has loaded from
+ * IndexedDB and then falling back to the server for sessions synced from
+ * another device, and redirects to landing with error if not found.
+ * Renders ChatView with resumed messages if session exists, scrolled to
+ * the message in ?message= when opened from history search.
  */
 
 import { useEffect, useRef, useState, use } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import type { Route } from "next";
 import { analytics } from "@/lib/analytics";
-import { validateSession } from "@/lib/chat-history";
+import {
+  loadServerSession,
+  validateSession,
+  whenStorageReady,
+} from "@/lib/chat-history";
 import { ChatView } from "@/components/home";
 import type { UIMessage } from "@ai-sdk/react";
 import type { AgentId } from "@/lib/agent/types";
@@ -75,11 +82,14 @@ export default function SessionPage({ params }: SessionPageProps) {
 
   // Use lazy initializer to compute session result only once on mount
   // This prevents recomputation when URL changes (e.g., when ?initial= is cleared)
-  const [sessionResult] = useState<SessionResult>(() => {
+  const [sessionResult, setSessionResult] = useState<SessionResult>(() => {
     const initialMessage = searchParams.get("initial");
     const agentParam = searchParams.get("agent") as AgentId | null;
     return computeSessionResult(sessionId, initialMessage, agentParam);
   });
+  const [highlightMessageId] = useState(
+    () => searchParams.get("message") ?? undefined,
+  );
 
   // Handle side effects (analytics, URL cleanup, redirects)
   useEffect(() => {
@@ -94,13 +104,33 @@ export default function SessionPage({ params }: SessionPageProps) {
       }, 0);
     } else if (sessionResult.type === "not_found") {
       hasHandledRef.current = true;
-      // Fire analytics event for session not found
-      analytics.track("chat:session_not_found", {
-        session_id: sessionId,
-        source: "direct_url",
-      });
-      // Redirect to landing with error
-      router.replace("/?error=session_not_found");
+      // History may still be loading, and this device's cache may not have
+      // a session synced from another yet
+      whenStorageReady()
+        .then(() => {
+          const result = validateSession(sessionId);
+          return result.session ?? loadServerSession(sessionId);
+        })
+        .then((session) => {
+          if (session) {
+            setSessionResult({
+              type: "existing_session",
+              data: {
+                sessionId: session.id,
+                agentId: session.agentId,
+                messages: session.messages,
+              },
+            });
+            return;
+          }
+          // Fire analytics event for session not found
+          analytics.track("chat:session_not_found", {
+            session_id: sessionId,
+            source: "direct_url",
+          });
+          // Redirect to landing with error
+          router.replace("/?error=session_not_found");
+        });
     }
   }, [sessionResult, sessionId, router]);
 
@@ -122,6 +152,7 @@ export default function SessionPage({ params }: SessionPageProps) {
           : undefined
       }
       initialMessage={sessionResult.data.initialMessage}
+      highlightMessageId={highlightMessageId}
     />
   );
 }
@@ -0,0 +1,329 @@
+"use client";
+
+/**
+ * Alerts page for signed-in users.
+ * Lists alert rules and delivery history (the in-app inbox), and adds
+ * new-match alerts to saved searches. Unread in-app alerts are marked read
+ * once shown.
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useUser } from "@clerk/nextjs";
+import type { AlertNotification, AlertRule } from "@/lib/alerts";
+import { useSavedSearches } from "@/lib/saved-searches";
+import { useWatchlist } from "@/lib/watchlist";
+import { UserMenu } from "@/components/auth";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { formatRelativeTime } from "@/components/home/RecentChats";
+
+interface AlertsData {
+  rules: AlertRule[];
+  notifications: AlertNotification[];
+}
+
+async function fetchAlerts(): Promise<AlertsData> {
+  const [rulesResponse, historyResponse] = await Promise.all([
+    fetch("/api/alerts"),
+    fetch("/api/alerts/notifications"),
+  ]);
+  if (!rulesResponse.ok || !historyResponse.ok) {
+    throw new Error(
+      `HTTP error: ${rulesResponse.ok ? historyResponse.status : rulesResponse.status}`,
+    );
+  }
+  const { rules }: { rules: AlertRule[] } = await rulesResponse.json();
+  const { notifications }: { notifications: AlertNotification[] } =
+    await historyResponse.json();
+  return { rules, notifications };
+}
+
+async function markRead(ids: string[]): Promise<void> {
+  const response = await fetch("/api/alerts/notifications", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ids }),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+}
+
+function unreadIds(notifications: AlertNotification[]): string[] {
+  return notifications
+    .filter((n) => n.channel === "in-app" && n.status === "delivered")
+    .filter((n) => !n.readAt)
+    .map((n) => n.id);
+}
+
+export default function AlertsPage() {
+  const { isSignedIn, isLoaded } = useUser();
+  const { searches } = useSavedSearches();
+  const { entries } = useWatchlist();
+  const [data, setData] = useState<AlertsData | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+    let cancelled = false;
+    fetchAlerts()
+      .then((loaded) => {
+        if (cancelled) return;
+        setData(loaded);
+        const unread = unreadIds(loaded.notifications);
+        if (unread.length > 0) {
+          markRead(unread).catch((error) => {
+            console.warn("Failed to mark alerts read:", error);
+          });
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setLoadError("Couldn't load your alerts. Please try again.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn]);
+
+  const handleDelete = async (rule: AlertRule) => {
+    try {
+      const response = await fetch(
+        `/api/alerts/${encodeURIComponent(rule.id)}`,
+        { method: "DELETE" },
+      );
+      if (!response.ok) {
+        throw new Error(`HTTP error: ${response.status}`);
+      }
+      setData((current) =>
+        current
+          ? { ...current, rules: current.rules.filter((r) => r.id !== rule.id) }
+          : current,
+      );
+    } catch {
+      setLoadError("Couldn't remove alert. Please try again.");
+    }
+  };
+
+  const handleAddSearchAlert = async (savedSearchId: string) => {
+    try {
+      const response = await fetch("/api/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: "saved-search-match",
+          savedSearchId,
+          channels: ["in-app", "email"],
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error: ${response.status}`);
+      }
+      const { rule }: { rule: AlertRule } = await response.json();
+      setData((current) =>
+        current ? { ...current, rules: [rule, ...current.rules] } : current,
+      );
+    } catch {
+      setLoadError("Couldn't create alert. Please try again.");
+    }
+  };
+
+  const describeRule = (rule: AlertRule): string => {
+    switch (rule.type) {
+      case "ending-soon":
+      case "price-threshold": {
+        const entry = entries.find((e) => e.id === rule.watchlistEntryId);
+        const title = entry?.title ?? "Watched lot";
+        return rule.type === "ending-soon"
+          ? `${title}: ending within ${rule.minutesBefore} min`
+          : `${title}: bid ${rule.direction} ${rule.threshold} ${entry?.currency ?? ""}`.trim();
+      }
+      case "saved-search-match": {
+        const search = searches.find((s) => s.id === rule.savedSearchId);
+        return `New matches for "${search?.name ?? "saved search"}"`;
+      }
+    }
+  };
+
+  const alertedSearchIds = new Set(
+    data?.rules.flatMap((r) =>
+      r.type === "saved-search-match" ? [r.savedSearchId] : [],
+    ),
+  );
+  const unalertedSearches = searches.filter((s) => !alertedSearchIds.has(s.id));
+
+  return (
+    <div className="min-h-screen-dynamic bg-zinc-50 dark:bg-zinc-950">
+      <header className="safe-area-inset-top flex items-center justify-between px-4 py-3 sm:px-6">
+        <Link
+          href="/"
+          className="text-sm font-medium text-zinc-700 hover:underline dark:text-zinc-300"
+        >
+          ← Back to search
+        </Link>
+        <UserMenu />
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-4 pb-16">
+        <h1 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100">
+          Alerts
+        </h1>
+
+        {isLoaded && !isSignedIn && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Sign in to get alerts on lots you&apos;re watching and searches
+            you&apos;ve saved.
+          </p>
+        )}
+
+        {loadError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>
+        )}
+
+        {data && (
+          <>
+            <section className="space-y-2">
+              <h2 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Recent alerts
+              </h2>
+              {data.notifications.length === 0 ? (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  No alerts yet.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {data.notifications.map((notification) => (
+                    <NotificationRow
+                      key={notification.id}
+                      notification={notification}
+                    />
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="space-y-2">
+              <h2 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Alert rules
+              </h2>
+              {data.rules.length === 0 ? (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  Add alerts from your{" "}
+                  <Link href="/watchlist" className="underline">
+                    watchlist
+                  </Link>{" "}
+                  or to a saved search below.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {data.rules.map((rule) => (
+                    <li
+                      key={rule.id}
+                      className="flex items-center justify-between gap-3 rounded-lg border border-zinc-200 bg-white px-4 py-3 text-sm dark:border-zinc-800 dark:bg-zinc-900"
+                      data-testid="alert-rule"
+                    >
+                      <span className="min-w-0 truncate text-zinc-900 dark:text-zinc-100">
+                        {describeRule(rule)}
+                      </span>
+                      <div className="flex shrink-0 items-center gap-2">
+                        {rule.channels.map((channel) => (
+                          <Badge key={channel} variant="outline">
+                            {channel}
+                          </Badge>
+                        ))}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(rule)}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {unalertedSearches.length > 0 && (
+              <section className="space-y-2">
+                <h2 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                  Saved searches without alerts
+                </h2>
+                <ul className="space-y-2">
+                  {unalertedSearches.map((search) => (
+                    <li
+                      key={search.id}
+                      className="flex items-center justify-between gap-3 rounded-lg border border-zinc-200 bg-white px-4 py-3 text-sm dark:border-zinc-800 dark:bg-zinc-900"
+                    >
+                      <span className="min-w-0 truncate text-zinc-900 dark:text-zinc-100">
+                        {search.name}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => handleAddSearchAlert(search.id)}
+                      >
+                        Alert on new matches
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function NotificationRow({
+  notification,
+}: {
+  notification: AlertNotification;
+}) {
+  const isUnread =
+    notification.channel === "in-app" &&
+    notification.status === "delivered" &&
+    !notification.readAt;
+
+  return (
+    <li
+      className={`rounded-lg border px-4 py-3 text-sm ${
+        isUnread
+          ? "border-[var(--accent)] bg-white dark:bg-zinc-900"
+          : "border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900"
+      }`}
+      data-testid="alert-notification"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <p className="font-medium text-zinc-900 dark:text-zinc-100">
+          {notification.url ? (
+            <a href={notification.url} className="hover:underline">
+              {notification.title}
+            </a>
+          ) : (
+            notification.title
+          )}
+        </p>
+        <div className="flex shrink-0 items-center gap-2">
+          <Badge
+            variant={notification.status === "failed" ? "error" : "outline"}
+          >
+            {notification.channel}
+            {notification.status === "failed" ? " failed" : ""}
+          </Badge>
+          <span className="text-xs text-zinc-500 dark:text-zinc-400">
+            {formatRelativeTime(new Date(notification.createdAt).getTime())}
+          </span>
+        </div>
+      </div>
+      <p className="mt-1 text-zinc-600 dark:text-zinc-400">
+        {notification.body}
+      </p>
+    </li>
+  );
+}
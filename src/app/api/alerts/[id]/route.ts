@@ -0,0 +1,24 @@
+/**
+ * Removes one of the signed-in user's alert rules.
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { alertService } from "@/lib/alerts/server";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json({ error: "Sign in to edit alerts" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!(await alertService.deleteRule(userId, id))) {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return Response.json({ deleted: true });
+}
@@ -0,0 +1,41 @@
+/**
+ * Alert delivery history for the signed-in user, which doubles as the
+ * in-app inbox. GET lists it; PATCH `{ ids }` marks notifications read.
+ */
+
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+import { alertService } from "@/lib/alerts/server";
+
+const MarkReadSchema = z.object({
+  ids: z.array(z.string()).min(1).max(200),
+});
+
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json({ error: "Sign in to view alerts" }, { status: 401 });
+  }
+
+  const notifications = await alertService.listHistory(userId);
+  const unreadCount = notifications.filter(
+    (n) => n.channel === "in-app" && n.status === "delivered" && !n.readAt,
+  ).length;
+
+  return Response.json({ notifications, unreadCount });
+}
+
+export async function PATCH(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json({ error: "Sign in to edit alerts" }, { status: 401 });
+  }
+
+  const parsed = MarkReadSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const updated = await alertService.markRead(userId, parsed.data.ids);
+  return Response.json({ updated });
+}
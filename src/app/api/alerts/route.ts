@@ -0,0 +1,88 @@
+/**
+ * Alert rules for the signed-in user.
+ * GET lists rules; POST creates one for a watched lot or saved search.
+ */
+
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+import { serverAnalytics } from "@/lib/analytics/server";
+import { alertService } from "@/lib/alerts/server";
+import { watchlistService } from "@/lib/watchlist/server";
+import { savedSearchService } from "@/lib/saved-searches/server";
+
+const ChannelsSchema = z.array(z.enum(["in-app", "email"])).min(1);
+
+const RuleSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("ending-soon"),
+    watchlistEntryId: z.string().min(1),
+    minutesBefore: z
+      .number()
+      .int()
+      .min(1)
+      .max(7 * 24 * 60),
+    channels: ChannelsSchema,
+  }),
+  z.object({
+    type: z.literal("price-threshold"),
+    watchlistEntryId: z.string().min(1),
+    threshold: z.number().positive(),
+    direction: z.enum(["above", "below"]),
+    channels: ChannelsSchema,
+  }),
+  z.object({
+    type: z.literal("saved-search-match"),
+    savedSearchId: z.string().min(1),
+    channels: ChannelsSchema,
+  }),
+]);
+
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json({ error: "Sign in to view alerts" }, { status: 401 });
+  }
+
+  return Response.json({ rules: await alertService.listRules(userId) });
+}
+
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to create alerts" },
+      { status: 401 },
+    );
+  }
+
+  const parsed = RuleSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const input = parsed.data;
+  const target =
+    input.type === "saved-search-match"
+      ? await savedSearchService.get(userId, input.savedSearchId)
+      : await watchlistService.get(userId, input.watchlistEntryId);
+  if (!target) {
+    return Response.json(
+      {
+        error:
+          input.type === "saved-search-match"
+            ? "Saved search not found"
+            : "Item is not on your watchlist",
+      },
+      { status: 400 },
+    );
+  }
+
+  const rule = await alertService.createRule(userId, input);
+  serverAnalytics.track(
+    "alert:rule_created",
+    { rule_id: rule.id, rule_type: rule.type, channels: rule.channels },
+    userId,
+  );
+
+  return Response.json({ rule });
+}
@@ -0,0 +1,16 @@
+/**
+ * Runs one alert scheduler pass. Called by a cron job on hosts without a
+ * long-lived server; requires `Authorization: Bearer $CRON_SECRET`.
+ */
+
+import { alertScheduler } from "@/lib/alerts/server";
+
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const summary = await alertScheduler.tick();
+  return Response.json(summary);
+}
@@ -0,0 +1,46 @@
+/**
+ * Bid history endpoint for the item detail bid timeline.
+ * Lets the UI load a lot's bids without a new agent turn.
+ */
+
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+import { getBidTimeline } from "@/lib/tools";
+
+const QuerySchema = z.object({
+  platform: z.string().min(1),
+  itemId: z.string().min(1),
+});
+
+export async function GET(req: Request) {
+  const params = Object.fromEntries(new URL(req.url).searchParams);
+  const parsed = QuerySchema.safeParse(params);
+
+  if (!parsed.success) {
+    return new Response(JSON.stringify({ error: "Invalid request" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { platform, itemId } = parsed.data;
+  const { userId } = await auth();
+
+  try {
+    const timeline = await getBidTimeline(platform, itemId, {
+      userId: userId ?? undefined,
+      source: "user",
+    });
+
+    return new Response(JSON.stringify(timeline), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -175,6 +175,7 @@ describe("Chat API Route", () => {
           agent_id: "appraiser",
           content: "test message",
           message_length: 12,
+          image_count: 0,
           session_id: "session-abc",
           is_restored: false,
           restored_session_id: null,
@@ -261,6 +262,64 @@ describe("Chat API Route", () => {
       expect(response.status).toBe(400);
     });
 
+    it("accepts photo attachments and counts them", async () => {
+      const request = new Request("http://localhost/api/chat", {
+        method: "POST",
+        body: JSON.stringify({
+          messages: [
+            {
+              id: "1",
+              role: "user",
+              parts: [
+                {
+                  type: "file",
+                  mediaType: "image/jpeg",
+                  url: "data:image/jpeg;base64,/9j/4AAQ",
+                },
+              ],
+            },
+          ],
+        }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).not.toBe(400);
+      expect(mockTrack).toHaveBeenCalledWith(
+        "chat:user_message",
+        expect.objectContaining({ image_count: 1 }),
+        "test-user-123",
+      );
+    });
+
+    it("returns 400 for attachments that aren't inline photos", async () => {
+      const request = new Request("http://localhost/api/chat", {
+        method: "POST",
+        body: JSON.stringify({
+          messages: [
+            {
+              id: "1",
+              role: "user",
+              parts: [
+                {
+                  type: "file",
+                  mediaType: "application/pdf",
+                  url: "https://example.com/catalog.pdf",
+                },
+              ],
+            },
+          ],
+        }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: "Unsupported attachment type: application/pdf",
+      });
+    });
+
     it("accepts valid request with minimal fields", async () => {
       const request = new Request("http://localhost/api/chat", {
         method: "POST",
@@ -11,6 +11,12 @@ import { serverAnalytics } from "@/lib/analytics/server";
 import { serverLoggerFactory } from "@/lib/logging/server";
 import { getToolSubsetWithContext } from "@/lib/tools";
 import { getAgent, AgentIdSchema, getDefaultAgentId } from "@/lib/agent";
+import {
+  describeOmittedImage,
+  getImageParts,
+  isOmittedImagePart,
+  validateMessageAttachments,
+} from "@/lib/attachments";
 
 function extractTextContent(message: UIMessage): string {
   return message.parts
@@ -50,6 +56,14 @@ export async function POST(req: Request) {
     restoredSessionId = null,
   } = parsed.data;
 
+  const attachmentError = validateMessageAttachments(messages as UIMessage[]);
+  if (attachmentError) {
+    return new Response(JSON.stringify({ error: attachmentError }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
   const { userId } = await auth();
   const agent = getAgent(agentId);
   const tools = getToolSubsetWithContext(agent.toolIds, {
@@ -73,13 +87,18 @@ export async function POST(req: Request) {
   );
   if (lastUserMessage) {
     const content = extractTextContent(lastUserMessage);
-    log.info("User message received", { messageLength: content.length });
+    const imageCount = getImageParts(lastUserMessage).length;
+    log.info("User message received", {
+      messageLength: content.length,
+      imageCount,
+    });
     serverAnalytics.track(
       "chat:user_message",
       {
         agent_id: agentId,
         content,
         message_length: content.length,
+        image_count: imageCount,
         session_id: sessionId,
         is_restored: isRestored,
         restored_session_id: restoredSessionId,
@@ -101,7 +120,13 @@ export async function POST(req: Request) {
     const result = streamText({
       model: getTracedModel(modelId),
       system: agent.systemPrompt,
-      messages: await convertToModelMessages(messages as UIMessage[]),
+      // Photos in resumed chats were left out of history; say so instead
+      messages: await convertToModelMessages(messages as UIMessage[], {
+        convertDataPart: (part) =>
+          isOmittedImagePart(part)
+            ? { type: "text", text: describeOmittedImage(part) }
+            : undefined,
+      }),
       tools,
       stopWhen: stepCountIs(agent.maxSteps ?? 7),
       onFinish: ({ text, toolCalls }) => {
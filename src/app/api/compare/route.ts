@@ -0,0 +1,52 @@
+/**
+ * Comparison endpoint for items selected in search results.
+ * Lets the UI compare lots without a new agent turn.
+ */
+
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+import { MAX_COMPARE_ITEMS, MIN_COMPARE_ITEMS } from "@/lib/comparison";
+import { getItemComparison } from "@/lib/tools";
+
+const CompareSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        platform: z.string().min(1),
+        itemId: z.string().min(1),
+      }),
+    )
+    .min(MIN_COMPARE_ITEMS)
+    .max(MAX_COMPARE_ITEMS),
+});
+
+export async function POST(req: Request) {
+  const parsed = CompareSchema.safeParse(await req.json().catch(() => null));
+
+  if (!parsed.success) {
+    return new Response(JSON.stringify({ error: "Invalid request" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { userId } = await auth();
+
+  try {
+    const comparison = await getItemComparison(parsed.data.items, {
+      userId: userId ?? undefined,
+      source: "user",
+    });
+
+    return new Response(JSON.stringify(comparison), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * A single saved search: PATCH `{ viewed: true }` clears its new-match
+ * count when the user opens it; DELETE removes it, with its alert rules.
+ */
+
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+import { alertService } from "@/lib/alerts/server";
+import { serverAnalytics } from "@/lib/analytics/server";
+import { toSavedSearchSummary } from "@/lib/saved-searches/types";
+import { savedSearchService } from "@/lib/saved-searches/server";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const UpdateSchema = z.object({
+  viewed: z.literal(true),
+});
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to edit saved searches" },
+      { status: 401 },
+    );
+  }
+
+  const parsed = UpdateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { id } = await params;
+  const previous = await savedSearchService.get(userId, id);
+  const search = await savedSearchService.markViewed(userId, id);
+  if (!previous || !search) {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+
+  serverAnalytics.track(
+    "saved_search:opened",
+    { search_id: id, new_match_count: previous.newItemIds.length },
+    userId,
+  );
+
+  return Response.json({ search: toSavedSearchSummary(search) });
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to edit saved searches" },
+      { status: 401 },
+    );
+  }
+
+  const { id } = await params;
+  if (!(await savedSearchService.delete(userId, id))) {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+  await alertService.deleteRulesFor(userId, { savedSearchId: id });
+
+  return Response.json({ deleted: true });
+}
@@ -0,0 +1,72 @@
+/**
+ * Saved searches endpoint for the signed-in user.
+ * GET lists saved searches with new-match counts (re-running those that
+ * are due when `refresh=1`); POST saves a query.
+ */
+
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+import { serverAnalytics } from "@/lib/analytics/server";
+import { toSavedSearchSummary } from "@/lib/saved-searches/types";
+import { savedSearchService } from "@/lib/saved-searches/server";
+
+const SaveSchema = z.object({
+  name: z.string().max(100).optional(),
+  query: z.object({
+    keywords: z.string().min(1),
+    category: z.string().optional(),
+    priceRange: z
+      .object({
+        min: z.number().optional(),
+        max: z.number().optional(),
+      })
+      .optional(),
+  }),
+  platforms: z.array(z.string()).optional(),
+});
+
+export async function GET(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to view saved searches" },
+      { status: 401 },
+    );
+  }
+
+  const searches =
+    new URL(req.url).searchParams.get("refresh") === "1"
+      ? await savedSearchService.refresh(userId)
+      : await savedSearchService.list(userId);
+
+  return Response.json({ searches: searches.map(toSavedSearchSummary) });
+}
+
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to save searches" },
+      { status: 401 },
+    );
+  }
+
+  const parsed = SaveSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const search = await savedSearchService.create(userId, parsed.data);
+  serverAnalytics.track(
+    "saved_search:created",
+    {
+      search_id: search.id,
+      keywords: search.query.keywords,
+      platforms: search.platforms ?? [],
+      baseline_count: search.seenItemIds.length,
+    },
+    userId,
+  );
+
+  return Response.json({ search: toSavedSearchSummary(search) });
+}
@@ -0,0 +1,74 @@
+/**
+ * Pagination endpoint for multi-platform search results.
+ * Lets the UI fetch the next page of a tool result without a new agent turn.
+ * Comparable sales with a subject are scored against it, as the tools do.
+ */
+
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+import { searchAllAdapters, searchComparables } from "@/lib/tools";
+
+const RequestSchema = z.object({
+  operation: z.enum(["search", "price_history"]),
+  cursor: z.string().min(1),
+  query: z.object({
+    keywords: z.string().min(1),
+    category: z.string().optional(),
+    priceRange: z
+      .object({
+        min: z.number().optional(),
+        max: z.number().optional(),
+      })
+      .optional(),
+    pageSize: z.number().min(1).max(50).default(10),
+    platforms: z.array(z.string()).optional(),
+    sort: z
+      .enum(["relevance", "price-asc", "price-desc", "ending-soon"])
+      .optional(),
+  }),
+  subject: z
+    .union([
+      z.object({ platform: z.string().min(1), itemId: z.string().min(1) }),
+      z.object({
+        title: z.string(),
+        category: z.array(z.string()).optional(),
+        maker: z.string().optional(),
+        materials: z.array(z.string()).optional(),
+      }),
+    ])
+    .optional(),
+});
+
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  const parsed = RequestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return new Response(JSON.stringify({ error: "Invalid request" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { operation, cursor, query, subject } = parsed.data;
+  const { userId } = await auth();
+  const context = { userId: userId ?? undefined, source: "user" as const };
+
+  try {
+    const result =
+      operation === "price_history"
+        ? await searchComparables({ ...query, cursor }, subject, context)
+        : await searchAllAdapters(operation, { ...query, cursor }, context);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Seller profile endpoint for the seller link in item detail.
+ * Lets the UI load a seller's reputation without a new agent turn.
+ */
+
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+import { fetchSellerProfile } from "@/lib/tools";
+
+const QuerySchema = z.object({
+  platform: z.string().min(1),
+  sellerId: z.string().min(1),
+});
+
+export async function GET(req: Request) {
+  const params = Object.fromEntries(new URL(req.url).searchParams);
+  const parsed = QuerySchema.safeParse(params);
+
+  if (!parsed.success) {
+    return new Response(JSON.stringify({ error: "Invalid request" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { platform, sellerId } = parsed.data;
+  const { userId } = await auth();
+
+  try {
+    const profile = await fetchSellerProfile(platform, sellerId, {
+      userId: userId ?? undefined,
+      source: "user",
+    });
+
+    return new Response(JSON.stringify(profile), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
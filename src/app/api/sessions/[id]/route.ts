@@ -0,0 +1,74 @@
+/**
+ * A single chat session of the signed-in user.
+ * GET loads it, PUT saves it (ignored when older than the stored copy),
+ * DELETE removes it.
+ */
+
+import type { UIMessage } from "@ai-sdk/react";
+import { auth } from "@clerk/nextjs/server";
+import { ChatSessionSchema } from "@/lib/chat-history/schema";
+import { chatSessionService } from "@/lib/chat-history/server";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to sync chat history" },
+      { status: 401 },
+    );
+  }
+
+  const { id } = await params;
+  const session = await chatSessionService.get(userId, id);
+  if (!session) {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return Response.json({ session });
+}
+
+export async function PUT(req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to sync chat history" },
+      { status: 401 },
+    );
+  }
+
+  const { id } = await params;
+  const parsed = ChatSessionSchema.safeParse(
+    await req.json().catch(() => null),
+  );
+  if (!parsed.success || parsed.data.id !== id) {
+    return Response.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const session = await chatSessionService.save(userId, {
+    ...parsed.data,
+    messages: parsed.data.messages as unknown as UIMessage[],
+  });
+  return Response.json({ session });
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to edit chat history" },
+      { status: 401 },
+    );
+  }
+
+  const { id } = await params;
+  const deleted = await chatSessionService.delete(userId, id);
+  if (!deleted) {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return Response.json({ deleted: true });
+}
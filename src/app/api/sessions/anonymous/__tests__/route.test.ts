@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/chat-history/server", () => ({
+  chatSessionService: { stage: vi.fn(() => Promise.resolve()) },
+}));
+
+import { POST } from "../route";
+import { chatSessionService } from "@/lib/chat-history/server";
+
+const ANONYMOUS_ID = "6f1c2a9e-3b4d-4e5f-8a6b-7c8d9e0f1a2b";
+
+function session(id: string) {
+  return {
+    id,
+    preview: `Chat ${id}`,
+    agentId: "curator",
+    createdAt: 1000,
+    updatedAt: 2000,
+    messages: [{ id: "msg-1", role: "user", parts: [] }],
+  };
+}
+
+function stageRequest(ip: string, body: string) {
+  return new Request("http://localhost/api/sessions/anonymous", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-forwarded-for": ip },
+    body,
+  });
+}
+
+describe("POST /api/sessions/anonymous", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("stages the browser's sessions", async () => {
+    const response = await POST(
+      stageRequest(
+        "203.0.113.1",
+        JSON.stringify({ anonymousId: ANONYMOUS_ID, sessions: [session("a")] }),
+      ),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ staged: 1 });
+    expect(chatSessionService.stage).toHaveBeenCalledWith(
+      ANONYMOUS_ID,
+      [session("a")],
+      { append: undefined },
+    );
+  });
+
+  it("appends a batch to the sessions staged before", async () => {
+    await POST(
+      stageRequest(
+        "203.0.113.6",
+        JSON.stringify({
+          anonymousId: ANONYMOUS_ID,
+          sessions: [session("b")],
+          append: true,
+        }),
+      ),
+    );
+
+    expect(chatSessionService.stage).toHaveBeenCalledWith(
+      ANONYMOUS_ID,
+      [session("b")],
+      { append: true },
+    );
+  });
+
+  it("rejects invalid requests", async () => {
+    const response = await POST(stageRequest("203.0.113.2", "not json"));
+
+    expect(response.status).toBe(400);
+    expect(chatSessionService.stage).not.toHaveBeenCalled();
+  });
+
+  it("rejects bodies over the size limit", async () => {
+    const response = await POST(
+      stageRequest(
+        "203.0.113.3",
+        JSON.stringify({
+          anonymousId: ANONYMOUS_ID,
+          sessions: [{ ...session("a"), preview: "x".repeat(6 * 1024 * 1024) }],
+        }),
+      ),
+    );
+
+    expect(response.status).toBe(413);
+    expect(chatSessionService.stage).not.toHaveBeenCalled();
+  });
+
+  it("rate limits each client IP", async () => {
+    const body = JSON.stringify({ anonymousId: ANONYMOUS_ID, sessions: [] });
+    const statuses: number[] = [];
+    for (let i = 0; i < 6; i++) {
+      statuses.push((await POST(stageRequest("203.0.113.4", body))).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 200, 200, 200, 429]);
+    expect((await POST(stageRequest("203.0.113.5", body))).status).toBe(200);
+  });
+});
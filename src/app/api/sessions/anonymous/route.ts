@@ -0,0 +1,111 @@
+/**
+ * Staging for a signed-out browser's chat history.
+ * POST holds the sessions under the browser's anonymous ID when the user
+ * accepts a sign-in prompt, until the Clerk webhook or the first signed-in
+ * load moves them into the account. Staged sessions can't be read back.
+ * Large histories arrive in batches, each after the first appended.
+ * Unauthenticated, so request bodies are size-limited, each client IP is
+ * rate limited and unclaimed staging expires.
+ */
+
+import type { UIMessage } from "@ai-sdk/react";
+import { RateLimiter } from "@/lib/adapters/rate-limiter";
+import {
+  MAX_UPLOAD_BODY_BYTES,
+  StagedSessionsSchema,
+} from "@/lib/chat-history/schema";
+import { chatSessionService } from "@/lib/chat-history/server";
+
+/** Staging requests each client IP may burst before being limited */
+const STAGING_BURST = 5;
+
+/** Staging requests each client IP may make per minute after a burst */
+const STAGING_REQUESTS_PER_MINUTE = 5;
+
+/** Client IPs tracked at once; the oldest are forgotten past this */
+const MAX_TRACKED_CLIENTS = 10_000;
+
+const limiters = new Map<string, RateLimiter>();
+
+function clientIp(req: Request): string {
+  return (
+    req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
+    req.headers.get("x-real-ip") ??
+    "unknown"
+  );
+}
+
+function isRateLimited(ip: string): boolean {
+  let limiter = limiters.get(ip);
+  if (!limiter) {
+    if (limiters.size >= MAX_TRACKED_CLIENTS) {
+      limiters.delete(limiters.keys().next().value!);
+    }
+    limiter = new RateLimiter({
+      requestsPerSecond: STAGING_REQUESTS_PER_MINUTE / 60,
+      maxBurst: STAGING_BURST,
+    });
+    limiters.set(ip, limiter);
+  }
+  return !limiter.tryConsume();
+}
+
+/** The request body as text, or null when it's over `maxBytes` */
+async function readBody(
+  req: Request,
+  maxBytes: number,
+): Promise<string | null> {
+  if (Number(req.headers.get("content-length") ?? 0) > maxBytes) return null;
+  if (!req.body) return "";
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+export async function POST(req: Request) {
+  if (isRateLimited(clientIp(req))) {
+    return Response.json(
+      { error: "Too many requests" },
+      { status: 429, headers: { "Retry-After": "60" } },
+    );
+  }
+
+  const body = await readBody(req, MAX_UPLOAD_BODY_BYTES);
+  if (body === null) {
+    return Response.json({ error: "Request too large" }, { status: 413 });
+  }
+
+  let data: unknown = null;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    // Rejected by the schema below
+  }
+  const parsed = StagedSessionsSchema.safeParse(data);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { anonymousId, sessions, append } = parsed.data;
+  await chatSessionService.stage(
+    anonymousId,
+    sessions.map((session) => ({
+      ...session,
+      messages: session.messages as unknown as UIMessage[],
+    })),
+    { append },
+  );
+  return Response.json({ staged: sessions.length });
+}
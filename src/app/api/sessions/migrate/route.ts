@@ -0,0 +1,49 @@
+/**
+ * Moves a signed-out browser's chat history into the signed-in account.
+ * POST claims the sessions staged under the browser's anonymous ID and adds
+ * the ones it still holds, deduped by session ID.
+ */
+
+import type { UIMessage } from "@ai-sdk/react";
+import { auth } from "@clerk/nextjs/server";
+import { serverAnalytics } from "@/lib/analytics/server";
+import { MigratedSessionsSchema } from "@/lib/chat-history/schema";
+import { chatSessionService } from "@/lib/chat-history/server";
+
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to sync chat history" },
+      { status: 401 },
+    );
+  }
+
+  const parsed = MigratedSessionsSchema.safeParse(
+    await req.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { anonymousId, sessions } = parsed.data;
+  const migrated =
+    (await chatSessionService.claimStaged(userId, anonymousId)) +
+    (await chatSessionService.importSessions(
+      userId,
+      sessions.map((session) => ({
+        ...session,
+        messages: session.messages as unknown as UIMessage[],
+      })),
+    ));
+
+  if (migrated > 0) {
+    serverAnalytics.track(
+      "auth:history_migrated",
+      { user_id: userId, migrated_count: migrated, source: "first_load" },
+      userId,
+    );
+  }
+
+  return Response.json({ migrated });
+}
@@ -0,0 +1,31 @@
+/**
+ * Chat history endpoint for the signed-in user.
+ * GET lists all of the user's sessions; DELETE clears them.
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { chatSessionService } from "@/lib/chat-history/server";
+
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to sync chat history" },
+      { status: 401 },
+    );
+  }
+
+  return Response.json({ sessions: await chatSessionService.list(userId) });
+}
+
+export async function DELETE() {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to edit chat history" },
+      { status: 401 },
+    );
+  }
+
+  return Response.json({ deleted: await chatSessionService.clear(userId) });
+}
@@ -0,0 +1,39 @@
+/**
+ * Removes an item from the signed-in user's watchlist, with the alert
+ * rules set on it. The id is the entry's `${platform}:${itemId}` key.
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { alertService } from "@/lib/alerts/server";
+import { serverAnalytics } from "@/lib/analytics/server";
+import { watchlistService } from "@/lib/watchlist/server";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to edit your watchlist" },
+      { status: 401 },
+    );
+  }
+
+  const { id } = await params;
+  const entry = await watchlistService.get(userId, id);
+  if (!entry) {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+
+  await watchlistService.unwatch(userId, id);
+  await alertService.deleteRulesFor(userId, { watchlistEntryId: id });
+  serverAnalytics.track(
+    "watchlist:item_unwatched",
+    { platform: entry.platform, item_id: entry.itemId },
+    userId,
+  );
+
+  return Response.json({ deleted: true });
+}
@@ -0,0 +1,55 @@
+/**
+ * Watchlist endpoint for the signed-in user.
+ * GET lists watched items (with live price, bids and time remaining when
+ * `refresh=1`); POST watches an item.
+ */
+
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+import { addToWatchlist } from "@/lib/tools";
+import { watchlistService } from "@/lib/watchlist/server";
+
+const WatchSchema = z.object({
+  platform: z.string().min(1),
+  itemId: z.string().min(1),
+});
+
+export async function GET(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to view your watchlist" },
+      { status: 401 },
+    );
+  }
+
+  if (new URL(req.url).searchParams.get("refresh") === "1") {
+    return Response.json({ items: await watchlistService.refresh(userId) });
+  }
+  return Response.json({ entries: await watchlistService.list(userId) });
+}
+
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json({ error: "Sign in to watch items" }, { status: 401 });
+  }
+
+  const parsed = WatchSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { platform, itemId } = parsed.data;
+
+  try {
+    const entry = await addToWatchlist(platform, itemId, {
+      userId,
+      source: "user",
+    });
+    return Response.json({ entry });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: errorMessage }, { status: 400 });
+  }
+}
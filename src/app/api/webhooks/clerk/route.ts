@@ -2,6 +2,34 @@ import { Webhook } from "svix";
 import { headers } from "next/headers";
 import type { WebhookEvent } from "@clerk/nextjs/server";
 import { serverAnalytics } from "@/lib/analytics/server";
+import { chatSessionService } from "@/lib/chat-history/server";
+
+/**
+ * Move chat history the user's browser staged while signed out into their
+ * account. The browser's anonymous ID is recorded in the user's unsafe
+ * metadata at sign-up. Failures are logged, not retried: the first signed-in
+ * load migrates whatever the browser still holds.
+ */
+async function migrateStagedHistory(
+  userId: string,
+  metadata: Record<string, unknown> | null | undefined,
+): Promise<void> {
+  const anonymousId = metadata?.anonymousId;
+  if (typeof anonymousId !== "string") return;
+
+  try {
+    const migrated = await chatSessionService.claimStaged(userId, anonymousId);
+    if (migrated > 0) {
+      serverAnalytics.track(
+        "auth:history_migrated",
+        { user_id: userId, migrated_count: migrated, source: "webhook" },
+        userId,
+      );
+    }
+  } catch (err) {
+    console.error("Chat history migration failed:", err);
+  }
+}
 
 export async function POST(req: Request) {
   const WEBHOOK_SECRET = process.env.CLERK_WEBHOOK_SECRET;
@@ -44,6 +72,7 @@ export async function POST(req: Request) {
         },
         evt.data.id,
       );
+      await migrateStagedHistory(evt.data.id, evt.data.unsafe_metadata);
       break;
 
     case "session.created":
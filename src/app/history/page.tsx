@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+import { HistorySearch } from "@/components/home";
+
+export default function HistoryPage() {
+  // Suspense for useSearchParams
+  return (
+    <Suspense fallback={null}>
+      <HistorySearch />
+    </Suspense>
+  );
+}
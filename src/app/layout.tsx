@@ -4,8 +4,13 @@ import { Analytics } from "@vercel/analytics/react";
 import { Geist, Geist_Mono } from "next/font/google";
 import { AgentProvider } from "@/lib/agent";
 import { HomeProvider } from "@/lib/home";
+import { DisplayCurrencyProvider } from "@/lib/fx";
 import { LoggerProvider } from "@/lib/logging";
+import { WatchlistProvider } from "@/lib/watchlist";
+import { SavedSearchesProvider } from "@/lib/saved-searches";
+import { ChatHistorySync } from "@/lib/chat-history";
 import { AnalyticsIdentifier } from "@/components/analytics";
+import { StorageWarningBanner } from "@/components/home/StorageWarningBanner";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -41,11 +46,19 @@ export default function RootLayout({
           className={`${geistSans.variable} ${geistMono.variable} antialiased`}
         >
           <AnalyticsIdentifier />
+          <ChatHistorySync />
           <HomeProvider>
             <AgentProvider>
-              <LoggerProvider>{children}</LoggerProvider>
+              <DisplayCurrencyProvider>
+                <WatchlistProvider>
+                  <SavedSearchesProvider>
+                    <LoggerProvider>{children}</LoggerProvider>
+                  </SavedSearchesProvider>
+                </WatchlistProvider>
+              </DisplayCurrencyProvider>
             </AgentProvider>
           </HomeProvider>
+          <StorageWarningBanner />
           <Analytics />
         </body>
       </html>
@@ -0,0 +1,237 @@
+"use client";
+
+/**
+ * Watchlist page for signed-in users.
+ * Refreshes each watched lot's current price, bid count and time remaining
+ * from its platform on load and on demand.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useUser } from "@clerk/nextjs";
+import { getPlatformDisplayName } from "@/lib/adapters/platforms";
+import { useWatchlist, type WatchlistItemStatus } from "@/lib/watchlist";
+import { UserMenu } from "@/components/auth";
+import { AlertRuleForm } from "@/components/alerts";
+import { formatTimeRemaining } from "@/components/items/ItemCard";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Price } from "@/components/ui/Price";
+import { Skeleton } from "@/components/ui/Skeleton";
+import { getProxiedImageUrl } from "@/lib/image-proxy";
+
+async function fetchWatchlistStatus(): Promise<WatchlistItemStatus[]> {
+  const response = await fetch("/api/watchlist?refresh=1");
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+  const data: { items: WatchlistItemStatus[] } = await response.json();
+  return data.items;
+}
+
+export default function WatchlistPage() {
+  const { isSignedIn, isLoaded } = useUser();
+  const { unwatch } = useWatchlist();
+  const [items, setItems] = useState<WatchlistItemStatus[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const handleRefresh = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setItems(await fetchWatchlistStatus());
+    } catch {
+      setLoadError("Couldn't load your watchlist. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+    let cancelled = false;
+    fetchWatchlistStatus()
+      .then((loaded) => {
+        if (!cancelled) setItems(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setLoadError("Couldn't load your watchlist. Please try again.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn]);
+
+  const handleRemove = async (status: WatchlistItemStatus) => {
+    try {
+      await unwatch(status.entry.platform, status.entry.itemId);
+      setItems((current) =>
+        current
+          ? current.filter((s) => s.entry.id !== status.entry.id)
+          : current,
+      );
+    } catch {
+      setLoadError("Couldn't update watchlist. Please try again.");
+    }
+  };
+
+  return (
+    <div className="min-h-screen-dynamic bg-zinc-50 dark:bg-zinc-950">
+      <header className="safe-area-inset-top flex items-center justify-between px-4 py-3 sm:px-6">
+        <Link
+          href="/"
+          className="text-sm font-medium text-zinc-700 hover:underline dark:text-zinc-300"
+        >
+          ← Back to search
+        </Link>
+        <UserMenu />
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-4 px-4 pb-16">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100">
+            Watchlist
+          </h1>
+          {isSignedIn && (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={handleRefresh}
+              disabled={isLoading}
+            >
+              {isLoading ? "Refreshing..." : "Refresh"}
+            </Button>
+          )}
+        </div>
+
+        {isLoaded && !isSignedIn && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Sign in to keep a watchlist of lots you&apos;re tracking.
+          </p>
+        )}
+
+        {loadError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>
+        )}
+
+        {isSignedIn && items === null && !loadError && (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} variant="rectangular" className="h-24" />
+            ))}
+          </div>
+        )}
+
+        {items?.length === 0 && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            You aren&apos;t watching any lots yet. Use the Watch button on an
+            item, or ask the curator to watch one for you.
+          </p>
+        )}
+
+        {items && items.length > 0 && (
+          <ul className="space-y-3">
+            {items.map((status) => (
+              <WatchlistRow
+                key={status.entry.id}
+                status={status}
+                onRemove={() => handleRemove(status)}
+              />
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function WatchlistRow({
+  status,
+  onRemove,
+}: {
+  status: WatchlistItemStatus;
+  onRemove: () => void;
+}) {
+  const { entry } = status;
+  const timeRemaining = formatTimeRemaining(status.endTime);
+  const price = status.currentPrice ?? entry.priceAtWatch;
+
+  return (
+    <li
+      className="flex gap-4 rounded-lg border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-900"
+      data-testid="watchlist-item"
+    >
+      {entry.imageUrl && (
+        /* eslint-disable-next-line @next/next/no-img-element */
+        <img
+          src={getProxiedImageUrl(entry.imageUrl)}
+          alt={entry.title}
+          className="h-20 w-20 shrink-0 rounded object-cover"
+          loading="lazy"
+        />
+      )}
+
+      <div className="min-w-0 flex-1 space-y-1">
+        <a
+          href={entry.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="line-clamp-2 text-sm font-medium text-zinc-900 hover:underline dark:text-zinc-100"
+        >
+          {entry.title}
+        </a>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          {getPlatformDisplayName(entry.platform)}
+        </p>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <Price amount={price} currency={entry.currency} size="md" />
+          {status.currentPrice !== undefined &&
+            status.currentPrice !== entry.priceAtWatch && (
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                was{" "}
+                <Price
+                  amount={entry.priceAtWatch}
+                  currency={entry.currency}
+                  size="sm"
+                />
+              </span>
+            )}
+          {status.bidCount !== undefined && (
+            <span className="text-xs text-zinc-500 dark:text-zinc-400">
+              {status.bidCount} bid{status.bidCount !== 1 ? "s" : ""}
+            </span>
+          )}
+          {timeRemaining && (
+            <Badge variant={timeRemaining === "Ended" ? "default" : "outline"}>
+              {timeRemaining}
+            </Badge>
+          )}
+        </div>
+        {status.timeRemainingMs !== 0 && (
+          <AlertRuleForm
+            watchlistEntryId={entry.id}
+            currency={entry.currency}
+          />
+        )}
+        {status.refreshError && (
+          <p className="text-xs text-amber-600 dark:text-amber-400">
+            Couldn&apos;t refresh from {getPlatformDisplayName(entry.platform)};
+            showing the price when you watched it.
+          </p>
+        )}
+      </div>
+
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={onRemove}
+        className="shrink-0 self-start"
+      >
+        Remove
+      </Button>
+    </li>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+/**
+ * Adds an ending-soon or bid-threshold alert to a watched lot.
+ */
+
+import { useState } from "react";
+import type { AlertChannel, AlertRule } from "@/lib/alerts";
+import { Button } from "@/components/ui/Button";
+
+interface AlertRuleFormProps {
+  watchlistEntryId: string;
+  currency: string;
+  onCreated?: (rule: AlertRule) => void;
+}
+
+type WatchRuleType = "ending-soon" | "price-threshold";
+
+const DEFAULT_MINUTES_BEFORE = 15;
+
+async function createRule(body: Record<string, unknown>): Promise<AlertRule> {
+  const response = await fetch("/api/alerts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+  const data: { rule: AlertRule } = await response.json();
+  return data.rule;
+}
+
+export function AlertRuleForm({
+  watchlistEntryId,
+  currency,
+  onCreated,
+}: AlertRuleFormProps) {
+  const [type, setType] = useState<WatchRuleType>("ending-soon");
+  const [minutesBefore, setMinutesBefore] = useState(DEFAULT_MINUTES_BEFORE);
+  const [threshold, setThreshold] = useState("");
+  const [emailToo, setEmailToo] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const channels: AlertChannel[] = emailToo
+      ? ["in-app", "email"]
+      : ["in-app"];
+
+    setIsSaving(true);
+    setSaveError(null);
+    setSaved(false);
+    try {
+      const rule = await createRule(
+        type === "ending-soon"
+          ? { type, watchlistEntryId, minutesBefore, channels }
+          : {
+              type,
+              watchlistEntryId,
+              threshold: Number(threshold),
+              direction: "above",
+              channels,
+            },
+      );
+      setSaved(true);
+      onCreated?.(rule);
+    } catch {
+      setSaveError("Couldn't create alert. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isValid =
+    type === "ending-soon" ? minutesBefore >= 1 : Number(threshold) > 0;
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-wrap items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400"
+      data-testid="alert-rule-form"
+    >
+      <label className="sr-only" htmlFor={`alert-type-${watchlistEntryId}`}>
+        Alert type
+      </label>
+      <select
+        id={`alert-type-${watchlistEntryId}`}
+        value={type}
+        onChange={(event) => setType(event.target.value as WatchRuleType)}
+        className="rounded border border-zinc-200 bg-white px-2 py-1 dark:border-zinc-700 dark:bg-zinc-900"
+      >
+        <option value="ending-soon">Ending within</option>
+        <option value="price-threshold">Bid reaches</option>
+      </select>
+
+      {type === "ending-soon" ? (
+        <label className="flex items-center gap-1">
+          <input
+            type="number"
+            min={1}
+            value={minutesBefore}
+            onChange={(event) => setMinutesBefore(Number(event.target.value))}
+            className="w-16 rounded border border-zinc-200 bg-white px-2 py-1 dark:border-zinc-700 dark:bg-zinc-900"
+            aria-label="Minutes before end"
+          />
+          minutes
+        </label>
+      ) : (
+        <label className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={threshold}
+            onChange={(event) => setThreshold(event.target.value)}
+            className="w-24 rounded border border-zinc-200 bg-white px-2 py-1 dark:border-zinc-700 dark:bg-zinc-900"
+            aria-label="Bid threshold"
+          />
+          {currency}
+        </label>
+      )}
+
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={emailToo}
+          onChange={(event) => setEmailToo(event.target.checked)}
+        />
+        Email me too
+      </label>
+
+      <Button type="submit" size="sm" disabled={isSaving || !isValid}>
+        {isSaving ? "Saving..." : "Add alert"}
+      </Button>
+
+      {saved && <span>Alert added</span>}
+      {saveError && (
+        <span className="text-red-600 dark:text-red-400">{saveError}</span>
+      )}
+    </form>
+  );
+}
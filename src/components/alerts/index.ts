@@ -0,0 +1 @@
+export { AlertRuleForm } from "./AlertRuleForm";
@@ -1,8 +1,10 @@
 "use client";
 
+import { useState } from "react";
 import { SignInButton, SignUpButton, useUser } from "@clerk/nextjs";
 import { Button } from "@/components/ui/Button";
 import { analytics } from "@/lib/analytics";
+import { getAnonymousId, stageAnonymousHistory } from "@/lib/chat-history";
 
 interface SignInPromptProps {
   message?: string;
@@ -11,6 +13,8 @@ interface SignInPromptProps {
 
 export function SignInPrompt({ message, onDismiss }: SignInPromptProps) {
   const { isSignedIn } = useUser();
+  // Lets the sign-up webhook claim this browser's chat history
+  const [anonymousId] = useState(() => getAnonymousId());
 
   // Don't show if already signed in
   if (isSignedIn) {
@@ -32,24 +36,25 @@ export function SignInPrompt({ message, onDismiss }: SignInPromptProps) {
         <SignInButton mode="modal">
           <Button
             size="sm"
-            onClick={() =>
+            onClick={() => {
               analytics.track("auth:sign_in_clicked", {
                 source: "agent_prompt",
-              })
-            }
+              });
+            }}
           >
             Sign In
           </Button>
         </SignInButton>
-        <SignUpButton mode="modal">
+        <SignUpButton mode="modal" unsafeMetadata={{ anonymousId }}>
           <Button
             variant="secondary"
             size="sm"
-            onClick={() =>
+            onClick={() => {
               analytics.track("auth:sign_up_clicked", {
                 source: "agent_prompt",
-              })
-            }
+              });
+              void stageAnonymousHistory();
+            }}
           >
             Sign Up
           </Button>
@@ -1,5 +1,6 @@
 "use client";
 
+import Link from "next/link";
 import { SignInButton, SignUpButton, UserButton, useUser } from "@clerk/nextjs";
 import { Button } from "@/components/ui/Button";
 import { analytics } from "@/lib/analytics";
@@ -12,7 +13,23 @@ export function UserMenu() {
   }
 
   if (isSignedIn) {
-    return <UserButton afterSignOutUrl="/" />;
+    return (
+      <div className="flex items-center gap-4">
+        <Link
+          href="/watchlist"
+          className="text-sm text-zinc-600 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+        >
+          Watchlist
+        </Link>
+        <Link
+          href="/alerts"
+          className="text-sm text-zinc-600 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+        >
+          Alerts
+        </Link>
+        <UserButton afterSignOutUrl="/" />
+      </div>
+    );
   }
 
   return (
@@ -1,6 +1,13 @@
 "use client";
 
-import { FormEvent, useRef, useEffect } from "react";
+import { FormEvent, useRef, useEffect, useState } from "react";
+import type { FileUIPart } from "ai";
+import {
+  ACCEPTED_IMAGE_TYPES,
+  MAX_IMAGE_ATTACHMENTS,
+  readImageAttachment,
+  validateImageFile,
+} from "@/lib/attachments";
 import { Button } from "@/components/ui/Button";
 
 interface ChatInputProps {
@@ -9,6 +16,9 @@ interface ChatInputProps {
   onSubmit: (e: FormEvent) => void;
   isLoading: boolean;
   stop?: () => void;
+  /** Photos to send with the message; shows the attach control when set */
+  attachments?: FileUIPart[];
+  onAttachmentsChange?: (attachments: FileUIPart[]) => void;
 }
 
 export function ChatInput({
@@ -17,8 +27,14 @@ export function ChatInput({
   onSubmit,
   isLoading,
   stop,
+  attachments,
+  onAttachmentsChange,
 }: ChatInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const canAttach = attachments !== undefined && !!onAttachmentsChange;
+  const hasContent = !!value.trim() || (attachments?.length ?? 0) > 0;
 
   useEffect(() => {
     if (textareaRef.current) {
@@ -30,24 +46,138 @@ export function ChatInput({
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
-      if (!isLoading && value.trim()) {
+      if (!isLoading && hasContent) {
         onSubmit(e);
       }
     }
   };
 
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || !attachments || !onAttachmentsChange) return;
+    setAttachError(null);
+
+    const selected = Array.from(files);
+    const room = MAX_IMAGE_ATTACHMENTS - attachments.length;
+    if (selected.length > room) {
+      setAttachError(`You can attach up to ${MAX_IMAGE_ATTACHMENTS} photos.`);
+    }
+
+    const added: FileUIPart[] = [];
+    for (const file of selected.slice(0, Math.max(room, 0))) {
+      const error = validateImageFile(file);
+      if (error) {
+        setAttachError(error);
+        continue;
+      }
+      try {
+        added.push(await readImageAttachment(file));
+      } catch {
+        setAttachError("Couldn't read that photo. Please try another.");
+      }
+    }
+    if (added.length > 0) {
+      onAttachmentsChange([...attachments, ...added]);
+    }
+  };
+
+  const handleRemove = (index: number) => {
+    if (!attachments || !onAttachmentsChange) return;
+    onAttachmentsChange(attachments.filter((_, i) => i !== index));
+    setAttachError(null);
+  };
+
   return (
     <form
       onSubmit={onSubmit}
       className="safe-area-inset-bottom border-t border-zinc-200 bg-white pb-4 pt-3 dark:border-zinc-800 dark:bg-zinc-950 sm:pb-5 sm:pt-4"
     >
+      {canAttach && (attachments.length > 0 || attachError) && (
+        <div className="mx-auto mb-2 flex max-w-3xl flex-wrap items-center gap-2 px-4 safe-area-inset-x sm:px-6">
+          {attachments.map((attachment, i) => (
+            <div
+              key={i}
+              className="relative h-16 w-16 overflow-hidden rounded-lg border border-zinc-200 dark:border-zinc-700"
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={attachment.url}
+                alt={attachment.filename ?? `Photo ${i + 1}`}
+                className="h-full w-full object-cover"
+              />
+              <button
+                type="button"
+                onClick={() => handleRemove(i)}
+                className="absolute top-0.5 right-0.5 flex h-5 w-5 items-center justify-center rounded-full bg-zinc-900/70 text-xs text-white hover:bg-zinc-900"
+                aria-label={`Remove ${attachment.filename ?? `photo ${i + 1}`}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {attachError && (
+            <p className="text-xs text-red-600 dark:text-red-400">
+              {attachError}
+            </p>
+          )}
+        </div>
+      )}
       <div className="mx-auto flex max-w-3xl gap-2 px-4 safe-area-inset-x sm:gap-3 sm:px-6">
+        {canAttach && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_IMAGE_TYPES.join(",")}
+              multiple
+              className="hidden"
+              data-testid="chat-attach-input"
+              onChange={(e) => {
+                void handleFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={
+                isLoading || attachments.length >= MAX_IMAGE_ATTACHMENTS
+              }
+              aria-label="Attach photo"
+            >
+              <svg
+                className="h-5 w-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                aria-hidden="true"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={1.5}
+                  d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z"
+                />
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={1.5}
+                  d="M15 13a3 3 0 11-6 0 3 3 0 016 0z"
+                />
+              </svg>
+            </Button>
+          </>
+        )}
         <textarea
           ref={textareaRef}
           value={value}
           onChange={(e) => onChange(e.target.value)}
           onKeyDown={handleKeyDown}
-          placeholder="Search for art deco lamps, vintage watches..."
+          placeholder={
+            canAttach
+              ? "Search for art deco lamps, or attach a photo..."
+              : "Search for art deco lamps, vintage watches..."
+          }
           rows={2}
           className="min-h-[44px] flex-1 resize-none rounded-lg border border-zinc-300 bg-white px-3 py-3 text-base placeholder:text-zinc-400 focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] focus:ring-offset-2 dark:border-zinc-700 dark:bg-zinc-900 dark:placeholder:text-zinc-500 sm:min-h-[48px] sm:px-4 sm:py-3 sm:text-sm"
           disabled={isLoading}
@@ -57,7 +187,7 @@ export function ChatInput({
             Stop
           </Button>
         ) : (
-          <Button type="submit" disabled={!value.trim()}>
+          <Button type="submit" disabled={!hasContent}>
             Send
           </Button>
         )}
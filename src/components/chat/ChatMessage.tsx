@@ -4,6 +4,7 @@ import type { UIMessage } from "ai";
 import { useEffect, useRef } from "react";
 import { Streamdown } from "streamdown";
 import { analytics } from "@/lib/analytics";
+import { isOmittedImagePart } from "@/lib/attachments";
 import { ToolInvocation } from "./ToolInvocation";
 import { ThinkingIndicator } from "./ThinkingIndicator";
 import { useAgent } from "@/lib/agent";
@@ -14,6 +15,8 @@ interface ChatMessageProps {
   sessionId?: string | null;
   /** Whether this chat was restored from history */
   isRestored?: boolean;
+  /** Whether this message was opened from a history search */
+  isHighlighted?: boolean;
 }
 
 function isToolPart(
@@ -31,6 +34,7 @@ export function ChatMessage({
   message,
   sessionId,
   isRestored = false,
+  isHighlighted = false,
 }: ChatMessageProps) {
   const isUser = message.role === "user";
   const { agentId } = useAgent();
@@ -59,8 +63,14 @@ export function ChatMessage({
 
   return (
     <div
+      id={`message-${message.id}`}
       data-testid={`chat-message-${message.role}`}
-      className={`flex ${isUser ? "justify-end" : "justify-start"}`}
+      data-highlighted={isHighlighted || undefined}
+      className={`flex scroll-mt-4 ${isUser ? "justify-end" : "justify-start"} ${
+        isHighlighted
+          ? "rounded-2xl ring-2 ring-[var(--accent)] ring-offset-4 ring-offset-zinc-50 dark:ring-offset-zinc-950"
+          : ""
+      }`}
     >
       <div
         className={`max-w-[92%] space-y-3 sm:max-w-[85%] ${
@@ -91,6 +101,31 @@ export function ChatMessage({
             );
           }
 
+          if (part.type === "file" && part.mediaType.startsWith("image/")) {
+            return (
+              /* eslint-disable-next-line @next/next/no-img-element */
+              <img
+                key={i}
+                src={part.url}
+                alt={part.filename ?? "Attached photo"}
+                className="max-h-48 rounded-lg object-contain"
+                data-testid="chat-message-image"
+              />
+            );
+          }
+
+          if (isOmittedImagePart(part)) {
+            return (
+              <p
+                key={i}
+                className="rounded-lg border border-dashed border-current px-3 py-2 text-xs opacity-80"
+                data-testid="chat-message-omitted-image"
+              >
+                {part.data.filename ?? "Photo"} (not kept in chat history)
+              </p>
+            );
+          }
+
           if (part.type === "reasoning") {
             const reasoningPart = part as {
               type: "reasoning";
@@ -114,6 +149,7 @@ export function ChatMessage({
                 toolName={toolName}
                 toolCallId={part.toolCallId}
                 state={part.state}
+                input={part.input}
                 result={part.output}
               />
             );
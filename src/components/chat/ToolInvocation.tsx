@@ -1,19 +1,48 @@
 "use client";
 
-import type { SearchResult, UnifiedItem } from "@/lib/adapters/types";
+import { useState } from "react";
+import Link from "next/link";
+import type {
+  MultiPlatformSearchResult,
+  PlatformSearchStatus,
+  SearchResult,
+  UnifiedItem,
+} from "@/lib/adapters/types";
+import { getPlatformDisplayName } from "@/lib/adapters/platforms";
 import type { ValuationAssessment } from "@/types/chat";
+import type {
+  ComparableFeatures,
+  EstimateAccuracyResult,
+  EstimateAccuracyStats,
+  EstimateTendency,
+  IdentifyItemResult,
+} from "@/lib/valuation";
+import { featuresFromIdentification } from "@/lib/valuation/identification";
 import type { AgentId } from "@/lib/agent";
+import type { TotalCostBreakdown } from "@/lib/costs";
+import type { BidTimeline as BidTimelineData } from "@/lib/bids";
+import type { SellerProfile } from "@/lib/sellers";
+import type { WatchItemResult } from "@/lib/watchlist";
+import type { ItemComparison } from "@/lib/comparison";
 import { ItemCardGrid } from "@/components/items/ItemCardGrid";
 import { ItemDetail } from "@/components/items/ItemDetail";
+import { BidTimeline } from "@/components/items/BidTimeline";
+import { ComparisonTable } from "@/components/items/ComparisonTable";
+import { SellerProfileCard } from "@/components/items/SellerProfileCard";
+import { SaveSearchButton } from "@/components/saved-searches";
 import { Badge } from "@/components/ui/Badge";
+import { Price } from "@/components/ui/Price";
 import { Skeleton } from "@/components/ui/Skeleton";
 import { ModeSwitchCard } from "./ModeSwitchCard";
+import { TotalCostCard } from "./TotalCostCard";
 import { SignInPromptWrapper } from "./SignInPromptWrapper";
 
 interface ToolInvocationProps {
   toolName: string;
   toolCallId: string;
   state: string;
+  /** Tool input, used to request further pages of search results */
+  input?: unknown;
   result?: unknown;
 }
 
@@ -31,6 +60,7 @@ interface SignInPromptResult {
 export function ToolInvocation({
   toolName,
   state,
+  input,
   result,
 }: ToolInvocationProps) {
   const isLoading =
@@ -46,12 +76,41 @@ export function ToolInvocation({
     case "searchItems":
     case "getPriceHistory":
       return (
-        <SearchResults items={result as SearchResult[]} toolName={toolName} />
+        <SearchResults
+          initialResult={normalizeSearchResult(result)}
+          query={input as SearchQueryInput | undefined}
+          toolName={toolName}
+        />
       );
+    case "identifyItem":
+      return <IdentificationResult result={result as IdentifyItemResult} />;
     case "getItemDetails":
       return <ItemDetail item={result as UnifiedItem} />;
     case "assessValue":
       return <ValuationResult assessment={result as ValuationAssessment} />;
+    case "analyzeEstimateAccuracy":
+      return <EstimateAccuracyCard result={result as EstimateAccuracyResult} />;
+    case "calculateTotalCost":
+      return <TotalCostCard breakdown={result as TotalCostBreakdown} />;
+    case "getBidHistory":
+      return <BidHistoryResult timeline={result as BidTimelineData} />;
+    case "getSellerProfile":
+      return (
+        <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-700 dark:bg-zinc-900">
+          <SellerProfileCard profile={result as SellerProfile} />
+        </div>
+      );
+    case "watchItem": {
+      const watchResult = result as WatchItemResult;
+      if (watchResult.requiresSignIn) {
+        return (
+          <SignInPromptWrapper message="Sign in to keep a watchlist of lots you're tracking." />
+        );
+      }
+      return <WatchItemCard result={watchResult} />;
+    }
+    case "compareItems":
+      return <ComparisonTable comparison={result as ItemComparison} />;
     case "switchAgentMode": {
       const switchResult = result as ModeSwitchResult;
       return (
@@ -82,7 +141,14 @@ function ToolLoading({ toolName }: { toolName: string }) {
     searchItems: "Searching auctions...",
     getItemDetails: "Loading item details...",
     getPriceHistory: "Finding comparable sales...",
+    identifyItem: "Identifying item and finding comparable sales...",
     assessValue: "Calculating valuation...",
+    analyzeEstimateAccuracy: "Comparing estimates with hammer prices...",
+    calculateTotalCost: "Calculating total cost...",
+    getBidHistory: "Loading bid history...",
+    getSellerProfile: "Loading seller profile...",
+    watchItem: "Adding to watchlist...",
+    compareItems: "Comparing items...",
     switchAgentMode: "Switching mode...",
     promptSignIn: "", // Silent - no loading state for sign-in prompt
   };
@@ -101,15 +167,122 @@ function ToolLoading({ toolName }: { toolName: string }) {
   );
 }
 
+/**
+ * Sessions saved before search tools returned a status envelope
+ * stored a bare array of results.
+ */
+function normalizeSearchResult(result: unknown): MultiPlatformSearchResult {
+  if (Array.isArray(result)) {
+    return { results: result as SearchResult[], platforms: [] };
+  }
+  const envelope = result as Partial<MultiPlatformSearchResult> | undefined;
+  return {
+    results: envelope?.results ?? [],
+    platforms: envelope?.platforms ?? [],
+    nextCursor: envelope?.nextCursor,
+  };
+}
+
+/** Search tool arguments, replayed when fetching the next page. */
+interface SearchQueryInput {
+  keywords: string;
+  category?: string;
+  priceRange?: { min?: number; max?: number };
+  pageSize?: number;
+  platforms?: string[];
+  sort?: "relevance" | "price-asc" | "price-desc" | "ending-soon";
+  /** What comparable sales are scored against */
+  subject?: { platform: string; itemId: string } | ComparableFeatures;
+}
+
+async function fetchNextPage(
+  operation: "search" | "price_history",
+  { subject, ...query }: SearchQueryInput,
+  cursor: string,
+): Promise<MultiPlatformSearchResult> {
+  const response = await fetch("/api/search", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ operation, query, cursor, subject }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+
+  return response.json() as Promise<MultiPlatformSearchResult>;
+}
+
+async function fetchComparison(items: SearchResult[]): Promise<ItemComparison> {
+  const response = await fetch("/api/compare", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      items: items.map(({ platform, itemId }) => ({ platform, itemId })),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+
+  return response.json() as Promise<ItemComparison>;
+}
+
 function SearchResults({
-  items,
+  initialResult,
+  query,
   toolName,
 }: {
-  items: SearchResult[];
+  initialResult: MultiPlatformSearchResult;
+  query?: SearchQueryInput;
   toolName: string;
 }) {
+  const [result, setResult] = useState(initialResult);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<ItemComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+
   const title =
     toolName === "getPriceHistory" ? "Comparable Sales" : "Search Results";
+  const canLoadMore = Boolean(result.nextCursor && query?.keywords);
+
+  const handleLoadMore = async () => {
+    if (!result.nextCursor || !query) return;
+
+    setIsLoadingMore(true);
+    setLoadError(null);
+    try {
+      const next = await fetchNextPage(
+        toolName === "getPriceHistory" ? "price_history" : "search",
+        query,
+        result.nextCursor,
+      );
+      setResult((previous) => ({
+        results: [...previous.results, ...next.results],
+        platforms: next.platforms,
+        nextCursor: next.nextCursor,
+      }));
+    } catch {
+      setLoadError("Couldn't load more results. Please try again.");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleCompare = async (items: SearchResult[]) => {
+    setIsComparing(true);
+    setCompareError(null);
+    try {
+      setComparison(await fetchComparison(items));
+    } catch {
+      setCompareError("Couldn't compare these items. Please try again.");
+    } finally {
+      setIsComparing(false);
+    }
+  };
 
   return (
     <div className="space-y-3">
@@ -117,9 +290,357 @@ function SearchResults({
         <p className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
           {title}
         </p>
-        <Badge variant="outline">{items.length} items</Badge>
+        <div className="flex items-center gap-2">
+          {toolName === "searchItems" && query?.keywords && (
+            <SaveSearchButton query={query} platforms={query.platforms} />
+          )}
+          <Badge variant="outline">{result.results.length} items</Badge>
+        </div>
       </div>
-      <ItemCardGrid items={items} />
+      {result.platforms.length > 0 && (
+        <PlatformStatusStrip platforms={result.platforms} />
+      )}
+      <ItemCardGrid
+        items={result.results}
+        hasMore={canLoadMore}
+        isLoadingMore={isLoadingMore}
+        onLoadMore={handleLoadMore}
+        onCompare={handleCompare}
+        isComparing={isComparing}
+      />
+      {loadError && (
+        <p className="text-xs text-red-600 dark:text-red-400">{loadError}</p>
+      )}
+      {compareError && (
+        <p className="text-xs text-red-600 dark:text-red-400">{compareError}</p>
+      )}
+      {comparison && <ComparisonTable comparison={comparison} />}
+    </div>
+  );
+}
+
+const PLATFORM_STATUS_LABELS: Record<PlatformSearchStatus["status"], string> = {
+  ok: "ok",
+  error: "failed",
+  timeout: "timed out",
+  disabled: "disabled",
+  unavailable: "unavailable",
+};
+
+const PLATFORM_STATUS_VARIANTS: Record<
+  PlatformSearchStatus["status"],
+  "success" | "warning" | "error" | "outline"
+> = {
+  ok: "success",
+  error: "error",
+  timeout: "warning",
+  disabled: "outline",
+  unavailable: "warning",
+};
+
+function formatPlatformCount(platform: PlatformSearchStatus): string {
+  const total =
+    platform.totalCount !== undefined
+      ? ` of ${platform.totalCount.toLocaleString()}`
+      : "";
+  return `${platform.resultCount}${total} in ${platform.latencyMs}ms`;
+}
+
+function formatPlatformOutcome(platform: PlatformSearchStatus): string {
+  if (platform.status === "ok") return formatPlatformCount(platform);
+  const label = PLATFORM_STATUS_LABELS[platform.status];
+  if (platform.status !== "unavailable" || !platform.retryAt) return label;
+  const retryAt = new Date(platform.retryAt).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `${label} until ${retryAt}`;
+}
+
+function PlatformStatusStrip({
+  platforms,
+}: {
+  platforms: PlatformSearchStatus[];
+}) {
+  return (
+    <div
+      className="flex flex-wrap items-center gap-2"
+      data-testid="platform-status-strip"
+    >
+      {platforms.map((platform) => (
+        <Badge
+          key={platform.platform}
+          variant={PLATFORM_STATUS_VARIANTS[platform.status]}
+          title={platform.error}
+        >
+          {getPlatformDisplayName(platform.platform)}:{" "}
+          {formatPlatformOutcome(platform)}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+const CONFIDENCE_VARIANTS: Record<
+  IdentifyItemResult["identification"]["confidence"],
+  "success" | "warning" | "error"
+> = {
+  high: "success",
+  medium: "warning",
+  low: "error",
+};
+
+/**
+ * What was identified from the user's photo, followed by the comparable
+ * sales found for it.
+ */
+function IdentificationResult({ result }: { result: IdentifyItemResult }) {
+  const { identification, searchKeywords, priceHistory } = result;
+  const attributes: Array<[string, string | undefined]> = [
+    ["Category", identification.category],
+    ["Likely maker", identification.maker],
+    ["Period", identification.period],
+    ["Materials", identification.materials?.join(", ")],
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div
+        className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-700 dark:bg-zinc-900"
+        data-testid="identification-result"
+      >
+        <div className="mb-3 flex items-center justify-between gap-3">
+          <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+            {identification.description}
+          </h3>
+          <Badge variant={CONFIDENCE_VARIANTS[identification.confidence]}>
+            {identification.confidence} confidence
+          </Badge>
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          {attributes
+            .filter(([, value]) => value)
+            .map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-zinc-500 dark:text-zinc-400">{label}</dt>
+                <dd className="text-zinc-900 dark:text-zinc-100">{value}</dd>
+              </div>
+            ))}
+        </dl>
+        <p className="mt-3 text-xs text-zinc-500 dark:text-zinc-400">
+          Comparable sales for &ldquo;{searchKeywords}&rdquo;
+        </p>
+      </div>
+      <SearchResults
+        initialResult={normalizeSearchResult(priceHistory)}
+        query={{
+          keywords: searchKeywords,
+          pageSize: 10,
+          subject: featuresFromIdentification(identification),
+        }}
+        toolName="getPriceHistory"
+      />
+    </div>
+  );
+}
+
+const TENDENCY_LABELS: Record<EstimateTendency, string> = {
+  conservative: "Estimates run conservative",
+  "in-line": "Estimates in line with results",
+  optimistic: "Estimates run optimistic",
+  "insufficient-data": "Too few estimated sales to judge",
+};
+
+function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+/**
+ * Stacked bar of lots selling below, within and above estimate.
+ */
+function EstimateOutcomeBar({ stats }: { stats: EstimateAccuracyStats }) {
+  const segments: Array<[string, number, string]> = [
+    ["Below", stats.belowShare, "bg-red-400 dark:bg-red-600"],
+    ["Within", stats.withinShare, "bg-zinc-400 dark:bg-zinc-500"],
+    ["Above", stats.aboveShare, "bg-green-500 dark:bg-green-600"],
+  ];
+
+  return (
+    <div>
+      <div className="flex h-2 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+        {segments.map(([label, share, color]) => (
+          <div
+            key={label}
+            className={color}
+            style={{ width: formatShare(share) }}
+          />
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+        {segments
+          .map(([label, share]) => `${label} ${formatShare(share)}`)
+          .join(" · ")}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * How sold lots landed against their pre-sale estimates, overall and for
+ * each auction house with enough lots.
+ */
+function EstimateAccuracyCard({ result }: { result: EstimateAccuracyResult }) {
+  const { accuracy } = result;
+  const subject = [result.auctionHouse, result.category ?? result.keywords]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <div
+      className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-700 dark:bg-zinc-900"
+      data-testid="estimate-accuracy"
+    >
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+          Estimate accuracy: {subject}
+        </h3>
+        <Badge variant="outline">{TENDENCY_LABELS[accuracy.tendency]}</Badge>
+      </div>
+
+      {accuracy.sampleSize === 0 ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          No sold lots with published estimates found
+        </p>
+      ) : (
+        <>
+          <EstimateOutcomeBar stats={accuracy} />
+          <p className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
+            {accuracy.sampleSize} of {result.lotsExamined} sold lots had an
+            estimate
+            {accuracy.medianRatio !== null &&
+              `; median hammer ${accuracy.medianRatio.toFixed(2)}× the estimate midpoint`}
+          </p>
+        </>
+      )}
+
+      {accuracy.byAuctionHouse.length > 0 && (
+        <ul className="mt-3 space-y-2 border-t border-zinc-200 pt-3 dark:border-zinc-700">
+          {accuracy.byAuctionHouse.map((house) => (
+            <li key={house.auctionHouse} className="text-sm">
+              <div className="mb-1 flex justify-between gap-4">
+                <span className="text-zinc-900 dark:text-zinc-100">
+                  {house.auctionHouse}
+                </span>
+                <span className="shrink-0 text-xs text-zinc-500 dark:text-zinc-400">
+                  {house.sampleSize} lots
+                  {house.medianRatio !== null &&
+                    ` · ${house.medianRatio.toFixed(2)}×`}
+                </span>
+              </div>
+              <EstimateOutcomeBar stats={house} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function BidHistoryResult({ timeline }: { timeline: BidTimelineData }) {
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-700 dark:bg-zinc-900">
+      <h3 className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-100">
+        Bid History
+      </h3>
+      <BidTimeline timeline={timeline} />
+    </div>
+  );
+}
+
+function WatchItemCard({ result }: { result: WatchItemResult }) {
+  if (!result.watched || !result.entry) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-4 rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-700 dark:bg-zinc-900">
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+          Added to your watchlist
+        </p>
+        <p className="truncate text-sm text-zinc-500 dark:text-zinc-400">
+          {result.entry.title}
+        </p>
+      </div>
+      <Link
+        href="/watchlist"
+        className="shrink-0 text-sm font-medium text-[var(--accent)] hover:underline"
+      >
+        View watchlist
+      </Link>
+    </div>
+  );
+}
+
+/**
+ * Comparables as valued, with nominal and inflation-adjusted prices side by
+ * side so users can see why an older sale counts higher.
+ */
+function ComparableList({
+  comparables,
+  currency,
+}: {
+  comparables: NonNullable<ValuationAssessment["comparables"]>;
+  currency?: string;
+}) {
+  return (
+    <div className="mt-3">
+      <p className="mb-1 text-xs font-medium text-zinc-500 dark:text-zinc-400">
+        Comparables
+      </p>
+      <ul className="space-y-1" data-testid="valuation-comparables">
+        {comparables.map((comparable, i) => {
+          const adjustedPrice = comparable.inflationAdjustedPrice;
+          return (
+            <li
+              key={i}
+              className={`flex justify-between gap-4 text-xs ${
+                comparable.outlier
+                  ? "text-zinc-400 line-through dark:text-zinc-500"
+                  : "text-zinc-600 dark:text-zinc-400"
+              }`}
+            >
+              <span className="line-clamp-1">
+                {comparable.title}
+                {comparable.soldYear !== undefined &&
+                  ` (${comparable.soldYear})`}
+                {comparable.similarity !== undefined && (
+                  <span className="ml-1 text-zinc-400 dark:text-zinc-500">
+                    {Math.round(comparable.similarity * 100)}% match
+                  </span>
+                )}
+              </span>
+              <span className="shrink-0 text-right">
+                <Price
+                  amount={comparable.soldPrice}
+                  currency={currency}
+                  size="sm"
+                />
+                {adjustedPrice !== undefined &&
+                  adjustedPrice !== comparable.soldPrice && (
+                    <>
+                      {" → "}
+                      <Price
+                        amount={adjustedPrice}
+                        currency={currency}
+                        size="sm"
+                      />{" "}
+                      today
+                    </>
+                  )}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
     </div>
   );
 }
@@ -140,21 +661,55 @@ function ValuationResult({ assessment }: { assessment: ValuationAssessment }) {
         </h3>
         <Badge variant={confidenceVariant}>
           {assessment.confidence} confidence
+          {assessment.confidenceScore !== undefined &&
+            ` (${Math.round(assessment.confidenceScore * 100)}%)`}
         </Badge>
       </div>
 
       {assessment.priceRange && (
         <div className="mb-3 rounded-lg bg-zinc-50 p-3 dark:bg-zinc-800">
           <p className="text-sm text-zinc-500 dark:text-zinc-400">
-            Estimated Value Range
+            {assessment.confidenceScore !== undefined
+              ? "Likely Range (25th-75th percentile)"
+              : "Estimated Value Range"}
           </p>
           <p className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
-            ${assessment.priceRange.low.toLocaleString()} - $
-            {assessment.priceRange.high.toLocaleString()}
+            <Price
+              amount={assessment.priceRange.low}
+              currency={assessment.currency}
+              size="lg"
+            />{" "}
+            -{" "}
+            <Price
+              amount={assessment.priceRange.high}
+              currency={assessment.currency}
+              size="lg"
+            />
           </p>
           <p className="text-sm text-zinc-500 dark:text-zinc-400">
-            Median: ${assessment.priceRange.median.toLocaleString()}
+            Median:{" "}
+            <Price
+              amount={assessment.priceRange.median}
+              currency={assessment.currency}
+              size="sm"
+            />
           </p>
+          {assessment.observedRange && (
+            <p className="text-xs text-zinc-400 dark:text-zinc-500">
+              Observed:{" "}
+              <Price
+                amount={assessment.observedRange.min}
+                currency={assessment.currency}
+                size="sm"
+              />{" "}
+              -{" "}
+              <Price
+                amount={assessment.observedRange.max}
+                currency={assessment.currency}
+                size="sm"
+              />
+            </p>
+          )}
         </div>
       )}
 
@@ -177,9 +732,18 @@ function ValuationResult({ assessment }: { assessment: ValuationAssessment }) {
         </div>
       )}
 
+      {assessment.comparables && assessment.comparables.length > 0 && (
+        <ComparableList
+          comparables={assessment.comparables}
+          currency={assessment.currency}
+        />
+      )}
+
       <p className="mt-3 text-xs text-zinc-400 dark:text-zinc-500">
         Based on {assessment.comparablesCount} comparable sale
         {assessment.comparablesCount !== 1 ? "s" : ""}
+        {!!assessment.outliersExcluded &&
+          `, ${assessment.outliersExcluded} outlier${assessment.outliersExcluded !== 1 ? "s" : ""} excluded`}
       </p>
     </div>
   );
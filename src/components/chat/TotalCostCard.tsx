@@ -0,0 +1,82 @@
+"use client";
+
+/**
+ * Itemized total-cost estimate from the calculateTotalCost tool.
+ */
+
+import type { TotalCostBreakdown } from "@/lib/costs";
+import { Price } from "@/components/ui/Price";
+
+interface TotalCostCardProps {
+  breakdown: TotalCostBreakdown;
+}
+
+export function TotalCostCard({ breakdown }: TotalCostCardProps) {
+  const markupPercent = Math.round(breakdown.markup * 100);
+
+  return (
+    <div
+      className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-700 dark:bg-zinc-900"
+      data-testid="total-cost-card"
+    >
+      <div className="mb-3">
+        <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+          Estimated Total Cost
+        </h3>
+        {breakdown.item && (
+          <a
+            href={breakdown.item.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="line-clamp-1 text-xs text-zinc-500 hover:underline dark:text-zinc-400"
+          >
+            {breakdown.item.title}
+          </a>
+        )}
+      </div>
+
+      <dl className="space-y-1.5">
+        {breakdown.lines.map((line) => (
+          <div key={line.kind} className="flex justify-between gap-4 text-sm">
+            <dt className="text-zinc-600 dark:text-zinc-400">{line.label}</dt>
+            <dd>
+              <Price
+                amount={line.amount}
+                currency={breakdown.currency}
+                size="sm"
+              />
+            </dd>
+          </div>
+        ))}
+        <div className="flex justify-between gap-4 border-t border-zinc-200 pt-2 dark:border-zinc-700">
+          <dt className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+            Total
+          </dt>
+          <dd>
+            <Price
+              amount={breakdown.total}
+              currency={breakdown.currency}
+              size="lg"
+            />
+          </dd>
+        </div>
+      </dl>
+
+      {markupPercent > 0 && (
+        <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+          {markupPercent}% above the hammer price
+        </p>
+      )}
+
+      {breakdown.notes.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {breakdown.notes.map((note, i) => (
+            <li key={i} className="text-xs text-zinc-400 dark:text-zinc-500">
+              {note}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import type { SearchResult } from "@/lib/adapters/types";
+import { ToolInvocation } from "../ToolInvocation";
+
+vi.mock("@/lib/analytics", () => ({
+  analytics: { track: vi.fn() },
+}));
+
+// Mock components that depend on Clerk
+vi.mock("@/components/auth", () => ({
+  SignInPrompt: () => null,
+}));
+vi.mock("@/components/watchlist", () => ({
+  WatchButton: () => null,
+}));
+vi.mock("@/components/saved-searches", () => ({
+  SaveSearchButton: () => null,
+}));
+
+function searchResult(itemId: string, title: string): SearchResult {
+  return {
+    platform: "liveauctioneers",
+    itemId,
+    title,
+    currentPrice: 100,
+    currency: "USD",
+    imageUrl: `https://example.com/${itemId}.jpg`,
+    url: `https://example.com/${itemId}`,
+  };
+}
+
+describe("ToolInvocation", () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal("fetch", mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("searchItems", () => {
+    it("loads the next page with the result's cursor", async () => {
+      mockFetch.mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            results: [searchResult("2", "Tiffany Dragonfly Lamp")],
+            platforms: [],
+          }),
+        ),
+      );
+      const user = userEvent.setup();
+
+      render(
+        <ToolInvocation
+          toolName="searchItems"
+          toolCallId="call-1"
+          state="output-available"
+          input={{ keywords: "tiffany lamp" }}
+          result={{
+            results: [searchResult("1", "Tiffany Wisteria Lamp")],
+            platforms: [],
+            nextCursor: "cursor-1",
+          }}
+        />,
+      );
+
+      await user.click(screen.getByRole("button", { name: "Load more" }));
+
+      await waitFor(() => {
+        expect(screen.getByText("Tiffany Dragonfly Lamp")).toBeDefined();
+      });
+      expect(screen.getByText("Tiffany Wisteria Lamp")).toBeDefined();
+      expect(mockFetch).toHaveBeenCalledWith("/api/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          operation: "search",
+          query: { keywords: "tiffany lamp" },
+          cursor: "cursor-1",
+        }),
+      });
+      // The last page has no cursor
+      expect(screen.queryByRole("button", { name: "Load more" })).toBeNull();
+    });
+
+    it("scores further comparable sales against the identified item", async () => {
+      mockFetch.mockResolvedValue(
+        new Response(JSON.stringify({ results: [], platforms: [] })),
+      );
+      const user = userEvent.setup();
+
+      render(
+        <ToolInvocation
+          toolName="identifyItem"
+          toolCallId="call-1"
+          state="output-available"
+          result={{
+            identification: {
+              description: "Dragonfly table lamp",
+              category: "Lighting",
+              maker: "Tiffany Studios",
+              suggestedKeywords: ["tiffany dragonfly lamp"],
+              confidence: "high",
+            },
+            searchKeywords: "tiffany dragonfly lamp",
+            priceHistory: {
+              results: [searchResult("1", "Tiffany Wisteria Lamp")],
+              platforms: [],
+              nextCursor: "cursor-1",
+            },
+          }}
+        />,
+      );
+
+      await user.click(screen.getByRole("button", { name: "Load more" }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled();
+      });
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({
+        operation: "price_history",
+        query: { keywords: "tiffany dragonfly lamp" },
+        subject: {
+          title: "Tiffany Studios Dragonfly table lamp",
+          category: ["Lighting"],
+          maker: "Tiffany Studios",
+        },
+      });
+      expect(body.query.subject).toBeUndefined();
+    });
+
+    it("hides Load more without a cursor", () => {
+      render(
+        <ToolInvocation
+          toolName="searchItems"
+          toolCallId="call-1"
+          state="output-available"
+          input={{ keywords: "tiffany lamp" }}
+          result={{
+            results: [searchResult("1", "Tiffany Wisteria Lamp")],
+            platforms: [],
+          }}
+        />,
+      );
+
+      expect(screen.queryByRole("button", { name: "Load more" })).toBeNull();
+    });
+
+    it("shows when an unavailable platform will be retried", () => {
+      const retryAt = new Date(2026, 0, 1, 14, 35);
+      render(
+        <ToolInvocation
+          toolName="searchItems"
+          toolCallId="call-1"
+          state="output-available"
+          input={{ keywords: "tiffany lamp" }}
+          result={{
+            results: [],
+            platforms: [
+              {
+                platform: "liveauctioneers",
+                status: "unavailable",
+                resultCount: 0,
+                latencyMs: 0,
+                error: "Circuit open for liveauctioneers",
+                retryAt: retryAt.toISOString(),
+              },
+            ],
+          }}
+        />,
+      );
+
+      const time = retryAt.toLocaleTimeString([], {
+        hour: "numeric",
+        minute: "2-digit",
+      });
+      expect(
+        screen.getByText(new RegExp(`unavailable until ${time}`)),
+      ).toBeDefined();
+    });
+  });
+});
@@ -9,13 +9,14 @@
 import { useEffect, useRef, useState, useMemo, type FormEvent } from "react";
 import { useRouter } from "next/navigation";
 import { useChat, type UIMessage } from "@ai-sdk/react";
-import { DefaultChatTransport } from "ai";
+import { DefaultChatTransport, type FileUIPart } from "ai";
 import { analytics } from "@/lib/analytics";
 import { useAgent } from "@/lib/agent";
 import { saveSession, generateChatPreview } from "@/lib/chat-history";
 import { ChatMessage } from "@/components/chat/ChatMessage";
 import { ChatInput } from "@/components/chat/ChatInput";
 import { UserMenu } from "@/components/auth";
+import { CurrencySelect } from "@/components/ui/CurrencySelect";
 import { BrandLogo } from "./BrandLogo";
 import type { AgentId } from "@/lib/agent/types";
 
@@ -69,6 +70,8 @@ export interface ChatViewProps {
   resumeMessages?: UIMessage[];
   /** Agent ID to use for this chat */
   initialAgentId?: AgentId;
+  /** Message to scroll to and highlight, e.g. a history search match */
+  highlightMessageId?: string;
 }
 
 export function ChatView({
@@ -76,6 +79,7 @@ export function ChatView({
   initialMessage,
   resumeMessages,
   initialAgentId,
+  highlightMessageId,
 }: ChatViewProps) {
   const router = useRouter();
   const {
@@ -89,7 +93,9 @@ export function ChatView({
   const hasInitializedRef = useRef(false);
   const hasSavedRef = useRef(false);
   const [input, setInput] = useState("");
+  const [attachments, setAttachments] = useState<FileUIPart[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const hasScrolledToHighlightRef = useRef(!highlightMessageId);
 
   // Track current session data in refs for saving on unmount/transition
   const sessionDataRef = useRef<{
@@ -176,10 +182,21 @@ export function ChatView({
     agentId,
   ]);
 
-  // Auto-scroll to bottom when messages update
+  // Auto-scroll to bottom when messages update, except to show the
+  // highlighted message once it has rendered
   useEffect(() => {
+    if (!hasScrolledToHighlightRef.current && messages.length > 0) {
+      hasScrolledToHighlightRef.current = true;
+      const highlighted = document.getElementById(
+        `message-${highlightMessageId}`,
+      );
+      if (highlighted) {
+        highlighted.scrollIntoView({ block: "center" });
+        return;
+      }
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, highlightMessageId]);
 
   // Handle agent-initiated mode switches
   useEffect(() => {
@@ -221,10 +238,17 @@ export function ChatView({
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if ((!input.trim() && attachments.length === 0) || isLoading) return;
     const text = input;
+    const files = attachments;
     setInput("");
-    await sendMessage({ text });
+    setAttachments([]);
+    if (files.length === 0) {
+      await sendMessage({ text });
+    } else {
+      // A photo can be sent on its own
+      await sendMessage(text.trim() ? { text, files } : { files });
+    }
   };
 
   const handleLogoClick = () => {
@@ -266,6 +290,7 @@ export function ChatView({
               <span className="text-sm text-zinc-500 dark:text-zinc-400">
                 {agent.name}
               </span>
+              <CurrencySelect />
               <UserMenu />
             </div>
           </div>
@@ -281,6 +306,7 @@ export function ChatView({
               message={message}
               sessionId={sessionId}
               isRestored={!!resumeMessages}
+              isHighlighted={message.id === highlightMessageId}
             />
           ))}
           {status === "submitted" && (
@@ -307,6 +333,8 @@ export function ChatView({
         onSubmit={handleSubmit}
         isLoading={isLoading}
         stop={stop}
+        attachments={attachments}
+        onAttachmentsChange={setAttachments}
       />
     </div>
   );
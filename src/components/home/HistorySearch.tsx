@@ -0,0 +1,172 @@
+"use client";
+
+/**
+ * Search across every stored chat session.
+ * Matches message text, tool inputs and the items tools returned; each
+ * result opens its session scrolled to the matching message. The query is
+ * kept in ?q= so searches can be shared and survive going back.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import type { Route } from "next";
+import { useRouter, useSearchParams } from "next/navigation";
+import { analytics } from "@/lib/analytics";
+import {
+  createHistorySearchIndex,
+  getAllSessions,
+  whenStorageReady,
+  CHAT_HISTORY_STORAGE_KEY,
+  STORAGE_CHANGE_EVENT,
+  type ChatSession,
+  type HistoryMatchSource,
+  type HistorySearchResult,
+} from "@/lib/chat-history";
+import { UserMenu } from "@/components/auth";
+import { Badge } from "@/components/ui/Badge";
+import { formatRelativeTime, getAgentDisplayName } from "./RecentChats";
+
+const MATCH_LABELS: Record<HistoryMatchSource, string> = {
+  text: "Message",
+  tool: "Tool call",
+  item: "Item",
+};
+
+/**
+ * Link to a session scrolled to one of its messages.
+ * Exported for testing.
+ */
+export function getResultHref(result: HistorySearchResult): Route {
+  return `/${result.sessionId}?message=${encodeURIComponent(result.messageId)}` as Route;
+}
+
+export function HistorySearch() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [query, setQuery] = useState(() => searchParams.get("q") ?? "");
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [index] = useState(createHistorySearchIndex);
+
+  // Load history, including sessions still loading from IndexedDB, and
+  // keep up with changes from this and other tabs
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      if (!cancelled) setSessions(getAllSessions());
+    };
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key?.startsWith(CHAT_HISTORY_STORAGE_KEY)) refresh();
+    };
+
+    refresh();
+    void whenStorageReady().then(refresh);
+    window.addEventListener("storage", handleStorage);
+    window.addEventListener(STORAGE_CHANGE_EVENT, refresh);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("storage", handleStorage);
+      window.removeEventListener(STORAGE_CHANGE_EVENT, refresh);
+    };
+  }, []);
+
+  const results = useMemo(() => {
+    index.update(sessions);
+    return index.search(query);
+  }, [index, sessions, query]);
+
+  const handleQueryChange = useCallback(
+    (value: string) => {
+      setQuery(value);
+      const params = value.trim() ? `?q=${encodeURIComponent(value)}` : "";
+      router.replace(`/history${params}` as Route, { scroll: false });
+    },
+    [router],
+  );
+
+  const handleResultClick = useCallback(
+    (result: HistorySearchResult) => {
+      analytics.track("chat:history_result_opened", {
+        session_id: result.sessionId,
+        agent_id: result.agentId,
+        matched_in: result.matchedIn,
+        result_count: results.length,
+      });
+    },
+    [results.length],
+  );
+
+  return (
+    <div className="min-h-screen-dynamic bg-zinc-50 dark:bg-zinc-950">
+      <header className="safe-area-inset-top flex items-center justify-between px-4 py-3 sm:px-6">
+        <Link
+          href="/"
+          className="text-sm font-medium text-zinc-700 hover:underline dark:text-zinc-300"
+        >
+          ← Back to search
+        </Link>
+        <UserMenu />
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-4 px-4 pb-16">
+        <h1 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100">
+          Search chats
+        </h1>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => handleQueryChange(e.target.value)}
+          placeholder='e.g. tiffany, "dragonfly lamp" or platform:1stdibs'
+          aria-label="Search chat history"
+          autoFocus
+          className="w-full rounded-lg border border-zinc-200 bg-white px-4 py-2.5 text-sm text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-400 focus:outline-none dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100 dark:placeholder:text-zinc-500"
+        />
+
+        {!query.trim() && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Search your messages, the searches the agents ran and the items they
+            found, by title or ID. Narrow results with <code>platform:</code>,{" "}
+            <code>agent:</code> or <code>tool:</code>.
+          </p>
+        )}
+
+        {query.trim() && results.length === 0 && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            No chats match &ldquo;{query.trim()}&rdquo;.
+          </p>
+        )}
+
+        {results.length > 0 && (
+          <ul className="space-y-2">
+            {results.map((result) => (
+              <li key={`${result.sessionId}:${result.messageId}`}>
+                <Link
+                  href={getResultHref(result)}
+                  onClick={() => handleResultClick(result)}
+                  className="block rounded-lg border border-zinc-200 bg-white px-4 py-3 transition-colors hover:border-zinc-300 hover:bg-zinc-50 dark:border-zinc-800 dark:bg-zinc-900 dark:hover:border-zinc-700 dark:hover:bg-zinc-800"
+                  data-testid="history-search-result"
+                >
+                  <div className="flex items-center gap-2">
+                    <p className="min-w-0 flex-1 truncate text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                      {result.preview}
+                    </p>
+                    <Badge variant="outline">
+                      {MATCH_LABELS[result.matchedIn]}
+                    </Badge>
+                  </div>
+                  <p className="mt-1 line-clamp-2 text-sm text-zinc-600 dark:text-zinc-300">
+                    {result.snippet}
+                  </p>
+                  <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                    {getAgentDisplayName(result.agentId)} ·{" "}
+                    {formatRelativeTime(result.updatedAt)}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -12,9 +12,11 @@ import type { Route } from "next";
 import { analytics } from "@/lib/analytics";
 import { generateSessionId } from "@/lib/chat-history";
 import { UserMenu } from "@/components/auth";
+import { CurrencySelect } from "@/components/ui/CurrencySelect";
 import { BrandLogo } from "./BrandLogo";
 import { SearchBox } from "./SearchBox";
 import { RecentChats } from "./RecentChats";
+import { SavedSearches } from "./SavedSearches";
 import { ErrorBanner } from "./ErrorBanner";
 import type { AgentId } from "@/lib/agent/types";
 
@@ -54,7 +56,8 @@ export function HomePage() {
     <div className="flex h-screen-dynamic flex-col bg-zinc-50 dark:bg-zinc-950">
       {/* Header with auth */}
       <header className="safe-area-inset-top flex justify-end px-4 py-3 sm:px-6">
-        <div className="safe-area-inset-x">
+        <div className="flex items-center gap-4 safe-area-inset-x">
+          <CurrencySelect />
           <UserMenu />
         </div>
       </header>
@@ -75,7 +78,12 @@ export function HomePage() {
 
           <SearchBox onSubmit={handleSubmit} />
 
-          <RecentChats />
+          <div className="flex w-full flex-col items-center md:flex-row md:items-start md:justify-center">
+            <SavedSearches
+              onOpen={(message) => handleSubmit(message, DEFAULT_AGENT)}
+            />
+            <RecentChats />
+          </div>
         </div>
       </main>
     </div>
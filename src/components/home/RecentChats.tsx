@@ -81,9 +81,10 @@ function subscribeToStorage(callback: () => void): () => void {
     callback();
   };
 
-  // Cross-tab changes via browser StorageEvent
+  // Cross-tab changes via browser StorageEvent, including the per-user
+  // cache kept while chat history syncs with the server
   const handleStorage = (e: StorageEvent) => {
-    if (e.key === STORAGE_KEY) {
+    if (e.key?.startsWith(STORAGE_KEY)) {
       handleStorageChange();
     }
   };
@@ -168,9 +169,17 @@ export function RecentChats() {
 
   return (
     <div className="mt-8 w-full max-w-2xl px-4">
-      <h2 className="mb-3 text-center text-sm font-medium text-zinc-500 dark:text-zinc-400">
-        Recent Chats
-      </h2>
+      <div className="relative mb-3 flex items-center justify-center">
+        <h2 className="text-sm font-medium text-zinc-500 dark:text-zinc-400">
+          Recent Chats
+        </h2>
+        <Link
+          href="/history"
+          className="absolute right-0 text-xs font-medium text-zinc-500 hover:text-zinc-700 hover:underline dark:text-zinc-400 dark:hover:text-zinc-200"
+        >
+          Search all
+        </Link>
+      </div>
       <div className="space-y-2">
         {sessions.map((session) => (
           <SwipeableChatItem
@@ -0,0 +1,97 @@
+"use client";
+
+/**
+ * Lists the signed-in user's saved searches on the landing page, with the
+ * number of new matches since each was last opened.
+ * Opening one starts a new chat running the query.
+ */
+
+import { useCallback } from "react";
+import {
+  describeSavedSearchQuery,
+  useSavedSearches,
+  type SavedSearchSummary,
+} from "@/lib/saved-searches";
+
+interface SavedSearchesProps {
+  /** Start a chat with the given message */
+  onOpen: (message: string) => void;
+}
+
+/**
+ * Chat message that re-runs a saved search.
+ * Exported for testing.
+ */
+export function getSavedSearchMessage(search: SavedSearchSummary): string {
+  return `Find ${describeSavedSearchQuery(search.query)}`;
+}
+
+export function SavedSearches({ onOpen }: SavedSearchesProps) {
+  const { searches, markViewed, remove } = useSavedSearches();
+
+  const handleOpen = useCallback(
+    (search: SavedSearchSummary) => {
+      markViewed(search.id).catch((error) => {
+        console.warn("Failed to mark saved search viewed:", error);
+      });
+      onOpen(getSavedSearchMessage(search));
+    },
+    [markViewed, onOpen],
+  );
+
+  const handleRemove = useCallback(
+    (search: SavedSearchSummary) => {
+      remove(search.id).catch((error) => {
+        console.warn("Failed to remove saved search:", error);
+      });
+    },
+    [remove],
+  );
+
+  if (searches.length === 0) return null;
+
+  return (
+    <div className="mt-8 w-full max-w-2xl px-4">
+      <h2 className="mb-3 text-center text-sm font-medium text-zinc-500 dark:text-zinc-400">
+        Saved Searches
+      </h2>
+      <div className="space-y-2">
+        {searches.map((search) => (
+          <div
+            key={search.id}
+            className="flex w-full items-center gap-3 rounded-lg border border-zinc-200 bg-white px-4 py-3 dark:border-zinc-800 dark:bg-zinc-900"
+            data-testid="saved-search-item"
+          >
+            <button
+              type="button"
+              onClick={() => handleOpen(search)}
+              className="min-w-0 flex-1 text-left"
+            >
+              <p className="truncate text-sm font-medium text-zinc-900 hover:underline dark:text-zinc-100">
+                {search.name}
+              </p>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                {search.newMatchCount > 0
+                  ? `${search.newMatchCount} new since last visit`
+                  : "No new matches"}
+              </p>
+            </button>
+            {search.newMatchCount > 0 && (
+              <span className="shrink-0 rounded-full bg-[var(--accent)] px-2 py-0.5 text-xs font-medium text-white">
+                {search.newMatchCount}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => handleRemove(search)}
+              aria-label={`Remove saved search ${search.name}`}
+              className="shrink-0 text-xs text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
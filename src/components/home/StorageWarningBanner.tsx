@@ -0,0 +1,63 @@
+"use client";
+
+/**
+ * Warns when chat history is running out of browser storage: when it's
+ * nearly full, when old chats were removed to make room, or when a chat
+ * couldn't be saved. Listens for warnings from the IndexedDB chat history.
+ */
+
+import { useEffect, useState } from "react";
+import { analytics } from "@/lib/analytics";
+import { STORAGE_WARNING_EVENT, type StorageWarning } from "@/lib/chat-history";
+
+function warningMessage(warning: StorageWarning): string {
+  switch (warning.type) {
+    case "nearly-full":
+      return "Your browser storage is nearly full. The oldest chats will be removed to make room for new ones.";
+    case "evicted":
+      return warning.evictedCount === 1
+        ? "Your oldest chat was removed to free up browser storage."
+        : `Your ${warning.evictedCount} oldest chats were removed to free up browser storage.`;
+    case "save-failed":
+      return "This chat couldn't be saved because your browser storage is full.";
+  }
+}
+
+export function StorageWarningBanner() {
+  const [warning, setWarning] = useState<StorageWarning | null>(null);
+
+  useEffect(() => {
+    const handleWarning = (e: Event) => {
+      const detail = (e as CustomEvent<StorageWarning>).detail;
+      analytics.track("chat:storage_warning", {
+        type: detail.type,
+        evicted_count: detail.type === "evicted" ? detail.evictedCount : 0,
+      });
+      setWarning(detail);
+    };
+
+    window.addEventListener(STORAGE_WARNING_EVENT, handleWarning);
+    return () => {
+      window.removeEventListener(STORAGE_WARNING_EVENT, handleWarning);
+    };
+  }, []);
+
+  if (!warning) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-4 bottom-4 z-50 mx-auto flex max-w-md items-start gap-3 rounded-lg bg-amber-50 px-4 py-3 text-sm text-amber-800 shadow-lg dark:bg-amber-950/80 dark:text-amber-300"
+      data-testid="storage-warning-banner"
+    >
+      <p className="flex-1">{warningMessage(warning)}</p>
+      <button
+        type="button"
+        onClick={() => setWarning(null)}
+        className="shrink-0 text-xs text-amber-600 hover:text-amber-800 dark:text-amber-400 dark:hover:text-amber-200"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, waitFor, act } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { HistorySearch, getResultHref } from "../HistorySearch";
+import {
+  setStorageProvider,
+  resetStorageProvider,
+  createMemoryStorageProvider,
+  saveSession,
+} from "@/lib/chat-history";
+
+const mockTrack = vi.fn();
+vi.mock("@/lib/analytics", () => ({
+  analytics: { track: (...args: unknown[]) => mockTrack(...args) },
+}));
+
+const mockReplace = vi.fn();
+const mockSearchParamsGet = vi.fn();
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ replace: mockReplace }),
+  useSearchParams: () => ({ get: mockSearchParamsGet }),
+}));
+
+// Mock UserMenu to avoid Clerk dependency
+vi.mock("@/components/auth", () => ({
+  UserMenu: () => <div data-testid="user-menu">User Menu</div>,
+}));
+
+// History loads again once storage is ready
+async function renderSearch() {
+  await act(async () => {
+    render(<HistorySearch />);
+  });
+}
+
+describe("HistorySearch", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSearchParamsGet.mockReturnValue(null);
+    setStorageProvider(createMemoryStorageProvider());
+    saveSession(
+      "chat-1",
+      "curator",
+      [
+        {
+          id: "msg-1",
+          role: "user",
+          parts: [{ type: "text", text: "Find Tiffany lamps" }],
+        },
+        {
+          id: "msg-2",
+          role: "assistant",
+          parts: [{ type: "text", text: "Here are some Gallé vases" }],
+        },
+      ],
+      "Lamp search",
+    );
+  });
+
+  afterEach(() => {
+    resetStorageProvider();
+  });
+
+  it("explains the query syntax before searching", async () => {
+    await renderSearch();
+
+    expect(screen.getByText(/Narrow results with/)).toBeDefined();
+    expect(screen.queryAllByTestId("history-search-result")).toHaveLength(0);
+  });
+
+  it("searches as the user types and keeps the query in the URL", async () => {
+    const user = userEvent.setup();
+    await renderSearch();
+
+    await user.type(screen.getByLabelText("Search chat history"), "galle");
+
+    const results = screen.getAllByTestId("history-search-result");
+    expect(results).toHaveLength(1);
+    expect(results[0].textContent).toContain("Here are some Gallé vases");
+    expect(results[0].getAttribute("href")).toBe("/chat-1?message=msg-2");
+    expect(mockReplace).toHaveBeenLastCalledWith("/history?q=galle", {
+      scroll: false,
+    });
+  });
+
+  it("runs the query from the URL", async () => {
+    mockSearchParamsGet.mockImplementation((key: string) =>
+      key === "q" ? "tiffany" : null,
+    );
+
+    await renderSearch();
+
+    expect(
+      screen.getAllByTestId("history-search-result")[0].getAttribute("href"),
+    ).toBe("/chat-1?message=msg-1");
+  });
+
+  it("says when nothing matches", async () => {
+    mockSearchParamsGet.mockReturnValue("netsuke");
+
+    await renderSearch();
+
+    expect(screen.getByText(/No chats match/)).toBeDefined();
+  });
+
+  it("picks up sessions saved after loading", async () => {
+    mockSearchParamsGet.mockReturnValue("netsuke");
+    await renderSearch();
+
+    act(() => {
+      saveSession(
+        "chat-2",
+        "appraiser",
+        [
+          {
+            id: "msg-3",
+            role: "user",
+            parts: [{ type: "text", text: "Is this netsuke ivory?" }],
+          },
+        ],
+        "Netsuke",
+      );
+    });
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId("history-search-result")).toHaveLength(1);
+    });
+  });
+
+  it("tracks opened results", async () => {
+    mockSearchParamsGet.mockReturnValue("tiffany");
+    const user = userEvent.setup();
+    await renderSearch();
+
+    await user.click(screen.getByTestId("history-search-result"));
+
+    expect(mockTrack).toHaveBeenCalledWith("chat:history_result_opened", {
+      session_id: "chat-1",
+      agent_id: "curator",
+      matched_in: "text",
+      result_count: 1,
+    });
+  });
+
+  describe("getResultHref", () => {
+    it("encodes the message ID", () => {
+      expect(
+        getResultHref({
+          sessionId: "chat-1",
+          messageId: "msg 1",
+          role: "user",
+          preview: "",
+          agentId: "curator",
+          updatedAt: 0,
+          matchedIn: "text",
+          snippet: "",
+        }),
+      ).toBe("/chat-1?message=msg%201");
+    });
+  });
+});
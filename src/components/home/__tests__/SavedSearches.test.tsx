@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import type { SavedSearchSummary } from "@/lib/saved-searches";
+import { SavedSearches, getSavedSearchMessage } from "../SavedSearches";
+
+const mockMarkViewed = vi.fn();
+const mockRemove = vi.fn();
+let mockSearches: SavedSearchSummary[] = [];
+
+vi.mock("@/lib/saved-searches", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/saved-searches")>()),
+  useSavedSearches: () => ({
+    isAvailable: true,
+    searches: mockSearches,
+    save: vi.fn(),
+    remove: mockRemove,
+    markViewed: mockMarkViewed,
+  }),
+}));
+
+function savedSearch(
+  overrides: Partial<SavedSearchSummary> = {},
+): SavedSearchSummary {
+  return {
+    id: "search-1",
+    name: "art deco lamps under $500",
+    query: { keywords: "art deco lamps", priceRange: { max: 500 } },
+    createdAt: "2026-06-01T00:00:00.000Z",
+    newMatchCount: 0,
+    ...overrides,
+  };
+}
+
+describe("SavedSearches", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockMarkViewed.mockResolvedValue(undefined);
+    mockRemove.mockResolvedValue(undefined);
+    mockSearches = [];
+  });
+
+  it("renders nothing without saved searches", () => {
+    const { container } = render(<SavedSearches onOpen={vi.fn()} />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it("shows the new-match count", () => {
+    mockSearches = [savedSearch({ newMatchCount: 3 })];
+    render(<SavedSearches onOpen={vi.fn()} />);
+
+    expect(screen.getByText("3 new since last visit")).toBeDefined();
+  });
+
+  it("opens a chat and marks the search viewed", async () => {
+    const user = userEvent.setup();
+    const onOpen = vi.fn();
+    mockSearches = [savedSearch({ newMatchCount: 3 })];
+    render(<SavedSearches onOpen={onOpen} />);
+
+    await user.click(screen.getByText("art deco lamps under $500"));
+
+    expect(mockMarkViewed).toHaveBeenCalledWith("search-1");
+    expect(onOpen).toHaveBeenCalledWith("Find art deco lamps under $500");
+  });
+
+  it("removes a search", async () => {
+    const user = userEvent.setup();
+    mockSearches = [savedSearch()];
+    render(<SavedSearches onOpen={vi.fn()} />);
+
+    await user.click(
+      screen.getByRole("button", { name: /remove saved search/i }),
+    );
+
+    expect(mockRemove).toHaveBeenCalledWith("search-1");
+  });
+
+  it("builds the chat message from the query", () => {
+    expect(
+      getSavedSearchMessage(
+        savedSearch({
+          query: { keywords: "tiffany lamp", priceRange: { min: 1000 } },
+        }),
+      ),
+    ).toBe("Find tiffany lamp over $1000");
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, act, fireEvent } from "@testing-library/react";
+import { StorageWarningBanner } from "../StorageWarningBanner";
+import { STORAGE_WARNING_EVENT, type StorageWarning } from "@/lib/chat-history";
+
+// Mock analytics
+const mockTrack = vi.fn();
+vi.mock("@/lib/analytics", () => ({
+  analytics: { track: (...args: unknown[]) => mockTrack(...args) },
+}));
+
+function dispatchWarning(warning: StorageWarning) {
+  act(() => {
+    window.dispatchEvent(
+      new CustomEvent(STORAGE_WARNING_EVENT, { detail: warning }),
+    );
+  });
+}
+
+describe("StorageWarningBanner", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("renders nothing until a warning arrives", () => {
+    const { container } = render(<StorageWarningBanner />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it("tells the user how many chats were evicted", () => {
+    render(<StorageWarningBanner />);
+
+    dispatchWarning({ type: "evicted", evictedCount: 3 });
+
+    expect(screen.getByTestId("storage-warning-banner").textContent).toContain(
+      "Your 3 oldest chats were removed",
+    );
+    expect(mockTrack).toHaveBeenCalledWith("chat:storage_warning", {
+      type: "evicted",
+      evicted_count: 3,
+    });
+  });
+
+  it("can be dismissed", () => {
+    render(<StorageWarningBanner />);
+    dispatchWarning({ type: "save-failed" });
+
+    fireEvent.click(screen.getByText("Dismiss"));
+
+    expect(screen.queryByTestId("storage-warning-banner")).toBeNull();
+  });
+});
@@ -6,6 +6,9 @@ export { HomePage } from "./HomePage";
 export { BrandLogo } from "./BrandLogo";
 export { SearchBox } from "./SearchBox";
 export { RecentChats } from "./RecentChats";
+export { SavedSearches } from "./SavedSearches";
 export { NewUIContainer } from "./NewUIContainer";
 export { ChatView } from "./ChatView";
 export { ErrorBanner } from "./ErrorBanner";
+export { StorageWarningBanner } from "./StorageWarningBanner";
+export { HistorySearch } from "./HistorySearch";
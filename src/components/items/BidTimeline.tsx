@@ -0,0 +1,128 @@
+"use client";
+
+/**
+ * Bid amounts over time with bidder count, so users can gauge competition.
+ */
+
+import type { BidTimeline as BidTimelineData } from "@/lib/bids";
+import { Price } from "@/components/ui/Price";
+
+interface BidTimelineProps {
+  timeline: BidTimelineData;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+const CHART_PADDING = 6;
+const RECENT_BID_COUNT = 5;
+
+function formatBidTime(timestamp: Date | string): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Chart coordinates for each bid: time on x, amount on y.
+ * Dates arrive as strings once a tool result has been serialized.
+ */
+function chartPoints(timeline: BidTimelineData): Array<[number, number]> {
+  const times = timeline.bids.map((bid) => new Date(bid.timestamp).getTime());
+  const amounts = timeline.bids.map((bid) => bid.amount);
+  const minTime = Math.min(...times);
+  const timeSpan = Math.max(...times) - minTime;
+  const minAmount = Math.min(...amounts);
+  const amountSpan = Math.max(...amounts) - minAmount;
+  const innerWidth = CHART_WIDTH - 2 * CHART_PADDING;
+  const innerHeight = CHART_HEIGHT - 2 * CHART_PADDING;
+
+  return timeline.bids.map((_, i) => [
+    CHART_PADDING +
+      (timeSpan > 0
+        ? ((times[i] - minTime) / timeSpan) * innerWidth
+        : innerWidth / 2),
+    CHART_PADDING +
+      innerHeight -
+      (amountSpan > 0
+        ? ((amounts[i] - minAmount) / amountSpan) * innerHeight
+        : innerHeight / 2),
+  ]);
+}
+
+export function BidTimeline({ timeline }: BidTimelineProps) {
+  if (timeline.bidCount === 0) {
+    return (
+      <p
+        className="text-sm text-zinc-500 dark:text-zinc-400"
+        data-testid="bid-timeline"
+      >
+        No bids yet
+      </p>
+    );
+  }
+
+  const points = chartPoints(timeline);
+  const recentBids = timeline.bids.slice(-RECENT_BID_COUNT).reverse();
+
+  return (
+    <div className="space-y-2" data-testid="bid-timeline">
+      <p className="text-sm text-zinc-600 dark:text-zinc-400">
+        {timeline.bidCount} bid{timeline.bidCount !== 1 ? "s" : ""} from{" "}
+        {timeline.bidderCount} bidder{timeline.bidderCount !== 1 ? "s" : ""}
+        {timeline.openingBid !== undefined &&
+          timeline.currentBid !== undefined &&
+          timeline.currentBid > timeline.openingBid && (
+            <>
+              {", "}
+              <Price
+                amount={timeline.openingBid}
+                currency={timeline.currency}
+                size="sm"
+              />
+              {" → "}
+              <Price
+                amount={timeline.currentBid}
+                currency={timeline.currency}
+                size="sm"
+              />
+            </>
+          )}
+      </p>
+
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="h-20 w-full text-[var(--accent)]"
+        role="img"
+        aria-label="Bid amount over time"
+      >
+        <polyline
+          points={points.map(([x, y]) => `${x},${y}`).join(" ")}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+        {points.map(([x, y], i) => (
+          <circle key={i} cx={x} cy={y} r={3} fill="currentColor" />
+        ))}
+      </svg>
+
+      <ul className="space-y-1">
+        {recentBids.map((bid, i) => (
+          <li
+            key={i}
+            className="flex justify-between gap-4 text-xs text-zinc-500 dark:text-zinc-400"
+          >
+            <span>
+              {bid.bidder} · {formatBidTime(bid.timestamp)}
+            </span>
+            <Price amount={bid.amount} currency={bid.currency} size="sm" />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+/**
+ * Side-by-side comparison of 2–4 lots, one column per item and one row per
+ * attribute. The most favorable price and seller rating are highlighted.
+ */
+
+import type { ComparisonValue, ItemComparison } from "@/lib/comparison";
+import { getPlatformDisplayName } from "@/lib/adapters/platforms";
+import { getProxiedImageUrl } from "@/lib/image-proxy";
+import { Price } from "@/components/ui/Price";
+import { formatTimeRemaining } from "./ItemCard";
+
+interface ComparisonTableProps {
+  comparison: ItemComparison;
+}
+
+function formatEndTime(date: string): string {
+  const remaining = formatTimeRemaining(date);
+  const formatted = new Date(date).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return remaining === "Ended"
+    ? `Ended ${formatted}`
+    : `${formatted} (${remaining})`;
+}
+
+function ComparisonCell({ value }: { value: ComparisonValue | null }) {
+  if (!value) {
+    return <span className="text-zinc-400 dark:text-zinc-600">—</span>;
+  }
+
+  switch (value.kind) {
+    case "money":
+      return (
+        <Price amount={value.amount} currency={value.currency} size="sm" />
+      );
+    case "range":
+      return (
+        <>
+          <Price amount={value.low} currency={value.currency} size="sm" />
+          {" – "}
+          <Price amount={value.high} currency={value.currency} size="sm" />
+        </>
+      );
+    case "rating":
+      return <span>{value.rating.toFixed(1)}</span>;
+    case "date":
+      return <span>{formatEndTime(value.date)}</span>;
+    case "text":
+      return <span>{value.text}</span>;
+  }
+}
+
+export function ComparisonTable({ comparison }: ComparisonTableProps) {
+  const { items, rows, unavailable } = comparison;
+
+  return (
+    <div className="space-y-2" data-testid="comparison-table">
+      <div className="overflow-x-auto rounded-lg border border-zinc-200 bg-white dark:border-zinc-700 dark:bg-zinc-900">
+        <table className="w-full min-w-[32rem] table-fixed text-left text-sm">
+          <thead>
+            <tr className="border-b border-zinc-200 dark:border-zinc-700">
+              <th className="w-28 p-3" scope="col">
+                <span className="sr-only">Attribute</span>
+              </th>
+              {items.map((item) => (
+                <th
+                  key={`${item.platform}-${item.itemId}`}
+                  className="p-3 align-top font-normal"
+                  scope="col"
+                >
+                  {item.imageUrl && (
+                    /* eslint-disable-next-line @next/next/no-img-element */
+                    <img
+                      src={getProxiedImageUrl(item.imageUrl)}
+                      alt=""
+                      className="mb-2 aspect-[4/3] w-full rounded object-cover"
+                      loading="lazy"
+                    />
+                  )}
+                  <a
+                    href={item.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="line-clamp-2 font-medium text-zinc-900 hover:underline dark:text-zinc-100"
+                  >
+                    {item.title}
+                  </a>
+                  <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {getPlatformDisplayName(item.platform)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.attribute}
+                className="border-b border-zinc-100 last:border-0 dark:border-zinc-800"
+              >
+                <th
+                  scope="row"
+                  className="p-3 align-top text-xs font-medium text-zinc-500 dark:text-zinc-400"
+                >
+                  {row.label}
+                </th>
+                {row.values.map((value, i) => (
+                  <td
+                    key={i}
+                    className={`p-3 align-top break-words text-zinc-700 dark:text-zinc-300 ${
+                      row.best === i
+                        ? "bg-green-50 font-medium dark:bg-green-950"
+                        : ""
+                    }`}
+                  >
+                    <ComparisonCell value={value} />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {unavailable.length > 0 && (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          Couldn&apos;t load{" "}
+          {unavailable
+            .map((u) => `${getPlatformDisplayName(u.platform)} #${u.itemId}`)
+            .join(", ")}
+          .
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+/**
+ * Parsed condition report: grade, detected issues and what the listing
+ * rules out, above the listing's own condition text.
+ */
+
+import type { UnifiedItem } from "@/lib/adapters/types";
+import {
+  analyzeItemCondition,
+  CONDITION_ISSUE_LABELS,
+  type ConditionIssueSeverity,
+  type ConditionReport,
+} from "@/lib/condition";
+import { Badge } from "@/components/ui/Badge";
+
+interface ConditionPanelProps {
+  item: Pick<UnifiedItem, "condition" | "conditionNotes" | "conditionReport">;
+}
+
+const SEVERITY_VARIANTS: Record<
+  ConditionIssueSeverity,
+  "outline" | "warning" | "error"
+> = {
+  minor: "outline",
+  moderate: "warning",
+  major: "error",
+};
+
+const CONFIDENCE_LABELS: Record<ConditionReport["confidence"], string> = {
+  high: "Detailed report",
+  medium: "Partial report",
+  low: "Limited information",
+};
+
+export function ConditionPanel({ item }: ConditionPanelProps) {
+  // Items saved before condition analysis have no report
+  const report = item.conditionReport ?? analyzeItemCondition(item);
+  if (!report) return null;
+
+  return (
+    <div data-testid="condition-panel">
+      <div className="mb-1 flex flex-wrap items-center gap-2">
+        <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          Condition
+        </h3>
+        {report.gradeLabel && (
+          <Badge variant="default">
+            {report.gradeLabel}
+            {report.gradeSource === "inferred" && " (inferred)"}
+          </Badge>
+        )}
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">
+          {CONFIDENCE_LABELS[report.confidence]}
+        </span>
+      </div>
+
+      {report.issues.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {report.issues.map((issue) => (
+            <li
+              key={issue.type}
+              className="flex items-start gap-2 text-sm text-zinc-600 dark:text-zinc-400"
+            >
+              <Badge variant={SEVERITY_VARIANTS[issue.severity]}>
+                {CONDITION_ISSUE_LABELS[issue.type]}
+              </Badge>
+              <span className="line-clamp-2 first-letter:uppercase">
+                {issue.excerpt}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report.ruledOut.length > 0 && (
+        <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+          Reported free of:{" "}
+          {report.ruledOut
+            .map((type) => CONDITION_ISSUE_LABELS[type].toLowerCase())
+            .join(", ")}
+        </p>
+      )}
+
+      {item.condition && (
+        <p className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
+          {item.condition}
+        </p>
+      )}
+      {item.conditionNotes && (
+        <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-500">
+          {item.conditionNotes}
+        </p>
+      )}
+    </div>
+  );
+}
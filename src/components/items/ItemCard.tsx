@@ -2,17 +2,24 @@
 
 import { useState } from "react";
 import { analytics } from "@/lib/analytics";
-import type { SearchResult } from "@/lib/adapters/types";
+import type { PlatformOffer, SearchResult } from "@/lib/adapters/types";
+import { getPlatformDisplayName } from "@/lib/adapters/platforms";
 import { Badge } from "@/components/ui/Badge";
 import { Price } from "@/components/ui/Price";
 import { getProxiedImageUrl } from "@/lib/image-proxy";
+import { WatchButton } from "@/components/watchlist";
 
 interface ItemCardProps {
   item: SearchResult;
   onSelect?: (item: SearchResult) => void;
+  /** Shows a "Compare" checkbox when provided */
+  onToggleCompare?: (item: SearchResult) => void;
+  isSelectedForCompare?: boolean;
+  /** Disables an unchecked box once the comparison is full */
+  compareDisabled?: boolean;
 }
 
-function formatTimeRemaining(endTime?: Date): string | null {
+export function formatTimeRemaining(endTime?: Date | string): string | null {
   if (!endTime) return null;
   const now = new Date();
   const end = new Date(endTime);
@@ -28,7 +35,13 @@ function formatTimeRemaining(endTime?: Date): string | null {
   return `${minutes}m`;
 }
 
-export function ItemCard({ item, onSelect }: ItemCardProps) {
+export function ItemCard({
+  item,
+  onSelect,
+  onToggleCompare,
+  isSelectedForCompare = false,
+  compareDisabled = false,
+}: ItemCardProps) {
   const [imgError, setImgError] = useState(false);
   const timeRemaining = formatTimeRemaining(item.endTime);
 
@@ -85,6 +98,27 @@ export function ItemCard({ item, onSelect }: ItemCardProps) {
             {item.status}
           </Badge>
         )}
+        {onToggleCompare && (
+          <label
+            className="absolute top-2 left-2 flex items-center gap-1 rounded bg-white/90 px-2 py-1 text-xs text-zinc-700 dark:bg-zinc-900/90 dark:text-zinc-300"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <input
+              type="checkbox"
+              checked={isSelectedForCompare}
+              disabled={compareDisabled && !isSelectedForCompare}
+              onChange={() => onToggleCompare(item)}
+            />
+            Compare
+          </label>
+        )}
+        {item.status !== "sold" && (
+          <WatchButton
+            platform={item.platform}
+            itemId={item.itemId}
+            className="absolute top-2 right-2"
+          />
+        )}
       </div>
 
       <div className="p-3">
@@ -117,7 +151,45 @@ export function ItemCard({ item, onSelect }: ItemCardProps) {
             </Badge>
           )}
         </div>
+
+        {item.alsoOn && item.alsoOn.length > 0 && (
+          <AlsoOnLinks offers={item.alsoOn} />
+        )}
       </div>
     </div>
   );
 }
+
+function AlsoOnLinks({ offers }: { offers: PlatformOffer[] }) {
+  const handleClick = (
+    event: React.MouseEvent<HTMLAnchorElement>,
+    offer: PlatformOffer,
+  ) => {
+    // Don't trigger the card's own click handler
+    event.stopPropagation();
+    analytics.track("chat:link_clicked", {
+      item_id: offer.itemId,
+      platform: offer.platform,
+      url: offer.url,
+      source: "user",
+    });
+  };
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-x-2 gap-y-1 border-t border-zinc-100 pt-2 text-xs text-zinc-500 dark:border-zinc-800 dark:text-zinc-400">
+      <span>Also on</span>
+      {offers.map((offer) => (
+        <a
+          key={`${offer.platform}-${offer.itemId}`}
+          href={offer.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(event) => handleClick(event, offer)}
+          className="font-medium text-[var(--accent)] hover:underline"
+        >
+          {getPlatformDisplayName(offer.platform)}
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -1,20 +1,52 @@
 "use client";
 
+import { useState } from "react";
 import type { SearchResult } from "@/lib/adapters/types";
 import { ItemCard } from "./ItemCard";
 import { ItemCardSkeleton } from "@/components/ui/Skeleton";
+import { Button } from "@/components/ui/Button";
+import { MAX_COMPARE_ITEMS, MIN_COMPARE_ITEMS } from "@/lib/comparison";
 
 interface ItemCardGridProps {
   items: SearchResult[];
   isLoading?: boolean;
   onSelect?: (item: SearchResult) => void;
+  /** Whether another page is available; shows the "Load more" control */
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  /** Enables comparison checkboxes; called with the selected items */
+  onCompare?: (items: SearchResult[]) => void;
+  isComparing?: boolean;
+}
+
+function itemKey(item: SearchResult): string {
+  return `${item.platform}-${item.itemId}`;
 }
 
 export function ItemCardGrid({
   items,
   isLoading,
   onSelect,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  onCompare,
+  isComparing,
 }: ItemCardGridProps) {
+  const [selected, setSelected] = useState<SearchResult[]>([]);
+  const selectedKeys = new Set(selected.map(itemKey));
+
+  const handleToggleCompare = (item: SearchResult) => {
+    setSelected((current) =>
+      current.some((s) => itemKey(s) === itemKey(item))
+        ? current.filter((s) => itemKey(s) !== itemKey(item))
+        : current.length < MAX_COMPARE_ITEMS
+          ? [...current, item]
+          : current,
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
@@ -36,10 +68,52 @@ export function ItemCardGrid({
   }
 
   return (
-    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-      {items.map((item) => (
-        <ItemCard key={item.itemId} item={item} onSelect={onSelect} />
-      ))}
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {items.map((item) => (
+          <ItemCard
+            key={itemKey(item)}
+            item={item}
+            onSelect={onSelect}
+            onToggleCompare={onCompare ? handleToggleCompare : undefined}
+            isSelectedForCompare={selectedKeys.has(itemKey(item))}
+            compareDisabled={selected.length >= MAX_COMPARE_ITEMS}
+          />
+        ))}
+      </div>
+      {onCompare && selected.length > 0 && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-zinc-200 bg-zinc-50 px-3 py-2 text-sm text-zinc-600 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-400">
+          <span>
+            {selected.length} of {MAX_COMPARE_ITEMS} selected
+            {selected.length < MIN_COMPARE_ITEMS &&
+              ` — pick at least ${MIN_COMPARE_ITEMS}`}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setSelected([])}>
+              Clear
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => onCompare(selected)}
+              disabled={selected.length < MIN_COMPARE_ITEMS || isComparing}
+            >
+              {isComparing ? "Comparing..." : "Compare"}
+            </Button>
+          </div>
+        </div>
+      )}
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center">
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+          >
+            {isLoadingMore ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,16 +1,162 @@
 "use client";
 
+import { useState } from "react";
 import { analytics } from "@/lib/analytics";
 import type { UnifiedItem } from "@/lib/adapters/types";
+import {
+  supportsBidHistory,
+  supportsSellerProfile,
+} from "@/lib/adapters/platforms";
+import type { BidTimeline as BidTimelineData } from "@/lib/bids";
+import type { SellerProfile } from "@/lib/sellers";
 import { Badge } from "@/components/ui/Badge";
 import { Price, PriceRange } from "@/components/ui/Price";
 import { SafeHtml } from "@/components/ui/SafeHtml";
+import { WatchButton } from "@/components/watchlist";
 import { ImageGallery } from "./ImageGallery";
+import { BidTimeline } from "./BidTimeline";
+import { ConditionPanel } from "./ConditionPanel";
+import { SellerProfileCard } from "./SellerProfileCard";
 
 interface ItemDetailProps {
   item: UnifiedItem;
 }
 
+async function fetchBidTimeline(
+  platform: string,
+  itemId: string,
+): Promise<BidTimelineData> {
+  const params = new URLSearchParams({ platform, itemId });
+  const response = await fetch(`/api/bids?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+
+  return response.json() as Promise<BidTimelineData>;
+}
+
+function BidHistorySection({ item }: { item: UnifiedItem }) {
+  const [timeline, setTimeline] = useState<BidTimelineData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const handleLoad = async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setTimeline(await fetchBidTimeline(item.platform, item.platformItemId));
+    } catch {
+      setLoadError("Couldn't load bid history. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-zinc-200 pt-4 dark:border-zinc-700">
+      <h3 className="mb-2 text-sm font-medium text-zinc-700 dark:text-zinc-300">
+        Bid History
+      </h3>
+      {timeline ? (
+        <BidTimeline timeline={timeline} />
+      ) : (
+        <button
+          type="button"
+          onClick={handleLoad}
+          disabled={isLoading}
+          className="text-sm text-[var(--accent)] hover:underline disabled:opacity-50"
+        >
+          {isLoading ? "Loading bids..." : "Show bid timeline"}
+        </button>
+      )}
+      {loadError && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+          {loadError}
+        </p>
+      )}
+    </div>
+  );
+}
+
+async function fetchSellerProfile(
+  platform: string,
+  sellerId: string,
+): Promise<SellerProfile> {
+  const params = new URLSearchParams({ platform, sellerId });
+  const response = await fetch(`/api/sellers?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+
+  return response.json() as Promise<SellerProfile>;
+}
+
+function SellerSection({ item }: { item: UnifiedItem }) {
+  const [profile, setProfile] = useState<SellerProfile | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const sellerId = item.seller.id;
+  const hasProfile = !!sellerId && supportsSellerProfile(item.platform);
+
+  const handleToggle = async () => {
+    if (isOpen || profile) {
+      setIsOpen(!isOpen);
+      return;
+    }
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setProfile(await fetchSellerProfile(item.platform, sellerId!));
+      setIsOpen(true);
+    } catch {
+      setLoadError("Couldn't load seller profile. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-zinc-200 pt-4 dark:border-zinc-700">
+      <h3 className="mb-2 text-sm font-medium text-zinc-700 dark:text-zinc-300">
+        Seller
+      </h3>
+      {hasProfile ? (
+        <button
+          type="button"
+          onClick={handleToggle}
+          disabled={isLoading}
+          aria-expanded={isOpen}
+          className="text-sm text-[var(--accent)] hover:underline disabled:opacity-50"
+        >
+          {isLoading ? "Loading seller profile..." : item.seller.name}
+        </button>
+      ) : (
+        <p className="text-sm text-zinc-900 dark:text-zinc-100">
+          {item.seller.name}
+        </p>
+      )}
+      {item.seller.location && (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          {item.seller.location}
+        </p>
+      )}
+      {loadError && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+          {loadError}
+        </p>
+      )}
+      {isOpen && profile && (
+        <div className="mt-3 rounded-lg bg-zinc-50 p-3 dark:bg-zinc-800">
+          <SellerProfileCard profile={profile} />
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function ItemDetail({ item }: ItemDetailProps) {
   return (
     <div className="w-full max-w-full overflow-hidden rounded-lg border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-900 sm:p-4">
@@ -18,9 +164,16 @@ export function ItemDetail({ item }: ItemDetailProps) {
         <ImageGallery images={item.images} alt={item.title} />
 
         <div className="space-y-4">
-          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
-            {item.title}
-          </h2>
+          <div className="flex items-start justify-between gap-3">
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+              {item.title}
+            </h2>
+            <WatchButton
+              platform={item.platform}
+              itemId={item.platformItemId}
+              className="shrink-0"
+            />
+          </div>
 
           <div className="flex flex-wrap gap-2">
             {item.category.map((cat) => (
@@ -63,21 +216,7 @@ export function ItemDetail({ item }: ItemDetailProps) {
             </div>
           )}
 
-          {item.condition && (
-            <div>
-              <h3 className="mb-1 text-sm font-medium text-zinc-700 dark:text-zinc-300">
-                Condition
-              </h3>
-              <p className="text-sm text-zinc-600 dark:text-zinc-400">
-                {item.condition}
-              </p>
-              {item.conditionNotes && (
-                <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-500">
-                  {item.conditionNotes}
-                </p>
-              )}
-            </div>
-          )}
+          <ConditionPanel item={item} />
 
           {(item.dimensions || item.materials?.length) && (
             <div className="grid gap-4 sm:grid-cols-2">
@@ -104,19 +243,11 @@ export function ItemDetail({ item }: ItemDetailProps) {
             </div>
           )}
 
-          <div className="border-t border-zinc-200 pt-4 dark:border-zinc-700">
-            <h3 className="mb-2 text-sm font-medium text-zinc-700 dark:text-zinc-300">
-              Seller
-            </h3>
-            <p className="text-sm text-zinc-900 dark:text-zinc-100">
-              {item.seller.name}
-            </p>
-            {item.seller.location && (
-              <p className="text-sm text-zinc-500 dark:text-zinc-400">
-                {item.seller.location}
-              </p>
-            )}
-          </div>
+          {supportsBidHistory(item.platform) && !!item.bidCount && (
+            <BidHistorySection item={item} />
+          )}
+
+          <SellerSection item={item} />
 
           <a
             href={item.url}
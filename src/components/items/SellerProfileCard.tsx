@@ -0,0 +1,71 @@
+"use client";
+
+/**
+ * Seller or auction-house reputation: rating, activity, recent
+ * sell-through and the usual hammer price band.
+ */
+
+import type { SellerProfile } from "@/lib/sellers";
+import { getPlatformDisplayName } from "@/lib/adapters/platforms";
+import { PriceRange } from "@/components/ui/Price";
+
+interface SellerProfileCardProps {
+  profile: SellerProfile;
+}
+
+export function SellerProfileCard({ profile }: SellerProfileCardProps) {
+  const { recentSales, priceBand } = profile;
+  const completed = recentSales.sold + recentSales.passed;
+  const windowLabel =
+    recentSales.windowDays === 365
+      ? "past year"
+      : `past ${recentSales.windowDays} days`;
+
+  return (
+    <div className="space-y-3" data-testid="seller-profile">
+      <div>
+        <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+          {profile.name}
+        </p>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          {[profile.location, getPlatformDisplayName(profile.platform)]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        {profile.rating !== undefined && (
+          <>
+            <dt className="text-zinc-500 dark:text-zinc-400">Rating</dt>
+            <dd className="text-zinc-900 dark:text-zinc-100">
+              {profile.rating.toFixed(1)}
+            </dd>
+          </>
+        )}
+        <dt className="text-zinc-500 dark:text-zinc-400">Open lots</dt>
+        <dd className="text-zinc-900 dark:text-zinc-100">
+          {profile.activeLotCount}
+        </dd>
+        <dt className="text-zinc-500 dark:text-zinc-400">Sell-through</dt>
+        <dd className="text-zinc-900 dark:text-zinc-100">
+          {recentSales.sellThroughRate !== null
+            ? `${Math.round(recentSales.sellThroughRate * 100)}% of ${completed} lots, ${windowLabel}`
+            : `No completed lots, ${windowLabel}`}
+        </dd>
+        {priceBand && (
+          <>
+            <dt className="text-zinc-500 dark:text-zinc-400">Typical hammer</dt>
+            <dd className="text-zinc-900 dark:text-zinc-100">
+              <PriceRange
+                low={priceBand.low}
+                high={priceBand.high}
+                currency={priceBand.currency}
+              />
+            </dd>
+          </>
+        )}
+      </dl>
+    </div>
+  );
+}
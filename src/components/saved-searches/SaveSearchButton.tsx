@@ -0,0 +1,66 @@
+"use client";
+
+/**
+ * Saves a search so it can be re-run later with new matches highlighted.
+ * Hidden for signed-out users, who have no saved searches.
+ */
+
+import { useState } from "react";
+import { useSavedSearches, type SavedSearchQuery } from "@/lib/saved-searches";
+import { Button } from "@/components/ui/Button";
+
+interface SaveSearchButtonProps {
+  query: SavedSearchQuery;
+  platforms?: string[];
+}
+
+function isSameQuery(a: SavedSearchQuery, b: SavedSearchQuery): boolean {
+  return (
+    a.keywords.trim().toLowerCase() === b.keywords.trim().toLowerCase() &&
+    (a.category ?? "") === (b.category ?? "") &&
+    a.priceRange?.min === b.priceRange?.min &&
+    a.priceRange?.max === b.priceRange?.max
+  );
+}
+
+export function SaveSearchButton({ query, platforms }: SaveSearchButtonProps) {
+  const { isAvailable, searches, save } = useSavedSearches();
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  if (!isAvailable) return null;
+
+  const isSaved = searches.some((search) => isSameQuery(search.query, query));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await save({
+        query: {
+          keywords: query.keywords,
+          category: query.category,
+          priceRange: query.priceRange,
+        },
+        platforms,
+      });
+    } catch {
+      setSaveError("Couldn't save search. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      onClick={handleSave}
+      disabled={isSaving || isSaved}
+      title={saveError ?? undefined}
+    >
+      {isSaved ? "Saved" : isSaving ? "Saving..." : "Save search"}
+    </Button>
+  );
+}
@@ -0,0 +1 @@
+export { SaveSearchButton } from "./SaveSearchButton";
@@ -0,0 +1,34 @@
+"use client";
+
+import { STATIC_RATES } from "@/lib/fx/rates";
+import { useDisplayCurrency } from "@/lib/fx/DisplayCurrencyContext";
+
+const ORIGINAL_VALUE = "";
+const CURRENCIES = Object.keys(STATIC_RATES.rates).sort();
+
+interface CurrencySelectProps {
+  className?: string;
+}
+
+/**
+ * Header control for the display-currency preference.
+ */
+export function CurrencySelect({ className = "" }: CurrencySelectProps) {
+  const { displayCurrency, setDisplayCurrency } = useDisplayCurrency();
+
+  return (
+    <select
+      aria-label="Display currency"
+      value={displayCurrency ?? ORIGINAL_VALUE}
+      onChange={(e) => setDisplayCurrency(e.target.value || null)}
+      className={`rounded-md border border-zinc-200 bg-transparent px-2 py-1 text-sm text-zinc-700 dark:border-zinc-700 dark:text-zinc-300 ${className}`}
+    >
+      <option value={ORIGINAL_VALUE}>Original currency</option>
+      {CURRENCIES.map((code) => (
+        <option key={code} value={code}>
+          {code}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,3 +1,9 @@
+"use client";
+
+import { convertAmount, normalizeCurrencyCode } from "@/lib/fx/convert";
+import { STATIC_RATES } from "@/lib/fx/rates";
+import { useDisplayCurrency } from "@/lib/fx/DisplayCurrencyContext";
+
 interface PriceProps {
   amount: number;
   currency?: string;
@@ -11,24 +17,58 @@ const sizeStyles = {
   lg: "text-lg font-semibold",
 };
 
+function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Target currency for display, or null to keep the original currency.
+ */
+function useTargetCurrency(currency: string): string | null {
+  const { displayCurrency } = useDisplayCurrency();
+  if (!displayCurrency) return null;
+  return displayCurrency === normalizeCurrencyCode(currency)
+    ? null
+    : displayCurrency;
+}
+
+const conversionNote = `Converted at approximate rates as of ${STATIC_RATES.asOf}`;
+
 export function Price({
   amount,
   currency = "USD",
   className = "",
   size = "md",
 }: PriceProps) {
-  const formatted = new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency,
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount);
+  const target = useTargetCurrency(currency);
+  const converted =
+    target !== null ? convertAmount(amount, currency, target) : undefined;
+  const original = formatCurrency(amount, currency);
+
+  if (target === null || converted === undefined) {
+    return (
+      <span
+        className={`font-medium text-zinc-900 dark:text-zinc-100 ${sizeStyles[size]} ${className}`}
+      >
+        {original}
+      </span>
+    );
+  }
 
   return (
     <span
       className={`font-medium text-zinc-900 dark:text-zinc-100 ${sizeStyles[size]} ${className}`}
+      title={conversionNote}
     >
-      {formatted}
+      ≈ {formatCurrency(converted, target)}
+      <span className="ml-1 text-xs font-normal text-zinc-500 dark:text-zinc-400">
+        ({original})
+      </span>
     </span>
   );
 }
@@ -46,17 +86,32 @@ export function PriceRange({
   currency = "USD",
   className = "",
 }: PriceRangeProps) {
-  const format = (n: number) =>
-    new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(n);
+  const target = useTargetCurrency(currency);
+  const convertedLow =
+    target !== null ? convertAmount(low, currency, target) : undefined;
+  const convertedHigh =
+    target !== null ? convertAmount(high, currency, target) : undefined;
+
+  if (
+    target === null ||
+    convertedLow === undefined ||
+    convertedHigh === undefined
+  ) {
+    return (
+      <span className={`text-sm text-zinc-500 dark:text-zinc-400 ${className}`}>
+        Est. {formatCurrency(low, currency)} - {formatCurrency(high, currency)}
+      </span>
+    );
+  }
 
   return (
-    <span className={`text-sm text-zinc-500 dark:text-zinc-400 ${className}`}>
-      Est. {format(low)} - {format(high)}
+    <span
+      className={`text-sm text-zinc-500 dark:text-zinc-400 ${className}`}
+      title={conversionNote}
+    >
+      Est. ≈ {formatCurrency(convertedLow, target)} -{" "}
+      {formatCurrency(convertedHigh, target)} ({formatCurrency(low, currency)} -{" "}
+      {formatCurrency(high, currency)})
     </span>
   );
 }
@@ -0,0 +1,59 @@
+"use client";
+
+/**
+ * Toggle for adding a lot to the signed-in user's watchlist.
+ * Hidden for signed-out users, who have no watchlist.
+ */
+
+import { useState } from "react";
+import { useWatchlist } from "@/lib/watchlist";
+import { Button } from "@/components/ui/Button";
+
+interface WatchButtonProps {
+  platform: string;
+  itemId: string;
+  className?: string;
+}
+
+export function WatchButton({ platform, itemId, className }: WatchButtonProps) {
+  const { isAvailable, isWatched, watch, unwatch } = useWatchlist();
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  if (!isAvailable) return null;
+
+  const watched = isWatched(platform, itemId);
+
+  const handleClick = async (event: React.MouseEvent<HTMLButtonElement>) => {
+    // Don't trigger a surrounding card's click handler
+    event.stopPropagation();
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      if (watched) {
+        await unwatch(platform, itemId);
+      } else {
+        await watch(platform, itemId);
+      }
+    } catch {
+      setSaveError("Couldn't update watchlist. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={watched ? "primary" : "secondary"}
+      size="sm"
+      onClick={handleClick}
+      disabled={isSaving}
+      aria-pressed={watched}
+      title={saveError ?? undefined}
+      className={className}
+    >
+      {watched ? "Watching" : "Watch"}
+    </Button>
+  );
+}
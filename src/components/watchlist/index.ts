@@ -0,0 +1 @@
+export { WatchButton } from "./WatchButton";
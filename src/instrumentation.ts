@@ -0,0 +1,13 @@
+/**
+ * Server startup hook.
+ * Starts the alert scheduler on long-lived Node servers when
+ * ALERTS_POLL_INTERVAL_MS is set; serverless hosts use /api/alerts/tick.
+ */
+
+export async function register() {
+  const intervalMs = Number(process.env.ALERTS_POLL_INTERVAL_MS);
+  if (process.env.NEXT_RUNTIME !== "nodejs" || !(intervalMs > 0)) return;
+
+  const { alertScheduler } = await import("@/lib/alerts/server");
+  alertScheduler.start(intervalMs);
+}
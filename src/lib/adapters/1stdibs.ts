@@ -6,11 +6,19 @@
 
 import {
   PlatformAdapter,
+  PlatformAvailability,
+  SearchPage,
   SearchQuery,
   SearchResult,
   UnifiedItem,
 } from "./types";
 import { RateLimiter } from "./rate-limiter";
+import { nextPageCursor, resolvePage } from "./pagination";
+import {
+  CircuitBreaker,
+  createResilientFetch,
+  type ResiliencePolicy,
+} from "./resilience";
 import type { ILogger } from "../logging/types";
 import { serverLoggerFactory } from "../logging/server";
 
@@ -216,6 +224,10 @@ function buildSearchUriRef(query: SearchQuery): string {
   if (query.location) {
     params.set("seller_location", query.location);
   }
+  const page = resolvePage(query);
+  if (page > 1) {
+    params.set("page", String(page));
+  }
 
   return `/search/?${params.toString()}`;
 }
@@ -481,12 +493,17 @@ export interface FirstDibsConfig {
   requestsPerSecond?: number;
   /** Optional logger for testing. If not provided, uses serverLoggerFactory. */
   log?: ILogger;
+  /** Timeout and retry overrides. Defaults to DEFAULT_RESILIENCE_POLICY */
+  resilience?: Partial<ResiliencePolicy>;
+  /** Circuit breaker instance. If not provided, creates one for this platform */
+  circuitBreaker?: CircuitBreaker;
 }
 
 export class FirstDibsAdapter implements PlatformAdapter {
   readonly platform = PLATFORM;
   private readonly fetchFn: FetchFn;
   private readonly log: ILogger;
+  private readonly circuitBreaker: CircuitBreaker;
 
   constructor(config: FirstDibsConfig = {}) {
     this.log =
@@ -508,19 +525,39 @@ export class FirstDibsAdapter implements PlatformAdapter {
       });
 
     // Wrap fetch with rate limiting
-    this.fetchFn = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const rateLimitedFetch = async (
+      input: RequestInfo | URL,
+      init?: RequestInit,
+    ) => {
       await limiter.acquire();
       return baseFetch(input, init);
     };
+
+    // Retries go back through the rate limiter
+    const resilienceLog = this.log.child({ subcomponent: "resilience" });
+    this.circuitBreaker =
+      config.circuitBreaker ??
+      new CircuitBreaker({ platform: PLATFORM, log: resilienceLog });
+    this.fetchFn = createResilientFetch(rateLimitedFetch, {
+      breaker: this.circuitBreaker,
+      policy: config.resilience,
+      log: resilienceLog,
+    });
   }
 
-  async search(query: SearchQuery): Promise<SearchResult[]> {
+  getAvailability(): PlatformAvailability {
+    return this.circuitBreaker.getAvailability();
+  }
+
+  async search(query: SearchQuery): Promise<SearchPage> {
     const startTime = Date.now();
     const uriRef = buildSearchUriRef(query);
+    const page = resolvePage(query);
     const pageSize = query.pageSize ?? 24;
 
     this.log.info("Search started", {
       keywords: query.keywords,
+      page,
       pageSize,
     });
 
@@ -532,26 +569,33 @@ export class FirstDibsAdapter implements PlatformAdapter {
         "1stDibs search failed",
       );
 
-      if (!response.data?.viewer?.itemSearch?.edges) {
+      const itemSearch = response.data?.viewer?.itemSearch;
+      if (!itemSearch?.edges) {
         this.log.info("Search complete", {
           keywords: query.keywords,
           resultCount: 0,
           durationMs: Date.now() - startTime,
         });
-        return [];
+        return { results: [] };
       }
 
-      const results = response.data.viewer.itemSearch.edges.map((edge) =>
+      const results = itemSearch.edges.map((edge) =>
         mapGraphQLItemToSearchResult(edge.node.item),
       );
+      const totalCount = itemSearch.totalResults;
 
       this.log.info("Search complete", {
         keywords: query.keywords,
         resultCount: results.length,
+        totalCount,
         durationMs: Date.now() - startTime,
       });
 
-      return results;
+      return {
+        results,
+        totalCount,
+        nextCursor: nextPageCursor(page, pageSize, totalCount, results.length),
+      };
     } catch (error) {
       this.log.error("Search failed", {
         keywords: query.keywords,
@@ -624,8 +668,8 @@ export class FirstDibsAdapter implements PlatformAdapter {
    * Note: 1stDibs does not publicly expose sold item data.
    * Returns empty array.
    */
-  async getPriceHistory(_query: SearchQuery): Promise<SearchResult[]> {
-    return [];
+  async getPriceHistory(): Promise<SearchPage> {
+    return { results: [], totalCount: 0 };
   }
 }
 
@@ -30,7 +30,9 @@ describe.skipIf(SKIP_INTEGRATION)("1stDibs Integration", () => {
     it(
       "returns results with all required fields populated",
       async () => {
-        const results = await adapter.search({ keywords: TEST_SEARCH_TERM });
+        const { results } = await adapter.search({
+          keywords: TEST_SEARCH_TERM,
+        });
 
         expect(results.length).toBeGreaterThan(0);
 
@@ -49,7 +51,7 @@ describe.skipIf(SKIP_INTEGRATION)("1stDibs Integration", () => {
     it(
       "respects pageSize parameter",
       async () => {
-        const results = await adapter.search({
+        const { results } = await adapter.search({
           keywords: TEST_SEARCH_TERM,
           pageSize: 5,
         });
@@ -63,7 +65,7 @@ describe.skipIf(SKIP_INTEGRATION)("1stDibs Integration", () => {
     it(
       "filters by price range",
       async () => {
-        const results = await adapter.search({
+        const { results } = await adapter.search({
           keywords: TEST_SEARCH_TERM,
           priceRange: { min: 1000, max: 10000 },
         });
@@ -77,7 +79,7 @@ describe.skipIf(SKIP_INTEGRATION)("1stDibs Integration", () => {
     it(
       "handles empty results gracefully",
       async () => {
-        const results = await adapter.search({
+        const { results } = await adapter.search({
           keywords: "xyznonexistentitem12345xyz",
         });
 
@@ -90,7 +92,7 @@ describe.skipIf(SKIP_INTEGRATION)("1stDibs Integration", () => {
     it(
       "all results have status online (buy-now marketplace)",
       async () => {
-        const results = await adapter.search({
+        const { results } = await adapter.search({
           keywords: TEST_SEARCH_TERM,
           pageSize: 10,
         });
@@ -108,7 +110,7 @@ describe.skipIf(SKIP_INTEGRATION)("1stDibs Integration", () => {
 
     beforeAll(async () => {
       // Get a real item ID from search
-      const results = await adapter.search({
+      const { results } = await adapter.search({
         keywords: TEST_SEARCH_TERM,
         pageSize: 1,
       });
@@ -189,9 +191,7 @@ describe.skipIf(SKIP_INTEGRATION)("1stDibs Integration", () => {
     it(
       "returns empty array (not publicly available)",
       async () => {
-        const results = await adapter.getPriceHistory({
-          keywords: TEST_SEARCH_TERM,
-        });
+        const { results } = await adapter.getPriceHistory();
 
         // 1stDibs doesn't expose sold item history publicly
         expect(Array.isArray(results)).toBe(true);
@@ -205,7 +205,7 @@ describe.skipIf(SKIP_INTEGRATION)("1stDibs Integration", () => {
     it(
       "search results have consistent field types",
       async () => {
-        const results = await adapter.search({
+        const { results } = await adapter.search({
           keywords: TEST_SEARCH_TERM,
           pageSize: 20,
         });
@@ -239,7 +239,7 @@ describe.skipIf(SKIP_INTEGRATION)("1stDibs Integration", () => {
     it(
       "item details have consistent field types",
       async () => {
-        const searchResults = await adapter.search({
+        const { results: searchResults } = await adapter.search({
           keywords: TEST_SEARCH_TERM,
           pageSize: 3,
         });
@@ -24,6 +24,7 @@ import {
   type JsonLdImageObject,
 } from "../1stdibs";
 import { RateLimiter } from "../rate-limiter";
+import { encodePageCursor } from "../pagination";
 
 // --- Test Fixtures ---
 
@@ -36,7 +37,7 @@ const createMockFetch = (
   }>,
 ) => {
   let callIndex = 0;
-  return vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => {
+  return vi.fn<typeof fetch>(async () => {
     const response = responses[callIndex++] ?? responses[responses.length - 1];
     return {
       ok: response.ok,
@@ -158,6 +159,15 @@ describe("buildSearchUriRef", () => {
     expect(uriRef).toBe("/search/?q=art+deco+lamp");
   });
 
+  it("includes page from cursor after the first page", () => {
+    expect(
+      buildSearchUriRef({ keywords: "lamp", cursor: encodePageCursor(1) }),
+    ).not.toContain("page=");
+    expect(
+      buildSearchUriRef({ keywords: "lamp", cursor: encodePageCursor(2) }),
+    ).toContain("page=2");
+  });
+
   it("includes category filter", () => {
     const uriRef = buildSearchUriRef({
       keywords: "lamp",
@@ -605,7 +615,7 @@ describe("FirstDibsAdapter", () => {
     });
 
     it("returns mapped search results", async () => {
-      const results = await adapter.search({ keywords: "art deco lamp" });
+      const { results } = await adapter.search({ keywords: "art deco lamp" });
 
       expect(results).toHaveLength(1);
       expect(results[0].title).toBe("Art Deco Bronze Table Lamp");
@@ -613,6 +623,13 @@ describe("FirstDibsAdapter", () => {
       expect(results[0].currentPrice).toBe(4500);
     });
 
+    it("returns total count and omits cursor on the last page", async () => {
+      const page = await adapter.search({ keywords: "lamp", pageSize: 1 });
+
+      expect(page.totalCount).toBe(1);
+      expect(page.nextCursor).toBeUndefined();
+    });
+
     it("sends GraphQL request to correct endpoint", async () => {
       await adapter.search({ keywords: "test" });
 
@@ -651,7 +668,7 @@ describe("FirstDibsAdapter", () => {
         rateLimiter: limiter,
       });
 
-      const results = await adapter.search({ keywords: "nonexistent" });
+      const { results } = await adapter.search({ keywords: "nonexistent" });
       expect(results).toEqual([]);
     });
 
@@ -663,7 +680,7 @@ describe("FirstDibsAdapter", () => {
         rateLimiter: limiter,
       });
 
-      const results = await adapter.search({ keywords: "test" });
+      const { results } = await adapter.search({ keywords: "test" });
       expect(results).toEqual([]);
     });
 
@@ -673,6 +690,7 @@ describe("FirstDibsAdapter", () => {
       adapter = new FirstDibsAdapter({
         fetchFn: mockFetch,
         rateLimiter: limiter,
+        resilience: { maxRetries: 0 },
       });
 
       await expect(adapter.search({ keywords: "test" })).rejects.toThrow(
@@ -814,7 +832,7 @@ describe("FirstDibsAdapter", () => {
         rateLimiter: limiter,
       });
 
-      const results = await adapter.getPriceHistory({ keywords: "lamp" });
+      const { results } = await adapter.getPriceHistory();
 
       expect(results).toEqual([]);
       expect(mockFetch).not.toHaveBeenCalled();
@@ -0,0 +1,324 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  MemoryCacheStore,
+  CachedPlatformAdapter,
+  withCache,
+  wasServedFromCache,
+  buildCacheKey,
+  ttlForEndTime,
+  deserialize,
+  DEFAULT_CACHE_TTLS,
+  DEFAULT_LIVE_BYPASS_WINDOW_MS,
+  type CacheStore,
+} from "../cache";
+import type {
+  PlatformAdapter,
+  SearchPage,
+  SearchResult,
+  UnifiedItem,
+} from "../types";
+import { MockLogger } from "@/lib/logging/mock";
+
+// --- Test Fixtures ---
+
+const NOW = new Date("2025-06-01T12:00:00Z").getTime();
+const HOUR = 60 * 60 * 1000;
+
+const mockResult: SearchResult = {
+  platform: "liveauctioneers",
+  itemId: "123",
+  title: "Art Deco Lamp",
+  currentPrice: 250,
+  currency: "USD",
+  imageUrl: "https://example.com/lamp.jpg",
+  url: "https://example.com/item/123",
+  status: "online",
+  endTime: new Date(NOW + 48 * HOUR),
+};
+
+const mockItem: UnifiedItem = {
+  id: "la-123",
+  platformItemId: "123",
+  platform: "liveauctioneers",
+  url: "https://example.com/item/123",
+  title: "Art Deco Lamp",
+  description: "A lamp",
+  images: [],
+  category: [],
+  currentPrice: 250,
+  currency: "USD",
+  auctionType: "timed",
+  endTime: new Date(NOW + 48 * HOUR),
+  seller: { name: "Test House" },
+};
+
+function createMockAdapter(): PlatformAdapter & {
+  search: ReturnType<typeof vi.fn>;
+  getItem: ReturnType<typeof vi.fn>;
+  getPriceHistory: ReturnType<typeof vi.fn>;
+} {
+  return {
+    platform: "liveauctioneers",
+    search: vi.fn(async (): Promise<SearchPage> => ({ results: [mockResult] })),
+    getItem: vi.fn(async () => mockItem),
+    getPriceHistory: vi.fn(
+      async (): Promise<SearchPage> => ({
+        results: [{ ...mockResult, status: "sold" }],
+      }),
+    ),
+  };
+}
+
+// --- MemoryCacheStore ---
+
+describe("MemoryCacheStore", () => {
+  it("returns stored values before expiry", async () => {
+    let now = NOW;
+    const store = new MemoryCacheStore({ now: () => now });
+    await store.set("key", "value", 1000);
+
+    now += 999;
+    expect(await store.get("key")).toBe("value");
+  });
+
+  it("expires values after ttl", async () => {
+    let now = NOW;
+    const store = new MemoryCacheStore({ now: () => now });
+    await store.set("key", "value", 1000);
+
+    now += 1000;
+    expect(await store.get("key")).toBeNull();
+    expect(store.size).toBe(0);
+  });
+
+  it("evicts least recently used entry when full", async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2, now: () => NOW });
+    await store.set("a", "1", HOUR);
+    await store.set("b", "2", HOUR);
+    await store.get("a"); // a is now most recently used
+    await store.set("c", "3", HOUR);
+
+    expect(await store.get("a")).toBe("1");
+    expect(await store.get("b")).toBeNull();
+    expect(await store.get("c")).toBe("3");
+  });
+
+  it("deletes entries", async () => {
+    const store = new MemoryCacheStore();
+    await store.set("key", "value", HOUR);
+    await store.delete("key");
+    expect(await store.get("key")).toBeNull();
+  });
+});
+
+// --- Pure Helpers ---
+
+describe("buildCacheKey", () => {
+  it("is independent of query field order", () => {
+    const a = buildCacheKey("la", "search", { keywords: "lamp", pageSize: 10 });
+    const b = buildCacheKey("la", "search", { pageSize: 10, keywords: "lamp" });
+    expect(a).toBe(b);
+  });
+
+  it("ignores undefined fields", () => {
+    const a = buildCacheKey("la", "search", { keywords: "lamp" });
+    const b = buildCacheKey("la", "search", {
+      keywords: "lamp",
+      category: undefined,
+    });
+    expect(a).toBe(b);
+  });
+
+  it("namespaces by platform and operation", () => {
+    const query = { keywords: "lamp" };
+    expect(buildCacheKey("la", "search", query)).not.toBe(
+      buildCacheKey("1stdibs", "search", query),
+    );
+    expect(buildCacheKey("la", "search", query)).not.toBe(
+      buildCacheKey("la", "price_history", query),
+    );
+  });
+});
+
+describe("ttlForEndTime", () => {
+  const window = DEFAULT_LIVE_BYPASS_WINDOW_MS;
+
+  it("returns base ttl without an end time", () => {
+    expect(ttlForEndTime(HOUR, undefined, NOW, window)).toBe(HOUR);
+  });
+
+  it("returns base ttl for ended lots", () => {
+    expect(ttlForEndTime(HOUR, new Date(NOW - HOUR), NOW, window)).toBe(HOUR);
+  });
+
+  it("returns 0 for lots inside the bypass window", () => {
+    expect(ttlForEndTime(HOUR, new Date(NOW + window - 1), NOW, window)).toBe(
+      0,
+    );
+  });
+
+  it("clamps ttl to expire before the bypass window", () => {
+    const endTime = new Date(NOW + window + 10 * 60 * 1000);
+    expect(ttlForEndTime(HOUR, endTime, NOW, window)).toBe(10 * 60 * 1000);
+  });
+});
+
+describe("deserialize", () => {
+  it("revives known date fields", () => {
+    const raw = JSON.stringify([mockResult]);
+    const [result] = deserialize<SearchResult[]>(raw);
+    expect(result.endTime).toBeInstanceOf(Date);
+    expect(result.endTime?.getTime()).toBe(mockResult.endTime?.getTime());
+    expect(typeof result.title).toBe("string");
+  });
+});
+
+// --- CachedPlatformAdapter ---
+
+describe("CachedPlatformAdapter", () => {
+  let inner: ReturnType<typeof createMockAdapter>;
+  let adapter: CachedPlatformAdapter;
+  let log: MockLogger;
+
+  beforeEach(() => {
+    inner = createMockAdapter();
+    log = new MockLogger();
+    adapter = withCache(inner, {
+      store: new MemoryCacheStore({ now: () => NOW }),
+      log,
+      now: () => NOW,
+    });
+  });
+
+  it("exposes the wrapped adapter's platform", () => {
+    expect(adapter.platform).toBe("liveauctioneers");
+    expect(adapter.adapter).toBe(inner);
+  });
+
+  it("serves repeated searches from cache", async () => {
+    const first = await adapter.search({ keywords: "lamp" });
+    const second = await adapter.search({ keywords: "lamp" });
+
+    expect(inner.search).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(wasServedFromCache(first)).toBe(false);
+    expect(wasServedFromCache(second)).toBe(true);
+    expect(log.hasLog("debug", "Cache hit")).toBe(true);
+  });
+
+  it("caches different queries separately", async () => {
+    await adapter.search({ keywords: "lamp" });
+    await adapter.search({ keywords: "vase" });
+    expect(inner.search).toHaveBeenCalledTimes(2);
+  });
+
+  it("caches each page cursor separately", async () => {
+    await adapter.search({ keywords: "lamp" });
+    await adapter.search({ keywords: "lamp", cursor: "next" });
+    await adapter.search({ keywords: "lamp", cursor: "next" });
+    expect(inner.search).toHaveBeenCalledTimes(2);
+  });
+
+  it("bypasses cache for ending-soon queries", async () => {
+    await adapter.search({ keywords: "lamp", sort: "ending-soon" });
+    await adapter.search({ keywords: "lamp", sort: "ending-soon" });
+    await adapter.search({ keywords: "lamp", endingSoon: true });
+    expect(inner.search).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not cache search pages containing live lots", async () => {
+    inner.search.mockResolvedValue({
+      results: [{ ...mockResult, status: "live" }],
+    });
+    await adapter.search({ keywords: "lamp" });
+    await adapter.search({ keywords: "lamp" });
+    expect(inner.search).toHaveBeenCalledTimes(2);
+  });
+
+  it("caches price history", async () => {
+    await adapter.getPriceHistory({ keywords: "lamp" });
+    const second = await adapter.getPriceHistory({ keywords: "lamp" });
+    expect(inner.getPriceHistory).toHaveBeenCalledTimes(1);
+    expect(wasServedFromCache(second)).toBe(true);
+  });
+
+  it("caches item details with revived dates", async () => {
+    await adapter.getItem("123");
+    const second = await adapter.getItem("123");
+
+    expect(inner.getItem).toHaveBeenCalledTimes(1);
+    expect(second.endTime).toBeInstanceOf(Date);
+    expect(wasServedFromCache(second)).toBe(true);
+  });
+
+  it("does not cache items ending within the bypass window", async () => {
+    inner.getItem.mockResolvedValue({
+      ...mockItem,
+      endTime: new Date(NOW + 5 * 60 * 1000),
+    });
+    await adapter.getItem("123");
+    await adapter.getItem("123");
+    expect(inner.getItem).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache failures", async () => {
+    inner.search.mockRejectedValueOnce(new Error("boom"));
+    await expect(adapter.search({ keywords: "lamp" })).rejects.toThrow("boom");
+    await adapter.search({ keywords: "lamp" });
+    expect(inner.search).toHaveBeenCalledTimes(2);
+  });
+
+  it("respects ttl overrides", async () => {
+    let now = NOW;
+    const store = new MemoryCacheStore({ now: () => now });
+    const shortLived = withCache(inner, {
+      store,
+      log,
+      now: () => now,
+      ttls: { price_history: 1000 },
+    });
+
+    await shortLived.getPriceHistory({ keywords: "lamp" });
+    now += 1000;
+    await shortLived.getPriceHistory({ keywords: "lamp" });
+    expect(inner.getPriceHistory).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to the adapter when the store fails", async () => {
+    const failingStore: CacheStore = {
+      get: vi.fn(async () => {
+        throw new Error("store down");
+      }),
+      set: vi.fn(async () => {
+        throw new Error("store down");
+      }),
+      delete: vi.fn(async () => {}),
+    };
+    const resilient = withCache(inner, { store: failingStore, log });
+
+    const page = await resilient.search({ keywords: "lamp" });
+    expect(page.results).toEqual([mockResult]);
+    expect(log.hasLog("warn", "Cache read failed")).toBe(true);
+    expect(log.hasLog("warn", "Cache write failed")).toBe(true);
+  });
+
+  it("forwards optional adapter methods", async () => {
+    const watchItem = vi.fn(async (itemId: string) => ({
+      success: true,
+      itemId,
+      watchedAt: new Date(NOW),
+    }));
+    const wrapped = withCache({ ...inner, watchItem }, { log });
+
+    await wrapped.watchItem?.("123");
+    expect(watchItem).toHaveBeenCalledWith("123");
+    expect(wrapped.getBidHistory).toBeUndefined();
+  });
+
+  it("uses default ttls when none provided", () => {
+    expect(DEFAULT_CACHE_TTLS.search).toBeLessThan(
+      DEFAULT_CACHE_TTLS.price_history,
+    );
+    expect(DEFAULT_CACHE_TTLS.search).toBeLessThan(DEFAULT_CACHE_TTLS.get_item);
+  });
+});
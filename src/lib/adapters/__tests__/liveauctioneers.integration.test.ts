@@ -29,7 +29,9 @@ describe.skipIf(SKIP_INTEGRATION)("LiveAuctioneers Integration", () => {
     it(
       "returns results with all required fields populated",
       async () => {
-        const results = await adapter.search({ keywords: TEST_SEARCH_TERM });
+        const { results } = await adapter.search({
+          keywords: TEST_SEARCH_TERM,
+        });
 
         expect(results.length).toBeGreaterThan(0);
 
@@ -48,17 +50,20 @@ describe.skipIf(SKIP_INTEGRATION)("LiveAuctioneers Integration", () => {
     it(
       "respects pagination parameters",
       async () => {
-        const page1 = await adapter.search({
+        const first = await adapter.search({
           keywords: TEST_SEARCH_TERM,
           page: 1,
           pageSize: 5,
         });
+        expect(first.nextCursor).toBeDefined();
 
-        const page2 = await adapter.search({
+        const second = await adapter.search({
           keywords: TEST_SEARCH_TERM,
-          page: 2,
+          cursor: first.nextCursor,
           pageSize: 5,
         });
+        const page1 = first.results;
+        const page2 = second.results;
 
         expect(page1.length).toBeLessThanOrEqual(5);
         expect(page2.length).toBeLessThanOrEqual(5);
@@ -74,7 +79,7 @@ describe.skipIf(SKIP_INTEGRATION)("LiveAuctioneers Integration", () => {
     it(
       "filters by price range",
       async () => {
-        const results = await adapter.search({
+        const { results } = await adapter.search({
           keywords: TEST_SEARCH_TERM,
           priceRange: { min: 100, max: 500 },
         });
@@ -89,7 +94,7 @@ describe.skipIf(SKIP_INTEGRATION)("LiveAuctioneers Integration", () => {
     it(
       "handles empty results gracefully",
       async () => {
-        const results = await adapter.search({
+        const { results } = await adapter.search({
           keywords: "xyznonexistentitem12345xyz",
         });
 
@@ -104,7 +109,7 @@ describe.skipIf(SKIP_INTEGRATION)("LiveAuctioneers Integration", () => {
     it(
       "returns sold items with price data",
       async () => {
-        const results = await adapter.getPriceHistory({
+        const { results } = await adapter.getPriceHistory({
           keywords: TEST_SEARCH_TERM,
         });
 
@@ -132,7 +137,7 @@ describe.skipIf(SKIP_INTEGRATION)("LiveAuctioneers Integration", () => {
     it(
       "returns sold dates for completed auctions",
       async () => {
-        const results = await adapter.getPriceHistory({
+        const { results } = await adapter.getPriceHistory({
           keywords: TEST_SEARCH_TERM,
           pageSize: 50,
         });
@@ -154,7 +159,7 @@ describe.skipIf(SKIP_INTEGRATION)("LiveAuctioneers Integration", () => {
 
     beforeAll(async () => {
       // Get a real item ID from search
-      const results = await adapter.search({
+      const { results } = await adapter.search({
         keywords: TEST_SEARCH_TERM,
         pageSize: 1,
       });
@@ -255,7 +260,7 @@ describe.skipIf(SKIP_INTEGRATION)("LiveAuctioneers Integration", () => {
     it(
       "search results have consistent field types",
       async () => {
-        const results = await adapter.search({
+        const { results } = await adapter.search({
           keywords: TEST_SEARCH_TERM,
           pageSize: 20,
         });
@@ -292,7 +297,7 @@ describe.skipIf(SKIP_INTEGRATION)("LiveAuctioneers Integration", () => {
     it(
       "item details have consistent field types",
       async () => {
-        const searchResults = await adapter.search({
+        const { results: searchResults } = await adapter.search({
           keywords: TEST_SEARCH_TERM,
           pageSize: 3,
         });
@@ -5,11 +5,14 @@ import {
   buildSearchUrl,
   mapSearchItem,
   buildUnifiedItem,
+  mapBidHistory,
   inferAuctionType,
   ACTIVE_AUCTION_STATUS,
   SOLD_ITEM_STATUS,
   LASearchItem,
 } from "../liveauctioneers";
+import { CircuitBreaker } from "../resilience";
+import { encodePageCursor } from "../pagination";
 
 // --- Test Fixtures ---
 
@@ -54,6 +57,8 @@ const mockSoldItem: LASearchItem = {
   saleStartTs: 1718452800,
   saleEndEstimatedTs: 1718456400, // 2024-06-15T14:00:00Z
   salePrice: 225,
+  lowBidEstimate: 150,
+  highBidEstimate: 250,
   sellerName: "Sothebys",
   sellerId: 456,
   catalogId: 789012,
@@ -136,6 +141,32 @@ const mockContentItems = {
   },
 };
 
+const mockBidHistory = {
+  data: {
+    bidHistory: [
+      {
+        itemId: 12345,
+        currency: "USD",
+        bids: [
+          {
+            amount: 150,
+            bidderId: 2,
+            source: "internet",
+            createdTs: 1738400600,
+          },
+          {
+            amount: 100,
+            bidderId: 1,
+            source: "internet",
+            createdTs: 1738400400,
+          },
+          { amount: 125, source: "floor", createdTs: 1738400500 },
+        ],
+      },
+    ],
+  },
+};
+
 // --- Pure Function Tests ---
 
 describe("buildSearchParams", () => {
@@ -182,6 +213,16 @@ describe("buildSearchParams", () => {
     expect(params.ranges).toEqual({ price: { min: 50, max: undefined } });
   });
 
+  it("filters to one auction house by seller ID", () => {
+    expect(
+      buildSearchParams({ keywords: "", sellerId: "123" }, []).options
+        .auctionHouse,
+    ).toEqual([{ exclude: [], include: ["123"] }]);
+    expect(
+      buildSearchParams({ keywords: "" }, []).options.auctionHouse,
+    ).toEqual([{ exclude: [], include: [] }]);
+  });
+
   it("maps all sort options correctly", () => {
     const sortTests: Array<[string, string]> = [
       ["relevance", "-relevance"],
@@ -226,6 +267,7 @@ describe("mapSearchItem", () => {
     expect(result.currency).toBe("USD");
     expect(result.url).toBe("https://www.liveauctioneers.com/item/12345");
     expect(result.auctionHouse).toBe("Heritage Auctions");
+    expect(result.sellerId).toBe("123");
   });
 
   it("builds image URL from photos array", () => {
@@ -251,6 +293,19 @@ describe("mapSearchItem", () => {
     expect(result.soldDate).toBeInstanceOf(Date);
   });
 
+  it("keeps the pre-sale estimate", () => {
+    expect(mapSearchItem(mockSoldItem, true).estimateRange).toEqual({
+      low: 150,
+      high: 250,
+    });
+    expect(
+      mapSearchItem(
+        { ...mockSoldItem, lowBidEstimate: 0, highBidEstimate: 0 },
+        true,
+      ).estimateRange,
+    ).toBeUndefined();
+  });
+
   it("handles missing optional fields with defaults", () => {
     const minimalItem: LASearchItem = {
       itemId: 1,
@@ -294,6 +349,47 @@ describe("mapSearchItem", () => {
   });
 });
 
+describe("mapBidHistory", () => {
+  it("maps bids in chronological order", () => {
+    const bids = mapBidHistory(mockBidHistory, "12345");
+
+    expect(bids.map((b) => b.amount)).toEqual([100, 125, 150]);
+    expect(bids[0]).toEqual({
+      bidder: "Bidder 1",
+      amount: 100,
+      currency: "USD",
+      timestamp: new Date(1738400400 * 1000),
+    });
+  });
+
+  it("labels floor and anonymous bidders", () => {
+    const bids = mapBidHistory(
+      {
+        data: {
+          bidHistory: [
+            {
+              itemId: 1,
+              bids: [
+                { amount: 10, source: "floor", createdTs: 1 },
+                { amount: 20, createdTs: 2 },
+              ],
+            },
+          ],
+        },
+      },
+      "1",
+    );
+
+    expect(bids.map((b) => b.bidder)).toEqual(["Floor", "Anonymous"]);
+    expect(bids[0].currency).toBe("USD");
+  });
+
+  it("returns an empty list for unknown items", () => {
+    expect(mapBidHistory(mockBidHistory, "99999")).toEqual([]);
+    expect(mapBidHistory({}, "12345")).toEqual([]);
+  });
+});
+
 describe("inferAuctionType", () => {
   it("returns live for live status", () => {
     expect(inferAuctionType("live")).toBe("live");
@@ -408,7 +504,7 @@ describe("LiveAuctioneersAdapter", () => {
       ]);
       const adapter = new LiveAuctioneersAdapter({ fetchFn: mockFetch });
 
-      const results = await adapter.search({ keywords: "art deco lamp" });
+      const { results } = await adapter.search({ keywords: "art deco lamp" });
 
       expect(results).toHaveLength(1);
       expect(results[0].title).toBe("Art Deco Table Lamp");
@@ -451,7 +547,7 @@ describe("LiveAuctioneersAdapter", () => {
       ]);
       const adapter = new LiveAuctioneersAdapter({ fetchFn: mockFetch });
 
-      const results = await adapter.search({ keywords: "nonexistent" });
+      const { results } = await adapter.search({ keywords: "nonexistent" });
       expect(results).toEqual([]);
     });
 
@@ -459,13 +555,48 @@ describe("LiveAuctioneersAdapter", () => {
       const mockFetch = createMockFetch([{ ok: true, data: { error: false } }]);
       const adapter = new LiveAuctioneersAdapter({ fetchFn: mockFetch });
 
-      const results = await adapter.search({ keywords: "test" });
+      const { results } = await adapter.search({ keywords: "test" });
       expect(results).toEqual([]);
     });
 
+    it("returns total count and next cursor", async () => {
+      const mockFetch = createMockFetch([
+        {
+          ok: true,
+          data: {
+            error: false,
+            payload: { items: [mockSearchItem], totalFound: 30 },
+          },
+        },
+      ]);
+      const adapter = new LiveAuctioneersAdapter({ fetchFn: mockFetch });
+
+      const page = await adapter.search({ keywords: "lamp", pageSize: 1 });
+      expect(page.totalCount).toBe(30);
+      expect(page.nextCursor).toBe(encodePageCursor(2));
+    });
+
+    it("requests the page encoded in the cursor", async () => {
+      const mockFetch = createMockFetch([
+        { ok: true, data: { error: false, payload: { items: [] } } },
+      ]);
+      const adapter = new LiveAuctioneersAdapter({ fetchFn: mockFetch });
+
+      await adapter.search({ keywords: "lamp", cursor: encodePageCursor(3) });
+
+      const url = mockFetch.mock.calls[0][0] as string;
+      const params = JSON.parse(
+        decodeURIComponent(url.split("parameters=")[1].split("&")[0]),
+      );
+      expect(params.page).toBe(3);
+    });
+
     it("throws on failed request", async () => {
       const mockFetch = createMockFetch([{ ok: false, status: 500 }]);
-      const adapter = new LiveAuctioneersAdapter({ fetchFn: mockFetch });
+      const adapter = new LiveAuctioneersAdapter({
+        fetchFn: mockFetch,
+        resilience: { maxRetries: 0 },
+      });
 
       await expect(adapter.search({ keywords: "test" })).rejects.toThrow(
         "LiveAuctioneers search failed: 500",
@@ -498,7 +629,7 @@ describe("LiveAuctioneersAdapter", () => {
       ]);
       const adapter = new LiveAuctioneersAdapter({ fetchFn: mockFetch });
 
-      const results = await adapter.getPriceHistory({ keywords: "lamp" });
+      const { results } = await adapter.getPriceHistory({ keywords: "lamp" });
 
       expect(results[0].soldPrice).toBe(225);
       expect(results[0].soldDate).toBeInstanceOf(Date);
@@ -570,13 +701,66 @@ describe("LiveAuctioneersAdapter", () => {
         { ok: false, status: 500 },
         { ok: true, data: {} },
       ]);
-      const adapter = new LiveAuctioneersAdapter({ fetchFn: mockFetch });
+      const adapter = new LiveAuctioneersAdapter({
+        fetchFn: mockFetch,
+        resilience: { maxRetries: 0 },
+      });
 
       await expect(adapter.getItem("12345")).rejects.toThrow(
         "Failed to fetch item facets: 500",
       );
     });
   });
+
+  describe("getBidHistory", () => {
+    it("fetches and maps the item's bids", async () => {
+      const mockFetch = createMockFetch([{ ok: true, data: mockBidHistory }]);
+      const adapter = new LiveAuctioneersAdapter({ fetchFn: mockFetch });
+
+      const bids = await adapter.getBidHistory("12345");
+
+      const url = mockFetch.mock.calls[0][0] as string;
+      expect(url).toContain("bid-history");
+      expect(url).toContain("itemIds=12345");
+      expect(bids).toHaveLength(3);
+    });
+
+    it("throws on failed request", async () => {
+      const mockFetch = createMockFetch([{ ok: false, status: 404 }]);
+      const adapter = new LiveAuctioneersAdapter({ fetchFn: mockFetch });
+
+      await expect(adapter.getBidHistory("12345")).rejects.toThrow(
+        "Failed to fetch bid history: 404",
+      );
+    });
+  });
+
+  describe("getAvailability", () => {
+    it("reports the platform unavailable once the circuit opens", async () => {
+      const mockFetch = createMockFetch([{ ok: false, status: 503 }]);
+      const adapter = new LiveAuctioneersAdapter({
+        fetchFn: mockFetch,
+        resilience: { maxRetries: 0 },
+        circuitBreaker: new CircuitBreaker({
+          platform: "liveauctioneers",
+          failureThreshold: 1,
+        }),
+      });
+      expect(adapter.getAvailability().available).toBe(true);
+
+      await expect(adapter.search({ keywords: "test" })).rejects.toThrow(
+        "LiveAuctioneers search failed: 503",
+      );
+      expect(adapter.getAvailability()).toMatchObject({
+        available: false,
+        state: "open",
+      });
+      await expect(adapter.search({ keywords: "test" })).rejects.toThrow(
+        "liveauctioneers is temporarily unavailable",
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
 });
 
 // --- Constants Tests ---
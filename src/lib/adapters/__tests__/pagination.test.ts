@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  encodePageCursor,
+  decodePageCursor,
+  resolvePage,
+  nextPageCursor,
+  encodePlatformCursors,
+  decodePlatformCursors,
+} from "../pagination";
+
+describe("page cursors", () => {
+  it("round-trips page numbers", () => {
+    expect(decodePageCursor(encodePageCursor(4))).toBe(4);
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(decodePageCursor("not-base64!")).toBeUndefined();
+    expect(decodePageCursor(btoa(JSON.stringify({ page: 0 })))).toBeUndefined();
+    expect(
+      decodePageCursor(btoa(JSON.stringify({ page: "2" }))),
+    ).toBeUndefined();
+  });
+});
+
+describe("resolvePage", () => {
+  it("defaults to the first page", () => {
+    expect(resolvePage({ keywords: "lamp" })).toBe(1);
+  });
+
+  it("prefers the cursor over page", () => {
+    expect(
+      resolvePage({ keywords: "lamp", page: 2, cursor: encodePageCursor(5) }),
+    ).toBe(5);
+  });
+
+  it("falls back to page when the cursor is malformed", () => {
+    expect(resolvePage({ keywords: "lamp", page: 2, cursor: "bad" })).toBe(2);
+  });
+});
+
+describe("nextPageCursor", () => {
+  it("uses the reported total when available", () => {
+    expect(nextPageCursor(1, 10, 25, 10)).toBe(encodePageCursor(2));
+    expect(nextPageCursor(3, 10, 25, 5)).toBeUndefined();
+  });
+
+  it("assumes more results when a full page came back without a total", () => {
+    expect(nextPageCursor(1, 10, undefined, 10)).toBe(encodePageCursor(2));
+    expect(nextPageCursor(1, 10, undefined, 7)).toBeUndefined();
+  });
+
+  it("stops when a page is empty", () => {
+    expect(nextPageCursor(2, 10, 100, 0)).toBeUndefined();
+  });
+});
+
+describe("platform cursors", () => {
+  it("round-trips per-platform cursors", () => {
+    const cursors = { liveauctioneers: "a", "1stdibs": "b" };
+    const cursor = encodePlatformCursors(cursors);
+    expect(cursor).toBeDefined();
+    expect(decodePlatformCursors(cursor as string)).toEqual(cursors);
+  });
+
+  it("returns undefined when no platform has more results", () => {
+    expect(encodePlatformCursors({})).toBeUndefined();
+  });
+
+  it("returns null for malformed cursors", () => {
+    expect(decodePlatformCursors("%%%")).toBeNull();
+    expect(decodePlatformCursors(btoa(JSON.stringify(["a"])))).toBeNull();
+  });
+});
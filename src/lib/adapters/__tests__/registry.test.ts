@@ -2,17 +2,24 @@ import { describe, it, expect } from "vitest";
 import { getAdapter, listPlatforms } from "../registry";
 import { LiveAuctioneersAdapter } from "../liveauctioneers";
 import { FirstDibsAdapter } from "../1stdibs";
+import { CachedPlatformAdapter } from "../cache";
 
 describe("getAdapter", () => {
   it("returns LiveAuctioneersAdapter for liveauctioneers", () => {
     const adapter = getAdapter("liveauctioneers");
-    expect(adapter).toBeInstanceOf(LiveAuctioneersAdapter);
+    expect(adapter).toBeInstanceOf(CachedPlatformAdapter);
+    expect((adapter as CachedPlatformAdapter).adapter).toBeInstanceOf(
+      LiveAuctioneersAdapter,
+    );
     expect(adapter.platform).toBe("liveauctioneers");
   });
 
   it("returns FirstDibsAdapter for 1stdibs", () => {
     const adapter = getAdapter("1stdibs");
-    expect(adapter).toBeInstanceOf(FirstDibsAdapter);
+    expect(adapter).toBeInstanceOf(CachedPlatformAdapter);
+    expect((adapter as CachedPlatformAdapter).adapter).toBeInstanceOf(
+      FirstDibsAdapter,
+    );
     expect(adapter.platform).toBe("1stdibs");
   });
 
@@ -0,0 +1,348 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  RequestTimeoutError,
+  createResilientFetch,
+  isRetryableStatus,
+  parseRetryAfter,
+  computeBackoffDelay,
+  DEFAULT_RESILIENCE_POLICY,
+} from "../resilience";
+import { MockLogger } from "@/lib/logging/mock";
+
+// --- Test Helpers ---
+
+const NOW = new Date("2025-06-01T12:00:00Z").getTime();
+
+const createMockFetch = (
+  responses: Array<{ status: number; retryAfter?: string } | Error>,
+) => {
+  let callIndex = 0;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  return vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => {
+    const response = responses[callIndex++] ?? responses[responses.length - 1];
+    if (response instanceof Error) throw response;
+    return {
+      ok: response.status < 400,
+      status: response.status,
+      headers: new Headers(
+        response.retryAfter ? { "Retry-After": response.retryAfter } : {},
+      ),
+    } as Response;
+  });
+};
+
+const noSleep = vi.fn(async () => {});
+
+// --- CircuitBreaker ---
+
+describe("CircuitBreaker", () => {
+  it("starts closed", () => {
+    const breaker = new CircuitBreaker({ platform: "test" });
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it("opens after consecutive failures reach the threshold", () => {
+    const breaker = new CircuitBreaker({
+      platform: "test",
+      failureThreshold: 3,
+      now: () => NOW,
+    });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("closed");
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it("resets the failure count on success", () => {
+    const breaker = new CircuitBreaker({
+      platform: "test",
+      failureThreshold: 2,
+    });
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("moves to half-open after the cool-down", () => {
+    let now = NOW;
+    const breaker = new CircuitBreaker({
+      platform: "test",
+      failureThreshold: 1,
+      cooldownMs: 1000,
+      now: () => now,
+    });
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("open");
+
+    now += 1000;
+    expect(breaker.getState()).toBe("half-open");
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it("closes when the half-open probe succeeds", () => {
+    let now = NOW;
+    const breaker = new CircuitBreaker({
+      platform: "test",
+      failureThreshold: 1,
+      cooldownMs: 1000,
+      now: () => now,
+    });
+    breaker.recordFailure();
+    now += 1000;
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("re-opens when the half-open probe fails", () => {
+    let now = NOW;
+    const breaker = new CircuitBreaker({
+      platform: "test",
+      failureThreshold: 5,
+      cooldownMs: 1000,
+      now: () => now,
+    });
+    for (let i = 0; i < 5; i++) breaker.recordFailure();
+    now += 1000;
+    expect(breaker.getState()).toBe("half-open");
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.getRetryAt().getTime()).toBe(now + 1000);
+  });
+
+  it("reports availability", () => {
+    const breaker = new CircuitBreaker({
+      platform: "test",
+      failureThreshold: 1,
+      cooldownMs: 1000,
+      now: () => NOW,
+    });
+    expect(breaker.getAvailability()).toEqual({
+      platform: "test",
+      available: true,
+      state: "closed",
+      consecutiveFailures: 0,
+      retryAt: undefined,
+    });
+
+    breaker.recordFailure();
+    expect(breaker.getAvailability()).toEqual({
+      platform: "test",
+      available: false,
+      state: "open",
+      consecutiveFailures: 1,
+      retryAt: new Date(NOW + 1000),
+    });
+  });
+
+  it("logs state transitions", () => {
+    const log = new MockLogger();
+    const breaker = new CircuitBreaker({
+      platform: "test",
+      failureThreshold: 1,
+      log,
+    });
+    breaker.recordFailure();
+    expect(log.hasLog("warn", "Circuit state changed")).toBe(true);
+    expect(log.findLogs("warn")[0].properties).toMatchObject({
+      from: "closed",
+      to: "open",
+    });
+  });
+});
+
+// --- Pure Helpers ---
+
+describe("isRetryableStatus", () => {
+  it("retries 429 and 5xx only", () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(404)).toBe(false);
+    expect(isRetryableStatus(200)).toBe(false);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delta-seconds", () => {
+    expect(parseRetryAfter("2", NOW)).toBe(2000);
+  });
+
+  it("parses HTTP dates relative to now", () => {
+    const date = new Date(NOW + 3000).toUTCString();
+    expect(parseRetryAfter(date, NOW)).toBe(3000);
+  });
+
+  it("returns undefined for missing or invalid headers", () => {
+    expect(parseRetryAfter(null, NOW)).toBeUndefined();
+    expect(parseRetryAfter("soon", NOW)).toBeUndefined();
+  });
+});
+
+describe("computeBackoffDelay", () => {
+  const policy = DEFAULT_RESILIENCE_POLICY;
+
+  it("doubles the delay each attempt", () => {
+    expect(computeBackoffDelay(0, policy)).toBe(policy.baseDelayMs);
+    expect(computeBackoffDelay(1, policy)).toBe(policy.baseDelayMs * 2);
+  });
+
+  it("prefers Retry-After when provided", () => {
+    expect(computeBackoffDelay(0, policy, 1200)).toBe(1200);
+  });
+
+  it("caps delays at maxDelayMs", () => {
+    expect(computeBackoffDelay(10, policy)).toBe(policy.maxDelayMs);
+    expect(computeBackoffDelay(0, policy, 60_000)).toBe(policy.maxDelayMs);
+  });
+});
+
+// --- createResilientFetch ---
+
+describe("createResilientFetch", () => {
+  it("returns successful responses without retrying", async () => {
+    const baseFetch = createMockFetch([{ status: 200 }]);
+    const breaker = new CircuitBreaker({ platform: "test" });
+    const resilientFetch = createResilientFetch(baseFetch, {
+      breaker,
+      sleep: noSleep,
+    });
+
+    const response = await resilientFetch("https://example.com");
+    expect(response.status).toBe(200);
+    expect(baseFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries retryable statuses and honors Retry-After", async () => {
+    const sleep = vi.fn(async () => {});
+    const baseFetch = createMockFetch([
+      { status: 429, retryAfter: "1" },
+      { status: 503 },
+      { status: 200 },
+    ]);
+    const breaker = new CircuitBreaker({ platform: "test" });
+    const resilientFetch = createResilientFetch(baseFetch, {
+      breaker,
+      sleep,
+    });
+
+    const response = await resilientFetch("https://example.com");
+    expect(response.status).toBe(200);
+    expect(baseFetch).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenNthCalledWith(1, 1000);
+    expect(sleep).toHaveBeenNthCalledWith(
+      2,
+      DEFAULT_RESILIENCE_POLICY.baseDelayMs * 2,
+    );
+    expect(breaker.getAvailability().consecutiveFailures).toBe(0);
+  });
+
+  it("does not retry client errors", async () => {
+    const baseFetch = createMockFetch([{ status: 404 }]);
+    const breaker = new CircuitBreaker({ platform: "test" });
+    const resilientFetch = createResilientFetch(baseFetch, {
+      breaker,
+      sleep: noSleep,
+    });
+
+    const response = await resilientFetch("https://example.com");
+    expect(response.status).toBe(404);
+    expect(baseFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns the last retryable response once retries are exhausted", async () => {
+    const baseFetch = createMockFetch([{ status: 500 }]);
+    const breaker = new CircuitBreaker({ platform: "test" });
+    const resilientFetch = createResilientFetch(baseFetch, {
+      breaker,
+      policy: { maxRetries: 2 },
+      sleep: noSleep,
+    });
+
+    const response = await resilientFetch("https://example.com");
+    expect(response.status).toBe(500);
+    expect(baseFetch).toHaveBeenCalledTimes(3);
+    expect(breaker.getAvailability().consecutiveFailures).toBe(1);
+  });
+
+  it("retries network errors and rethrows the last one", async () => {
+    const baseFetch = createMockFetch([new Error("ECONNRESET")]);
+    const breaker = new CircuitBreaker({ platform: "test" });
+    const resilientFetch = createResilientFetch(baseFetch, {
+      breaker,
+      policy: { maxRetries: 1 },
+      sleep: noSleep,
+    });
+
+    await expect(resilientFetch("https://example.com")).rejects.toThrow(
+      "ECONNRESET",
+    );
+    expect(baseFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("aborts slow requests with RequestTimeoutError", async () => {
+    const baseFetch = vi.fn(
+      (_input: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(new Error("aborted")),
+          );
+        }),
+    );
+    const breaker = new CircuitBreaker({ platform: "test" });
+    const resilientFetch = createResilientFetch(baseFetch, {
+      breaker,
+      policy: { timeoutMs: 5, maxRetries: 0 },
+      sleep: noSleep,
+    });
+
+    const error = await resilientFetch("https://example.com").catch((e) => e);
+    expect(error).toBeInstanceOf(RequestTimeoutError);
+    expect(error.message).toBe("test request timed out after 5ms");
+  });
+
+  it("short-circuits while the circuit is open", async () => {
+    const baseFetch = createMockFetch([{ status: 500 }]);
+    const breaker = new CircuitBreaker({
+      platform: "test",
+      failureThreshold: 1,
+    });
+    const resilientFetch = createResilientFetch(baseFetch, {
+      breaker,
+      policy: { maxRetries: 0 },
+      sleep: noSleep,
+    });
+
+    await resilientFetch("https://example.com");
+    await expect(resilientFetch("https://example.com")).rejects.toBeInstanceOf(
+      CircuitOpenError,
+    );
+    expect(baseFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not count caller cancellations as failures", async () => {
+    const controller = new AbortController();
+    const baseFetch = vi.fn(async () => {
+      controller.abort();
+      throw new Error("aborted");
+    });
+    const breaker = new CircuitBreaker({ platform: "test" });
+    const resilientFetch = createResilientFetch(baseFetch, {
+      breaker,
+      sleep: noSleep,
+    });
+
+    await expect(
+      resilientFetch("https://example.com", { signal: controller.signal }),
+    ).rejects.toThrow("aborted");
+    expect(baseFetch).toHaveBeenCalledTimes(1);
+    expect(breaker.getAvailability().consecutiveFailures).toBe(0);
+  });
+});
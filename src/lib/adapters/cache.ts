@@ -0,0 +1,393 @@
+/**
+ * Response caching layer for platform adapters.
+ * Wraps any PlatformAdapter with a pluggable cache store and per-operation TTLs.
+ */
+
+import type {
+  PlatformAdapter,
+  SearchPage,
+  SearchQuery,
+  SearchResult,
+  UnifiedItem,
+  WatchResult,
+  BidHistory,
+  PlatformAvailability,
+} from "./types";
+import type { ILogger } from "../logging/types";
+import { serverLoggerFactory } from "../logging/server";
+
+// --- Cache Store ---
+
+/**
+ * Interface for cache storage backends.
+ * Values are serialized strings so shared backends (Redis, KV) can be dropped in.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface MemoryCacheStoreConfig {
+  /** Maximum number of entries before least-recently-used eviction. Default: 500 */
+  maxEntries?: number;
+  /** Clock override for testing */
+  now?: () => number;
+}
+
+interface MemoryCacheEntry {
+  value: string;
+  expiresAt: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * In-memory LRU cache store.
+ * Relies on Map insertion order: reads re-insert the key to mark it recently used.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, MemoryCacheEntry>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(config: MemoryCacheStoreConfig = {}) {
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.now = config.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /** Number of entries currently held (including expired, not yet evicted). */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// --- TTL Policy ---
+
+export type CacheOperation = "search" | "price_history" | "get_item";
+
+export type CacheTtlConfig = Record<CacheOperation, number>;
+
+/**
+ * Default TTLs per operation.
+ * Active search results go stale quickly; sold prices and item details do not.
+ */
+export const DEFAULT_CACHE_TTLS: CacheTtlConfig = {
+  search: 2 * 60 * 1000,
+  price_history: 6 * 60 * 60 * 1000,
+  get_item: 60 * 60 * 1000,
+};
+
+/** Lots ending within this window are never cached so end times and bids stay live. */
+export const DEFAULT_LIVE_BYPASS_WINDOW_MS = 15 * 60 * 1000;
+
+// --- Pure Helpers ---
+
+/** Fields on adapter results that hold Date values and must survive serialization. */
+const DATE_FIELDS = new Set([
+  "endTime",
+  "startTime",
+  "soldDate",
+  "watchedAt",
+  "timestamp",
+]);
+
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "undefined";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+  return `{${entries.join(",")}}`;
+}
+
+/**
+ * Build a deterministic cache key for an adapter call.
+ * Query objects with the same fields in any order produce the same key.
+ */
+function buildCacheKey(
+  platform: string,
+  operation: CacheOperation,
+  input: SearchQuery | string,
+): string {
+  return `adapter:${platform}:${operation}:${stableStringify(input)}`;
+}
+
+function serialize(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+function deserialize<T>(raw: string): T {
+  return JSON.parse(raw, (key, value) =>
+    DATE_FIELDS.has(key) && typeof value === "string" ? new Date(value) : value,
+  ) as T;
+}
+
+/**
+ * Clamp a TTL so a cached entry expires before a lot enters its final window.
+ * Returns 0 when the lot is already inside the window (do not cache).
+ */
+function ttlForEndTime(
+  baseTtlMs: number,
+  endTime: Date | undefined,
+  now: number,
+  liveBypassWindowMs: number,
+): number {
+  if (!endTime) return baseTtlMs;
+
+  const msUntilEnd = new Date(endTime).getTime() - now;
+  // Already ended: outcome is fixed, cache normally
+  if (msUntilEnd <= 0) return baseTtlMs;
+  if (msUntilEnd <= liveBypassWindowMs) return 0;
+
+  return Math.min(baseTtlMs, msUntilEnd - liveBypassWindowMs);
+}
+
+/**
+ * Whether a search query explicitly asks for time-sensitive results.
+ */
+function isTimeSensitiveQuery(query: SearchQuery): boolean {
+  return query.endingSoon === true || query.sort === "ending-soon";
+}
+
+// --- Cache Hit Tracking ---
+
+const cacheHits = new WeakSet<object>();
+
+/**
+ * Whether a value returned by a cached adapter was served from cache.
+ * Used by tools to attribute cache hits in analytics.
+ */
+export function wasServedFromCache(value: unknown): boolean {
+  return typeof value === "object" && value !== null && cacheHits.has(value);
+}
+
+// --- Caching Adapter ---
+
+export interface CachedAdapterConfig {
+  /** Cache backend. Default: a new in-memory LRU store */
+  store?: CacheStore;
+  /** Per-operation TTL overrides in milliseconds */
+  ttls?: Partial<CacheTtlConfig>;
+  /** Window before a lot's end time in which results bypass the cache */
+  liveBypassWindowMs?: number;
+  /** Optional logger for testing. If not provided, uses serverLoggerFactory. */
+  log?: ILogger;
+  /** Clock override for testing */
+  now?: () => number;
+}
+
+/**
+ * PlatformAdapter decorator that caches search, price history and item lookups.
+ * Optional adapter methods are forwarded uncached.
+ */
+export class CachedPlatformAdapter implements PlatformAdapter {
+  readonly platform: string;
+  readonly watchItem?: (itemId: string) => Promise<WatchResult>;
+  readonly getBidHistory?: (itemId: string) => Promise<BidHistory[]>;
+  readonly getAvailability?: () => PlatformAvailability;
+
+  private readonly store: CacheStore;
+  private readonly ttls: CacheTtlConfig;
+  private readonly liveBypassWindowMs: number;
+  private readonly log: ILogger;
+  private readonly now: () => number;
+
+  constructor(
+    readonly adapter: PlatformAdapter,
+    config: CachedAdapterConfig = {},
+  ) {
+    this.platform = adapter.platform;
+    this.store = config.store ?? new MemoryCacheStore();
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...config.ttls };
+    this.liveBypassWindowMs =
+      config.liveBypassWindowMs ?? DEFAULT_LIVE_BYPASS_WINDOW_MS;
+    this.now = config.now ?? Date.now;
+    this.log =
+      config.log ??
+      serverLoggerFactory.create({
+        distinctId: "system",
+        component: "adapter:cache",
+      });
+
+    if (adapter.watchItem) {
+      this.watchItem = adapter.watchItem.bind(adapter);
+    }
+    if (adapter.getBidHistory) {
+      this.getBidHistory = adapter.getBidHistory.bind(adapter);
+    }
+    if (adapter.getAvailability) {
+      this.getAvailability = adapter.getAvailability.bind(adapter);
+    }
+  }
+
+  async search(query: SearchQuery): Promise<SearchPage> {
+    if (isTimeSensitiveQuery(query)) {
+      this.log.debug("Cache bypassed", {
+        platform: this.platform,
+        operation: "search",
+        reason: "time_sensitive_query",
+      });
+      return this.adapter.search(query);
+    }
+
+    return this.cached(
+      "search",
+      query,
+      () => this.adapter.search(query),
+      (page) => this.ttlForResults(this.ttls.search, page.results),
+    );
+  }
+
+  async getPriceHistory(query: SearchQuery): Promise<SearchPage> {
+    return this.cached(
+      "price_history",
+      query,
+      () => this.adapter.getPriceHistory(query),
+      () => this.ttls.price_history,
+    );
+  }
+
+  async getItem(itemId: string): Promise<UnifiedItem> {
+    return this.cached(
+      "get_item",
+      itemId,
+      () => this.adapter.getItem(itemId),
+      (item) =>
+        ttlForEndTime(
+          this.ttls.get_item,
+          item.endTime,
+          this.now(),
+          this.liveBypassWindowMs,
+        ),
+    );
+  }
+
+  /**
+   * Search TTL is the shortest of any result's clamped TTL.
+   * A single live lot in the results disables caching for the whole page.
+   */
+  private ttlForResults(baseTtlMs: number, results: SearchResult[]): number {
+    const now = this.now();
+    let ttl = baseTtlMs;
+
+    for (const result of results) {
+      if (result.status === "live") return 0;
+      ttl = Math.min(
+        ttl,
+        ttlForEndTime(baseTtlMs, result.endTime, now, this.liveBypassWindowMs),
+      );
+    }
+
+    return ttl;
+  }
+
+  private async cached<T extends object>(
+    operation: CacheOperation,
+    input: SearchQuery | string,
+    load: () => Promise<T>,
+    getTtl: (value: T) => number,
+  ): Promise<T> {
+    const key = buildCacheKey(this.platform, operation, input);
+
+    const raw = await this.readStore(key);
+    if (raw !== null) {
+      const value = deserialize<T>(raw);
+      cacheHits.add(value);
+      this.log.debug("Cache hit", { platform: this.platform, operation });
+      return value;
+    }
+
+    this.log.debug("Cache miss", { platform: this.platform, operation });
+    const value = await load();
+
+    const ttlMs = getTtl(value);
+    if (ttlMs > 0) {
+      await this.writeStore(key, serialize(value), ttlMs);
+    } else {
+      this.log.debug("Cache bypassed", {
+        platform: this.platform,
+        operation,
+        reason: "ending_soon",
+      });
+    }
+
+    return value;
+  }
+
+  /** Store failures degrade to a cache miss rather than failing the request. */
+  private async readStore(key: string): Promise<string | null> {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      this.log.warn("Cache read failed", {
+        platform: this.platform,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  private async writeStore(
+    key: string,
+    value: string,
+    ttlMs: number,
+  ): Promise<void> {
+    try {
+      await this.store.set(key, value, ttlMs);
+    } catch (error) {
+      this.log.warn("Cache write failed", {
+        platform: this.platform,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Wrap an adapter with response caching.
+ */
+export function withCache(
+  adapter: PlatformAdapter,
+  config: CachedAdapterConfig = {},
+): CachedPlatformAdapter {
+  return new CachedPlatformAdapter(adapter, config);
+}
+
+// --- Exports for Testing ---
+
+export { buildCacheKey, ttlForEndTime, deserialize };
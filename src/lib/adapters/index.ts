@@ -1,5 +1,9 @@
 export * from "./types";
 export * from "./rate-limiter";
+export * from "./cache";
+export * from "./resilience";
+export * from "./pagination";
+export * from "./platforms";
 export * from "./registry";
 export {
   LiveAuctioneersAdapter,
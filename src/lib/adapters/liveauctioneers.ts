@@ -1,14 +1,24 @@
 /**
  * LiveAuctioneers platform adapter.
- * Implements search, item details, and price history via their undocumented API.
+ * Implements search, item details, price history and bid history via their
+ * undocumented API.
  */
 
 import {
+  BidHistory,
   PlatformAdapter,
+  PlatformAvailability,
+  SearchPage,
   SearchQuery,
   SearchResult,
   UnifiedItem,
 } from "./types";
+import { nextPageCursor, resolvePage } from "./pagination";
+import {
+  CircuitBreaker,
+  createResilientFetch,
+  type ResiliencePolicy,
+} from "./resilience";
 import type { ILogger } from "../logging/types";
 import { serverLoggerFactory } from "../logging/server";
 
@@ -20,6 +30,8 @@ const ITEM_DETAIL_URL =
 const ITEM_FACETS_URL =
   "https://item-api-prod.liveauctioneers.com/spa/small/item-facets";
 const CONTENT_ITEMS_URL = "https://www.liveauctioneers.com/content/items";
+const BID_HISTORY_URL =
+  "https://item-api-prod.liveauctioneers.com/spa/small/bid-history";
 
 const REQUIRED_HEADERS: HeadersInit = {
   Origin: "https://www.liveauctioneers.com",
@@ -171,8 +183,33 @@ interface LAContentItem {
   similarItems?: LASearchItem[];
 }
 
+/** A single bid from the bid history API */
+interface LABid {
+  amount: number;
+  bidderId?: number;
+  /** "internet" for online bidders, "floor" for bids in the room */
+  source?: string;
+  /** Unix timestamp in seconds */
+  createdTs: number;
+}
+
+interface LABidHistoryItem {
+  itemId: number;
+  currency?: string;
+  bids?: LABid[];
+}
+
+/** Response from bid-history API */
+interface LABidHistoryResponse {
+  data?: {
+    bidHistory?: LABidHistoryItem[];
+  };
+}
+
 // --- Pure Functions for Mapping ---
 
+const DEFAULT_PAGE_SIZE = 24;
+
 const SORT_MAP: Record<string, string> = {
   relevance: "-relevance",
   "price-asc": "price",
@@ -186,12 +223,14 @@ function buildSearchParams(
 ): LASearchParameters {
   return {
     searchTerm: query.keywords,
-    page: query.page ?? 1,
-    pageSize: query.pageSize ?? 24,
+    page: resolvePage(query),
+    pageSize: query.pageSize ?? DEFAULT_PAGE_SIZE,
     categories: query.category ? [query.category] : [],
     options: {
       status,
-      auctionHouse: [{ exclude: [], include: [] }],
+      auctionHouse: [
+        { exclude: [], include: query.sellerId ? [query.sellerId] : [] },
+      ],
     },
     ranges: query.priceRange
       ? { price: { min: query.priceRange.min, max: query.priceRange.max } }
@@ -225,6 +264,10 @@ function buildContentItemsUrl(itemId: string): string {
   return `${CONTENT_ITEMS_URL}?lotIds=${itemId}&identifier=item-page-main&similarItems=true&liveStateFetch=false&c=${CACHE_KEY}`;
 }
 
+function buildBidHistoryUrl(itemId: string): string {
+  return `${BID_HISTORY_URL}?itemIds=${itemId}&c=${CACHE_KEY}`;
+}
+
 function buildItemUrl(itemId: string | number): string {
   return `https://www.liveauctioneers.com/item/${itemId}`;
 }
@@ -274,6 +317,7 @@ function mapSearchItem(
     thumbnailUrl: imageUrl,
     url: buildItemUrl(item.itemId),
     auctionHouse: item.sellerName,
+    sellerId: item.sellerId ? String(item.sellerId) : undefined,
     bidCount: item.bidCount,
     status: mapSearchStatus(item),
   };
@@ -285,6 +329,14 @@ function mapSearchItem(
     result.endTime = new Date(item.lotEndTimeEstimatedTs * 1000);
   }
 
+  // Zero means the house published no estimate
+  if (item.lowBidEstimate && item.highBidEstimate) {
+    result.estimateRange = {
+      low: item.lowBidEstimate,
+      high: item.highBidEstimate,
+    };
+  }
+
   if (includeSoldData && item.salePrice !== undefined && item.salePrice > 0) {
     result.soldPrice = item.salePrice;
     if (item.saleEndEstimatedTs) {
@@ -295,6 +347,31 @@ function mapSearchItem(
   return result;
 }
 
+/**
+ * Map a search API response to a SearchPage, deriving the next cursor
+ * from the platform's reported totals.
+ */
+function mapSearchPage(
+  response: LASearchApiResponse,
+  params: LASearchParameters,
+  includeSoldData: boolean,
+): SearchPage {
+  const items = response.payload?.items ?? [];
+  const results = items.map((item) => mapSearchItem(item, includeSoldData));
+  const totalCount = response.payload?.totalFound;
+
+  return {
+    results,
+    totalCount,
+    nextCursor: nextPageCursor(
+      params.page,
+      params.pageSize,
+      totalCount,
+      results.length,
+    ),
+  };
+}
+
 function inferAuctionType(status?: string): UnifiedItem["auctionType"] {
   if (status === "live") return "live";
   return "timed";
@@ -388,6 +465,36 @@ function buildUnifiedItem(
   };
 }
 
+function mapBidder(bid: LABid): string {
+  if (bid.source === "floor") return "Floor";
+  if (bid.bidderId !== undefined) return `Bidder ${bid.bidderId}`;
+  return "Anonymous";
+}
+
+/**
+ * Map a bid history response to bids in chronological order.
+ * Returns an empty list when the item has no bids.
+ */
+function mapBidHistory(
+  response: LABidHistoryResponse,
+  itemId: string,
+): BidHistory[] {
+  const entry = response.data?.bidHistory?.find(
+    (item) => String(item.itemId) === itemId,
+  );
+  if (!entry?.bids) return [];
+
+  const currency = entry.currency ?? "USD";
+  return entry.bids
+    .map((bid) => ({
+      bidder: mapBidder(bid),
+      amount: bid.amount,
+      currency,
+      timestamp: new Date(bid.createdTs * 1000),
+    }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
 // --- HTTP Helper ---
 
 export type FetchFn = typeof fetch;
@@ -439,24 +546,43 @@ export interface LiveAuctioneersConfig {
   fetchFn?: FetchFn;
   /** Optional logger for testing. If not provided, uses serverLoggerFactory. */
   log?: ILogger;
+  /** Timeout and retry overrides. Defaults to DEFAULT_RESILIENCE_POLICY */
+  resilience?: Partial<ResiliencePolicy>;
+  /** Circuit breaker instance. If not provided, creates one for this platform */
+  circuitBreaker?: CircuitBreaker;
 }
 
 export class LiveAuctioneersAdapter implements PlatformAdapter {
   readonly platform = PLATFORM;
   private readonly fetchFn: FetchFn;
   private readonly log: ILogger;
+  private readonly circuitBreaker: CircuitBreaker;
 
   constructor(config: LiveAuctioneersConfig = {}) {
-    this.fetchFn = config.fetchFn ?? fetch;
     this.log =
       config.log ??
       serverLoggerFactory.create({
         distinctId: "system",
         component: "adapter:liveauctioneers",
       });
+
+    const resilienceLog = this.log.child({ subcomponent: "resilience" });
+    this.circuitBreaker =
+      config.circuitBreaker ??
+      new CircuitBreaker({ platform: PLATFORM, log: resilienceLog });
+
+    this.fetchFn = createResilientFetch(config.fetchFn ?? fetch, {
+      breaker: this.circuitBreaker,
+      policy: config.resilience,
+      log: resilienceLog,
+    });
+  }
+
+  getAvailability(): PlatformAvailability {
+    return this.circuitBreaker.getAvailability();
   }
 
-  async search(query: SearchQuery): Promise<SearchResult[]> {
+  async search(query: SearchQuery): Promise<SearchPage> {
     const startTime = Date.now();
     this.log.info("Search started", {
       keywords: query.keywords,
@@ -471,16 +597,16 @@ export class LiveAuctioneersAdapter implements PlatformAdapter {
         url,
         "LiveAuctioneers search failed",
       );
-      const items = response.payload?.items ?? [];
-      const results = items.map((item) => mapSearchItem(item, false));
+      const page = mapSearchPage(response, params, false);
 
       this.log.info("Search complete", {
         keywords: query.keywords,
-        resultCount: results.length,
+        resultCount: page.results.length,
+        totalCount: page.totalCount,
         durationMs: Date.now() - startTime,
       });
 
-      return results;
+      return page;
     } catch (error) {
       this.log.error("Search failed", {
         keywords: query.keywords,
@@ -491,7 +617,7 @@ export class LiveAuctioneersAdapter implements PlatformAdapter {
     }
   }
 
-  async getPriceHistory(query: SearchQuery): Promise<SearchResult[]> {
+  async getPriceHistory(query: SearchQuery): Promise<SearchPage> {
     const startTime = Date.now();
     this.log.info("Price history started", { keywords: query.keywords });
 
@@ -503,16 +629,16 @@ export class LiveAuctioneersAdapter implements PlatformAdapter {
         url,
         "LiveAuctioneers price history failed",
       );
-      const items = response.payload?.items ?? [];
-      const results = items.map((item) => mapSearchItem(item, true));
+      const page = mapSearchPage(response, params, true);
 
       this.log.info("Price history complete", {
         keywords: query.keywords,
-        resultCount: results.length,
+        resultCount: page.results.length,
+        totalCount: page.totalCount,
         durationMs: Date.now() - startTime,
       });
 
-      return results;
+      return page;
     } catch (error) {
       this.log.error("Price history failed", {
         keywords: query.keywords,
@@ -565,6 +691,35 @@ export class LiveAuctioneersAdapter implements PlatformAdapter {
       throw error;
     }
   }
+
+  async getBidHistory(itemId: string): Promise<BidHistory[]> {
+    const startTime = Date.now();
+    this.log.debug("getBidHistory started", { itemId });
+
+    try {
+      const response = await fetchJson<LABidHistoryResponse>(
+        this.fetchFn,
+        buildBidHistoryUrl(itemId),
+        "Failed to fetch bid history",
+      );
+      const bids = mapBidHistory(response, itemId);
+
+      this.log.debug("getBidHistory complete", {
+        itemId,
+        bidCount: bids.length,
+        durationMs: Date.now() - startTime,
+      });
+
+      return bids;
+    } catch (error) {
+      this.log.error("getBidHistory failed", {
+        itemId,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startTime,
+      });
+      throw error;
+    }
+  }
 }
 
 // --- Exports for Testing ---
@@ -573,9 +728,14 @@ export {
   buildSearchParams,
   buildSearchUrl,
   mapSearchItem,
+  mapSearchPage,
   buildUnifiedItem,
+  buildBidHistoryUrl,
+  mapBidHistory,
   inferAuctionType,
   ACTIVE_AUCTION_STATUS,
   SOLD_ITEM_STATUS,
   type LASearchItem,
+  type LASearchApiResponse,
+  type LABidHistoryResponse,
 };
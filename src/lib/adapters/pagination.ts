@@ -0,0 +1,97 @@
+/**
+ * Opaque cursor encoding for paginated adapter searches.
+ * Platform cursors wrap a page number; multi-platform cursors wrap one cursor per platform.
+ */
+
+import type { SearchQuery } from "./types";
+
+// --- Encoding ---
+
+function encodeCursor(value: unknown): string {
+  return btoa(JSON.stringify(value));
+}
+
+function decodeCursor(cursor: string): unknown {
+  try {
+    return JSON.parse(atob(cursor));
+  } catch {
+    return null;
+  }
+}
+
+// --- Platform Cursors ---
+
+/**
+ * Encode a page number as an opaque platform cursor.
+ */
+export function encodePageCursor(page: number): string {
+  return encodeCursor({ page });
+}
+
+/**
+ * Decode a platform cursor back to a page number.
+ * Returns undefined for malformed cursors.
+ */
+export function decodePageCursor(cursor: string): number | undefined {
+  const decoded = decodeCursor(cursor) as { page?: unknown } | null;
+  const page = decoded?.page;
+  return typeof page === "number" && Number.isInteger(page) && page >= 1
+    ? page
+    : undefined;
+}
+
+/**
+ * Resolve which page a query targets. A cursor takes precedence over `page`.
+ */
+export function resolvePage(query: SearchQuery): number {
+  if (query.cursor) {
+    const page = decodePageCursor(query.cursor);
+    if (page !== undefined) return page;
+  }
+  return query.page ?? 1;
+}
+
+/**
+ * Cursor for the page after `page`, or undefined when no results remain.
+ */
+export function nextPageCursor(
+  page: number,
+  pageSize: number,
+  totalCount: number | undefined,
+  resultCount: number,
+): string | undefined {
+  const hasMore =
+    totalCount !== undefined
+      ? page * pageSize < totalCount
+      : resultCount >= pageSize;
+  return hasMore && resultCount > 0 ? encodePageCursor(page + 1) : undefined;
+}
+
+// --- Multi-Platform Cursors ---
+
+/**
+ * Combine per-platform cursors into a single cursor.
+ * Returns undefined when no platform has more results.
+ */
+export function encodePlatformCursors(
+  cursors: Record<string, string>,
+): string | undefined {
+  return Object.keys(cursors).length > 0 ? encodeCursor(cursors) : undefined;
+}
+
+/**
+ * Split a multi-platform cursor into per-platform cursors.
+ * Returns null for malformed cursors.
+ */
+export function decodePlatformCursors(
+  cursor: string,
+): Record<string, string> | null {
+  const decoded = decodeCursor(cursor);
+  if (!decoded || typeof decoded !== "object" || Array.isArray(decoded)) {
+    return null;
+  }
+  const entries = Object.entries(decoded).filter(
+    (entry): entry is [string, string] => typeof entry[1] === "string",
+  );
+  return Object.fromEntries(entries);
+}
@@ -0,0 +1,36 @@
+/**
+ * Display names and capabilities for platform identifiers.
+ * Kept free of adapter imports so client components can use it.
+ */
+
+const PLATFORM_DISPLAY_NAMES: Record<string, string> = {
+  liveauctioneers: "LiveAuctioneers",
+  "1stdibs": "1stDibs",
+};
+
+/**
+ * Human-readable platform name, falling back to the raw identifier.
+ */
+export function getPlatformDisplayName(platform: string): string {
+  return PLATFORM_DISPLAY_NAMES[platform.toLowerCase()] ?? platform;
+}
+
+/** Platforms whose adapter implements getBidHistory. */
+const BID_HISTORY_PLATFORMS = new Set(["liveauctioneers"]);
+
+/**
+ * Whether bid history can be loaded for a platform's lots.
+ */
+export function supportsBidHistory(platform: string): boolean {
+  return BID_HISTORY_PLATFORMS.has(platform.toLowerCase());
+}
+
+/** Platforms whose adapter can filter searches by seller ID. */
+const SELLER_PROFILE_PLATFORMS = new Set(["liveauctioneers"]);
+
+/**
+ * Whether a seller profile can be assembled for a platform's sellers.
+ */
+export function supportsSellerProfile(platform: string): boolean {
+  return SELLER_PROFILE_PLATFORMS.has(platform.toLowerCase());
+}
@@ -6,11 +6,17 @@
 import { PlatformAdapter } from "./types";
 import { LiveAuctioneersAdapter } from "./liveauctioneers";
 import { FirstDibsAdapter } from "./1stdibs";
+import { MemoryCacheStore, withCache } from "./cache";
 import { serverLoggerFactory } from "@/lib/logging/server";
 
+// Shared across platforms; cache keys are namespaced by platform
+const cacheStore = new MemoryCacheStore();
+
 const adapters: Record<string, PlatformAdapter> = {
-  liveauctioneers: new LiveAuctioneersAdapter(),
-  "1stdibs": new FirstDibsAdapter(),
+  liveauctioneers: withCache(new LiveAuctioneersAdapter(), {
+    store: cacheStore,
+  }),
+  "1stdibs": withCache(new FirstDibsAdapter(), { store: cacheStore }),
 };
 
 const registryLog = serverLoggerFactory.create({
@@ -0,0 +1,323 @@
+/**
+ * Resilience policy for platform HTTP calls.
+ * Per-request timeouts, bounded exponential backoff on 429/5xx honoring Retry-After,
+ * and a per-platform circuit breaker that short-circuits a failing platform.
+ */
+
+import type { PlatformAvailability } from "./types";
+import type { ILogger } from "../logging/types";
+
+type FetchFn = typeof fetch;
+
+// --- Errors ---
+
+/**
+ * Thrown when a platform's circuit is open and requests are short-circuited.
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly platform: string,
+    readonly retryAt: Date,
+  ) {
+    super(
+      `${platform} is temporarily unavailable (retry after ${retryAt.toISOString()})`,
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Thrown when a request exceeds its per-attempt timeout on every attempt.
+ */
+export class RequestTimeoutError extends Error {
+  constructor(
+    readonly platform: string,
+    readonly timeoutMs: number,
+  ) {
+    super(`${platform} request timed out after ${timeoutMs}ms`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+// --- Circuit Breaker ---
+
+export type CircuitState = PlatformAvailability["state"];
+
+export interface CircuitBreakerConfig {
+  /** Platform name, used in errors and availability reports */
+  platform: string;
+  /** Consecutive failures before the circuit opens. Default: 5 */
+  failureThreshold?: number;
+  /** How long the circuit stays open before allowing a probe. Default: 30s */
+  cooldownMs?: number;
+  /** Clock override for testing */
+  now?: () => number;
+  /** Optional logger for state transitions */
+  log?: ILogger;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+/**
+ * Consecutive-failure circuit breaker.
+ * closed → open after `failureThreshold` failures; open → half-open after `cooldownMs`;
+ * half-open closes on the next success or re-opens on the next failure.
+ */
+export class CircuitBreaker {
+  readonly platform: string;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+  private readonly log?: ILogger;
+
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(config: CircuitBreakerConfig) {
+    this.platform = config.platform;
+    this.failureThreshold =
+      config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = config.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.now = config.now ?? Date.now;
+    this.log = config.log;
+  }
+
+  /**
+   * Current state, moving open → half-open once the cool-down has elapsed.
+   */
+  getState(): CircuitState {
+    if (
+      this.state === "open" &&
+      this.now() - this.openedAt >= this.cooldownMs
+    ) {
+      this.transition("half-open");
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a request may be attempted right now.
+   */
+  canRequest(): boolean {
+    return this.getState() !== "open";
+  }
+
+  /**
+   * When the circuit will next allow a probe request.
+   */
+  getRetryAt(): Date {
+    return new Date(this.openedAt + this.cooldownMs);
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures += 1;
+
+    const shouldOpen =
+      this.getState() === "half-open" ||
+      this.consecutiveFailures >= this.failureThreshold;
+
+    if (shouldOpen) {
+      this.openedAt = this.now();
+      if (this.state !== "open") {
+        this.transition("open");
+      }
+    }
+  }
+
+  /**
+   * Availability snapshot for reporting to tools and the agent.
+   */
+  getAvailability(): PlatformAvailability {
+    const state = this.getState();
+    return {
+      platform: this.platform,
+      available: state !== "open",
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: state === "open" ? this.getRetryAt() : undefined,
+    };
+  }
+
+  private transition(next: CircuitState): void {
+    this.log?.warn("Circuit state changed", {
+      platform: this.platform,
+      from: this.state,
+      to: next,
+      consecutiveFailures: this.consecutiveFailures,
+    });
+    this.state = next;
+  }
+}
+
+// --- Retry Policy ---
+
+export interface ResiliencePolicy {
+  /** Per-attempt timeout in milliseconds. Default: 10s */
+  timeoutMs: number;
+  /** Retries after the first attempt. Default: 2 */
+  maxRetries: number;
+  /** First backoff delay; doubles each retry. Default: 300ms */
+  baseDelayMs: number;
+  /** Upper bound on any single delay, including Retry-After. Default: 5s */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+  timeoutMs: 10_000,
+  maxRetries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5_000,
+};
+
+/**
+ * Whether an HTTP status is worth retrying.
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+function parseRetryAfter(
+  header: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Backoff delay for a retry attempt (0-based), preferring the server's Retry-After.
+ */
+function computeBackoffDelay(
+  attempt: number,
+  policy: ResiliencePolicy,
+  retryAfterMs?: number,
+): number {
+  const exponential = policy.baseDelayMs * 2 ** attempt;
+  return Math.min(policy.maxDelayMs, retryAfterMs ?? exponential);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// --- Resilient Fetch ---
+
+export interface ResilientFetchConfig {
+  breaker: CircuitBreaker;
+  policy?: Partial<ResiliencePolicy>;
+  /** Sleep override for testing */
+  sleep?: (ms: number) => Promise<void>;
+  log?: ILogger;
+}
+
+/**
+ * Wrap a fetch function with timeout, retry and circuit breaker behavior.
+ * Retryable responses that exhaust retries are returned as-is so callers keep
+ * their own status-based error messages; they still count as breaker failures.
+ */
+export function createResilientFetch(
+  baseFetch: FetchFn,
+  config: ResilientFetchConfig,
+): FetchFn {
+  const { breaker, log } = config;
+  const policy = { ...DEFAULT_RESILIENCE_POLICY, ...config.policy };
+  const wait = config.sleep ?? sleep;
+
+  return async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (!breaker.canRequest()) {
+      throw new CircuitOpenError(breaker.platform, breaker.getRetryAt());
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const hasRetriesLeft = attempt < policy.maxRetries;
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, policy.timeoutMs);
+      const onCallerAbort = () => controller.abort();
+      init?.signal?.addEventListener("abort", onCallerAbort);
+
+      let response: Response;
+      try {
+        response = await baseFetch(input, {
+          ...init,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        // Caller cancelled: not the platform's fault, don't retry or count it
+        if (init?.signal?.aborted) throw error;
+
+        const failure = timedOut
+          ? new RequestTimeoutError(breaker.platform, policy.timeoutMs)
+          : error;
+
+        if (hasRetriesLeft) {
+          const delayMs = computeBackoffDelay(attempt, policy);
+          log?.debug("Request failed, retrying", {
+            attempt,
+            delayMs,
+            error: failure instanceof Error ? failure.message : String(failure),
+          });
+          await wait(delayMs);
+          continue;
+        }
+
+        breaker.recordFailure();
+        throw failure;
+      } finally {
+        clearTimeout(timer);
+        init?.signal?.removeEventListener("abort", onCallerAbort);
+      }
+
+      if (!isRetryableStatus(response.status)) {
+        breaker.recordSuccess();
+        return response;
+      }
+
+      if (!hasRetriesLeft) {
+        breaker.recordFailure();
+        return response;
+      }
+
+      const retryAfterMs = parseRetryAfter(
+        response.headers?.get("retry-after"),
+      );
+      const delayMs = computeBackoffDelay(attempt, policy, retryAfterMs);
+      log?.debug("Retryable response, retrying", {
+        attempt,
+        status: response.status,
+        delayMs,
+      });
+      await wait(delayMs);
+    }
+  };
+}
+
+// --- Exports for Testing ---
+
+export { isRetryableStatus, parseRetryAfter, computeBackoffDelay };
@@ -3,6 +3,8 @@
  * Provides a unified interface across auction platforms.
  */
 
+import type { ConditionReport } from "@/lib/condition";
+
 export interface SearchQuery {
   keywords: string;
   category?: string;
@@ -10,8 +12,12 @@ export interface SearchQuery {
   condition?: string[];
   endingSoon?: boolean;
   location?: string;
+  /** Restrict to one seller or auction house, by platform seller ID */
+  sellerId?: string;
   page?: number;
   pageSize?: number;
+  /** Opaque cursor from a previous SearchPage. Takes precedence over `page` */
+  cursor?: string;
   sort?: "relevance" | "price-asc" | "price-desc" | "ending-soon";
 }
 
@@ -27,9 +33,82 @@ export interface SearchResult {
   bidCount?: number;
   url: string;
   auctionHouse?: string;
+  /** Platform ID of the seller or auction house, for seller profiles */
+  sellerId?: string;
   status?: "upcoming" | "live" | "online" | "sold" | "passed" | "done";
+  /** Auction house's pre-sale estimate, when published */
+  estimateRange?: { low: number; high: number };
   soldPrice?: number;
   soldDate?: Date;
+  /** Same object listed on other platforms, set by cross-platform deduplication */
+  alsoOn?: PlatformOffer[];
+  /** Prices in the common currency, set after retrieval. Original amounts are kept above. */
+  converted?: ConvertedPrice;
+  /** Sold price restated in today's money, set on comparable sales */
+  inflationAdjusted?: InflationAdjustedPrice;
+  /** How comparable a sold lot is to the item being valued */
+  similarity?: ComparableSimilarity;
+}
+
+/**
+ * Prices converted to a common currency.
+ */
+export interface ConvertedPrice {
+  currency: string;
+  currentPrice: number;
+  soldPrice?: number;
+  estimateRange?: { low: number; high: number };
+  /** Multiplier applied to the original amounts */
+  rate: number;
+  /** Publication date of the exchange rates used */
+  ratesAsOf: string;
+}
+
+/**
+ * A sold price restated in a later year's money using a price index.
+ */
+export interface InflationAdjustedPrice {
+  currency: string;
+  soldPrice: number;
+  /** Multiplier applied to the nominal sold price in `currency` */
+  factor: number;
+  fromYear: number;
+  toYear: number;
+  /** Name of the price index used */
+  index: string;
+}
+
+/**
+ * Similarity of a comparable sale to the item being valued.
+ */
+export interface ComparableSimilarity {
+  /** 0–1 */
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * A listing of an object on one platform.
+ */
+export interface PlatformOffer {
+  platform: string;
+  itemId: string;
+  url: string;
+  currentPrice: number;
+  currency: string;
+  auctionHouse?: string;
+  status?: SearchResult["status"];
+}
+
+/**
+ * One page of search results from a single platform.
+ */
+export interface SearchPage {
+  results: SearchResult[];
+  /** Total matches reported by the platform, when available */
+  totalCount?: number;
+  /** Opaque cursor for the next page; undefined when no results remain */
+  nextCursor?: string;
 }
 
 export interface UnifiedItem {
@@ -47,6 +126,8 @@ export interface UnifiedItem {
   currency: string;
   estimateRange?: { low: number; high: number };
   buyNowPrice?: number;
+  /** Prices in the common currency, set after retrieval */
+  converted?: ConvertedPrice;
 
   auctionType: "timed" | "live" | "buy-now";
   endTime?: Date;
@@ -63,6 +144,8 @@ export interface UnifiedItem {
 
   condition?: string;
   conditionNotes?: string;
+  /** Parsed from condition and conditionNotes, set after retrieval */
+  conditionReport?: ConditionReport;
   provenance?: string;
   dimensions?: string;
   materials?: string[];
@@ -84,6 +167,56 @@ export interface BidHistory {
   timestamp: Date;
 }
 
+/**
+ * Current reachability of a platform, as tracked by its circuit breaker.
+ */
+export interface PlatformAvailability {
+  platform: string;
+  available: boolean;
+  state: "closed" | "open" | "half-open";
+  consecutiveFailures: number;
+  /** When a short-circuited platform will next be tried */
+  retryAt?: Date;
+}
+
+/**
+ * Outcome of one platform's part in a multi-platform search.
+ * `disabled` means the platform was requested but its feature flag is off;
+ * `unavailable` that its circuit breaker is open after repeated failures.
+ */
+export type PlatformSearchOutcome =
+  | "ok"
+  | "error"
+  | "disabled"
+  | "timeout"
+  | "unavailable";
+
+export interface PlatformSearchStatus {
+  platform: string;
+  status: PlatformSearchOutcome;
+  resultCount: number;
+  latencyMs: number;
+  /** Total matches reported by the platform, when available */
+  totalCount?: number;
+  /** Whether this platform has another page */
+  hasMore?: boolean;
+  /** Error message when status is error, timeout or unavailable */
+  error?: string;
+  /** When an unavailable platform will next be tried (ISO 8601) */
+  retryAt?: string;
+}
+
+/**
+ * Merged multi-platform search results with per-platform status,
+ * so "no matches" can be told apart from "platform unreachable".
+ */
+export interface MultiPlatformSearchResult {
+  results: SearchResult[];
+  platforms: PlatformSearchStatus[];
+  /** Opaque cursor covering every platform with more results */
+  nextCursor?: string;
+}
+
 /**
  * Interface for platform adapters.
  * Each platform (LiveAuctioneers, eBay, etc.) implements this interface.
@@ -91,18 +224,21 @@ export interface BidHistory {
 export interface PlatformAdapter {
   readonly platform: string;
 
-  /** Search for active auction items. */
-  search(query: SearchQuery): Promise<SearchResult[]>;
+  /** Search for active auction items, one page at a time. */
+  search(query: SearchQuery): Promise<SearchPage>;
 
   /** Get full details for a specific item. */
   getItem(itemId: string): Promise<UnifiedItem>;
 
-  /** Search sold/completed items for price history. */
-  getPriceHistory(query: SearchQuery): Promise<SearchResult[]>;
+  /** Search sold/completed items for price history, one page at a time. */
+  getPriceHistory(query: SearchQuery): Promise<SearchPage>;
 
   /** Optional: Add item to watch list. */
   watchItem?(itemId: string): Promise<WatchResult>;
 
   /** Optional: Get bid history for an item. */
   getBidHistory?(itemId: string): Promise<BidHistory[]>;
+
+  /** Optional: Report whether the platform is currently reachable. */
+  getAvailability?(): PlatformAvailability;
 }
@@ -15,6 +15,11 @@ const agents: Record<AgentId, AgentConfig> = {
     toolIds: [
       "searchItems",
       "getItemDetails",
+      "calculateTotalCost",
+      "getBidHistory",
+      "getSellerProfile",
+      "watchItem",
+      "compareItems",
       "switchAgentMode",
       "promptSignIn",
     ],
@@ -30,8 +35,12 @@ const agents: Record<AgentId, AgentConfig> = {
     systemPrompt: appraiserPrompt,
     toolIds: [
       "getPriceHistory",
+      "identifyItem",
       "assessValue",
+      "analyzeEstimateAccuracy",
       "getItemDetails",
+      "getSellerProfile",
+      "compareItems",
       "switchAgentMode",
       "promptSignIn",
     ],
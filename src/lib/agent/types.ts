@@ -11,7 +11,14 @@ export type ToolName =
   | "searchItems"
   | "getItemDetails"
   | "getPriceHistory"
+  | "identifyItem"
   | "assessValue"
+  | "analyzeEstimateAccuracy"
+  | "calculateTotalCost"
+  | "getBidHistory"
+  | "getSellerProfile"
+  | "watchItem"
+  | "compareItems"
   | "switchAgentMode"
   | "promptSignIn";
 
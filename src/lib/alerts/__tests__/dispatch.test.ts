@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from "vitest";
+import { MockLogger } from "@/lib/logging/mock";
+import {
+  AlertDispatcher,
+  EmailChannel,
+  InAppChannel,
+  MAX_HISTORY_PER_USER,
+} from "../dispatch";
+import type { EmailTransport } from "../email";
+import { MemoryNotificationStore } from "../store";
+import type { AlertRule } from "../types";
+
+// --- Test Fixtures ---
+
+const NOW = new Date("2026-06-01T00:00:00Z").getTime();
+
+const rule: AlertRule = {
+  id: "rule-1",
+  userId: "user-1",
+  type: "ending-soon",
+  watchlistEntryId: "liveauctioneers:1",
+  minutesBefore: 30,
+  channels: ["in-app", "email"],
+  enabled: true,
+  createdAt: "2026-06-01T00:00:00.000Z",
+};
+
+const message = {
+  title: "Ending in 20 minutes",
+  body: "Art Deco Lamp",
+  url: "/watchlist",
+};
+
+function createDispatcher(
+  transport: Pick<EmailTransport, "send">,
+  resolveEmail = async (): Promise<string | null> => "collector@example.com",
+) {
+  const history = new MemoryNotificationStore();
+  const dispatcher = new AlertDispatcher({
+    channels: [
+      new InAppChannel(),
+      new EmailChannel({
+        transport: { name: "test", ...transport },
+        from: "alerts@example.com",
+        resolveEmail,
+        baseUrl: "https://appraiser.example.com",
+      }),
+    ],
+    history,
+    log: new MockLogger(),
+    now: () => NOW,
+  });
+  return { dispatcher, history };
+}
+
+// --- Tests ---
+
+describe("AlertDispatcher", () => {
+  it("delivers on every channel and records history", async () => {
+    const transport = { send: vi.fn().mockResolvedValue(undefined) };
+    const { dispatcher } = createDispatcher(transport);
+
+    const notifications = await dispatcher.dispatch(rule, message);
+
+    expect(notifications.map((n) => [n.channel, n.status])).toEqual([
+      ["in-app", "delivered"],
+      ["email", "delivered"],
+    ]);
+    expect(transport.send).toHaveBeenCalledWith({
+      from: "alerts@example.com",
+      to: "collector@example.com",
+      subject: "Ending in 20 minutes",
+      text: "Art Deco Lamp\n\nhttps://appraiser.example.com/watchlist",
+    });
+    expect(await dispatcher.listHistory("user-1")).toHaveLength(2);
+  });
+
+  it("records a failed channel without blocking the others", async () => {
+    const transport = { send: vi.fn() };
+    const { dispatcher } = createDispatcher(transport, async () => null);
+
+    const notifications = await dispatcher.dispatch(rule, message);
+
+    expect(notifications[0].status).toBe("delivered");
+    expect(notifications[1]).toMatchObject({
+      channel: "email",
+      status: "failed",
+      error: "No email address for user",
+    });
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it("marks notifications read once", async () => {
+    const { dispatcher } = createDispatcher({ send: vi.fn() });
+    const [inApp] = await dispatcher.dispatch(
+      { ...rule, channels: ["in-app"] },
+      message,
+    );
+
+    expect(await dispatcher.markRead("user-1", [inApp.id])).toBe(1);
+    expect(await dispatcher.markRead("user-1", [inApp.id])).toBe(0);
+    expect(await dispatcher.markRead("user-2", [inApp.id])).toBe(0);
+  });
+
+  it("prunes history beyond the per-user limit", async () => {
+    const { dispatcher, history } = createDispatcher({ send: vi.fn() });
+    for (let i = 0; i < MAX_HISTORY_PER_USER; i++) {
+      await history.put({
+        id: `old-${i}`,
+        userId: "user-1",
+        ruleId: "rule-1",
+        ruleType: "ending-soon",
+        channel: "in-app",
+        title: "Old",
+        body: "",
+        createdAt: new Date(NOW - (i + 1) * 1000).toISOString(),
+        status: "delivered",
+      });
+    }
+
+    await dispatcher.dispatch({ ...rule, channels: ["in-app"] }, message);
+
+    const all = await dispatcher.listHistory("user-1");
+    expect(all).toHaveLength(MAX_HISTORY_PER_USER);
+    expect(all[0].title).toBe("Ending in 20 minutes");
+    expect(all.some((n) => n.id === `old-${MAX_HISTORY_PER_USER - 1}`)).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import type { SearchResult } from "@/lib/adapters/types";
+import type { SavedSearch } from "@/lib/saved-searches/types";
+import type { WatchlistItemStatus } from "@/lib/watchlist/types";
+import {
+  evaluateEndingSoon,
+  evaluatePriceThreshold,
+  evaluateSavedSearchMatch,
+} from "../rules";
+import type {
+  EndingSoonRule,
+  PriceThresholdRule,
+  SavedSearchMatchRule,
+} from "../types";
+
+// --- Test Fixtures ---
+
+const MINUTE = 60 * 1000;
+
+const base = {
+  id: "rule-1",
+  userId: "user-1",
+  channels: ["in-app" as const],
+  enabled: true,
+  createdAt: "2026-06-01T00:00:00.000Z",
+};
+
+function status(
+  overrides: Partial<WatchlistItemStatus> = {},
+): WatchlistItemStatus {
+  return {
+    entry: {
+      id: "liveauctioneers:1",
+      userId: "user-1",
+      platform: "liveauctioneers",
+      itemId: "1",
+      title: "Art Deco Lamp",
+      url: "https://example.com/1",
+      currency: "USD",
+      priceAtWatch: 200,
+      watchedAt: "2026-06-01T00:00:00.000Z",
+      platformWatched: false,
+    },
+    currentPrice: 250,
+    timeRemainingMs: 60 * MINUTE,
+    ...overrides,
+  };
+}
+
+function search(overrides: Partial<SavedSearch> = {}): SavedSearch {
+  return {
+    id: "search-1",
+    userId: "user-1",
+    name: "Art deco lamps",
+    query: { keywords: "art deco lamp" },
+    createdAt: "2026-06-01T00:00:00.000Z",
+    lastRunAt: "2026-06-01T00:00:00.000Z",
+    seenItemIds: [],
+    newItemIds: [],
+    ...overrides,
+  };
+}
+
+function result(itemId: string): SearchResult {
+  return {
+    platform: "liveauctioneers",
+    itemId,
+    title: `Lamp ${itemId}`,
+    currentPrice: 100,
+    currency: "USD",
+    imageUrl: "",
+    url: `https://example.com/${itemId}`,
+  };
+}
+
+// --- Tests ---
+
+describe("evaluateEndingSoon", () => {
+  const rule: EndingSoonRule = {
+    ...base,
+    type: "ending-soon",
+    watchlistEntryId: "liveauctioneers:1",
+    minutesBefore: 30,
+  };
+
+  it("fires once inside the window", () => {
+    const { rule: updated, message } = evaluateEndingSoon(
+      rule,
+      status({ timeRemainingMs: 20 * MINUTE }),
+    );
+
+    expect(message).toEqual({
+      title: "Ending in 20 minutes",
+      body: "Art Deco Lamp",
+      url: "https://example.com/1",
+    });
+    expect(updated.fired).toBe(true);
+    expect(
+      evaluateEndingSoon(updated, status({ timeRemainingMs: 10 * MINUTE }))
+        .message,
+    ).toBeNull();
+  });
+
+  it("waits until the window and ignores ended lots", () => {
+    expect(evaluateEndingSoon(rule, status()).message).toBeNull();
+    expect(
+      evaluateEndingSoon(rule, status({ timeRemainingMs: 0 })).message,
+    ).toBeNull();
+  });
+});
+
+describe("evaluatePriceThreshold", () => {
+  const rule: PriceThresholdRule = {
+    ...base,
+    type: "price-threshold",
+    watchlistEntryId: "liveauctioneers:1",
+    threshold: 300,
+    direction: "above",
+  };
+
+  it("fires when the bid crosses the threshold", () => {
+    const { rule: updated, message } = evaluatePriceThreshold(
+      rule,
+      status({ currentPrice: 325 }),
+    );
+
+    expect(message?.title).toBe("Bid reached $325");
+    expect(message?.body).toBe("Art Deco Lamp crossed your $300 alert");
+    expect(updated.crossed).toBe(true);
+  });
+
+  it("re-arms only after crossing back", () => {
+    const crossed = { ...rule, crossed: true };
+
+    expect(
+      evaluatePriceThreshold(crossed, status({ currentPrice: 350 })).message,
+    ).toBeNull();
+
+    const rearmed = evaluatePriceThreshold(crossed, status());
+    expect(rearmed.message).toBeNull();
+    expect(rearmed.rule.crossed).toBe(false);
+  });
+
+  it("supports falling thresholds", () => {
+    const { message } = evaluatePriceThreshold(
+      { ...rule, direction: "below", threshold: 260 },
+      status(),
+    );
+    expect(message?.title).toBe("Bid fell to $250");
+  });
+
+  it("does nothing without a current price", () => {
+    const evaluation = evaluatePriceThreshold(
+      rule,
+      status({ currentPrice: undefined }),
+    );
+    expect(evaluation).toEqual({ rule, message: null });
+  });
+});
+
+describe("evaluateSavedSearchMatch", () => {
+  const rule: SavedSearchMatchRule = {
+    ...base,
+    type: "saved-search-match",
+    savedSearchId: "search-1",
+  };
+
+  it("alerts on new matches not yet notified", () => {
+    const { rule: updated, message } = evaluateSavedSearchMatch(
+      { ...rule, notifiedItemIds: ["liveauctioneers:1"] },
+      search({ newItemIds: ["liveauctioneers:1", "liveauctioneers:2"] }),
+      [result("1"), result("2")],
+    );
+
+    expect(message?.title).toBe('1 new match for "Art deco lamps"');
+    expect(message?.body).toBe("Lamp 2");
+    expect(updated.notifiedItemIds).toEqual([
+      "liveauctioneers:1",
+      "liveauctioneers:2",
+    ]);
+  });
+
+  it("alerts on matches found outside the scheduler", () => {
+    const { message } = evaluateSavedSearchMatch(
+      rule,
+      search({ newItemIds: ["liveauctioneers:3"] }),
+    );
+    expect(message?.body).toBe("Open the saved search to see them.");
+  });
+
+  it("forgets notified keys once the search is viewed", () => {
+    const { rule: updated, message } = evaluateSavedSearchMatch(
+      { ...rule, notifiedItemIds: ["liveauctioneers:1"] },
+      search(),
+    );
+
+    expect(message).toBeNull();
+    expect(updated.notifiedItemIds).toEqual([]);
+  });
+});
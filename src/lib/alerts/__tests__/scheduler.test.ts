@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { MockServerAnalytics } from "@/lib/analytics";
+import { RateLimiter } from "@/lib/adapters/rate-limiter";
+import { MockLogger } from "@/lib/logging/mock";
+import type { SavedSearch } from "@/lib/saved-searches/types";
+import type { WatchlistEntry } from "@/lib/watchlist/types";
+
+vi.mock("@/lib/analytics/server", () => ({
+  serverAnalytics: new MockServerAnalytics(),
+}));
+
+import { serverAnalytics } from "@/lib/analytics/server";
+import { AlertDispatcher, InAppChannel } from "../dispatch";
+import { AlertScheduler } from "../scheduler";
+import { MemoryAlertRuleStore, MemoryNotificationStore } from "../store";
+import type { AlertRule } from "../types";
+
+// --- Test Fixtures ---
+
+const NOW = new Date("2026-06-01T00:00:00Z").getTime();
+const MINUTE = 60 * 1000;
+
+const entry: WatchlistEntry = {
+  id: "liveauctioneers:1",
+  userId: "user-1",
+  platform: "liveauctioneers",
+  itemId: "1",
+  title: "Art Deco Lamp",
+  url: "https://example.com/1",
+  currency: "USD",
+  priceAtWatch: 200,
+  watchedAt: "2026-06-01T00:00:00.000Z",
+  platformWatched: false,
+};
+
+const savedSearch: SavedSearch = {
+  id: "search-1",
+  userId: "user-1",
+  name: "Art deco lamps",
+  query: { keywords: "art deco lamp" },
+  createdAt: "2026-06-01T00:00:00.000Z",
+  seenItemIds: [],
+  newItemIds: [],
+};
+
+const base = {
+  userId: "user-1",
+  channels: ["in-app" as const],
+  enabled: true,
+  createdAt: "2026-06-01T00:00:00.000Z",
+};
+
+const watchlist = {
+  get: vi.fn(),
+  refreshEntry: vi.fn(),
+};
+
+const savedSearches = {
+  runIfDue: vi.fn(),
+};
+
+function createScheduler(rules: AlertRule[]) {
+  const store = new MemoryAlertRuleStore();
+  const history = new MemoryNotificationStore();
+  const log = new MockLogger();
+  const scheduler = new AlertScheduler({
+    rules: store,
+    watchlist,
+    savedSearches,
+    dispatcher: new AlertDispatcher({
+      channels: [new InAppChannel()],
+      history,
+      log,
+      now: () => NOW,
+    }),
+    log,
+    limiter: new RateLimiter({ requestsPerSecond: 1000 }),
+    now: () => NOW,
+  });
+  return {
+    scheduler,
+    store,
+    history,
+    log,
+    seed: () => Promise.all(rules.map((rule) => store.put(rule))),
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  (serverAnalytics as MockServerAnalytics).clear();
+  watchlist.get.mockResolvedValue(entry);
+  watchlist.refreshEntry.mockResolvedValue({
+    entry,
+    currentPrice: 350,
+    timeRemainingMs: 10 * MINUTE,
+  });
+  savedSearches.runIfDue.mockResolvedValue({
+    search: savedSearch,
+    newResults: [],
+  });
+});
+
+// --- Tests ---
+
+describe("AlertScheduler", () => {
+  it("refreshes each watched lot once for all its rules", async () => {
+    const { scheduler, store, history, seed } = createScheduler([
+      {
+        ...base,
+        id: "ending",
+        type: "ending-soon",
+        watchlistEntryId: entry.id,
+        minutesBefore: 15,
+      },
+      {
+        ...base,
+        id: "price",
+        type: "price-threshold",
+        watchlistEntryId: entry.id,
+        threshold: 300,
+        direction: "above",
+      },
+    ]);
+    await seed();
+
+    const summary = await scheduler.tick();
+
+    expect(summary).toEqual({
+      usersChecked: 1,
+      rulesEvaluated: 2,
+      alertsTriggered: 2,
+    });
+    expect(watchlist.refreshEntry).toHaveBeenCalledTimes(1);
+    expect(await history.list("user-1")).toHaveLength(2);
+    expect(await store.get("user-1", "ending")).toMatchObject({
+      fired: true,
+      lastTriggeredAt: new Date(NOW).toISOString(),
+    });
+
+    const events = (serverAnalytics as MockServerAnalytics).events;
+    expect(events.filter((e) => e.event === "alert:triggered")).toHaveLength(2);
+  });
+
+  it("does not repeat an alert on the next tick", async () => {
+    const { scheduler, seed } = createScheduler([
+      {
+        ...base,
+        id: "ending",
+        type: "ending-soon",
+        watchlistEntryId: entry.id,
+        minutesBefore: 15,
+      },
+    ]);
+    await seed();
+
+    await scheduler.tick();
+    const second = await scheduler.tick();
+
+    expect(second.alertsTriggered).toBe(0);
+  });
+
+  it("skips rules whose lot couldn't be refreshed", async () => {
+    watchlist.refreshEntry.mockResolvedValue({
+      entry,
+      refreshError: "Platform unavailable",
+    });
+    const { scheduler, seed } = createScheduler([
+      {
+        ...base,
+        id: "ending",
+        type: "ending-soon",
+        watchlistEntryId: entry.id,
+        minutesBefore: 15,
+      },
+    ]);
+    await seed();
+
+    expect((await scheduler.tick()).alertsTriggered).toBe(0);
+  });
+
+  it("alerts on new saved search matches", async () => {
+    savedSearches.runIfDue.mockResolvedValue({
+      search: { ...savedSearch, newItemIds: ["liveauctioneers:2"] },
+      newResults: [],
+    });
+    const { scheduler, store, seed } = createScheduler([
+      {
+        ...base,
+        id: "matches",
+        type: "saved-search-match",
+        savedSearchId: savedSearch.id,
+      },
+    ]);
+    await seed();
+
+    const summary = await scheduler.tick();
+
+    expect(summary.alertsTriggered).toBe(1);
+    expect(savedSearches.runIfDue).toHaveBeenCalledWith("user-1", "search-1");
+    expect(await store.get("user-1", "matches")).toMatchObject({
+      notifiedItemIds: ["liveauctioneers:2"],
+    });
+  });
+
+  it("keeps checking other users when one user's rule throws", async () => {
+    const otherEntry = { ...entry, id: "liveauctioneers:2", userId: "user-2" };
+    watchlist.get.mockImplementation(async (userId: string) => {
+      if (userId === "user-1") throw new Error("Watchlist unavailable");
+      return otherEntry;
+    });
+    const { scheduler, history, log, seed } = createScheduler([
+      {
+        ...base,
+        id: "broken",
+        type: "ending-soon",
+        watchlistEntryId: entry.id,
+        minutesBefore: 15,
+      },
+      {
+        ...base,
+        userId: "user-2",
+        id: "ending",
+        type: "ending-soon",
+        watchlistEntryId: otherEntry.id,
+        minutesBefore: 15,
+      },
+    ]);
+    await seed();
+
+    const summary = await scheduler.tick();
+
+    expect(summary).toEqual({
+      usersChecked: 2,
+      rulesEvaluated: 2,
+      alertsTriggered: 1,
+    });
+    expect(await history.list("user-2")).toHaveLength(1);
+    expect(log.hasLog("error", "Alert rule check failed")).toBe(true);
+  });
+
+  it("ignores disabled rules", async () => {
+    const { scheduler, seed } = createScheduler([
+      {
+        ...base,
+        id: "ending",
+        type: "ending-soon",
+        watchlistEntryId: entry.id,
+        minutesBefore: 15,
+        enabled: false,
+      },
+    ]);
+    await seed();
+
+    expect(await scheduler.tick()).toEqual({
+      usersChecked: 0,
+      rulesEvaluated: 0,
+      alertsTriggered: 0,
+    });
+    expect(watchlist.refreshEntry).not.toHaveBeenCalled();
+  });
+});
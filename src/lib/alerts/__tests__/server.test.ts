@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from "vitest";
+import { MockServerAnalytics } from "@/lib/analytics";
+import { MockLogger } from "@/lib/logging/mock";
+
+vi.mock("@/lib/analytics/server", () => ({
+  serverAnalytics: new MockServerAnalytics(),
+}));
+vi.mock("@clerk/nextjs/server", () => ({
+  clerkClient: vi.fn(),
+}));
+vi.mock("@/lib/watchlist/server", () => ({
+  watchlistService: {},
+}));
+vi.mock("@/lib/saved-searches/server", () => ({
+  savedSearchService: {},
+}));
+
+import { AlertDispatcher, InAppChannel } from "../dispatch";
+import { AlertService } from "../server";
+import { MemoryAlertRuleStore, MemoryNotificationStore } from "../store";
+
+function createService() {
+  const rules = new MemoryAlertRuleStore();
+  const service = new AlertService({
+    rules,
+    dispatcher: new AlertDispatcher({
+      channels: [new InAppChannel()],
+      history: new MemoryNotificationStore(),
+      log: new MockLogger(),
+    }),
+  });
+  return { rules, service };
+}
+
+describe("AlertService", () => {
+  describe("deleteRulesFor", () => {
+    it("deletes the rules on a removed watchlist entry", async () => {
+      const { rules, service } = createService();
+      await service.createRule("user-1", {
+        type: "ending-soon",
+        watchlistEntryId: "liveauctioneers:1",
+        minutesBefore: 15,
+        channels: ["in-app"],
+      });
+      await service.createRule("user-1", {
+        type: "price-threshold",
+        watchlistEntryId: "liveauctioneers:2",
+        threshold: 500,
+        direction: "above",
+        channels: ["in-app"],
+      });
+
+      const deleted = await service.deleteRulesFor("user-1", {
+        watchlistEntryId: "liveauctioneers:1",
+      });
+
+      expect(deleted).toBe(1);
+      expect(
+        (await rules.list("user-1")).map((r) =>
+          r.type === "saved-search-match"
+            ? r.savedSearchId
+            : r.watchlistEntryId,
+        ),
+      ).toEqual(["liveauctioneers:2"]);
+    });
+
+    it("deletes the rules on a removed saved search", async () => {
+      const { rules, service } = createService();
+      await service.createRule("user-1", {
+        type: "saved-search-match",
+        savedSearchId: "search-1",
+        channels: ["in-app"],
+      });
+      await service.createRule("user-2", {
+        type: "saved-search-match",
+        savedSearchId: "search-1",
+        channels: ["in-app"],
+      });
+
+      const deleted = await service.deleteRulesFor("user-1", {
+        savedSearchId: "search-1",
+      });
+
+      expect(deleted).toBe(1);
+      expect(await rules.list("user-1")).toEqual([]);
+      expect(await rules.list("user-2")).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Alert delivery.
+ * The dispatcher sends a triggered alert on each of the rule's channels and
+ * records every attempt in the user's delivery history.
+ */
+
+import type { ILogger } from "@/lib/logging/types";
+import { serverLoggerFactory } from "@/lib/logging/server";
+import type { EmailTransport } from "./email";
+import type { NotificationStore } from "./store";
+import type {
+  AlertChannel,
+  AlertMessage,
+  AlertNotification,
+  AlertRule,
+} from "./types";
+
+/** Delivery history kept per user; older entries are pruned. */
+export const MAX_HISTORY_PER_USER = 200;
+
+export interface NotificationChannel {
+  readonly name: AlertChannel;
+  deliver(notification: AlertNotification): Promise<void>;
+}
+
+/**
+ * In-app delivery. The history entry itself is the inbox item, so there is
+ * nothing further to send.
+ */
+export class InAppChannel implements NotificationChannel {
+  readonly name = "in-app";
+
+  async deliver(): Promise<void> {}
+}
+
+export interface EmailChannelConfig {
+  transport: EmailTransport;
+  from: string;
+  /** Looks up the user's address; null when they have none */
+  resolveEmail: (userId: string) => Promise<string | null>;
+  /** Prefix for relative notification links, e.g. "https://example.com" */
+  baseUrl?: string;
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly name = "email";
+
+  constructor(private readonly config: EmailChannelConfig) {}
+
+  async deliver(notification: AlertNotification): Promise<void> {
+    const to = await this.config.resolveEmail(notification.userId);
+    if (!to) {
+      throw new Error("No email address for user");
+    }
+
+    const link = notification.url?.startsWith("/")
+      ? `${this.config.baseUrl ?? ""}${notification.url}`
+      : notification.url;
+
+    await this.config.transport.send({
+      from: this.config.from,
+      to,
+      subject: notification.title,
+      text: link ? `${notification.body}\n\n${link}` : notification.body,
+    });
+  }
+}
+
+export interface AlertDispatcherConfig {
+  channels: NotificationChannel[];
+  history: NotificationStore;
+  /** Optional logger for testing. If not provided, uses serverLoggerFactory. */
+  log?: ILogger;
+  now?: () => number;
+}
+
+export class AlertDispatcher {
+  private readonly channels: Map<AlertChannel, NotificationChannel>;
+  private readonly history: NotificationStore;
+  private readonly log: ILogger;
+  private readonly now: () => number;
+
+  constructor(config: AlertDispatcherConfig) {
+    this.channels = new Map(config.channels.map((c) => [c.name, c]));
+    this.history = config.history;
+    this.log =
+      config.log ??
+      serverLoggerFactory.create({
+        distinctId: "system",
+        component: "alerts",
+      });
+    this.now = config.now ?? Date.now;
+  }
+
+  /**
+   * Deliver a message on each of the rule's channels. A failing channel is
+   * recorded as failed and doesn't stop the others.
+   */
+  async dispatch(
+    rule: AlertRule,
+    message: AlertMessage,
+  ): Promise<AlertNotification[]> {
+    const createdAt = new Date(this.now()).toISOString();
+
+    const notifications = await Promise.all(
+      rule.channels.map(async (channelName, i) => {
+        const notification: AlertNotification = {
+          id: `alert-${this.now()}-${i}-${Math.random().toString(36).slice(2, 9)}`,
+          userId: rule.userId,
+          ruleId: rule.id,
+          ruleType: rule.type,
+          channel: channelName,
+          ...message,
+          createdAt,
+          status: "delivered",
+        };
+
+        try {
+          const channel = this.channels.get(channelName);
+          if (!channel) {
+            throw new Error(`Channel ${channelName} is not configured`);
+          }
+          await channel.deliver(notification);
+          return notification;
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          this.log.warn("Alert delivery failed", {
+            ruleId: rule.id,
+            channel: channelName,
+            error: errorMessage,
+          });
+          return {
+            ...notification,
+            status: "failed" as const,
+            error: errorMessage,
+          };
+        }
+      }),
+    );
+
+    for (const notification of notifications) {
+      await this.history.put(notification);
+    }
+    await this.prune(rule.userId);
+    return notifications;
+  }
+
+  async listHistory(userId: string): Promise<AlertNotification[]> {
+    return this.history.list(userId);
+  }
+
+  /** Mark in-app notifications read. Returns how many changed. */
+  async markRead(userId: string, ids: string[]): Promise<number> {
+    const readAt = new Date(this.now()).toISOString();
+    let changed = 0;
+    for (const id of ids) {
+      const notification = await this.history.get(userId, id);
+      if (notification && !notification.readAt) {
+        await this.history.put({ ...notification, readAt });
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  private async prune(userId: string): Promise<void> {
+    const history = await this.history.list(userId);
+    for (const stale of history.slice(MAX_HISTORY_PER_USER)) {
+      await this.history.delete(userId, stale.id);
+    }
+  }
+}
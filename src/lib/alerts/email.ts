@@ -0,0 +1,187 @@
+/**
+ * Email transports for alert delivery.
+ * SmtpTransport speaks plain SMTP, enough for a local catcher such as
+ * Mailpit or MailHog in development; production can plug in a provider by
+ * implementing EmailTransport.
+ */
+
+import net from "net";
+import type { ILogger } from "@/lib/logging/types";
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Writes emails to the log instead of sending them.
+ * Used when no transport is configured.
+ */
+export class LogEmailTransport implements EmailTransport {
+  readonly name = "log";
+
+  constructor(private readonly log: ILogger) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    this.log.info("Email not sent (no transport configured)", {
+      to: message.to,
+      subject: message.subject,
+    });
+  }
+}
+
+export interface SmtpTransportConfig {
+  host: string;
+  port?: number;
+  /** Name sent in EHLO. Default: "localhost" */
+  clientName?: string;
+  /** Socket timeout. Default: 10 seconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Minimal unauthenticated, unencrypted SMTP client.
+ * Intended for local development against an SMTP stand-in.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private readonly host: string;
+  private readonly port: number;
+  private readonly clientName: string;
+  private readonly timeoutMs: number;
+
+  constructor(config: SmtpTransportConfig) {
+    this.host = config.host;
+    this.port = config.port ?? 25;
+    this.clientName = config.clientName ?? "localhost";
+    this.timeoutMs = config.timeoutMs ?? 10_000;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const socket = net.connect({ host: this.host, port: this.port });
+    socket.setEncoding("utf8");
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new Error("SMTP connection timed out")),
+    );
+    const replies = readReplies(socket);
+
+    try {
+      await expectReply(replies, 220);
+      await command(socket, replies, `EHLO ${this.clientName}`, 250);
+      await command(socket, replies, `MAIL FROM:<${message.from}>`, 250);
+      await command(socket, replies, `RCPT TO:<${message.to}>`, 250);
+      await command(socket, replies, "DATA", 354);
+      await command(socket, replies, formatMessage(message), 250);
+      await command(socket, replies, "QUIT", 221);
+    } finally {
+      socket.destroy();
+    }
+  }
+}
+
+// --- SMTP Helpers ---
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+type ReplyReader = () => Promise<SmtpReply>;
+
+/**
+ * Turns socket data into complete SMTP replies. Multi-line replies
+ * ("250-...") are joined until the final "250 ..." line.
+ */
+function readReplies(socket: net.Socket): ReplyReader {
+  let buffer = "";
+  let lines: string[] = [];
+  const ready: SmtpReply[] = [];
+  const waiting: Array<{
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  let failure: Error | null = null;
+
+  const deliver = (reply: SmtpReply) => {
+    const next = waiting.shift();
+    if (next) next.resolve(reply);
+    else ready.push(reply);
+  };
+
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    let newline = buffer.indexOf("\r\n");
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== "-") {
+        deliver({ code: Number(line.slice(0, 3)), text: lines.join("\n") });
+        lines = [];
+      }
+      newline = buffer.indexOf("\r\n");
+    }
+  });
+
+  const fail = (error: Error) => {
+    failure = error;
+    for (const pending of waiting.splice(0)) pending.reject(error);
+  };
+  socket.on("error", fail);
+  socket.on("close", () => fail(new Error("SMTP connection closed")));
+
+  return () => {
+    const reply = ready.shift();
+    if (reply) return Promise.resolve(reply);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+}
+
+async function expectReply(replies: ReplyReader, code: number): Promise<void> {
+  const reply = await replies();
+  if (reply.code !== code) {
+    throw new Error(`SMTP error ${reply.code}: ${reply.text}`);
+  }
+}
+
+async function command(
+  socket: net.Socket,
+  replies: ReplyReader,
+  line: string,
+  code: number,
+): Promise<void> {
+  socket.write(`${line}\r\n`);
+  await expectReply(replies, code);
+}
+
+/** Headers, body with dot-stuffing, and the terminating "." line. */
+function formatMessage(message: EmailMessage): string {
+  const body = message.text
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n");
+
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject.replace(/[\r\n]+/g, " ")}`,
+    `Date: ${new Date().toUTCString()}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    body,
+    ".",
+  ].join("\r\n");
+}
+
+// --- Exports for Testing ---
+
+export { formatMessage };
@@ -0,0 +1,22 @@
+/**
+ * Alerts.
+ * Re-exports client-safe types and rule evaluation.
+ * For the alert service and scheduler, import from "@/lib/alerts/server" directly.
+ */
+
+export type {
+  AlertChannel,
+  AlertMessage,
+  AlertNotification,
+  AlertRule,
+  AlertRuleType,
+  EndingSoonRule,
+  PriceThresholdRule,
+  SavedSearchMatchRule,
+} from "./types";
+export {
+  evaluateEndingSoon,
+  evaluatePriceThreshold,
+  evaluateSavedSearchMatch,
+  type RuleEvaluation,
+} from "./rules";
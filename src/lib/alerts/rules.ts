@@ -0,0 +1,117 @@
+/**
+ * Alert rule evaluation.
+ * Pure functions from a rule and the latest observed state to an optional
+ * message plus the rule's updated state, so the scheduler only persists.
+ */
+
+import type { WatchlistItemStatus } from "@/lib/watchlist/types";
+import type { SearchResult } from "@/lib/adapters/types";
+import { formatAmount } from "@/lib/fx/convert";
+import { matchKey } from "@/lib/saved-searches/matches";
+import type { SavedSearch } from "@/lib/saved-searches/types";
+import type {
+  AlertMessage,
+  EndingSoonRule,
+  PriceThresholdRule,
+  SavedSearchMatchRule,
+} from "./types";
+
+export interface RuleEvaluation<R> {
+  rule: R;
+  message: AlertMessage | null;
+}
+
+const MINUTE = 60 * 1000;
+
+export function evaluateEndingSoon(
+  rule: EndingSoonRule,
+  status: WatchlistItemStatus,
+): RuleEvaluation<EndingSoonRule> {
+  const remaining = status.timeRemainingMs;
+  if (
+    rule.fired ||
+    remaining === undefined ||
+    remaining <= 0 ||
+    remaining > rule.minutesBefore * MINUTE
+  ) {
+    return { rule, message: null };
+  }
+
+  const minutes = Math.max(1, Math.round(remaining / MINUTE));
+  return {
+    rule: { ...rule, fired: true },
+    message: {
+      title: `Ending in ${minutes} minute${minutes !== 1 ? "s" : ""}`,
+      body: status.entry.title,
+      url: status.entry.url,
+    },
+  };
+}
+
+export function evaluatePriceThreshold(
+  rule: PriceThresholdRule,
+  status: WatchlistItemStatus,
+): RuleEvaluation<PriceThresholdRule> {
+  const price = status.currentPrice;
+  if (price === undefined) return { rule, message: null };
+
+  const crossed =
+    rule.direction === "above"
+      ? price >= rule.threshold
+      : price <= rule.threshold;
+  if (crossed === Boolean(rule.crossed)) {
+    return { rule, message: null };
+  }
+  if (!crossed) {
+    // Re-arm once the price is back on the near side of the threshold
+    return { rule: { ...rule, crossed: false }, message: null };
+  }
+
+  const { currency, title, url } = status.entry;
+  return {
+    rule: { ...rule, crossed: true },
+    message: {
+      title: `Bid ${rule.direction === "above" ? "reached" : "fell to"} ${formatAmount(price, currency)}`,
+      body: `${title} crossed your ${formatAmount(rule.threshold, currency)} alert`,
+      url,
+    },
+  };
+}
+
+export function evaluateSavedSearchMatch(
+  rule: SavedSearchMatchRule,
+  search: SavedSearch,
+  newResults: SearchResult[] = [],
+): RuleEvaluation<SavedSearchMatchRule> {
+  const notified = new Set(rule.notifiedItemIds ?? []);
+  const pending = search.newItemIds.filter((key) => !notified.has(key));
+  // Track only keys still unviewed, so the list stays bounded
+  const updated = { ...rule, notifiedItemIds: search.newItemIds };
+
+  if (pending.length === 0) {
+    const unchanged =
+      (rule.notifiedItemIds ?? []).length === search.newItemIds.length;
+    return { rule: unchanged ? rule : updated, message: null };
+  }
+
+  const pendingKeys = new Set(pending);
+  const titles = newResults
+    .filter((result) =>
+      pendingKeys.has(matchKey(result.platform, result.itemId)),
+    )
+    .slice(0, 3)
+    .map((result) => result.title);
+  const count = pending.length;
+
+  return {
+    rule: updated,
+    message: {
+      title: `${count} new match${count !== 1 ? "es" : ""} for "${search.name}"`,
+      body:
+        titles.length > 0
+          ? titles.join("; ")
+          : "Open the saved search to see them.",
+      url: "/",
+    },
+  };
+}
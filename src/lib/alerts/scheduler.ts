@@ -0,0 +1,275 @@
+/**
+ * Alert scheduler.
+ * Periodically evaluates every user's alert rules against fresh platform
+ * data, pacing adapter requests through a shared RateLimiter.
+ */
+
+import { RateLimiter } from "@/lib/adapters/rate-limiter";
+import { serverAnalytics } from "@/lib/analytics/server";
+import type { ILogger } from "@/lib/logging/types";
+import { serverLoggerFactory } from "@/lib/logging/server";
+import type { WatchlistService } from "@/lib/watchlist/server";
+import type {
+  SavedSearchRun,
+  SavedSearchService,
+} from "@/lib/saved-searches/server";
+import type { AlertDispatcher } from "./dispatch";
+import type { AlertRuleStore } from "./store";
+import {
+  evaluateEndingSoon,
+  evaluatePriceThreshold,
+  evaluateSavedSearchMatch,
+  type RuleEvaluation,
+} from "./rules";
+import type {
+  AlertMessage,
+  AlertRule,
+  EndingSoonRule,
+  PriceThresholdRule,
+  SavedSearchMatchRule,
+} from "./types";
+
+export interface AlertSchedulerConfig {
+  rules: AlertRuleStore;
+  watchlist: Pick<WatchlistService, "get" | "refreshEntry">;
+  savedSearches: Pick<SavedSearchService, "runIfDue">;
+  dispatcher: AlertDispatcher;
+  /** Optional logger for testing. If not provided, uses serverLoggerFactory. */
+  log?: ILogger;
+  /** Paces platform requests. Default: 1 request per second, burst of 2 */
+  limiter?: RateLimiter;
+  now?: () => number;
+}
+
+export interface AlertTickSummary {
+  usersChecked: number;
+  rulesEvaluated: number;
+  alertsTriggered: number;
+}
+
+type WatchRule = EndingSoonRule | PriceThresholdRule;
+
+export class AlertScheduler {
+  private readonly rules: AlertRuleStore;
+  private readonly watchlist: AlertSchedulerConfig["watchlist"];
+  private readonly savedSearches: AlertSchedulerConfig["savedSearches"];
+  private readonly dispatcher: AlertDispatcher;
+  private readonly log: ILogger;
+  private readonly limiter: RateLimiter;
+  private readonly now: () => number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<AlertTickSummary> | null = null;
+
+  constructor(config: AlertSchedulerConfig) {
+    this.rules = config.rules;
+    this.watchlist = config.watchlist;
+    this.savedSearches = config.savedSearches;
+    this.dispatcher = config.dispatcher;
+    this.log =
+      config.log ??
+      serverLoggerFactory.create({
+        distinctId: "system",
+        component: "alerts",
+      });
+    this.limiter =
+      config.limiter ?? new RateLimiter({ requestsPerSecond: 1, maxBurst: 2 });
+    this.now = config.now ?? Date.now;
+  }
+
+  /** Poll every `intervalMs` until stopped. */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        this.log.error("Alert tick failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }, intervalMs);
+    this.log.info("Alert scheduler started", { intervalMs });
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Evaluate all enabled rules once. Overlapping calls share one run, so a
+   * slow tick isn't doubled up by the next interval.
+   */
+  tick(): Promise<AlertTickSummary> {
+    if (!this.running) {
+      this.running = this.runTick().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async runTick(): Promise<AlertTickSummary> {
+    const summary: AlertTickSummary = {
+      usersChecked: 0,
+      rulesEvaluated: 0,
+      alertsTriggered: 0,
+    };
+
+    // One user's or rule's failure must not cost everyone else their alerts
+    for (const userId of await this.rules.listUserIds()) {
+      try {
+        await this.checkUser(userId, summary);
+      } catch (error) {
+        this.log.error("Alert check failed for user", {
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.log.debug("Alert tick complete", { ...summary });
+    return summary;
+  }
+
+  private async checkUser(
+    userId: string,
+    summary: AlertTickSummary,
+  ): Promise<void> {
+    const rules = (await this.rules.list(userId)).filter((r) => r.enabled);
+    if (rules.length === 0) return;
+    summary.usersChecked++;
+
+    const watchRules = groupBy(
+      rules.filter((r): r is WatchRule => r.type !== "saved-search-match"),
+      (r) => r.watchlistEntryId,
+    );
+    for (const [entryId, group] of watchRules) {
+      summary.rulesEvaluated += group.length;
+      summary.alertsTriggered += await this.checkGroup(
+        { userId, watchlistEntryId: entryId },
+        () => this.checkWatchRules(userId, entryId, group),
+      );
+    }
+
+    const searchRules = groupBy(
+      rules.filter(
+        (r): r is SavedSearchMatchRule => r.type === "saved-search-match",
+      ),
+      (r) => r.savedSearchId,
+    );
+    for (const [searchId, group] of searchRules) {
+      summary.rulesEvaluated += group.length;
+      summary.alertsTriggered += await this.checkGroup(
+        { userId, savedSearchId: searchId },
+        () => this.checkSearchRules(userId, searchId, group),
+      );
+    }
+  }
+
+  /** Run one rule group's check, logging failures as no alerts. */
+  private async checkGroup(
+    context: Record<string, string>,
+    check: () => Promise<number>,
+  ): Promise<number> {
+    try {
+      return await check();
+    } catch (error) {
+      this.log.error("Alert rule check failed", {
+        ...context,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return 0;
+    }
+  }
+
+  private async checkWatchRules(
+    userId: string,
+    entryId: string,
+    rules: WatchRule[],
+  ): Promise<number> {
+    const entry = await this.watchlist.get(userId, entryId);
+    if (!entry) return 0;
+
+    await this.limiter.acquire();
+    const status = await this.watchlist.refreshEntry(entry);
+    if (status.refreshError) return 0;
+
+    let triggered = 0;
+    for (const rule of rules) {
+      const evaluation: RuleEvaluation<AlertRule> =
+        rule.type === "ending-soon"
+          ? evaluateEndingSoon(rule, status)
+          : evaluatePriceThreshold(rule, status);
+      triggered += await this.apply(rule, evaluation);
+    }
+    return triggered;
+  }
+
+  private async checkSearchRules(
+    userId: string,
+    searchId: string,
+    rules: SavedSearchMatchRule[],
+  ): Promise<number> {
+    await this.limiter.acquire();
+    let run: SavedSearchRun;
+    try {
+      run = await this.savedSearches.runIfDue(userId, searchId);
+    } catch (error) {
+      this.log.warn("Saved search check failed", {
+        searchId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return 0;
+    }
+
+    let triggered = 0;
+    for (const rule of rules) {
+      triggered += await this.apply(
+        rule,
+        evaluateSavedSearchMatch(rule, run.search, run.newResults),
+      );
+    }
+    return triggered;
+  }
+
+  /** Persist the rule's new state and dispatch its message, if any. */
+  private async apply(
+    previous: AlertRule,
+    { rule, message }: { rule: AlertRule; message: AlertMessage | null },
+  ): Promise<number> {
+    if (!message) {
+      if (rule !== previous) await this.rules.put(rule);
+      return 0;
+    }
+
+    await this.rules.put({
+      ...rule,
+      lastTriggeredAt: new Date(this.now()).toISOString(),
+    });
+    const notifications = await this.dispatcher.dispatch(rule, message);
+    serverAnalytics.track(
+      "alert:triggered",
+      {
+        rule_id: rule.id,
+        rule_type: rule.type,
+        delivered_channels: notifications
+          .filter((n) => n.status === "delivered")
+          .map((n) => n.channel),
+        failed_channels: notifications
+          .filter((n) => n.status === "failed")
+          .map((n) => n.channel),
+      },
+      rule.userId,
+    );
+    return 1;
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+}
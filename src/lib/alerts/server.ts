@@ -0,0 +1,177 @@
+/**
+ * Server-side alert service.
+ * Manages alert rules and delivery history, and wires the scheduler to the
+ * watchlist, saved searches and notification channels.
+ */
+
+import path from "path";
+import { clerkClient } from "@clerk/nextjs/server";
+import type { ILogger } from "@/lib/logging/types";
+import { serverLoggerFactory } from "@/lib/logging/server";
+import { watchlistService } from "@/lib/watchlist/server";
+import { savedSearchService } from "@/lib/saved-searches/server";
+import {
+  AlertDispatcher,
+  EmailChannel,
+  InAppChannel,
+  type NotificationChannel,
+} from "./dispatch";
+import { LogEmailTransport, SmtpTransport, type EmailTransport } from "./email";
+import { AlertScheduler } from "./scheduler";
+import {
+  FileAlertRuleStore,
+  FileNotificationStore,
+  type AlertRuleStore,
+} from "./store";
+import type { AlertChannel, AlertNotification, AlertRule } from "./types";
+
+const DEFAULT_ALERT_RULES_FILE = path.join(".data", "alert-rules.json");
+const DEFAULT_ALERT_HISTORY_FILE = path.join(".data", "alert-history.json");
+
+/** Rule fields supplied by the user; the rest are set on creation. */
+export type AlertRuleInput =
+  | {
+      type: "ending-soon";
+      watchlistEntryId: string;
+      minutesBefore: number;
+      channels: AlertChannel[];
+    }
+  | {
+      type: "price-threshold";
+      watchlistEntryId: string;
+      threshold: number;
+      direction: "above" | "below";
+      channels: AlertChannel[];
+    }
+  | {
+      type: "saved-search-match";
+      savedSearchId: string;
+      channels: AlertChannel[];
+    };
+
+export interface AlertServiceConfig {
+  rules: AlertRuleStore;
+  dispatcher: AlertDispatcher;
+  now?: () => number;
+}
+
+export class AlertService {
+  private readonly rules: AlertRuleStore;
+  private readonly dispatcher: AlertDispatcher;
+  private readonly now: () => number;
+
+  constructor(config: AlertServiceConfig) {
+    this.rules = config.rules;
+    this.dispatcher = config.dispatcher;
+    this.now = config.now ?? Date.now;
+  }
+
+  async listRules(userId: string): Promise<AlertRule[]> {
+    return this.rules.list(userId);
+  }
+
+  async createRule(userId: string, input: AlertRuleInput): Promise<AlertRule> {
+    const createdAt = new Date(this.now());
+    const rule = {
+      ...input,
+      id: `rule-${createdAt.getTime()}-${Math.random().toString(36).slice(2, 9)}`,
+      userId,
+      channels: [...new Set(input.channels)],
+      enabled: true,
+      createdAt: createdAt.toISOString(),
+    } satisfies AlertRule;
+    await this.rules.put(rule);
+    return rule;
+  }
+
+  async deleteRule(userId: string, id: string): Promise<boolean> {
+    return this.rules.delete(userId, id);
+  }
+
+  /**
+   * Delete the rules watching a removed watchlist entry or saved search, so
+   * they aren't left to be skipped or fail on every tick.
+   * Returns how many were deleted.
+   */
+  async deleteRulesFor(
+    userId: string,
+    target: { watchlistEntryId: string } | { savedSearchId: string },
+  ): Promise<number> {
+    const dependent = (await this.rules.list(userId)).filter((rule) =>
+      "watchlistEntryId" in target
+        ? rule.type !== "saved-search-match" &&
+          rule.watchlistEntryId === target.watchlistEntryId
+        : rule.type === "saved-search-match" &&
+          rule.savedSearchId === target.savedSearchId,
+    );
+    for (const rule of dependent) {
+      await this.rules.delete(userId, rule.id);
+    }
+    return dependent.length;
+  }
+
+  async listHistory(userId: string): Promise<AlertNotification[]> {
+    return this.dispatcher.listHistory(userId);
+  }
+
+  async markRead(userId: string, ids: string[]): Promise<number> {
+    return this.dispatcher.markRead(userId, ids);
+  }
+}
+
+// --- Default Wiring ---
+
+function createEmailTransport(log: ILogger): EmailTransport {
+  const host = process.env.ALERTS_SMTP_HOST;
+  if (!host) return new LogEmailTransport(log);
+  return new SmtpTransport({
+    host,
+    port: Number(process.env.ALERTS_SMTP_PORT ?? 1025),
+  });
+}
+
+async function resolveClerkEmail(userId: string): Promise<string | null> {
+  const client = await clerkClient();
+  const user = await client.users.getUser(userId);
+  return user.primaryEmailAddress?.emailAddress ?? null;
+}
+
+const log = serverLoggerFactory.create({
+  distinctId: "system",
+  component: "alerts",
+});
+
+const channels: NotificationChannel[] = [
+  new InAppChannel(),
+  new EmailChannel({
+    transport: createEmailTransport(log),
+    from: process.env.ALERTS_EMAIL_FROM ?? "alerts@localhost",
+    resolveEmail: resolveClerkEmail,
+    baseUrl: process.env.APP_URL,
+  }),
+];
+
+const alertRuleStore = new FileAlertRuleStore(
+  process.env.ALERT_RULES_FILE ?? DEFAULT_ALERT_RULES_FILE,
+);
+
+const alertDispatcher = new AlertDispatcher({
+  channels,
+  history: new FileNotificationStore(
+    process.env.ALERT_HISTORY_FILE ?? DEFAULT_ALERT_HISTORY_FILE,
+  ),
+});
+
+/** Shared service used by the alert routes. */
+export const alertService = new AlertService({
+  rules: alertRuleStore,
+  dispatcher: alertDispatcher,
+});
+
+/** Shared scheduler, polled by the tick route or started by a long-lived server. */
+export const alertScheduler = new AlertScheduler({
+  rules: alertRuleStore,
+  watchlist: watchlistService,
+  savedSearches: savedSearchService,
+  dispatcher: alertDispatcher,
+});
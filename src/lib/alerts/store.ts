@@ -0,0 +1,44 @@
+/**
+ * Storage backends for alert rules and delivery history, newest first.
+ */
+
+import {
+  FileRecordStore,
+  MemoryRecordStore,
+  type RecordStore,
+} from "@/lib/storage";
+import type { AlertNotification, AlertRule } from "./types";
+
+export type AlertRuleStore = RecordStore<AlertRule>;
+export type NotificationStore = RecordStore<AlertNotification>;
+
+function newestFirst(
+  a: { createdAt: string },
+  b: { createdAt: string },
+): number {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+export class MemoryAlertRuleStore extends MemoryRecordStore<AlertRule> {
+  constructor() {
+    super({ compare: newestFirst });
+  }
+}
+
+export class FileAlertRuleStore extends FileRecordStore<AlertRule> {
+  constructor(filePath: string) {
+    super(filePath, { compare: newestFirst });
+  }
+}
+
+export class MemoryNotificationStore extends MemoryRecordStore<AlertNotification> {
+  constructor() {
+    super({ compare: newestFirst });
+  }
+}
+
+export class FileNotificationStore extends FileRecordStore<AlertNotification> {
+  constructor(filePath: string) {
+    super(filePath, { compare: newestFirst });
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Alert types shared by the server engine, API routes and client UI.
+ */
+
+/** Where a triggered alert is delivered. */
+export type AlertChannel = "in-app" | "email";
+
+interface AlertRuleBase {
+  id: string;
+  userId: string;
+  channels: AlertChannel[];
+  enabled: boolean;
+  createdAt: string;
+  lastTriggeredAt?: string;
+}
+
+/** Fires once when a watched lot has at most `minutesBefore` left. */
+export interface EndingSoonRule extends AlertRuleBase {
+  type: "ending-soon";
+  watchlistEntryId: string;
+  minutesBefore: number;
+  /** Set after firing so each lot alerts once */
+  fired?: boolean;
+}
+
+/**
+ * Fires when a watched lot's current bid crosses `threshold`, and again
+ * only after it has crossed back.
+ */
+export interface PriceThresholdRule extends AlertRuleBase {
+  type: "price-threshold";
+  watchlistEntryId: string;
+  threshold: number;
+  direction: "above" | "below";
+  /** Whether the price was past the threshold at the last check */
+  crossed?: boolean;
+}
+
+/**
+ * Fires when a saved search has new matches the user hasn't been alerted
+ * to, whether found by the scheduler or by the home page refresh.
+ */
+export interface SavedSearchMatchRule extends AlertRuleBase {
+  type: "saved-search-match";
+  savedSearchId: string;
+  /** New-match keys already alerted; reset as the user views the search */
+  notifiedItemIds?: string[];
+}
+
+export type AlertRule =
+  | EndingSoonRule
+  | PriceThresholdRule
+  | SavedSearchMatchRule;
+
+export type AlertRuleType = AlertRule["type"];
+
+/** What an evaluated rule wants to tell the user. */
+export interface AlertMessage {
+  title: string;
+  body: string;
+  /** Where the notification links to */
+  url?: string;
+}
+
+/**
+ * One delivery attempt of a triggered alert on one channel.
+ * History is kept per user and doubles as the in-app inbox.
+ */
+export interface AlertNotification {
+  id: string;
+  userId: string;
+  ruleId: string;
+  ruleType: AlertRuleType;
+  channel: AlertChannel;
+  title: string;
+  body: string;
+  url?: string;
+  createdAt: string;
+  status: "delivered" | "failed";
+  error?: string;
+  /** In-app notifications only, once the user has seen them */
+  readAt?: string;
+}
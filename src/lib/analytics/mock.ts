@@ -114,7 +114,7 @@ export class MockServerAnalytics implements ServerAnalytics {
     return this.featureFlags[distinctId] ?? {};
   }
 
-  clearFlagCache(_distinctId?: string): void {
+  clearFlagCache(): void {
     // No-op for mock
   }
 
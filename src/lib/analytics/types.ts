@@ -53,6 +53,16 @@ export interface AnalyticsEvents {
     session_id: string;
     source: "direct_url" | "error_banner";
   };
+  "chat:storage_warning": {
+    type: "nearly-full" | "evicted" | "save-failed";
+    evicted_count: number;
+  };
+  "chat:history_result_opened": {
+    session_id: string;
+    agent_id: string;
+    matched_in: "text" | "tool" | "item";
+    result_count: number;
+  };
 
   // Auth client events
   "auth:sign_in_clicked": { source: AuthSource };
@@ -67,21 +77,77 @@ export interface AnalyticsEvents {
     result_count: number;
     latency_ms: number;
     success: boolean;
+    cache_hit: boolean;
     error?: string;
-    source: "agent";
+    source: "agent" | "user";
   };
   "adapter:get_item": {
     platform: string;
     item_id: string;
     latency_ms: number;
     success: boolean;
+    cache_hit: boolean;
     error?: string;
     source: "agent";
   };
+  "adapter:get_bid_history": {
+    platform: string;
+    item_id: string;
+    bid_count: number;
+    latency_ms: number;
+    success: boolean;
+    error?: string;
+    source: "agent" | "user";
+  };
+  "comparison:created": {
+    platforms: string[];
+    item_count: number;
+    unavailable_count: number;
+    source: "agent" | "user";
+  };
+  "seller:profile_viewed": {
+    platform: string;
+    seller_id: string;
+    active_lot_count: number;
+    recent_sale_count: number;
+    source: "agent" | "user";
+  };
+  "watchlist:item_watched": {
+    platform: string;
+    item_id: string;
+    platform_watched: boolean;
+    source: "agent" | "user";
+  };
+  "watchlist:item_unwatched": {
+    platform: string;
+    item_id: string;
+  };
+  "saved_search:created": {
+    search_id: string;
+    keywords: string;
+    platforms: string[];
+    baseline_count: number;
+  };
+  "saved_search:opened": {
+    search_id: string;
+    new_match_count: number;
+  };
+  "alert:rule_created": {
+    rule_id: string;
+    rule_type: "ending-soon" | "price-threshold" | "saved-search-match";
+    channels: Array<"in-app" | "email">;
+  };
+  "alert:triggered": {
+    rule_id: string;
+    rule_type: "ending-soon" | "price-threshold" | "saved-search-match";
+    delivered_channels: Array<"in-app" | "email">;
+    failed_channels: Array<"in-app" | "email">;
+  };
   "chat:user_message": {
     agent_id: string;
     content: string;
     message_length: number;
+    image_count?: number;
     session_id: string | null;
     is_restored: boolean;
     restored_session_id: string | null;
@@ -109,6 +175,11 @@ export interface AnalyticsEvents {
   "auth:sign_up": { user_id: string; method: string; source: string };
   "auth:sign_in": { user_id: string; source?: string };
   "auth:sign_out": { user_id: string };
+  "auth:history_migrated": {
+    user_id: string;
+    migrated_count: number;
+    source: "webhook" | "first_load";
+  };
 }
 
 // User properties for identify
@@ -128,6 +199,8 @@ export interface ClientAnalyticsEvents {
   "chat:deleted": AnalyticsEvents["chat:deleted"];
   "chat:started": AnalyticsEvents["chat:started"];
   "chat:session_not_found": AnalyticsEvents["chat:session_not_found"];
+  "chat:storage_warning": AnalyticsEvents["chat:storage_warning"];
+  "chat:history_result_opened": AnalyticsEvents["chat:history_result_opened"];
   "auth:sign_in_clicked": AnalyticsEvents["auth:sign_in_clicked"];
   "auth:sign_up_clicked": AnalyticsEvents["auth:sign_up_clicked"];
   "auth:prompt_shown": AnalyticsEvents["auth:prompt_shown"];
@@ -138,12 +211,22 @@ export interface ClientAnalyticsEvents {
 export interface ServerAnalyticsEvents {
   "adapter:search": AnalyticsEvents["adapter:search"];
   "adapter:get_item": AnalyticsEvents["adapter:get_item"];
+  "adapter:get_bid_history": AnalyticsEvents["adapter:get_bid_history"];
+  "comparison:created": AnalyticsEvents["comparison:created"];
+  "seller:profile_viewed": AnalyticsEvents["seller:profile_viewed"];
+  "watchlist:item_watched": AnalyticsEvents["watchlist:item_watched"];
+  "watchlist:item_unwatched": AnalyticsEvents["watchlist:item_unwatched"];
+  "saved_search:created": AnalyticsEvents["saved_search:created"];
+  "saved_search:opened": AnalyticsEvents["saved_search:opened"];
+  "alert:rule_created": AnalyticsEvents["alert:rule_created"];
+  "alert:triggered": AnalyticsEvents["alert:triggered"];
   "chat:user_message": AnalyticsEvents["chat:user_message"];
   "chat:agent_response": AnalyticsEvents["chat:agent_response"];
   "chat:ai_error": AnalyticsEvents["chat:ai_error"];
   "auth:sign_up": AnalyticsEvents["auth:sign_up"];
   "auth:sign_in": AnalyticsEvents["auth:sign_in"];
   "auth:sign_out": AnalyticsEvents["auth:sign_out"];
+  "auth:history_migrated": AnalyticsEvents["auth:history_migrated"];
 }
 
 // Client analytics interface (browser only)
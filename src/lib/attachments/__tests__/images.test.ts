@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import type { UIMessage } from "ai";
+import {
+  describeOmittedImage,
+  getImageParts,
+  MAX_IMAGE_DATA_URL_LENGTH,
+  MAX_IMAGE_FILE_BYTES,
+  omitImageData,
+  validateImageFile,
+  validateMessageAttachments,
+} from "../images";
+
+function photo(overrides: Record<string, string> = {}) {
+  return {
+    type: "file" as const,
+    mediaType: "image/jpeg",
+    url: "data:image/jpeg;base64,/9j/4AAQ",
+    ...overrides,
+  };
+}
+
+function userMessage(parts: UIMessage["parts"]): UIMessage {
+  return { id: "1", role: "user", parts };
+}
+
+describe("validateImageFile", () => {
+  it("accepts common photo formats", () => {
+    expect(validateImageFile({ type: "image/jpeg", size: 1000 })).toBeNull();
+    expect(validateImageFile({ type: "image/webp", size: 1000 })).toBeNull();
+  });
+
+  it("rejects other file types and oversized photos", () => {
+    expect(validateImageFile({ type: "application/pdf", size: 1000 })).toBe(
+      "Attach a JPEG, PNG or WebP photo.",
+    );
+    expect(
+      validateImageFile({ type: "image/png", size: MAX_IMAGE_FILE_BYTES + 1 }),
+    ).toBe("That photo is too large. Try one under 20 MB.");
+  });
+});
+
+describe("getImageParts", () => {
+  it("returns only image file parts", () => {
+    const message = userMessage([
+      { type: "text", text: "What is this?" },
+      photo(),
+      photo({ mediaType: "application/pdf" }),
+    ]);
+
+    expect(getImageParts(message)).toEqual([photo()]);
+  });
+});
+
+describe("omitImageData", () => {
+  it("replaces photos with a note of what was attached", () => {
+    const textOnly = userMessage([{ type: "text", text: "Hello" }]);
+    const [withPhoto, unchanged] = omitImageData([
+      userMessage([
+        { type: "text", text: "What is this?" },
+        photo({ filename: "lamp.jpg" }),
+      ]),
+      textOnly,
+    ]);
+
+    expect(withPhoto.parts).toEqual([
+      { type: "text", text: "What is this?" },
+      {
+        type: "data-omitted-image",
+        data: { mediaType: "image/jpeg", filename: "lamp.jpg" },
+      },
+    ]);
+    expect(unchanged).toBe(textOnly);
+  });
+
+  it("describes omitted photos for the model", () => {
+    expect(
+      describeOmittedImage({
+        type: "data-omitted-image",
+        data: { mediaType: "image/jpeg", filename: "lamp.jpg" },
+      }),
+    ).toBe(
+      "[The user attached a photo (lamp.jpg) here, which is no longer available]",
+    );
+  });
+});
+
+describe("validateMessageAttachments", () => {
+  it("allows text-only conversations and inline photos", () => {
+    expect(
+      validateMessageAttachments([
+        userMessage([{ type: "text", text: "hello" }]),
+        userMessage([
+          photo(),
+          photo({ mediaType: "image/png", url: "data:image/png;base64,iVBO" }),
+        ]),
+      ]),
+    ).toBeNull();
+  });
+
+  it("limits the number of photos per message", () => {
+    expect(
+      validateMessageAttachments([
+        userMessage([photo(), photo(), photo(), photo()]),
+      ]),
+    ).toBe("Attach at most 3 photos per message");
+  });
+
+  it("rejects remote URLs and mismatched data", () => {
+    expect(
+      validateMessageAttachments([
+        userMessage([photo({ url: "https://example.com/lamp.jpg" })]),
+      ]),
+    ).toBe("Attachments must be inline images");
+    expect(
+      validateMessageAttachments([
+        userMessage([photo({ url: "data:text/html;base64,PGgxPg==" })]),
+      ]),
+    ).toBe("Attachments must be inline images");
+  });
+
+  it("rejects oversized photos", () => {
+    const url = `data:image/jpeg;base64,${"A".repeat(MAX_IMAGE_DATA_URL_LENGTH)}`;
+    expect(validateMessageAttachments([userMessage([photo({ url })])])).toBe(
+      "Attachment is too large",
+    );
+  });
+
+  it("rejects attachments on assistant messages", () => {
+    expect(
+      validateMessageAttachments([
+        { id: "2", role: "assistant", parts: [photo()] },
+      ]),
+    ).toBe("Only user messages can include attachments");
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Photo attachments for chat messages.
+ * The browser downsizes photos before sending them as data URL file parts;
+ * /api/chat re-checks them before they reach the model. Chat history keeps
+ * only a note of each photo, not its data.
+ */
+
+import type { FileUIPart, UIMessage } from "ai";
+
+export const MAX_IMAGE_ATTACHMENTS = 3;
+
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+/** Largest photo accepted for resizing. */
+export const MAX_IMAGE_FILE_BYTES = 20 * 1024 * 1024;
+
+/** Longest edge after resizing, in pixels. */
+export const MAX_IMAGE_DIMENSION = 1536;
+
+/** Longest data URL /api/chat accepts, about 1.5 MB of image data. */
+export const MAX_IMAGE_DATA_URL_LENGTH = 2_000_000;
+
+const JPEG_QUALITY = 0.85;
+
+/**
+ * Why a selected file can't be attached, or null if it can.
+ */
+export function validateImageFile(file: {
+  type: string;
+  size: number;
+}): string | null {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return "Attach a JPEG, PNG or WebP photo.";
+  }
+  if (file.size > MAX_IMAGE_FILE_BYTES) {
+    return "That photo is too large. Try one under 20 MB.";
+  }
+  return null;
+}
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Read a photo as a file part, scaled down so its longest edge is at most
+ * MAX_IMAGE_DIMENSION and re-encoded as JPEG. Browser only.
+ */
+export async function readImageAttachment(file: File): Promise<FileUIPart> {
+  if (typeof createImageBitmap !== "function") {
+    return {
+      type: "file",
+      mediaType: file.type,
+      filename: file.name,
+      url: await readAsDataUrl(file),
+    };
+  }
+
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(
+      1,
+      MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas is not available");
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    return {
+      type: "file",
+      mediaType: "image/jpeg",
+      filename: file.name,
+      url: canvas.toDataURL("image/jpeg", JPEG_QUALITY),
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+function isFilePart(part: UIMessage["parts"][number]): part is FileUIPart {
+  return part.type === "file";
+}
+
+/**
+ * Image file parts in a message.
+ */
+export function getImageParts(message: UIMessage): FileUIPart[] {
+  return message.parts
+    .filter(isFilePart)
+    .filter((part) => part.mediaType.startsWith("image/"));
+}
+
+/** A photo left out of chat history; only what it was is kept. */
+export interface OmittedImagePart {
+  type: "data-omitted-image";
+  data: { mediaType: string; filename?: string };
+}
+
+export function isOmittedImagePart(
+  part: UIMessage["parts"][number],
+): part is OmittedImagePart {
+  return part.type === "data-omitted-image";
+}
+
+/**
+ * Messages as kept in chat history. Each photo's data URL is replaced by an
+ * OmittedImagePart: a few photos would fill localStorage, and every save
+ * would re-serialize them. Messages without photos are returned as is.
+ */
+export function omitImageData(messages: UIMessage[]): UIMessage[] {
+  return messages.map((message) => {
+    if (getImageParts(message).length === 0) return message;
+    return {
+      ...message,
+      parts: message.parts.map((part) =>
+        isFilePart(part) && part.mediaType.startsWith("image/")
+          ? {
+              type: "data-omitted-image" as const,
+              data: { mediaType: part.mediaType, filename: part.filename },
+            }
+          : part,
+      ),
+    };
+  });
+}
+
+/**
+ * What the model is told in place of a photo left out of chat history.
+ */
+export function describeOmittedImage(part: OmittedImagePart): string {
+  const name = part.data.filename ? ` (${part.data.filename})` : "";
+  return `[The user attached a photo${name} here, which is no longer available]`;
+}
+
+/**
+ * Why a conversation's attachments can't be sent to the model, or null if
+ * they can. Only inline images of accepted types and size are allowed.
+ */
+export function validateMessageAttachments(
+  messages: UIMessage[],
+): string | null {
+  for (const message of messages) {
+    const files = message.parts.filter(isFilePart);
+    if (files.length === 0) continue;
+
+    if (message.role !== "user") {
+      return "Only user messages can include attachments";
+    }
+    if (files.length > MAX_IMAGE_ATTACHMENTS) {
+      return `Attach at most ${MAX_IMAGE_ATTACHMENTS} photos per message`;
+    }
+    for (const file of files) {
+      if (!ACCEPTED_IMAGE_TYPES.includes(file.mediaType)) {
+        return `Unsupported attachment type: ${file.mediaType}`;
+      }
+      if (!file.url.startsWith(`data:${file.mediaType};base64,`)) {
+        return "Attachments must be inline images";
+      }
+      if (file.url.length > MAX_IMAGE_DATA_URL_LENGTH) {
+        return "Attachment is too large";
+      }
+    }
+  }
+  return null;
+}
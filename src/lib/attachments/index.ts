@@ -0,0 +1,15 @@
+export {
+  ACCEPTED_IMAGE_TYPES,
+  describeOmittedImage,
+  getImageParts,
+  isOmittedImagePart,
+  MAX_IMAGE_ATTACHMENTS,
+  MAX_IMAGE_DATA_URL_LENGTH,
+  MAX_IMAGE_DIMENSION,
+  MAX_IMAGE_FILE_BYTES,
+  omitImageData,
+  readImageAttachment,
+  validateImageFile,
+  validateMessageAttachments,
+} from "./images";
+export type { OmittedImagePart } from "./images";
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { summarizeBids } from "../timeline";
+import type { BidHistory } from "@/lib/adapters/types";
+
+function bid(bidder: string, amount: number, time: string): BidHistory {
+  return { bidder, amount, currency: "GBP", timestamp: new Date(time) };
+}
+
+describe("summarizeBids", () => {
+  it("orders bids and counts distinct bidders", () => {
+    const timeline = summarizeBids("liveauctioneers", "1", [
+      bid("Bidder 2", 200, "2026-01-01T12:00:00Z"),
+      bid("Bidder 1", 100, "2026-01-01T10:00:00Z"),
+      bid("Floor", 150, "2026-01-01T11:00:00Z"),
+      bid("Bidder 1", 250, "2026-01-01T13:00:00Z"),
+    ]);
+
+    expect(timeline.bids.map((b) => b.amount)).toEqual([100, 150, 200, 250]);
+    expect(timeline).toMatchObject({
+      currency: "GBP",
+      bidCount: 4,
+      bidderCount: 3,
+      openingBid: 100,
+      currentBid: 250,
+      firstBidAt: new Date("2026-01-01T10:00:00Z"),
+      lastBidAt: new Date("2026-01-01T13:00:00Z"),
+    });
+  });
+
+  it("handles lots without bids", () => {
+    expect(summarizeBids("liveauctioneers", "1", [])).toEqual({
+      platform: "liveauctioneers",
+      itemId: "1",
+      currency: "USD",
+      bids: [],
+      bidCount: 0,
+      bidderCount: 0,
+      openingBid: undefined,
+      currentBid: undefined,
+      firstBidAt: undefined,
+      lastBidAt: undefined,
+    });
+  });
+
+  it("accepts serialized timestamps", () => {
+    const timeline = summarizeBids("liveauctioneers", "1", [
+      {
+        ...bid("A", 20, "2026-01-02"),
+        timestamp: "2026-01-02" as unknown as Date,
+      },
+      {
+        ...bid("B", 10, "2026-01-01"),
+        timestamp: "2026-01-01" as unknown as Date,
+      },
+    ]);
+    expect(timeline.openingBid).toBe(10);
+  });
+});
@@ -0,0 +1 @@
+export { summarizeBids, type BidTimeline } from "./timeline";
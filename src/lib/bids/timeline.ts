@@ -0,0 +1,51 @@
+/**
+ * Bid timeline summary for gauging competition on a lot.
+ */
+
+import type { BidHistory } from "@/lib/adapters/types";
+
+export interface BidTimeline {
+  platform: string;
+  itemId: string;
+  currency: string;
+  /** Bids in chronological order */
+  bids: BidHistory[];
+  bidCount: number;
+  /** Distinct bidder labels; anonymous bids count as one bidder */
+  bidderCount: number;
+  openingBid?: number;
+  currentBid?: number;
+  firstBidAt?: Date;
+  lastBidAt?: Date;
+}
+
+/**
+ * Summarize an item's bids. Accepts bids in any order.
+ */
+export function summarizeBids(
+  platform: string,
+  itemId: string,
+  bids: BidHistory[],
+  currency = "USD",
+): BidTimeline {
+  const sorted = [...bids].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+  );
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  return {
+    platform,
+    itemId,
+    currency: first?.currency ?? currency,
+    bids: sorted,
+    bidCount: sorted.length,
+    bidderCount: new Set(sorted.map((bid) => bid.bidder)).size,
+    openingBid: first?.amount,
+    currentBid: sorted.length
+      ? Math.max(...sorted.map((bid) => bid.amount))
+      : undefined,
+    firstBidAt: first?.timestamp,
+    lastBidAt: last?.timestamp,
+  };
+}
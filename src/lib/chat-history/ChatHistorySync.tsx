@@ -0,0 +1,55 @@
+"use client";
+
+/**
+ * Switches chat history to server sync while a user is signed in, so their
+ * sessions follow them across devices, and back to localStorage on sign-out.
+ * History kept while signed out is moved into the account on sign-in.
+ * Must be rendered inside ClerkProvider. Renders nothing.
+ */
+
+import { useEffect } from "react";
+import { useAuth } from "@clerk/nextjs";
+import {
+  CHAT_HISTORY_STORAGE_KEY,
+  STORAGE_CHANGE_EVENT,
+  createAnonymousStorage,
+  resetStorageProvider,
+  setStorageProvider,
+} from "./storage";
+import {
+  createServerSyncStorageProvider,
+  migrateAnonymousHistory,
+} from "./sync";
+
+function notifySameTabSubscribers(): void {
+  window.dispatchEvent(new CustomEvent(STORAGE_CHANGE_EVENT));
+}
+
+export function ChatHistorySync() {
+  const { isLoaded, isSignedIn, userId } = useAuth();
+
+  useEffect(() => {
+    if (!isLoaded || !isSignedIn || !userId) return;
+
+    const provider = createServerSyncStorageProvider({ userId });
+    // The server keeps every session; the provider caps its own cache when
+    // it falls back to localStorage, without deleting from the server
+    setStorageProvider(provider, { maxSessions: Number.POSITIVE_INFINITY });
+    notifySameTabSubscribers();
+    createAnonymousStorage()
+      .ready.then(({ provider: history }) =>
+        migrateAnonymousHistory({ history }),
+      )
+      .then(() => provider.hydrate(CHAT_HISTORY_STORAGE_KEY))
+      .catch((error) => {
+        console.warn("Failed to load synced chat history:", error);
+      });
+
+    return () => {
+      resetStorageProvider();
+      notifySameTabSubscribers();
+    };
+  }, [isLoaded, isSignedIn, userId]);
+
+  return null;
+}
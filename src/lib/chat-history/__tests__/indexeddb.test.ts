@@ -0,0 +1,299 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  createIndexedDbStorageProvider,
+  createMemorySessionDatabase,
+  type SessionDatabase,
+  type StorageEstimate,
+  type StorageWarning,
+} from "../indexeddb";
+import { createMemoryStorageProvider } from "../interfaces";
+import { getQuarantinedSessions } from "../quarantine";
+import type { ChatSession } from "../types";
+
+const KEY = "ai-appraiser-chat-history";
+
+function session(id: string, updatedAt: number): ChatSession {
+  return {
+    id,
+    preview: `Chat ${id}`,
+    agentId: "curator",
+    createdAt: 1000,
+    updatedAt,
+    messages: [{ id: "msg-1", role: "user", parts: [] }],
+  };
+}
+
+function ids(value: string | null): string[] {
+  return (JSON.parse(value ?? "[]") as ChatSession[]).map((s) => s.id);
+}
+
+/** Let queued writes settle */
+async function flush() {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function quotaError() {
+  return Object.assign(new Error("quota"), { name: "QuotaExceededError" });
+}
+
+describe("createIndexedDbStorageProvider", () => {
+  let database: SessionDatabase;
+  let legacy: ReturnType<typeof createMemoryStorageProvider>;
+  let quarantine: ReturnType<typeof createMemoryStorageProvider>;
+  let warnings: StorageWarning[];
+  let estimate: ReturnType<typeof vi.fn<() => Promise<StorageEstimate | null>>>;
+
+  beforeEach(() => {
+    database = createMemorySessionDatabase([
+      session("a", 1000),
+      session("b", 3000),
+    ]);
+    legacy = createMemoryStorageProvider();
+    quarantine = createMemoryStorageProvider();
+    warnings = [];
+    estimate = vi.fn<() => Promise<StorageEstimate | null>>();
+    estimate.mockResolvedValue(null);
+  });
+
+  function createProvider() {
+    return createIndexedDbStorageProvider({
+      database,
+      legacy,
+      quarantine,
+      estimate,
+      onWarning: (warning) => warnings.push(warning),
+    });
+  }
+
+  it("loads stored sessions, most recent first", async () => {
+    const provider = createProvider();
+    expect(provider.getItem(KEY)).toBeNull();
+
+    await provider.hydrate(KEY);
+
+    expect(ids(provider.getItem(KEY))).toEqual(["b", "a"]);
+  });
+
+  it("keeps every session as its own record", async () => {
+    const provider = createProvider();
+    await provider.hydrate(KEY);
+
+    provider.setItem(
+      KEY,
+      JSON.stringify([session("c", 4000), session("b", 3000)]),
+    );
+    await flush();
+
+    expect((await database.getAll()).map((s) => s.id).sort()).toEqual([
+      "b",
+      "c",
+    ]);
+  });
+
+  it("writes and deletes single sessions by ID", async () => {
+    const put = vi.spyOn(database, "put");
+    const provider = createProvider();
+    await provider.hydrate(KEY);
+
+    provider.putSession(KEY, session("c", 4000));
+    provider.deleteSession(KEY, "a");
+    await flush();
+
+    expect(put.mock.calls.map(([s]) => s.id)).toEqual(["c"]);
+    expect(provider.getSessions(KEY).map((s) => s.id)).toEqual(["c", "b"]);
+    expect(ids(provider.getItem(KEY))).toEqual(["c", "b"]);
+    expect((await database.getAll()).map((s) => s.id).sort()).toEqual([
+      "b",
+      "c",
+    ]);
+  });
+
+  it("keeps sessions deleted while loading deleted", async () => {
+    let loaded!: () => void;
+    const getAll = database.getAll.bind(database);
+    database.getAll = () =>
+      new Promise((resolve) => {
+        loaded = () => resolve(getAll());
+      });
+    const provider = createProvider();
+
+    const hydrating = provider.hydrate(KEY);
+    provider.deleteSession(KEY, "a");
+    provider.putSession(KEY, session("c", 4000));
+    loaded();
+    await hydrating;
+    await flush();
+
+    expect(ids(provider.getItem(KEY))).toEqual(["c", "b"]);
+    expect((await getAll()).map((s) => s.id).sort()).toEqual(["b", "c"]);
+  });
+
+  it("keeps history cleared while loading cleared", async () => {
+    let loaded!: () => void;
+    const getAll = database.getAll.bind(database);
+    database.getAll = () =>
+      new Promise((resolve) => {
+        loaded = () => resolve(getAll());
+      });
+    const provider = createProvider();
+
+    const hydrating = provider.hydrate(KEY);
+    provider.removeItem(KEY);
+    loaded();
+    await hydrating;
+    await flush();
+
+    expect(ids(provider.getItem(KEY))).toEqual([]);
+    expect(await getAll()).toEqual([]);
+  });
+
+  it("moves localStorage history over, keeping newer copies", async () => {
+    legacy.setItem(
+      KEY,
+      JSON.stringify([session("a", 2000), session("b", 2000)]),
+    );
+    const provider = createProvider();
+
+    await provider.hydrate(KEY);
+    await flush();
+
+    const stored = new Map((await database.getAll()).map((s) => [s.id, s]));
+    expect(stored.get("a")?.updatedAt).toBe(2000);
+    expect(stored.get("b")?.updatedAt).toBe(3000);
+    expect(legacy.getItem(KEY)).toBeNull();
+  });
+
+  it("keeps localStorage history when it can't be moved", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    legacy.setItem(KEY, JSON.stringify([session("c", 2000)]));
+    database.put = vi.fn().mockRejectedValue(new Error("broken"));
+    const provider = createProvider();
+
+    await provider.hydrate(KEY);
+    await flush();
+
+    expect(legacy.getItem(KEY)).not.toBeNull();
+  });
+
+  it("upgrades moved sessions and quarantines unreadable ones", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    legacy.setItem(
+      KEY,
+      JSON.stringify([
+        {
+          ...session("c", 4000),
+          messages: [{ id: "msg-1", role: "user", content: "Hello" }],
+        },
+        { id: "broken" },
+      ]),
+    );
+    await database.put({ id: "unreadable" } as ChatSession);
+    const provider = createProvider();
+
+    await provider.hydrate(KEY);
+    await flush();
+
+    const [upgraded] = JSON.parse(provider.getItem(KEY)!) as ChatSession[];
+    expect(upgraded).toMatchObject({
+      id: "c",
+      schemaVersion: 1,
+      messages: [{ parts: [{ type: "text", text: "Hello" }] }],
+    });
+    expect(ids(provider.getItem(KEY))).toEqual(["c", "b", "a"]);
+    expect(
+      getQuarantinedSessions(quarantine).map((q) => JSON.parse(q.data).id),
+    ).toEqual(["broken", "unreadable"]);
+  });
+
+  it("clears the database and localStorage", async () => {
+    legacy.setItem(KEY, "[]");
+    const provider = createProvider();
+    await provider.hydrate(KEY);
+
+    provider.removeItem(KEY);
+    await flush();
+
+    expect(provider.getItem(KEY)).toBeNull();
+    expect(await database.getAll()).toEqual([]);
+    expect(legacy.getItem(KEY)).toBeNull();
+  });
+
+  it("evicts the least recently updated sessions when the quota is exceeded", async () => {
+    const put = database.put.bind(database);
+    database.put = vi
+      .fn()
+      .mockRejectedValueOnce(quotaError())
+      .mockImplementation(put);
+    const onChange = vi.fn();
+    const provider = createIndexedDbStorageProvider({
+      database,
+      legacy,
+      estimate,
+      onChange,
+      onWarning: (warning) => warnings.push(warning),
+    });
+    await provider.hydrate(KEY);
+
+    provider.setItem(
+      KEY,
+      JSON.stringify([
+        session("c", 4000),
+        session("b", 3000),
+        session("a", 1000),
+      ]),
+    );
+    await flush();
+
+    expect(ids(provider.getItem(KEY))).toEqual(["c", "b"]);
+    expect((await database.getAll()).map((s) => s.id).sort()).toEqual([
+      "b",
+      "c",
+    ]);
+    expect(onChange).toHaveBeenCalled();
+    expect(warnings).toEqual([{ type: "evicted", evictedCount: 1 }]);
+  });
+
+  it("warns when a save fails with nothing left to evict", async () => {
+    database = createMemorySessionDatabase();
+    database.put = vi.fn().mockRejectedValue(quotaError());
+    const provider = createProvider();
+    await provider.hydrate(KEY);
+
+    provider.setItem(KEY, JSON.stringify([session("c", 4000)]));
+    await flush();
+
+    expect(warnings).toEqual([{ type: "save-failed" }]);
+  });
+
+  it("evicts old sessions when usage passes the eviction threshold", async () => {
+    estimate.mockResolvedValue({ usage: 900, quota: 1000 });
+    const provider = createProvider();
+    await provider.hydrate(KEY);
+
+    provider.setItem(
+      KEY,
+      JSON.stringify([
+        session("c", 4000),
+        session("b", 3000),
+        session("a", 1000),
+      ]),
+    );
+    await flush();
+
+    // Needs 100 bytes back: the oldest session is enough
+    expect(ids(provider.getItem(KEY))).toEqual(["c", "b"]);
+    expect(warnings).toEqual([{ type: "evicted", evictedCount: 1 }]);
+  });
+
+  it("warns once when storage is nearly full", async () => {
+    estimate.mockResolvedValue({ usage: 850, quota: 1000 });
+    const provider = createProvider();
+    await provider.hydrate(KEY);
+
+    provider.setItem(KEY, JSON.stringify([session("c", 4000)]));
+    provider.setItem(KEY, JSON.stringify([session("c", 5000)]));
+    await flush();
+
+    expect(warnings).toEqual([{ type: "nearly-full", usageRatio: 0.85 }]);
+  });
+});
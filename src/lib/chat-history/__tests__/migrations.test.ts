@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  CHAT_SESSION_SCHEMA_VERSION,
+  parseSessionRecord,
+  parseStoredSessions,
+  type SessionMigration,
+} from "../migrations";
+
+function record(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "chat-1",
+    preview: "Chat",
+    agentId: "curator",
+    createdAt: 1000,
+    updatedAt: 2000,
+    messages: [{ id: "msg-1", role: "user", parts: [] }],
+    ...overrides,
+  };
+}
+
+describe("parseSessionRecord", () => {
+  it("stamps current sessions with the schema version", () => {
+    const parsed = parseSessionRecord(
+      record({ schemaVersion: CHAT_SESSION_SCHEMA_VERSION }),
+    );
+
+    expect(parsed).toEqual({
+      ok: true,
+      session: record({ schemaVersion: CHAT_SESSION_SCHEMA_VERSION }),
+    });
+  });
+
+  it("upgrades unversioned sessions with AI SDK v4 messages", () => {
+    const parsed = parseSessionRecord(
+      record({
+        messages: [
+          { id: "msg-1", role: "user", content: "Is this Tiffany?" },
+          { id: "msg-2", role: "data", content: "{}" },
+          { id: "msg-3", role: "assistant", content: "", parts: [] },
+        ],
+      }),
+    );
+
+    expect(parsed.ok && parsed.session.messages).toEqual([
+      {
+        id: "msg-1",
+        role: "user",
+        parts: [{ type: "text", text: "Is this Tiffany?" }],
+      },
+      { id: "msg-3", role: "assistant", content: "", parts: [] },
+    ]);
+  });
+
+  it("applies migrations one version at a time", () => {
+    const migrations: Record<number, SessionMigration> = {
+      0: (session) => ({ ...session, preview: `${session.preview} v1` }),
+      1: (session) => ({ ...session, preview: `${session.preview} v2` }),
+    };
+
+    const fromZero = parseSessionRecord(record(), { migrations, version: 2 });
+    const fromOne = parseSessionRecord(record({ schemaVersion: 1 }), {
+      migrations,
+      version: 2,
+    });
+
+    expect(fromZero.ok && fromZero.session.preview).toBe("Chat v1 v2");
+    expect(fromOne.ok && fromOne.session).toMatchObject({
+      preview: "Chat v2",
+      schemaVersion: 2,
+    });
+  });
+
+  it("rejects sessions it can't upgrade or validate", () => {
+    expect(parseSessionRecord(record({ schemaVersion: 99 }))).toEqual({
+      ok: false,
+      reason: "Saved with newer schema version 99",
+    });
+    expect(
+      parseSessionRecord(record(), { migrations: {}, version: 1 }),
+    ).toEqual({ ok: false, reason: "No migration from schema version 0" });
+    expect(parseSessionRecord(record({ agentId: "dealer" }))).toMatchObject({
+      ok: false,
+      reason: expect.stringContaining("agentId"),
+    });
+    expect(parseSessionRecord(null)).toMatchObject({ ok: false });
+  });
+});
+
+describe("parseStoredSessions", () => {
+  it("keeps readable sessions and rejects the rest", () => {
+    const result = parseStoredSessions(
+      JSON.stringify([record(), record({ id: "chat-2", messages: "none" })]),
+    );
+
+    expect(result.sessions.map((s) => s.id)).toEqual(["chat-1"]);
+    expect(result.rejected).toEqual([
+      {
+        record: record({ id: "chat-2", messages: "none" }),
+        reason: expect.stringContaining("messages"),
+      },
+    ]);
+  });
+
+  it("rejects the whole value when it isn't a session list", () => {
+    expect(parseStoredSessions("{oops")).toEqual({
+      sessions: [],
+      rejected: [{ record: "{oops", reason: "Invalid JSON" }],
+    });
+    expect(parseStoredSessions("{}").rejected[0].reason).toBe(
+      "Not a session list",
+    );
+    expect(parseStoredSessions(null)).toEqual({ sessions: [], rejected: [] });
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect } from "vitest";
+import type { UIMessage } from "@ai-sdk/react";
+import type { ChatSession } from "../types";
+import {
+  createHistorySearchIndex,
+  normalizeSearchText,
+  parseHistoryQuery,
+} from "../search";
+
+function session(overrides: Partial<ChatSession> = {}): ChatSession {
+  return {
+    id: "chat-1",
+    preview: "Tiffany lamps",
+    agentId: "curator",
+    createdAt: 1000,
+    updatedAt: 2000,
+    messages: [],
+    ...overrides,
+  };
+}
+
+function textMessage(
+  id: string,
+  text: string,
+  role: UIMessage["role"] = "user",
+): UIMessage {
+  return { id, role, parts: [{ type: "text", text }] };
+}
+
+const searchMessage = {
+  id: "msg-2",
+  role: "assistant",
+  parts: [
+    {
+      type: "tool-searchItems",
+      toolCallId: "call-1",
+      state: "output-available",
+      input: { query: "art nouveau lamp", platform: "1stdibs" },
+      output: {
+        results: [
+          {
+            itemId: "1stdibs-123",
+            title: "Tiffany Studios Dragonfly Lamp",
+            platform: "1stdibs",
+          },
+        ],
+      },
+    },
+    { type: "text", text: "I found one Dragonfly lamp." },
+  ],
+} as UIMessage;
+
+describe("normalizeSearchText", () => {
+  it("lowercases and strips diacritics", () => {
+    expect(normalizeSearchText("Émile GALLÉ")).toBe("emile galle");
+  });
+});
+
+describe("parseHistoryQuery", () => {
+  it("splits terms, phrases and filters", () => {
+    expect(
+      parseHistoryQuery(
+        'Tiffany "table lamp" platform:1stDibs tool:searchItems',
+      ),
+    ).toEqual({
+      terms: ["tiffany", "table lamp"],
+      platforms: ["1stdibs"],
+      agents: [],
+      tools: ["searchitems"],
+    });
+  });
+
+  it("accepts quoted filter values", () => {
+    expect(parseHistoryQuery('agent:"appraiser"').agents).toEqual([
+      "appraiser",
+    ]);
+  });
+
+  it("searches unknown key:value pairs as text", () => {
+    expect(parseHistoryQuery("lot:42").terms).toEqual(["lot:42"]);
+  });
+});
+
+describe("createHistorySearchIndex", () => {
+  it("matches message text regardless of case and accents", () => {
+    const index = createHistorySearchIndex();
+    index.update([
+      session({
+        messages: [
+          textMessage("msg-1", "Is this vase by Émile Gallé?"),
+          textMessage("msg-2", "It looks like cameo glass.", "assistant"),
+        ],
+      }),
+    ]);
+
+    expect(index.search("galle")).toEqual([
+      {
+        sessionId: "chat-1",
+        messageId: "msg-1",
+        role: "user",
+        preview: "Tiffany lamps",
+        agentId: "curator",
+        updatedAt: 2000,
+        matchedIn: "text",
+        snippet: "Is this vase by Émile Gallé?",
+      },
+    ]);
+  });
+
+  it("requires every term within one message", () => {
+    const index = createHistorySearchIndex();
+    index.update([
+      session({
+        messages: [
+          textMessage("msg-1", "Tiffany lamp"),
+          textMessage("msg-2", "Tiffany vase"),
+        ],
+      }),
+    ]);
+
+    expect(index.search("tiffany vase").map((r) => r.messageId)).toEqual([
+      "msg-2",
+    ]);
+  });
+
+  it("indexes item titles and IDs from tool outputs", () => {
+    const index = createHistorySearchIndex();
+    index.update([session({ messages: [searchMessage] })]);
+
+    const [byTitle] = index.search("tiffany");
+    expect(byTitle).toMatchObject({ messageId: "msg-2", matchedIn: "item" });
+    expect(byTitle.snippet).toBe(
+      "Tiffany Studios Dragonfly Lamp (1stdibs-123)",
+    );
+    expect(index.search("1stdibs-123")).toHaveLength(1);
+  });
+
+  it("indexes tool inputs", () => {
+    const index = createHistorySearchIndex();
+    index.update([session({ messages: [searchMessage] })]);
+
+    expect(index.search('"art nouveau"')[0]).toMatchObject({
+      matchedIn: "tool",
+      snippet: "art nouveau lamp 1stdibs",
+    });
+  });
+
+  it("filters by platform, tool and agent", () => {
+    const index = createHistorySearchIndex();
+    index.update([
+      session({
+        messages: [textMessage("msg-1", "Find me a lamp"), searchMessage],
+      }),
+      session({
+        id: "chat-2",
+        agentId: "appraiser",
+        updatedAt: 3000,
+        messages: [textMessage("msg-3", "What is this lamp worth?")],
+      }),
+    ]);
+
+    expect(index.search("platform:1stdibs").map((r) => r.messageId)).toEqual([
+      "msg-2",
+    ]);
+    expect(index.search("lamp tool:searchitems")).toHaveLength(1);
+    expect(
+      index.search("lamp agent:appraiser").map((r) => r.sessionId),
+    ).toEqual(["chat-2"]);
+    expect(index.search("platform:liveauctioneers")).toEqual([]);
+  });
+
+  it("lists the most recently updated sessions first", () => {
+    const index = createHistorySearchIndex();
+    index.update([
+      session({ messages: [textMessage("msg-1", "lamp")] }),
+      session({
+        id: "chat-2",
+        updatedAt: 3000,
+        messages: [textMessage("msg-2", "lamp")],
+      }),
+    ]);
+
+    expect(index.search("lamp").map((r) => r.sessionId)).toEqual([
+      "chat-2",
+      "chat-1",
+    ]);
+    expect(index.search("lamp", 1)).toHaveLength(1);
+  });
+
+  it("returns nothing for an empty query", () => {
+    const index = createHistorySearchIndex();
+    index.update([session({ messages: [textMessage("msg-1", "lamp")] })]);
+
+    expect(index.search("  ")).toEqual([]);
+  });
+
+  it("re-indexes changed sessions and drops deleted ones", () => {
+    const index = createHistorySearchIndex();
+    index.update([
+      session({ messages: [textMessage("msg-1", "lamp")] }),
+      session({ id: "chat-2", messages: [textMessage("msg-2", "lamp")] }),
+    ]);
+    index.update([
+      session({
+        updatedAt: 4000,
+        messages: [textMessage("msg-1", "lamp"), textMessage("msg-3", "vase")],
+      }),
+    ]);
+
+    expect(index.search("lamp").map((r) => r.sessionId)).toEqual(["chat-1"]);
+    expect(index.search("vase")).toHaveLength(1);
+  });
+
+  it("trims long snippets around the match", () => {
+    const index = createHistorySearchIndex();
+    const text = `${"a".repeat(100)} Tiffany ${"b".repeat(100)}`;
+    index.update([session({ messages: [textMessage("msg-1", text)] })]);
+
+    const [result] = index.search("tiffany");
+    expect(result.snippet.startsWith("…")).toBe(true);
+    expect(result.snippet.endsWith("…")).toBe(true);
+    expect(result.snippet).toContain("Tiffany");
+    expect(result.snippet.length).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MockLogger } from "@/lib/logging/mock";
+import { ChatSessionService, STAGING_TTL_MS } from "../server";
+import { MemoryChatSessionRepository } from "../store";
+import type { ChatSession } from "../types";
+
+function session(
+  id: string,
+  updatedAt: number,
+  preview = `Chat ${id}`,
+): ChatSession {
+  return {
+    id,
+    preview,
+    agentId: "curator",
+    createdAt: 1000,
+    updatedAt,
+    messages: [{ id: "msg-1", role: "user", parts: [] }],
+  };
+}
+
+describe("ChatSessionService", () => {
+  let service: ChatSessionService;
+
+  beforeEach(() => {
+    service = new ChatSessionService({
+      repository: new MemoryChatSessionRepository(),
+      log: new MockLogger(),
+    });
+  });
+
+  it("lists a user's sessions, most recent first", async () => {
+    await service.save("user-1", session("a", 2000));
+    await service.save("user-1", session("b", 3000));
+    await service.save("user-2", session("c", 4000));
+
+    expect((await service.list("user-1")).map((s) => s.id)).toEqual(["b", "a"]);
+  });
+
+  it("returns sessions without the owner", async () => {
+    await service.save("user-1", session("a", 2000));
+    expect(await service.get("user-1", "a")).toEqual(session("a", 2000));
+    expect(await service.get("user-2", "a")).toBeNull();
+  });
+
+  it("ignores updates older than the stored copy", async () => {
+    await service.save("user-1", session("a", 3000, "Newer"));
+    const saved = await service.save("user-1", session("a", 2000, "Stale"));
+
+    expect(saved.preview).toBe("Newer");
+    expect((await service.get("user-1", "a"))?.preview).toBe("Newer");
+  });
+
+  it("keeps the original creation time", async () => {
+    await service.save("user-1", session("a", 2000));
+    await service.save("user-1", { ...session("a", 3000), createdAt: 2500 });
+
+    expect((await service.get("user-1", "a"))?.createdAt).toBe(1000);
+  });
+
+  it("deletes and clears only the user's sessions", async () => {
+    await service.save("user-1", session("a", 2000));
+    await service.save("user-1", session("b", 3000));
+    await service.save("user-2", session("c", 4000));
+
+    expect(await service.delete("user-1", "a")).toBe(true);
+    expect(await service.delete("user-1", "a")).toBe(false);
+    expect(await service.clear("user-1")).toBe(1);
+    expect(await service.list("user-1")).toEqual([]);
+    expect(await service.list("user-2")).toHaveLength(1);
+  });
+
+  it("imports sessions deduped by ID, counting only new ones", async () => {
+    await service.save("user-1", session("a", 3000, "Account"));
+
+    const imported = await service.importSessions("user-1", [
+      session("a", 2000, "Browser"),
+      session("b", 2000),
+      session("b", 2500),
+    ]);
+
+    expect(imported).toBe(1);
+    expect((await service.get("user-1", "a"))?.preview).toBe("Account");
+    expect((await service.get("user-1", "b"))?.updatedAt).toBe(2500);
+  });
+
+  it("moves staged sessions into the account once", async () => {
+    await service.stage("anon-1", [session("a", 2000)]);
+    await service.stage("anon-1", [session("b", 2000), session("c", 3000)]);
+    await service.save("user-1", session("c", 3000));
+
+    expect(await service.claimStaged("user-1", "anon-1")).toBe(1);
+    expect((await service.list("user-1")).map((s) => s.id)).toEqual(["c", "b"]);
+    expect(await service.claimStaged("user-2", "anon-1")).toBe(0);
+  });
+
+  it("appends staged batches", async () => {
+    await service.stage("anon-1", [session("a", 2000)]);
+    await service.stage("anon-1", [session("b", 3000)], { append: true });
+
+    expect(await service.claimStaged("user-1", "anon-1")).toBe(2);
+  });
+
+  it("sweeps staged sessions no one claimed in time", async () => {
+    let now = 10_000;
+    service = new ChatSessionService({
+      repository: new MemoryChatSessionRepository(),
+      now: () => now,
+      log: new MockLogger(),
+    });
+    await service.stage("anon-1", [session("a", 2000), session("b", 3000)]);
+    await service.save("user-1", session("c", 4000));
+
+    now += STAGING_TTL_MS / 2;
+    await service.stage("anon-2", [session("d", 2000)]);
+    expect(await service.sweepStaged()).toBe(0);
+
+    now += STAGING_TTL_MS / 2 + 1;
+    expect(await service.sweepStaged()).toBe(2);
+    expect(await service.claimStaged("user-2", "anon-1")).toBe(0);
+    expect(await service.claimStaged("user-2", "anon-2")).toBe(1);
+    expect(await service.list("user-1")).toHaveLength(1);
+  });
+});
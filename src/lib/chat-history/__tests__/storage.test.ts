@@ -9,11 +9,20 @@ import {
   clearAllSessions,
   setStorageProvider,
   resetStorageProvider,
+  whenStorageReady,
   STORAGE_CHANGE_EVENT,
 } from "../storage";
 import { createMemoryStorageProvider } from "../interfaces";
+import {
+  createIndexedDbStorageProvider,
+  createMemorySessionDatabase,
+} from "../indexeddb";
+import { CHAT_SESSION_SCHEMA_VERSION } from "../migrations";
+import { getQuarantinedSessions } from "../quarantine";
 import type { ChatSession } from "../types";
 
+const message = { id: "msg-1", role: "user" as const, parts: [] };
+
 describe("chat history storage", () => {
   let memoryStorage: ReturnType<typeof createMemoryStorageProvider>;
 
@@ -60,13 +69,57 @@ describe("chat history storage", () => {
         JSON.stringify(sessions),
       );
 
-      expect(getAllSessions()).toEqual(sessions);
+      expect(getAllSessions()).toEqual([
+        { ...sessions[0], schemaVersion: CHAT_SESSION_SCHEMA_VERSION },
+      ]);
     });
 
     it("returns empty array on parse error", () => {
       memoryStorage.setItem("ai-appraiser-chat-history", "invalid json");
       expect(getAllSessions()).toEqual([]);
     });
+
+    it("quarantines unreadable sessions and keeps the rest", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const quarantine = createMemoryStorageProvider();
+      setStorageProvider(memoryStorage, { quarantine });
+      const readable = {
+        id: "test-1",
+        preview: "Test Chat",
+        agentId: "curator",
+        createdAt: 1000,
+        updatedAt: 2000,
+        messages: [{ id: "msg-1", role: "assistant", content: "Hello" }],
+      };
+      memoryStorage.setItem(
+        "ai-appraiser-chat-history",
+        JSON.stringify([readable, { ...readable, id: "test-2", agentId: 42 }]),
+      );
+
+      const sessions = getAllSessions();
+      getAllSessions();
+
+      expect(sessions.map((s) => s.id)).toEqual(["test-1"]);
+      expect(sessions[0].messages[0].parts).toEqual([
+        { type: "text", text: "Hello" },
+      ]);
+      expect(getQuarantinedSessions(quarantine)).toHaveLength(1);
+    });
+
+    it("parses and quarantines only when the stored data changes", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const quarantine = createMemoryStorageProvider();
+      const setQuarantine = vi.spyOn(quarantine, "setItem");
+      setStorageProvider(memoryStorage, { quarantine });
+      memoryStorage.setItem("ai-appraiser-chat-history", "[{}]");
+
+      const first = getAllSessions();
+      expect(getAllSessions()).toBe(first);
+      expect(setQuarantine).toHaveBeenCalledTimes(1);
+
+      memoryStorage.setItem("ai-appraiser-chat-history", "[]");
+      expect(getAllSessions()).not.toBe(first);
+    });
   });
 
   describe("saveSession", () => {
@@ -85,6 +138,40 @@ describe("chat history storage", () => {
       expect(sessions[0].agentId).toBe("curator");
     });
 
+    it("saves photo attachments without their data", () => {
+      const url = `data:image/jpeg;base64,${"A".repeat(2_000_000)}`;
+      saveSession(
+        "test-1",
+        "curator",
+        [
+          {
+            id: "msg-1",
+            role: "user",
+            parts: [
+              { type: "text", text: "What is this?" },
+              ...Array.from({ length: 3 }, () => ({
+                type: "file" as const,
+                mediaType: "image/jpeg",
+                filename: "lamp.jpg",
+                url,
+              })),
+            ],
+          },
+        ],
+        "Test Chat",
+      );
+
+      const stored = memoryStorage.getItem("ai-appraiser-chat-history")!;
+      expect(stored.length).toBeLessThan(1000);
+      expect(getAllSessions()[0].messages[0].parts).toEqual([
+        { type: "text", text: "What is this?" },
+        ...Array.from({ length: 3 }, () => ({
+          type: "data-omitted-image",
+          data: { mediaType: "image/jpeg", filename: "lamp.jpg" },
+        })),
+      ]);
+    });
+
     it("updates an existing session", () => {
       saveSession(
         "test-1",
@@ -109,6 +196,86 @@ describe("chat history storage", () => {
       saveSession("test-1", "curator", [], "Test");
       expect(getAllSessions()).toHaveLength(0);
     });
+
+    it("keeps the 20 most recent sessions by default", () => {
+      for (let i = 0; i < 21; i++) {
+        saveSession(`test-${i}`, "curator", [message], `Chat ${i}`);
+      }
+      expect(getAllSessions()).toHaveLength(20);
+    });
+
+    it("keeps as many sessions as the provider allows", () => {
+      setStorageProvider(memoryStorage, { maxSessions: 25 });
+      for (let i = 0; i < 21; i++) {
+        saveSession(`test-${i}`, "curator", [message], `Chat ${i}`);
+      }
+      expect(getAllSessions()).toHaveLength(21);
+    });
+  });
+
+  describe("with a session store", () => {
+    it("saves and deletes one session without rewriting the list", async () => {
+      const database = createMemorySessionDatabase();
+      const provider = createIndexedDbStorageProvider({
+        database,
+        legacy: createMemoryStorageProvider(),
+        estimate: async () => null,
+      });
+      await provider.hydrate("ai-appraiser-chat-history");
+      const setItem = vi.spyOn(provider, "setItem");
+      const getItem = vi.spyOn(provider, "getItem");
+      setStorageProvider(provider, { maxSessions: Number.POSITIVE_INFINITY });
+
+      saveSession("test-1", "curator", [message], "Chat 1");
+      saveSession("test-2", "curator", [message], "Chat 2");
+      deleteSession("test-1");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(getAllSessions().map((s) => s.id)).toEqual(["test-2"]);
+      expect((await database.getAll()).map((s) => s.id)).toEqual(["test-2"]);
+      expect(setItem).not.toHaveBeenCalled();
+      expect(getItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("whenStorageReady", () => {
+    it("resolves once the provider has loaded", async () => {
+      let loaded!: () => void;
+      const ready = new Promise<void>((resolve) => {
+        loaded = resolve;
+      });
+      setStorageProvider(memoryStorage, { ready });
+
+      const onReady = vi.fn();
+      const waiting = whenStorageReady().then(onReady);
+      await Promise.resolve();
+      expect(onReady).not.toHaveBeenCalled();
+
+      loaded();
+      await waiting;
+      expect(onReady).toHaveBeenCalled();
+    });
+
+    it("falls back to localStorage without IndexedDB", async () => {
+      resetStorageProvider();
+      await whenStorageReady();
+
+      localStorage.setItem(
+        "ai-appraiser-chat-history",
+        JSON.stringify([
+          {
+            id: "stored",
+            preview: "Stored",
+            agentId: "curator",
+            createdAt: 1,
+            updatedAt: 1,
+            messages: [message],
+          },
+        ]),
+      );
+      expect(getAllSessions().map((s) => s.id)).toEqual(["stored"]);
+      localStorage.clear();
+    });
   });
 
   describe("getSession", () => {
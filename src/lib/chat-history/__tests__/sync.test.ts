@@ -0,0 +1,455 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  ANONYMOUS_ID_STORAGE_KEY,
+  createServerSyncStorageProvider,
+  getAnonymousId,
+  loadServerSession,
+  migrateAnonymousHistory,
+  stageAnonymousHistory,
+  type SessionSyncClient,
+} from "../sync";
+import {
+  createIndexedDbStorageProvider,
+  createMemorySessionDatabase,
+} from "../indexeddb";
+import { createMemoryStorageProvider } from "../interfaces";
+import { getQuarantinedSessions } from "../quarantine";
+import { resetStorageProvider, setStorageProvider } from "../storage";
+import type { ChatSession } from "../types";
+
+const KEY = "ai-appraiser-chat-history";
+const CACHE_KEY = `${KEY}:user-1`;
+
+function session(id: string, updatedAt: number): ChatSession {
+  return {
+    id,
+    preview: `Chat ${id}`,
+    agentId: "curator",
+    createdAt: 1000,
+    updatedAt,
+    messages: [{ id: "msg-1", role: "user", parts: [] }],
+  };
+}
+
+function createClient(remote: ChatSession[] = []) {
+  return {
+    list: vi.fn().mockResolvedValue(remote),
+    get: vi.fn().mockResolvedValue(null),
+    put: vi.fn().mockResolvedValue(undefined),
+    remove: vi.fn().mockResolvedValue(undefined),
+    clear: vi.fn().mockResolvedValue(undefined),
+    stage: vi.fn().mockResolvedValue(undefined),
+    migrate: vi.fn().mockResolvedValue(0),
+  } satisfies SessionSyncClient;
+}
+
+/** Let background sync requests settle */
+async function flush() {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("createServerSyncStorageProvider", () => {
+  let local: ReturnType<typeof createMemoryStorageProvider>;
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    local = createMemoryStorageProvider({
+      [KEY]: JSON.stringify([session("anonymous", 1)]),
+    });
+    client = createClient();
+  });
+
+  function createProvider() {
+    return createServerSyncStorageProvider({ userId: "user-1", client, local });
+  }
+
+  it("keeps a per-user cache apart from anonymous history", () => {
+    const provider = createProvider();
+
+    expect(provider.getItem(KEY)).toBeNull();
+    provider.setItem(KEY, JSON.stringify([session("a", 2000)]));
+
+    expect(JSON.parse(local.getItem(CACHE_KEY)!)).toHaveLength(1);
+    expect(JSON.parse(local.getItem(KEY)!)[0].id).toBe("anonymous");
+  });
+
+  it("sends new and updated sessions to the server", async () => {
+    const provider = createProvider();
+    provider.setItem(KEY, JSON.stringify([session("a", 2000)]));
+    provider.setItem(
+      KEY,
+      JSON.stringify([session("a", 2000), session("b", 3000)]),
+    );
+    await flush();
+
+    expect(client.put.mock.calls.map(([s]) => s.id)).toEqual(["a", "b"]);
+  });
+
+  it("deletes sessions removed from the list", async () => {
+    const provider = createProvider();
+    provider.setItem(KEY, JSON.stringify([session("a", 2000)]));
+    provider.setItem(KEY, JSON.stringify([]));
+    await flush();
+
+    expect(client.remove).toHaveBeenCalledWith("a");
+  });
+
+  it("syncs sessions saved and deleted one at a time", async () => {
+    const provider = createProvider();
+    provider.putSession(KEY, session("a", 2000));
+    provider.putSession(KEY, session("b", 3000));
+    provider.deleteSession(KEY, "a");
+    await flush();
+
+    expect(provider.getSessions(KEY).map((s) => s.id)).toEqual(["b"]);
+    expect(client.put.mock.calls.map(([s]) => s.id)).toEqual(["a", "b"]);
+    expect(client.remove).toHaveBeenCalledWith("a");
+  });
+
+  it("clears the server when history is cleared", () => {
+    const provider = createProvider();
+    provider.removeItem(KEY);
+
+    expect(client.clear).toHaveBeenCalled();
+    expect(local.getItem(KEY)).not.toBeNull();
+  });
+
+  it("replaces the cache with the server's sessions on hydrate", async () => {
+    client = createClient([session("b", 3000), session("c", 4000)]);
+    local.setItem(CACHE_KEY, JSON.stringify([session("a", 2000)]));
+    const provider = createProvider();
+
+    await provider.hydrate(KEY);
+
+    expect(
+      JSON.parse(provider.getItem(KEY)!).map((s: ChatSession) => s.id),
+    ).toEqual(["c", "b"]);
+  });
+
+  it("quarantines unreadable sessions from the server and the cache", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    client = createClient([
+      session("b", 3000),
+      { id: "broken-remote" } as unknown as ChatSession,
+    ]);
+    local.setItem(
+      CACHE_KEY,
+      JSON.stringify([session("a", 2000), { id: "broken-cached" }]),
+    );
+    const provider = createProvider();
+
+    provider.setItem(KEY, JSON.stringify([session("a", 2000)]));
+    await provider.hydrate(KEY);
+
+    expect(
+      JSON.parse(provider.getItem(KEY)!).map((s: ChatSession) => s.id),
+    ).toEqual(["b"]);
+    expect(
+      getQuarantinedSessions(local).map((entry) => JSON.parse(entry.data).id),
+    ).toEqual(["broken-remote", "broken-cached"]);
+  });
+
+  it("re-sends changes that failed to sync on hydrate", async () => {
+    client.put.mockRejectedValueOnce(new Error("offline"));
+    client.remove.mockRejectedValueOnce(new Error("offline"));
+    const provider = createProvider();
+    provider.setItem(KEY, JSON.stringify([session("a", 2000)]));
+    provider.setItem(KEY, JSON.stringify([session("b", 3000)]));
+    await flush();
+
+    client.list.mockResolvedValue([session("a", 1500), session("b", 3000)]);
+    client.put.mockClear();
+    client.remove.mockClear();
+    await provider.hydrate(KEY);
+
+    expect(
+      JSON.parse(provider.getItem(KEY)!).map((s: ChatSession) => s.id),
+    ).toEqual(["b"]);
+    expect(client.remove).toHaveBeenCalledWith("a");
+    expect(client.put).not.toHaveBeenCalled();
+
+    client.list.mockResolvedValue([session("b", 3000)]);
+    await provider.hydrate(KEY);
+    expect(client.remove).toHaveBeenCalledTimes(1);
+  });
+
+  it("caps the local cache without deleting from the server", async () => {
+    const sessions = Array.from({ length: 25 }, (_, i) =>
+      session(`s${i}`, 2000 - i),
+    );
+    const provider = createProvider();
+    provider.setItem(KEY, JSON.stringify(sessions));
+    await flush();
+
+    expect(JSON.parse(provider.getItem(KEY)!)).toHaveLength(20);
+    expect(client.put).toHaveBeenCalledTimes(25);
+    expect(local.getItem(`${CACHE_KEY}:pending`)).toBe("{}");
+
+    provider.setItem(KEY, JSON.stringify(sessions.slice(0, 20)));
+    client.list.mockResolvedValue(sessions);
+    await provider.hydrate(KEY);
+
+    expect(client.remove).not.toHaveBeenCalled();
+    expect(JSON.parse(provider.getItem(KEY)!)).toHaveLength(20);
+  });
+
+  it("keeps an uncapped cache in the given store", async () => {
+    const database = createMemorySessionDatabase();
+    // The localStorage cache earlier versions kept is moved over
+    local.setItem(CACHE_KEY, JSON.stringify([session("s0", 3000)]));
+    const cache = createIndexedDbStorageProvider({
+      database,
+      legacy: local,
+      estimate: async () => null,
+    });
+    client = createClient(
+      Array.from({ length: 25 }, (_, i) => session(`s${i}`, 3000 + i)),
+    );
+    const provider = createServerSyncStorageProvider({
+      userId: "user-1",
+      client,
+      local,
+      cache,
+    });
+
+    await provider.hydrate(KEY);
+    await flush();
+
+    expect(JSON.parse(provider.getItem(KEY)!)).toHaveLength(25);
+    expect(await database.getAll()).toHaveLength(25);
+    expect(local.getItem(CACHE_KEY)).toBeNull();
+  });
+
+  it("retries a failed save on hydrate", async () => {
+    client.put.mockRejectedValueOnce(new Error("offline"));
+    const provider = createProvider();
+    provider.setItem(KEY, JSON.stringify([session("a", 2000)]));
+    await flush();
+
+    await provider.hydrate(KEY);
+
+    expect(client.put).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(provider.getItem(KEY)!)[0].id).toBe("a");
+  });
+});
+
+describe("loadServerSession", () => {
+  it("returns the server's copy", async () => {
+    const client = createClient();
+    client.get.mockResolvedValue(session("a", 2000));
+
+    expect((await loadServerSession("a", client))?.id).toBe("a");
+  });
+
+  it("returns null when the request fails", async () => {
+    const client = createClient();
+    client.get.mockRejectedValue(new Error("HTTP error: 500"));
+
+    expect(await loadServerSession("a", client)).toBeNull();
+  });
+});
+
+describe("anonymous history migration", () => {
+  it("keeps one anonymous ID per browser", () => {
+    const local = createMemoryStorageProvider();
+    const anonymousId = getAnonymousId(local);
+
+    expect(getAnonymousId(local)).toBe(anonymousId);
+    expect(local.getItem(ANONYMOUS_ID_STORAGE_KEY)).toBe(anonymousId);
+  });
+
+  it("stages signed-out history under the anonymous ID", async () => {
+    const client = createClient();
+    const history = createMemoryStorageProvider({
+      [KEY]: JSON.stringify([session("a", 2000)]),
+    });
+    setStorageProvider(history);
+    const local = createMemoryStorageProvider({
+      [ANONYMOUS_ID_STORAGE_KEY]: "anon-1",
+    });
+
+    try {
+      await stageAnonymousHistory({ client, local });
+    } finally {
+      resetStorageProvider();
+    }
+
+    expect(client.stage).toHaveBeenCalledWith(
+      "anon-1",
+      [{ ...session("a", 2000), schemaVersion: 1 }],
+      { append: false },
+    );
+    expect(history.getItem(KEY)).not.toBeNull();
+  });
+
+  it("moves signed-out history into the account and off the browser", async () => {
+    const client = createClient();
+    client.migrate.mockResolvedValue(1);
+    const local = createMemoryStorageProvider({
+      [KEY]: JSON.stringify([session("a", 2000)]),
+      [ANONYMOUS_ID_STORAGE_KEY]: "anon-1",
+    });
+
+    expect(await migrateAnonymousHistory({ client, local })).toBe(1);
+    expect(client.migrate).toHaveBeenCalledWith("anon-1", [
+      { ...session("a", 2000), schemaVersion: 1 },
+    ]);
+    expect(local.getItem(KEY)).toBeNull();
+    expect(local.getItem(ANONYMOUS_ID_STORAGE_KEY)).toBeNull();
+  });
+
+  it("upgrades sessions and quarantines unreadable ones before upload", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const client = createClient();
+    const local = createMemoryStorageProvider({
+      [KEY]: JSON.stringify([
+        {
+          ...session("a", 2000),
+          messages: [{ id: "msg-1", role: "user", content: "Hello" }],
+        },
+        { id: "broken" },
+      ]),
+    });
+
+    await migrateAnonymousHistory({ client, local });
+
+    expect(client.migrate).toHaveBeenCalledWith(expect.any(String), [
+      {
+        ...session("a", 2000),
+        messages: [
+          {
+            id: "msg-1",
+            role: "user",
+            parts: [{ type: "text", text: "Hello" }],
+          },
+        ],
+        schemaVersion: 1,
+      },
+    ]);
+    expect(getQuarantinedSessions(local)).toHaveLength(1);
+  });
+
+  it("uploads large histories in batches the server accepts", async () => {
+    const client = createClient();
+    client.migrate.mockImplementation(async (_, batch) => batch.length);
+    const sessions = Array.from({ length: 250 }, (_, i) =>
+      session(`s${i}`, 2000 + i),
+    );
+    const history = createMemoryStorageProvider({
+      [KEY]: JSON.stringify(sessions),
+    });
+    const local = createMemoryStorageProvider({
+      [ANONYMOUS_ID_STORAGE_KEY]: "anon-1",
+    });
+
+    setStorageProvider(history);
+    try {
+      await stageAnonymousHistory({ client, local });
+    } finally {
+      resetStorageProvider();
+    }
+    const migrated = await migrateAnonymousHistory({ client, local, history });
+
+    expect(
+      client.stage.mock.calls.map(([, batch, options]) => [
+        batch.length,
+        options,
+      ]),
+    ).toEqual([
+      [100, { append: false }],
+      [100, { append: true }],
+      [50, { append: true }],
+    ]);
+    expect(client.migrate.mock.calls.map(([, batch]) => batch.length)).toEqual([
+      100, 100, 50,
+    ]);
+    expect(migrated).toBe(250);
+    expect(history.getItem(KEY)).toBeNull();
+  });
+
+  it("keeps each batch within the upload size limit", async () => {
+    const client = createClient();
+    client.stage.mockResolvedValue(undefined);
+    const text = "x".repeat(1_500_000);
+    const sessions = Array.from({ length: 4 }, (_, i) => ({
+      ...session(`s${i}`, 2000 + i),
+      messages: [
+        {
+          id: "msg-1",
+          role: "user" as const,
+          parts: [{ type: "text" as const, text }],
+        },
+      ],
+    }));
+    setStorageProvider(
+      createMemoryStorageProvider({ [KEY]: JSON.stringify(sessions) }),
+    );
+
+    try {
+      await stageAnonymousHistory({
+        client,
+        local: createMemoryStorageProvider(),
+      });
+    } finally {
+      resetStorageProvider();
+    }
+
+    expect(
+      client.stage.mock.calls.map(([, batch, options]) => [
+        batch.length,
+        options,
+      ]),
+    ).toEqual([
+      [3, { append: false }],
+      [1, { append: true }],
+    ]);
+  });
+
+  it("keeps the whole history when a later batch fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const client = createClient();
+    client.migrate
+      .mockResolvedValueOnce(100)
+      .mockRejectedValueOnce(new Error("HTTP error: 500"));
+    const local = createMemoryStorageProvider({
+      [KEY]: JSON.stringify(
+        Array.from({ length: 150 }, (_, i) => session(`s${i}`, 2000 + i)),
+      ),
+    });
+
+    expect(await migrateAnonymousHistory({ client, local })).toBe(100);
+    expect(JSON.parse(local.getItem(KEY)!)).toHaveLength(150);
+  });
+
+  it("does nothing without signed-out history", async () => {
+    const client = createClient();
+
+    setStorageProvider(createMemoryStorageProvider());
+    try {
+      await stageAnonymousHistory({ client });
+    } finally {
+      resetStorageProvider();
+    }
+    const migrated = await migrateAnonymousHistory({
+      client,
+      local: createMemoryStorageProvider(),
+    });
+
+    expect(migrated).toBe(0);
+    expect(client.stage).not.toHaveBeenCalled();
+    expect(client.migrate).not.toHaveBeenCalled();
+  });
+
+  it("keeps the history when the upload fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const client = createClient();
+    client.migrate.mockRejectedValue(new Error("HTTP error: 500"));
+    const local = createMemoryStorageProvider({
+      [KEY]: JSON.stringify([session("a", 2000)]),
+    });
+
+    expect(await migrateAnonymousHistory({ client, local })).toBe(0);
+    expect(local.getItem(KEY)).not.toBeNull();
+  });
+});
@@ -1,5 +1,11 @@
 export * from "./types";
 export * from "./interfaces";
 export * from "./storage";
+export * from "./indexeddb";
+export * from "./migrations";
+export * from "./quarantine";
+export * from "./search";
 export * from "./preview";
 export * from "./validation";
+export * from "./sync";
+export { ChatHistorySync } from "./ChatHistorySync";
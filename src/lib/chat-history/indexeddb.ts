@@ -0,0 +1,481 @@
+/**
+ * IndexedDB-backed chat history.
+ * Keeps one record per session, so history isn't bound by localStorage's
+ * ~5MB limit or its 20-session cap. Reads stay synchronous through an
+ * in-memory cache that hydrate() loads; writes reach IndexedDB in the
+ * background, one session at a time through SessionStore. When the
+ * browser's storage quota runs low, the least recently
+ * updated sessions are evicted and a warning is raised. Recency is the
+ * session's `updatedAt` rather than when it was last opened, since reads go
+ * through the whole session list and don't say which session was viewed;
+ * a chat counts as used once a message is added to it.
+ */
+
+import type { ChatSession } from "./types";
+import {
+  type SessionStore,
+  type StorageProvider,
+  createLocalStorageProvider,
+} from "./interfaces";
+import {
+  type RejectedSession,
+  parseSessionRecord,
+  parseStoredSessions,
+} from "./migrations";
+import { quarantineSessions } from "./quarantine";
+
+/** Dispatched on window with a StorageWarning as detail */
+export const STORAGE_WARNING_EVENT = "ai-appraiser-chat-history-warning";
+
+export type StorageWarning =
+  | { type: "nearly-full"; usageRatio: number }
+  | { type: "evicted"; evictedCount: number }
+  | { type: "save-failed" };
+
+/** Share of the quota in use at which users are warned */
+export const QUOTA_WARNING_RATIO = 0.8;
+
+/** Share of the quota in use above which old sessions are evicted */
+export const QUOTA_EVICTION_RATIO = 0.9;
+
+const DATABASE_NAME = "ai-appraiser-chat-history";
+const DATABASE_VERSION = 1;
+const SESSION_STORE = "sessions";
+
+/**
+ * Interface for the session database.
+ * Abstracts IndexedDB to enable testing.
+ */
+export interface SessionDatabase {
+  getAll(): Promise<ChatSession[]>;
+  put(session: ChatSession): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface StorageEstimate {
+  /** Bytes used by this origin */
+  usage: number;
+  /** Bytes available to this origin */
+  quota: number;
+}
+
+export interface IndexedDbStorageOptions {
+  /** Default: the browser's IndexedDB */
+  database?: SessionDatabase;
+  /** Default: navigator.storage.estimate(); null when unsupported */
+  estimate?: () => Promise<StorageEstimate | null>;
+  /** Where history was kept before; moved over on hydrate. Default: localStorage */
+  legacy?: StorageProvider;
+  /** Where unreadable sessions are set aside. Default: localStorage */
+  quarantine?: StorageProvider;
+  /** Called when sessions are evicted from the cache */
+  onChange?: () => void;
+  /** Default: dispatch STORAGE_WARNING_EVENT on window */
+  onWarning?: (warning: StorageWarning) => void;
+}
+
+/**
+ * StorageProvider whose values are chat session lists kept in IndexedDB.
+ */
+export interface IndexedDbStorageProvider
+  extends StorageProvider,
+    SessionStore {
+  /**
+   * Load the stored sessions into the cache, moving over any history still
+   * in localStorage. Sessions are upgraded to the current schema and
+   * unreadable ones quarantined. Sessions deleted or cleared while loading
+   * stay deleted. Rejects when IndexedDB can't be opened.
+   */
+  hydrate(key: string): Promise<void>;
+}
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== "undefined" && typeof indexedDB !== "undefined";
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Default IndexedDB implementation of SessionDatabase.
+ */
+export function createIndexedDbSessionDatabase(
+  name = DATABASE_NAME,
+): SessionDatabase {
+  let opening: Promise<IDBDatabase> | null = null;
+
+  function open(): Promise<IDBDatabase> {
+    opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SESSION_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      opening = null;
+      throw error;
+    });
+    return opening;
+  }
+
+  /** Resolves once the transaction commits, so quota errors surface */
+  async function run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await open();
+    const transaction = db.transaction(SESSION_STORE, mode);
+    const result = toPromise(operation(transaction.objectStore(SESSION_STORE)));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    return result;
+  }
+
+  return {
+    async getAll() {
+      return run("readonly", (store) => store.getAll());
+    },
+    async put(session) {
+      await run("readwrite", (store) => store.put(session));
+    },
+    async delete(sessionId) {
+      await run("readwrite", (store) => store.delete(sessionId));
+    },
+    async clear() {
+      await run("readwrite", (store) => store.clear());
+    },
+  };
+}
+
+/**
+ * In-memory session database for testing.
+ */
+export function createMemorySessionDatabase(
+  initialSessions: ChatSession[] = [],
+): SessionDatabase {
+  const sessions = new Map(initialSessions.map((s) => [s.id, s]));
+
+  return {
+    async getAll() {
+      return [...sessions.values()];
+    },
+    async put(session) {
+      sessions.set(session.id, session);
+    },
+    async delete(sessionId) {
+      sessions.delete(sessionId);
+    },
+    async clear() {
+      sessions.clear();
+    },
+  };
+}
+
+async function estimateBrowserStorage(): Promise<StorageEstimate | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota ? { usage, quota } : null;
+}
+
+function dispatchWarning(warning: StorageWarning): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(
+      new CustomEvent(STORAGE_WARNING_EVENT, { detail: warning }),
+    );
+  }
+}
+
+function isQuotaError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { name?: unknown }).name === "QuotaExceededError"
+  );
+}
+
+function sortByRecent(sessions: ChatSession[]): ChatSession[] {
+  return [...sessions].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Create a StorageProvider that keeps chat session lists in IndexedDB, one
+ * record per session. Sessions are evicted least recently updated first,
+ * never the most recent one.
+ */
+export function createIndexedDbStorageProvider(
+  options: IndexedDbStorageOptions = {},
+): IndexedDbStorageProvider {
+  const database = options.database ?? createIndexedDbSessionDatabase();
+  const estimate = options.estimate ?? estimateBrowserStorage;
+  const legacy = options.legacy ?? createLocalStorageProvider();
+  const quarantine = options.quarantine ?? createLocalStorageProvider();
+  const warn = options.onWarning ?? dispatchWarning;
+  // Sessions by ID under each key. The sorted list and its serialized form
+  // are derived when read and kept until the sessions next change.
+  const cache = new Map<string, Map<string, ChatSession>>();
+  const lists = new Map<string, ChatSession[]>();
+  const serialized = new Map<string, string>();
+  let warnedNearlyFull = false;
+
+  // Removals made before hydrate() has read the database, which would
+  // otherwise bring the removed records back; null once loaded
+  let removals: { cleared: boolean; deleted: Set<string> } | null = {
+    cleared: false,
+    deleted: new Set(),
+  };
+
+  // Writes run one at a time, so eviction sees a settled database
+  let writes: Promise<void> = Promise.resolve();
+
+  /** Sessions upgraded to the current schema; unreadable ones are set aside */
+  function parseSessions(data: string | null | undefined): ChatSession[] {
+    const { sessions, rejected } = parseStoredSessions(data ?? null);
+    if (rejected.length > 0) {
+      quarantineSessions(rejected, quarantine);
+    }
+    return sessions;
+  }
+
+  function setSessions(key: string, sessions: ChatSession[]): void {
+    cache.set(key, new Map(sessions.map((s) => [s.id, s])));
+    changed(key);
+  }
+
+  function changed(key: string): void {
+    lists.delete(key);
+    serialized.delete(key);
+  }
+
+  function getSessions(key: string): ChatSession[] {
+    let sessions = lists.get(key);
+    if (!sessions) {
+      sessions = sortByRecent([...(cache.get(key)?.values() ?? [])]);
+      lists.set(key, sessions);
+    }
+    return sessions;
+  }
+
+  function recordDeleted(sessionIds: Iterable<string>): void {
+    for (const sessionId of sessionIds) {
+      removals?.deleted.add(sessionId);
+    }
+  }
+
+  function enqueue(task: () => Promise<void>): void {
+    writes = writes.then(task).catch((error) => {
+      console.warn("Failed to save chat history:", error);
+    });
+  }
+
+  /**
+   * Drop the least recently updated sessions, other than the most recent
+   * and `keep`, until `bytes` are freed or `count` sessions are gone.
+   * Returns how many were evicted.
+   */
+  async function evict(
+    key: string,
+    limit: { bytes?: number; count?: number; keep?: string },
+  ): Promise<number> {
+    const candidates = getSessions(key)
+      .slice(1)
+      .filter((s) => s.id !== limit.keep)
+      .reverse();
+    const evicted = new Set<string>();
+    let freed = 0;
+
+    for (const session of candidates) {
+      if (limit.count !== undefined && evicted.size >= limit.count) break;
+      if (limit.bytes !== undefined && freed >= limit.bytes) break;
+      await database.delete(session.id);
+      evicted.add(session.id);
+      freed += JSON.stringify(session).length;
+    }
+
+    if (evicted.size > 0) {
+      // Sessions saved while evicting are kept
+      for (const sessionId of evicted) {
+        cache.get(key)?.delete(sessionId);
+      }
+      changed(key);
+      options.onChange?.();
+    }
+    return evicted.size;
+  }
+
+  /** Save a session, evicting old ones while the quota is exceeded */
+  async function save(key: string, session: ChatSession): Promise<number> {
+    let evicted = 0;
+    for (;;) {
+      try {
+        await database.put(session);
+        return evicted;
+      } catch (error) {
+        if (!isQuotaError(error)) throw error;
+        const count = await evict(key, { count: 1, keep: session.id });
+        if (count === 0) {
+          warn({ type: "save-failed" });
+          return evicted;
+        }
+        evicted += count;
+      }
+    }
+  }
+
+  /** Evict when close to the quota; returns how many were evicted */
+  async function enforceQuota(key: string): Promise<number> {
+    const current = await estimate().catch(() => null);
+    if (!current) return 0;
+
+    const usageRatio = current.usage / current.quota;
+    if (usageRatio >= QUOTA_EVICTION_RATIO) {
+      return evict(key, {
+        bytes: current.usage - current.quota * QUOTA_WARNING_RATIO,
+      });
+    }
+    if (usageRatio >= QUOTA_WARNING_RATIO && !warnedNearlyFull) {
+      warnedNearlyFull = true;
+      warn({ type: "nearly-full", usageRatio });
+    }
+    return 0;
+  }
+
+  async function write(
+    key: string,
+    saved: ChatSession[],
+    deleted: string[],
+  ): Promise<void> {
+    for (const sessionId of deleted) {
+      await database.delete(sessionId);
+    }
+    let evicted = 0;
+    for (const session of saved) {
+      evicted += await save(key, session);
+    }
+    evicted += await enforceQuota(key);
+    if (evicted > 0) {
+      warn({ type: "evicted", evictedCount: evicted });
+    }
+  }
+
+  function isNewer(
+    sessions: Map<string, ChatSession>,
+    session: ChatSession,
+  ): boolean {
+    const existing = sessions.get(session.id);
+    return !existing || existing.updatedAt < session.updatedAt;
+  }
+
+  return {
+    getItem(key: string): string | null {
+      if (!cache.has(key)) return null;
+      let data = serialized.get(key);
+      if (data === undefined) {
+        data = JSON.stringify(getSessions(key));
+        serialized.set(key, data);
+      }
+      return data;
+    },
+
+    setItem(key: string, value: string): void {
+      const previous = new Map(cache.get(key));
+      const sessions = parseSessions(value);
+      setSessions(key, sessions);
+
+      const saved: ChatSession[] = [];
+      for (const session of sessions) {
+        if (previous.get(session.id)?.updatedAt !== session.updatedAt) {
+          saved.push(session);
+        }
+        previous.delete(session.id);
+      }
+      const deleted = [...previous.keys()];
+      recordDeleted(deleted);
+      enqueue(() => write(key, saved, deleted));
+    },
+
+    removeItem(key: string): void {
+      cache.delete(key);
+      changed(key);
+      legacy.removeItem(key);
+      if (removals) {
+        removals.cleared = true;
+        removals.deleted.clear();
+      }
+      enqueue(() => database.clear());
+    },
+
+    getSessions,
+
+    putSession(key: string, session: ChatSession): void {
+      const sessions = cache.get(key) ?? new Map<string, ChatSession>();
+      sessions.set(session.id, session);
+      cache.set(key, sessions);
+      changed(key);
+      enqueue(() => write(key, [session], []));
+    },
+
+    deleteSession(key: string, sessionId: string): void {
+      cache.get(key)?.delete(sessionId);
+      changed(key);
+      recordDeleted([sessionId]);
+      enqueue(() => write(key, [], [sessionId]));
+    },
+
+    async hydrate(key: string): Promise<void> {
+      removals ??= { cleared: false, deleted: new Set() };
+      const loading = removals;
+      const merged = new Map<string, ChatSession>();
+      const rejected: RejectedSession[] = [];
+      for (const record of await database.getAll()) {
+        const parsed = parseSessionRecord(record);
+        if (parsed.ok) {
+          merged.set(parsed.session.id, parsed.session);
+        } else {
+          rejected.push({ record, reason: parsed.reason });
+        }
+      }
+      if (rejected.length > 0) {
+        quarantineSessions(rejected, quarantine);
+      }
+
+      // History kept in localStorage before IndexedDB
+      const legacyData = legacy.getItem(key);
+      const migrated = parseSessions(legacyData).filter((session) =>
+        isNewer(merged, session),
+      );
+      for (const session of migrated) {
+        merged.set(session.id, session);
+      }
+      // Removals made while loading are already queued for writing
+      if (loading.cleared) merged.clear();
+      for (const sessionId of loading.deleted) {
+        merged.delete(sessionId);
+      }
+      // So are saves, including any made after a removal
+      for (const session of cache.get(key)?.values() ?? []) {
+        if (isNewer(merged, session)) merged.set(session.id, session);
+      }
+      if (removals === loading) removals = null;
+
+      setSessions(key, [...merged.values()]);
+      if (legacyData !== null) {
+        const kept = migrated.filter((s) => merged.get(s.id) === s);
+        enqueue(async () => {
+          await write(key, kept, []);
+          legacy.removeItem(key);
+        });
+      }
+    },
+  };
+}
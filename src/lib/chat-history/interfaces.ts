@@ -3,6 +3,8 @@
  * Following CLAUDE.md guidelines for abstracting localStorage and fetch.
  */
 
+import type { ChatSession } from "./types";
+
 /**
  * Interface for storage operations.
  * Abstracts localStorage to enable testing and alternative implementations.
@@ -13,6 +15,23 @@ export interface StorageProvider {
   removeItem(key: string): void;
 }
 
+/**
+ * Storage that keeps each chat session as its own record, so saving or
+ * deleting one doesn't re-serialize the whole session list.
+ */
+export interface SessionStore {
+  /** Sessions under `key`, most recent first; the same array until they change */
+  getSessions(key: string): ChatSession[];
+  putSession(key: string, session: ChatSession): void;
+  deleteSession(key: string, sessionId: string): void;
+}
+
+export function isSessionStore(
+  provider: StorageProvider,
+): provider is StorageProvider & SessionStore {
+  return "putSession" in provider;
+}
+
 /**
  * Interface for HTTP client operations.
  * Abstracts fetch to enable testing and alternative implementations.
@@ -0,0 +1,202 @@
+/**
+ * Schema versioning for persisted chat sessions.
+ * Every stored session carries the schema version it was written with.
+ * Reads upgrade older records one version at a time through the migration
+ * registry, then validate them; records that can't be upgraded or don't
+ * match the schema are rejected individually, for quarantine, so one bad
+ * record doesn't hide the rest of the history.
+ */
+
+import type { UIMessage } from "@ai-sdk/react";
+import type { ChatSession } from "./types";
+import { ChatSessionRecordSchema } from "./schema";
+
+/** Schema version written with every saved session */
+export const CHAT_SESSION_SCHEMA_VERSION = 1;
+
+type SessionRecord = Record<string, unknown>;
+
+/** Upgrades a stored session from one schema version to the next */
+export type SessionMigration = (record: SessionRecord) => SessionRecord;
+
+function isRecord(value: unknown): value is SessionRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * AI SDK v4 messages kept their text in `content`; v5 UIMessages only
+ * have `parts`.
+ */
+function upgradeContentMessage(message: unknown): unknown {
+  if (
+    !isRecord(message) ||
+    Array.isArray(message.parts) ||
+    typeof message.content !== "string"
+  ) {
+    return message;
+  }
+  const { content, ...rest } = message;
+  return { ...rest, parts: [{ type: "text", text: content }] };
+}
+
+/**
+ * Migrations by the version they upgrade from. When the stored shape
+ * changes, add a step from the current version and bump
+ * CHAT_SESSION_SCHEMA_VERSION.
+ */
+export const SESSION_MIGRATIONS: Readonly<Record<number, SessionMigration>> = {
+  // Unversioned sessions may hold AI SDK v4 messages, including "data"
+  // messages that no longer exist
+  0: (record) => ({
+    ...record,
+    messages: Array.isArray(record.messages)
+      ? record.messages
+          .filter((message) => !isRecord(message) || message.role !== "data")
+          .map(upgradeContentMessage)
+      : record.messages,
+  }),
+};
+
+export type SessionParseResult =
+  | { ok: true; session: ChatSession }
+  | { ok: false; reason: string };
+
+export interface SessionParseOptions {
+  /** Default: SESSION_MIGRATIONS */
+  migrations?: Readonly<Record<number, SessionMigration>>;
+  /** Default: CHAT_SESSION_SCHEMA_VERSION */
+  version?: number;
+}
+
+/**
+ * Upgrade a stored session to the current schema version and validate it.
+ */
+export function parseSessionRecord(
+  record: unknown,
+  options: SessionParseOptions = {},
+): SessionParseResult {
+  const migrations = options.migrations ?? SESSION_MIGRATIONS;
+  const currentVersion = options.version ?? CHAT_SESSION_SCHEMA_VERSION;
+
+  if (!isRecord(record)) {
+    return { ok: false, reason: "Not a session object" };
+  }
+
+  let version = record.schemaVersion ?? 0;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 0
+  ) {
+    return { ok: false, reason: "Invalid schema version" };
+  }
+  if (version > currentVersion) {
+    return {
+      ok: false,
+      reason: `Saved with newer schema version ${version}`,
+    };
+  }
+
+  let upgraded = record;
+  for (; version < currentVersion; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      return {
+        ok: false,
+        reason: `No migration from schema version ${version}`,
+      };
+    }
+    try {
+      upgraded = migrate(upgraded);
+    } catch (error) {
+      return {
+        ok: false,
+        reason: `Migration from schema version ${version} failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  const parsed = ChatSessionRecordSchema.safeParse({
+    ...upgraded,
+    schemaVersion: currentVersion,
+  });
+  if (!parsed.success) {
+    return {
+      ok: false,
+      reason: parsed.error.issues
+        .map(
+          (issue) => `${issue.path.join(".") || "session"}: ${issue.message}`,
+        )
+        .join("; "),
+    };
+  }
+
+  return {
+    ok: true,
+    session: {
+      ...parsed.data,
+      messages: parsed.data.messages as unknown as UIMessage[],
+    },
+  };
+}
+
+/** A stored record that couldn't be read */
+export interface RejectedSession {
+  /** The record as stored; the raw text when it isn't valid JSON */
+  record: unknown;
+  reason: string;
+}
+
+export interface StoredSessionsResult {
+  sessions: ChatSession[];
+  rejected: RejectedSession[];
+}
+
+/**
+ * Parse a stored session list, upgrading each session and setting aside
+ * the ones that can't be read.
+ */
+export function parseStoredSessions(
+  data: string | null,
+  options: SessionParseOptions = {},
+): StoredSessionsResult {
+  if (!data) return { sessions: [], rejected: [] };
+
+  let records: unknown;
+  try {
+    records = JSON.parse(data);
+  } catch {
+    return {
+      sessions: [],
+      rejected: [{ record: data, reason: "Invalid JSON" }],
+    };
+  }
+  if (!Array.isArray(records)) {
+    return {
+      sessions: [],
+      rejected: [{ record: records, reason: "Not a session list" }],
+    };
+  }
+
+  return parseSessionRecords(records, options);
+}
+
+/**
+ * Parse session records already decoded, e.g. from the server, upgrading
+ * each one and setting aside the ones that can't be read.
+ */
+export function parseSessionRecords(
+  records: unknown[],
+  options: SessionParseOptions = {},
+): StoredSessionsResult {
+  const result: StoredSessionsResult = { sessions: [], rejected: [] };
+  for (const record of records) {
+    const parsed = parseSessionRecord(record, options);
+    if (parsed.ok) {
+      result.sessions.push(parsed.session);
+    } else {
+      result.rejected.push({ record, reason: parsed.reason });
+    }
+  }
+  return result;
+}
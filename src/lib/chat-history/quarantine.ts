@@ -0,0 +1,76 @@
+/**
+ * Quarantine for stored chat sessions that can't be read.
+ * Rejected records are set aside in localStorage, for recovery or support,
+ * instead of being dropped when the history is next saved.
+ */
+
+import { type StorageProvider, createLocalStorageProvider } from "./interfaces";
+import type { RejectedSession } from "./migrations";
+
+/** localStorage key holding quarantined sessions */
+export const QUARANTINE_STORAGE_KEY = "ai-appraiser-chat-history-quarantine";
+
+/** Most recent quarantined records kept */
+const MAX_QUARANTINED_SESSIONS = 20;
+
+export interface QuarantinedSession {
+  /** The record as stored, JSON-encoded */
+  data: string;
+  reason: string;
+  quarantinedAt: number;
+}
+
+/**
+ * Quarantined sessions, most recently quarantined first.
+ */
+export function getQuarantinedSessions(
+  storage: StorageProvider = createLocalStorageProvider(),
+): QuarantinedSession[] {
+  try {
+    const data = storage.getItem(QUARANTINE_STORAGE_KEY);
+    return data ? (JSON.parse(data) as QuarantinedSession[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Set rejected records aside. A record already in quarantine isn't added
+ * again, since the same bad record is rejected on every read until the
+ * history is next saved. Returns how many records were newly quarantined.
+ */
+export function quarantineSessions(
+  rejected: RejectedSession[],
+  storage: StorageProvider = createLocalStorageProvider(),
+  now = Date.now(),
+): number {
+  const quarantined = getQuarantinedSessions(storage);
+  const known = new Set(quarantined.map((entry) => entry.data));
+  const added: QuarantinedSession[] = [];
+
+  for (const { record, reason } of rejected) {
+    const data = typeof record === "string" ? record : JSON.stringify(record);
+    if (known.has(data)) continue;
+    known.add(data);
+    added.push({ data, reason, quarantinedAt: now });
+  }
+  if (added.length === 0) return 0;
+
+  console.warn(`Quarantined ${added.length} unreadable chat session(s)`);
+  storage.setItem(
+    QUARANTINE_STORAGE_KEY,
+    JSON.stringify(
+      [...added, ...quarantined].slice(0, MAX_QUARANTINED_SESSIONS),
+    ),
+  );
+  return added.length;
+}
+
+/**
+ * Discard all quarantined sessions.
+ */
+export function clearQuarantinedSessions(
+  storage: StorageProvider = createLocalStorageProvider(),
+): void {
+  storage.removeItem(QUARANTINE_STORAGE_KEY);
+}
@@ -0,0 +1,51 @@
+/**
+ * Zod validation for chat sessions: as persisted in the browser or on the
+ * server, and as sent to the server.
+ */
+
+import { z } from "zod";
+import { AgentIdSchema } from "@/lib/agent/types";
+
+const MessageSchema = z.looseObject({
+  id: z.string(),
+  role: z.enum(["system", "user", "assistant"]),
+  parts: z.array(z.unknown()),
+});
+
+/** A persisted chat session, at the current schema version */
+export const ChatSessionRecordSchema = z.object({
+  id: z.string().min(1),
+  preview: z.string(),
+  agentId: AgentIdSchema,
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  messages: z.array(MessageSchema),
+  schemaVersion: z.number().int().nonnegative().optional(),
+});
+
+/** A session sent to the server, which must have messages */
+export const ChatSessionSchema = ChatSessionRecordSchema.extend({
+  messages: z.array(MessageSchema).min(1),
+});
+
+/**
+ * Sessions per upload, to bound unauthenticated requests. Signed-out
+ * history isn't capped, so larger histories are sent in batches.
+ */
+export const MAX_MIGRATED_SESSIONS = 100;
+
+/** Largest session upload request body accepted, in bytes */
+export const MAX_UPLOAD_BODY_BYTES = 5 * 1024 * 1024;
+
+/** Sessions from a signed-out browser, moved into an account on sign-in */
+export const MigratedSessionsSchema = z.object({
+  /** Random ID the browser keeps while signed out */
+  anonymousId: z.uuid(),
+  sessions: z.array(ChatSessionSchema).max(MAX_MIGRATED_SESSIONS),
+});
+
+/** A batch of sessions staged before sign-in */
+export const StagedSessionsSchema = MigratedSessionsSchema.extend({
+  /** Add to the sessions staged before rather than replacing them */
+  append: z.boolean().optional(),
+});
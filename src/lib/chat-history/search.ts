@@ -0,0 +1,338 @@
+/**
+ * Full-text search across stored chat history.
+ * Each message is indexed by its text, the inputs of its tool calls and the
+ * titles and IDs of items its tools returned, so a search can jump straight
+ * to the message that mentioned a lot. Queries are plain terms, quoted
+ * phrases and `platform:`, `agent:` or `tool:` filters, e.g.
+ * `tiffany "table lamp" platform:1stdibs`.
+ */
+
+import type { UIMessage } from "@ai-sdk/react";
+import type { ChatSession } from "./types";
+
+export interface HistoryQuery {
+  /** Words and phrases that must all appear in a message, normalized */
+  terms: string[];
+  /** Platforms of items or tool calls in the message, lowercase */
+  platforms: string[];
+  /** Agents the session ran with, lowercase */
+  agents: string[];
+  /** Tools the message called, lowercase */
+  tools: string[];
+}
+
+/** Where a message matched the query */
+export type HistoryMatchSource = "text" | "tool" | "item";
+
+export interface HistorySearchResult {
+  sessionId: string;
+  messageId: string;
+  role: UIMessage["role"];
+  preview: string;
+  agentId: ChatSession["agentId"];
+  updatedAt: number;
+  matchedIn: HistoryMatchSource;
+  /** Excerpt of the matching text around the first match */
+  snippet: string;
+}
+
+export interface HistorySearchIndex {
+  /** Index new and changed sessions and drop deleted ones */
+  update(sessions: ChatSession[]): void;
+  /**
+   * Messages matching the query, most recently updated session first and
+   * in conversation order within a session. Empty for an empty query.
+   */
+  search(query: string, limit?: number): HistorySearchResult[];
+}
+
+/** Default cap on search results */
+export const HISTORY_SEARCH_LIMIT = 50;
+
+const FILTER_KEYS = {
+  platform: "platforms",
+  agent: "agents",
+  tool: "tools",
+} as const;
+
+/** Characters of context on each side of a snippet's match */
+const SNIPPET_CONTEXT = 40;
+
+/** Nesting walked into tool outputs when looking for items */
+const MAX_OUTPUT_DEPTH = 6;
+
+interface IndexedField {
+  source: HistoryMatchSource;
+  text: string;
+  normalized: string;
+}
+
+interface IndexedMessage {
+  messageId: string;
+  role: UIMessage["role"];
+  fields: IndexedField[];
+  /** All fields, normalized and joined, for term matching */
+  content: string;
+  platforms: Set<string>;
+  tools: Set<string>;
+}
+
+interface IndexedSession {
+  session: ChatSession;
+  messages: IndexedMessage[];
+}
+
+/**
+ * Lowercase and strip diacritics, so "Gallé" matches "galle".
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Split a query into terms and filters. Unknown `key:value` pairs are
+ * searched as plain text, so item IDs containing colons still match.
+ */
+export function parseHistoryQuery(query: string): HistoryQuery {
+  const parsed: HistoryQuery = {
+    terms: [],
+    platforms: [],
+    agents: [],
+    tools: [],
+  };
+  const tokens = /(\w+):("[^"]*"|\S+)|"([^"]*)"|(\S+)/g;
+
+  for (const match of query.matchAll(tokens)) {
+    const [, key, value, phrase, word] = match;
+    if (key !== undefined) {
+      const filter = FILTER_KEYS[key.toLowerCase() as keyof typeof FILTER_KEYS];
+      const unquoted = value.replace(/^"|"$/g, "").trim();
+      if (filter && unquoted) {
+        parsed[filter].push(unquoted.toLowerCase());
+      } else if (!filter) {
+        parsed.terms.push(normalizeSearchText(match[0]));
+      }
+      continue;
+    }
+    const term = normalizeSearchText((phrase ?? word).trim());
+    if (term) parsed.terms.push(term);
+  }
+  return parsed;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** String and number values of a tool input, without its keys */
+function collectValues(value: unknown, values: string[]): void {
+  if (typeof value === "string" || typeof value === "number") {
+    values.push(String(value));
+  } else if (Array.isArray(value)) {
+    for (const entry of value) collectValues(entry, values);
+  } else if (isRecord(value)) {
+    for (const entry of Object.values(value)) collectValues(entry, values);
+  }
+}
+
+interface FoundItem {
+  itemId: string;
+  title: string;
+  platform?: string;
+}
+
+/** Items anywhere in a tool's output, such as search results */
+function collectItems(value: unknown, items: FoundItem[], depth = 0): void {
+  if (depth > MAX_OUTPUT_DEPTH) return;
+  if (Array.isArray(value)) {
+    for (const entry of value) collectItems(entry, items, depth + 1);
+    return;
+  }
+  if (!isRecord(value)) return;
+
+  if (typeof value.itemId === "string" && typeof value.title === "string") {
+    items.push({
+      itemId: value.itemId,
+      title: value.title,
+      platform: typeof value.platform === "string" ? value.platform : undefined,
+    });
+  }
+  for (const entry of Object.values(value)) {
+    collectItems(entry, items, depth + 1);
+  }
+}
+
+function field(source: HistoryMatchSource, text: string): IndexedField {
+  return { source, text, normalized: normalizeSearchText(text) };
+}
+
+function indexMessage(message: UIMessage): IndexedMessage {
+  const fields: IndexedField[] = [];
+  const platforms = new Set<string>();
+  const tools = new Set<string>();
+
+  const text = message.parts
+    .filter((part) => part.type === "text")
+    .map((part) => part.text)
+    .join("\n");
+  if (text) fields.push(field("text", text));
+
+  for (const part of message.parts) {
+    if (!part.type.startsWith("tool-")) continue;
+    const { input, output } = part as { input?: unknown; output?: unknown };
+    tools.add(part.type.slice("tool-".length).toLowerCase());
+
+    if (isRecord(input) && typeof input.platform === "string") {
+      platforms.add(input.platform.toLowerCase());
+    }
+    const values: string[] = [];
+    collectValues(input, values);
+    if (values.length > 0) fields.push(field("tool", values.join(" ")));
+
+    const items: FoundItem[] = [];
+    collectItems(output, items);
+    for (const item of items) {
+      if (item.platform) platforms.add(item.platform.toLowerCase());
+      fields.push(field("item", `${item.title} (${item.itemId})`));
+    }
+  }
+
+  return {
+    messageId: message.id,
+    role: message.role,
+    fields,
+    content: fields.map((f) => f.normalized).join("\n"),
+    platforms,
+    tools,
+  };
+}
+
+function matchesFilters(
+  query: HistoryQuery,
+  session: ChatSession,
+  message: IndexedMessage,
+): boolean {
+  return (
+    (query.agents.length === 0 ||
+      query.agents.includes(session.agentId.toLowerCase())) &&
+    query.platforms.every((platform) => message.platforms.has(platform)) &&
+    query.tools.every((tool) => message.tools.has(tool))
+  );
+}
+
+/**
+ * Excerpt of a field around `term`, or its start without one. Offsets are
+ * found character by character, since normalizing can change the length.
+ */
+function snippetOf(field: IndexedField, term?: string): string {
+  const { text } = field;
+  let start = 0;
+  let end = Math.min(text.length, SNIPPET_CONTEXT * 2);
+
+  const at = term ? field.normalized.indexOf(term) : -1;
+  if (term && at >= 0) {
+    let normalizedLength = 0;
+    let matchStart = 0;
+    let matchEnd = text.length;
+    for (let i = 0; i < text.length; i++) {
+      if (normalizedLength <= at) matchStart = i;
+      normalizedLength += normalizeSearchText(text[i]).length;
+      if (normalizedLength >= at + term.length) {
+        matchEnd = i + 1;
+        break;
+      }
+    }
+    start = Math.max(0, matchStart - SNIPPET_CONTEXT);
+    end = Math.min(text.length, matchEnd + SNIPPET_CONTEXT);
+  }
+
+  const excerpt = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${excerpt}${end < text.length ? "…" : ""}`;
+}
+
+function toResult(
+  query: HistoryQuery,
+  session: ChatSession,
+  message: IndexedMessage,
+): HistorySearchResult {
+  // Show the first term's match, else the message's own text
+  const term = query.terms[0];
+  const matched =
+    (term && message.fields.find((f) => f.normalized.includes(term))) ||
+    (query.platforms.length > 0 &&
+      message.fields.find((f) => f.source === "item")) ||
+    message.fields.find((f) => f.source === "text") ||
+    message.fields[0];
+
+  return {
+    sessionId: session.id,
+    messageId: message.messageId,
+    role: message.role,
+    preview: session.preview,
+    agentId: session.agentId,
+    updatedAt: session.updatedAt,
+    matchedIn: matched?.source ?? "text",
+    snippet: matched ? snippetOf(matched, term) : "",
+  };
+}
+
+/**
+ * Create a search index over chat sessions. Sessions are re-indexed only
+ * when their updatedAt changes, so calling update() with the full history
+ * on every storage change stays cheap.
+ */
+export function createHistorySearchIndex(): HistorySearchIndex {
+  const indexed = new Map<string, IndexedSession>();
+
+  return {
+    update(sessions) {
+      const current = new Set<string>();
+      for (const session of sessions) {
+        current.add(session.id);
+        if (indexed.get(session.id)?.session.updatedAt === session.updatedAt) {
+          continue;
+        }
+        indexed.set(session.id, {
+          session,
+          messages: session.messages.map(indexMessage),
+        });
+      }
+      for (const sessionId of indexed.keys()) {
+        if (!current.has(sessionId)) indexed.delete(sessionId);
+      }
+    },
+
+    search(queryText, limit = HISTORY_SEARCH_LIMIT) {
+      const query = parseHistoryQuery(queryText);
+      if (
+        query.terms.length === 0 &&
+        query.platforms.length === 0 &&
+        query.agents.length === 0 &&
+        query.tools.length === 0
+      ) {
+        return [];
+      }
+
+      const sessions = [...indexed.values()].sort(
+        (a, b) => b.session.updatedAt - a.session.updatedAt,
+      );
+      const results: HistorySearchResult[] = [];
+      for (const { session, messages } of sessions) {
+        for (const message of messages) {
+          if (
+            matchesFilters(query, session, message) &&
+            query.terms.every((term) => message.content.includes(term)) &&
+            (query.terms.length > 0 || message.fields.length > 0)
+          ) {
+            results.push(toResult(query, session, message));
+            if (results.length >= limit) return results;
+          }
+        }
+      }
+      return results;
+    },
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Server-side chat history service.
+ * Keeps signed-in users' sessions so they follow the user across devices.
+ */
+
+import path from "path";
+import type { ILogger } from "@/lib/logging/types";
+import { serverLoggerFactory } from "@/lib/logging/server";
+import {
+  FileChatSessionRepository,
+  type ChatSessionRepository,
+  type StoredChatSession,
+} from "./store";
+import type { ChatSession } from "./types";
+
+const DEFAULT_CHAT_SESSIONS_FILE = path.join(".data", "chat-sessions.json");
+
+/** How long staged sessions wait to be claimed before they're deleted */
+export const STAGING_TTL_MS = 24 * 60 * 60 * 1000;
+
+const STAGING_OWNER_PREFIX = "anonymous:";
+
+export interface ChatSessionServiceConfig {
+  /** Where sessions are kept. Default: JSON file at CHAT_SESSIONS_FILE or .data/chat-sessions.json */
+  repository?: ChatSessionRepository;
+  /** Clock override for testing */
+  now?: () => number;
+  /** Optional logger for testing. If not provided, uses serverLoggerFactory. */
+  log?: ILogger;
+}
+
+/**
+ * Owner of sessions staged by a signed-out browser. Clerk user IDs start
+ * with "user_", so staged sessions can't be read as anyone's history.
+ */
+function stagingOwner(anonymousId: string): string {
+  return `${STAGING_OWNER_PREFIX}${anonymousId}`;
+}
+
+function toSession(stored: StoredChatSession): ChatSession {
+  return {
+    id: stored.id,
+    preview: stored.preview,
+    agentId: stored.agentId,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+    messages: stored.messages,
+    schemaVersion: stored.schemaVersion,
+  };
+}
+
+export class ChatSessionService {
+  private readonly repository: ChatSessionRepository;
+  private readonly now: () => number;
+  private readonly log: ILogger;
+
+  constructor(config: ChatSessionServiceConfig = {}) {
+    this.repository =
+      config.repository ??
+      new FileChatSessionRepository(
+        process.env.CHAT_SESSIONS_FILE ?? DEFAULT_CHAT_SESSIONS_FILE,
+      );
+    this.now = config.now ?? Date.now;
+    this.log =
+      config.log ??
+      serverLoggerFactory.create({
+        distinctId: "system",
+        component: "chat-history",
+      });
+  }
+
+  /** The user's sessions, most recently updated first. */
+  async list(userId: string): Promise<ChatSession[]> {
+    return (await this.repository.list(userId)).map(toSession);
+  }
+
+  async get(userId: string, id: string): Promise<ChatSession | null> {
+    const stored = await this.repository.get(userId, id);
+    return stored ? toSession(stored) : null;
+  }
+
+  /**
+   * Insert or update a session. A copy older than the stored one is
+   * ignored, so a device with stale history can't overwrite newer messages.
+   * Returns the session as stored.
+   */
+  async save(userId: string, session: ChatSession): Promise<ChatSession> {
+    const existing = await this.repository.get(userId, session.id);
+    if (existing && existing.updatedAt > session.updatedAt) {
+      this.log.info("Stale session update ignored", { id: session.id });
+      return toSession(existing);
+    }
+
+    const stored: StoredChatSession = {
+      ...toSession({ ...session, userId }),
+      createdAt: existing?.createdAt ?? session.createdAt,
+      userId,
+    };
+    await this.repository.put(stored);
+    return toSession(stored);
+  }
+
+  /** Returns false when the session didn't exist. */
+  async delete(userId: string, id: string): Promise<boolean> {
+    return this.repository.delete(userId, id);
+  }
+
+  /** Delete all of the user's sessions. Returns how many were deleted. */
+  async clear(userId: string): Promise<number> {
+    const sessions = await this.repository.list(userId);
+    for (const session of sessions) {
+      await this.repository.delete(userId, session.id);
+    }
+    return sessions.length;
+  }
+
+  /**
+   * Add sessions from a signed-out browser to the user's history, deduped by
+   * session ID: a session already in the account keeps the newer copy.
+   * Returns how many sessions were new to the account.
+   */
+  async importSessions(
+    userId: string,
+    sessions: ChatSession[],
+  ): Promise<number> {
+    let imported = 0;
+    for (const session of sessions) {
+      const existing = await this.repository.get(userId, session.id);
+      await this.save(userId, session);
+      if (!existing) imported++;
+    }
+    return imported;
+  }
+
+  /**
+   * Hold a signed-out browser's sessions until its user signs in, replacing
+   * any sessions staged before unless `append` is set, for histories staged
+   * in batches. Staging left unclaimed past STAGING_TTL_MS is swept first.
+   */
+  async stage(
+    anonymousId: string,
+    sessions: ChatSession[],
+    options: { append?: boolean } = {},
+  ): Promise<void> {
+    await this.sweepStaged();
+    const owner = stagingOwner(anonymousId);
+    const stagedAt = this.now();
+    if (!options.append) {
+      await this.clear(owner);
+    }
+    for (const session of sessions) {
+      await this.repository.put({
+        ...toSession({ ...session, userId: owner }),
+        userId: owner,
+        stagedAt,
+      });
+    }
+  }
+
+  /**
+   * Delete sessions staged more than STAGING_TTL_MS ago, which no one signed
+   * in to claim. Returns how many were deleted.
+   */
+  async sweepStaged(): Promise<number> {
+    const cutoff = this.now() - STAGING_TTL_MS;
+    let swept = 0;
+    for (const owner of await this.repository.listUserIds()) {
+      if (!owner.startsWith(STAGING_OWNER_PREFIX)) continue;
+      for (const session of await this.repository.list(owner)) {
+        if ((session.stagedAt ?? 0) < cutoff) {
+          await this.repository.delete(owner, session.id);
+          swept++;
+        }
+      }
+    }
+    if (swept > 0) {
+      this.log.info("Expired staged chat history swept", { swept });
+    }
+    return swept;
+  }
+
+  /**
+   * Move sessions staged by a signed-out browser into the user's history.
+   * Returns how many sessions were new to the account.
+   */
+  async claimStaged(userId: string, anonymousId: string): Promise<number> {
+    const owner = stagingOwner(anonymousId);
+    const staged = await this.list(owner);
+    if (staged.length === 0) return 0;
+
+    const imported = await this.importSessions(userId, staged);
+    await this.clear(owner);
+    this.log.info("Staged chat history claimed", {
+      userId,
+      staged: staged.length,
+      imported,
+    });
+    return imported;
+  }
+}
+
+/** Shared service used by the session routes. */
+export const chatSessionService = new ChatSessionService();
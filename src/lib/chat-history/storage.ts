@@ -1,15 +1,30 @@
 /**
- * localStorage service for persisting chat sessions.
- * Uses StorageProvider interface to abstract localStorage access.
+ * Chat session persistence.
+ * Uses StorageProvider interface to abstract the browser store: IndexedDB
+ * when available, localStorage otherwise.
  */
 
 import type { UIMessage } from "@ai-sdk/react";
 import type { AgentId } from "@/lib/agent/types";
+import { omitImageData } from "@/lib/attachments";
 import type { ChatSession, ChatSessionSummary } from "./types";
-import { type StorageProvider, createLocalStorageProvider } from "./interfaces";
+import {
+  type StorageProvider,
+  createLocalStorageProvider,
+  isSessionStore,
+} from "./interfaces";
+import {
+  createIndexedDbStorageProvider,
+  isIndexedDbAvailable,
+} from "./indexeddb";
+import { CHAT_SESSION_SCHEMA_VERSION, parseStoredSessions } from "./migrations";
+import { quarantineSessions } from "./quarantine";
 
-const STORAGE_KEY = "ai-appraiser-chat-history";
-const MAX_SESSIONS = 20;
+/** Storage key holding the session list */
+export const CHAT_HISTORY_STORAGE_KEY = "ai-appraiser-chat-history";
+
+/** Sessions kept in localStorage, to stay within its size limit */
+export const MAX_LOCAL_SESSIONS = 20;
 
 /** Custom event name for same-tab storage notifications */
 export const STORAGE_CHANGE_EVENT = "ai-appraiser-chat-history-change";
@@ -24,21 +39,116 @@ function notifySameTabSubscribers(): void {
   }
 }
 
-// Default storage provider using localStorage
-let storageProvider: StorageProvider = createLocalStorageProvider();
+export interface StorageProviderOptions {
+  /** Most recent sessions kept; older ones are dropped. Default: 20 */
+  maxSessions?: number;
+  /** Resolves once the provider has loaded. Default: already loaded */
+  ready?: Promise<void>;
+  /** Where unreadable sessions are set aside. Default: localStorage */
+  quarantine?: StorageProvider;
+}
+
+export interface ChatHistoryStorage {
+  provider: StorageProvider;
+  maxSessions: number;
+}
+
+function createLocalStorageHistory(): ChatHistoryStorage {
+  return {
+    provider: createLocalStorageProvider(),
+    maxSessions: MAX_LOCAL_SESSIONS,
+  };
+}
+
+/**
+ * Storage for signed-out history: IndexedDB, uncapped, when the browser
+ * supports it, else localStorage capped at the 20 most recent sessions.
+ * IndexedDB is read through a cache that loads in the background; `ready`
+ * resolves to the storage to use once loaded, falling back to localStorage
+ * when IndexedDB can't be opened (e.g. in some private browsing modes).
+ */
+export function createAnonymousStorage(): ChatHistoryStorage & {
+  ready: Promise<ChatHistoryStorage>;
+} {
+  if (!isIndexedDbAvailable()) {
+    const storage = createLocalStorageHistory();
+    return { ...storage, ready: Promise.resolve(storage) };
+  }
+
+  const provider = createIndexedDbStorageProvider({
+    onChange: notifySameTabSubscribers,
+  });
+  const storage = { provider, maxSessions: Number.POSITIVE_INFINITY };
+  return {
+    ...storage,
+    ready: provider.hydrate(CHAT_HISTORY_STORAGE_KEY).then(
+      () => storage,
+      (error) => {
+        console.warn("IndexedDB unavailable, using localStorage:", error);
+        return createLocalStorageHistory();
+      },
+    ),
+  };
+}
+
+interface ActiveStorage extends ChatHistoryStorage {
+  ready: Promise<void>;
+  quarantine: StorageProvider;
+}
+
+// Created on first use, so nothing opens IndexedDB during import
+let activeStorage: ActiveStorage | null = null;
+
+function createDefaultStorage(): ActiveStorage {
+  const anonymous = createAnonymousStorage();
+  const storage: ActiveStorage = {
+    provider: anonymous.provider,
+    maxSessions: anonymous.maxSessions,
+    ready: Promise.resolve(),
+    quarantine: createLocalStorageProvider(),
+  };
+  storage.ready = anonymous.ready.then((loaded) => {
+    storage.provider = loaded.provider;
+    storage.maxSessions = loaded.maxSessions;
+    notifySameTabSubscribers();
+  });
+  return storage;
+}
+
+function getActiveStorage(): ActiveStorage {
+  activeStorage ??= createDefaultStorage();
+  return activeStorage;
+}
 
 /**
- * Set a custom storage provider (useful for testing).
+ * Set a custom storage provider, e.g. server sync for signed-in users or
+ * an in-memory provider for testing.
  */
-export function setStorageProvider(provider: StorageProvider): void {
-  storageProvider = provider;
+export function setStorageProvider(
+  provider: StorageProvider,
+  options: StorageProviderOptions = {},
+): void {
+  activeStorage = {
+    provider,
+    maxSessions: options.maxSessions ?? MAX_LOCAL_SESSIONS,
+    ready: options.ready ?? Promise.resolve(),
+    quarantine: options.quarantine ?? createLocalStorageProvider(),
+  };
 }
 
 /**
- * Reset to the default localStorage provider.
+ * Reset to the default provider for signed-out history.
  */
 export function resetStorageProvider(): void {
-  storageProvider = createLocalStorageProvider();
+  activeStorage = null;
+}
+
+/**
+ * Resolves once the current provider has loaded its sessions. Until then
+ * reads may miss sessions, e.g. while IndexedDB is still being read.
+ */
+export function whenStorageReady(): Promise<void> {
+  return getActiveStorage().ready;
 }
 
 /**
@@ -48,18 +158,36 @@ export function generateSessionId(): string {
   return `chat-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
+// Last parse, reused until the stored data or the storage changes
+let parsedSessions: {
+  storage: ActiveStorage;
+  data: string | null;
+  sessions: ChatSession[];
+} | null = null;
+
 /**
- * Get all chat sessions from storage.
+ * Get all chat sessions from storage, upgraded to the current schema.
+ * Sessions that can't be read are quarantined rather than hiding the rest.
+ * Only parsed when the stored data has changed, and not at all from a
+ * SessionStore, which keeps them parsed; callers mustn't mutate the result.
  */
 export function getAllSessions(): ChatSession[] {
-  const data = storageProvider.getItem(STORAGE_KEY);
-  if (!data) return [];
+  const storage = getActiveStorage();
+  if (isSessionStore(storage.provider)) {
+    return storage.provider.getSessions(CHAT_HISTORY_STORAGE_KEY);
+  }
 
-  try {
-    return JSON.parse(data) as ChatSession[];
-  } catch {
-    return [];
+  const data = storage.provider.getItem(CHAT_HISTORY_STORAGE_KEY);
+  if (parsedSessions?.storage === storage && parsedSessions.data === data) {
+    return parsedSessions.sessions;
   }
+
+  const { sessions, rejected } = parseStoredSessions(data);
+  if (rejected.length > 0) {
+    quarantineSessions(rejected, storage.quarantine);
+  }
+  parsedSessions = { storage, data, sessions };
+  return sessions;
 }
 
 /**
@@ -86,7 +214,9 @@ export function sessionExists(sessionId: string): boolean {
 }
 
 /**
- * Save or update a chat session.
+ * Save or update a chat session, leaving out its photos' data. A
+ * SessionStore writes just this session; other providers are given the
+ * whole list.
  */
 export function saveSession(
   sessionId: string,
@@ -106,16 +236,26 @@ export function saveSession(
     agentId,
     createdAt: existingIndex >= 0 ? sessions[existingIndex].createdAt : now,
     updatedAt: now,
-    messages,
+    messages: omitImageData(messages),
+    schemaVersion: CHAT_SESSION_SCHEMA_VERSION,
   };
 
-  const updatedSessions = upsertSession(sessions, session, existingIndex);
-  const trimmedSessions = sortSessionsByRecent(updatedSessions).slice(
-    0,
-    MAX_SESSIONS,
-  );
-
-  storageProvider.setItem(STORAGE_KEY, JSON.stringify(trimmedSessions));
+  const { provider, maxSessions } = getActiveStorage();
+  if (isSessionStore(provider)) {
+    provider.putSession(CHAT_HISTORY_STORAGE_KEY, session);
+    for (const dropped of provider
+      .getSessions(CHAT_HISTORY_STORAGE_KEY)
+      .slice(maxSessions)) {
+      provider.deleteSession(CHAT_HISTORY_STORAGE_KEY, dropped.id);
+    }
+  } else {
+    const updatedSessions = upsertSession(sessions, session, existingIndex);
+    const trimmedSessions = sortSessionsByRecent(updatedSessions).slice(
+      0,
+      maxSessions,
+    );
+    provider.setItem(CHAT_HISTORY_STORAGE_KEY, JSON.stringify(trimmedSessions));
+  }
   notifySameTabSubscribers();
 }
 
@@ -123,9 +263,13 @@ export function saveSession(
  * Delete a chat session.
  */
 export function deleteSession(sessionId: string): void {
-  const sessions = getAllSessions();
-  const filtered = sessions.filter((s) => s.id !== sessionId);
-  storageProvider.setItem(STORAGE_KEY, JSON.stringify(filtered));
+  const { provider } = getActiveStorage();
+  if (isSessionStore(provider)) {
+    provider.deleteSession(CHAT_HISTORY_STORAGE_KEY, sessionId);
+  } else {
+    const filtered = getAllSessions().filter((s) => s.id !== sessionId);
+    provider.setItem(CHAT_HISTORY_STORAGE_KEY, JSON.stringify(filtered));
+  }
   notifySameTabSubscribers();
 }
 
@@ -133,7 +277,7 @@ export function deleteSession(sessionId: string): void {
  * Clear all chat sessions.
  */
 export function clearAllSessions(): void {
-  storageProvider.removeItem(STORAGE_KEY);
+  getActiveStorage().provider.removeItem(CHAT_HISTORY_STORAGE_KEY);
   notifySameTabSubscribers();
 }
 
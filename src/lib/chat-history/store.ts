@@ -0,0 +1,35 @@
+/**
+ * Server-side storage backends for chat sessions, most recent first.
+ */
+
+import {
+  FileRecordStore,
+  MemoryRecordStore,
+  type RecordStore,
+} from "@/lib/storage";
+import type { ChatSession } from "./types";
+
+/** A chat session owned by a signed-in user. */
+export interface StoredChatSession extends ChatSession {
+  userId: string;
+  /** When a signed-out browser staged it; unset for account sessions */
+  stagedAt?: number;
+}
+
+export type ChatSessionRepository = RecordStore<StoredChatSession>;
+
+function mostRecentFirst(a: StoredChatSession, b: StoredChatSession): number {
+  return b.updatedAt - a.updatedAt;
+}
+
+export class MemoryChatSessionRepository extends MemoryRecordStore<StoredChatSession> {
+  constructor() {
+    super({ compare: mostRecentFirst });
+  }
+}
+
+export class FileChatSessionRepository extends FileRecordStore<StoredChatSession> {
+  constructor(filePath: string) {
+    super(filePath, { compare: mostRecentFirst });
+  }
+}
@@ -0,0 +1,560 @@
+/**
+ * Server sync for signed-in users' chat history.
+ * A StorageProvider that keeps a per-user local cache, so reads stay
+ * synchronous, and mirrors every change to /api/sessions. The cache is kept
+ * in IndexedDB when available, else in localStorage capped at the most
+ * recent sessions; the server keeps them all.
+ * Also moves history kept while signed out into the account on sign-in.
+ */
+
+import type { ChatSession } from "./types";
+import {
+  parseSessionRecord,
+  parseSessionRecords,
+  parseStoredSessions,
+} from "./migrations";
+import { quarantineSessions } from "./quarantine";
+import { MAX_MIGRATED_SESSIONS, MAX_UPLOAD_BODY_BYTES } from "./schema";
+import {
+  type SessionStore,
+  type StorageProvider,
+  createLocalStorageProvider,
+  isSessionStore,
+} from "./interfaces";
+import {
+  createIndexedDbSessionDatabase,
+  createIndexedDbStorageProvider,
+  isIndexedDbAvailable,
+  STORAGE_WARNING_EVENT,
+  type StorageWarning,
+} from "./indexeddb";
+import {
+  CHAT_HISTORY_STORAGE_KEY,
+  MAX_LOCAL_SESSIONS,
+  STORAGE_CHANGE_EVENT,
+  getAllSessions,
+} from "./storage";
+
+/**
+ * Interface for the session sync API.
+ * Abstracts fetch to enable testing.
+ */
+export interface SessionSyncClient {
+  /** Sessions as the server returned them; validated by the caller */
+  list(): Promise<unknown[]>;
+  /** Null when the session doesn't exist or the user isn't signed in */
+  get(sessionId: string): Promise<ChatSession | null>;
+  put(session: ChatSession): Promise<void>;
+  remove(sessionId: string): Promise<void>;
+  clear(): Promise<void>;
+  /**
+   * Hold a signed-out browser's sessions until its user signs in. `append`
+   * adds to the sessions staged before instead of replacing them.
+   */
+  stage(
+    anonymousId: string,
+    sessions: ChatSession[],
+    options?: { append?: boolean },
+  ): Promise<void>;
+  /**
+   * Move a signed-out browser's sessions, held locally or staged, into the
+   * signed-in account. Resolves to how many were new to the account.
+   */
+  migrate(anonymousId: string, sessions: ChatSession[]): Promise<number>;
+}
+
+async function request(url: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+  return response;
+}
+
+function sessionUrl(sessionId: string): string {
+  return `/api/sessions/${encodeURIComponent(sessionId)}`;
+}
+
+/**
+ * Default fetch implementation of SessionSyncClient.
+ */
+export function createFetchSessionSyncClient(): SessionSyncClient {
+  return {
+    async list() {
+      const response = await request("/api/sessions");
+      const data: { sessions?: unknown } = await response.json();
+      return Array.isArray(data.sessions) ? data.sessions : [];
+    },
+    async get(sessionId) {
+      const response = await fetch(sessionUrl(sessionId));
+      if (response.status === 401 || response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`HTTP error: ${response.status}`);
+      }
+      const data: { session: ChatSession } = await response.json();
+      return data.session;
+    },
+    async put(session) {
+      await request(sessionUrl(session.id), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(session),
+      });
+    },
+    async remove(sessionId) {
+      const response = await fetch(sessionUrl(sessionId), {
+        method: "DELETE",
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`HTTP error: ${response.status}`);
+      }
+    },
+    async clear() {
+      await request("/api/sessions", { method: "DELETE" });
+    },
+    async stage(anonymousId, sessions, options = {}) {
+      await request("/api/sessions/anonymous", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ anonymousId, sessions, ...options }),
+      });
+    },
+    async migrate(anonymousId, sessions) {
+      const response = await request("/api/sessions/migrate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ anonymousId, sessions }),
+      });
+      const data: { migrated: number } = await response.json();
+      return data.migrated;
+    },
+  };
+}
+
+/**
+ * StorageProvider that also syncs with the server.
+ */
+export interface SyncStorageProvider extends StorageProvider, SessionStore {
+  /**
+   * Load the server's sessions into the local cache, then re-send changes
+   * the server hasn't acknowledged (e.g. made while offline).
+   */
+  hydrate(key: string): Promise<void>;
+}
+
+export interface ServerSyncOptions {
+  /** Signed-in user; the local cache is kept per user */
+  userId: string;
+  /** Default: fetch against /api/sessions */
+  client?: SessionSyncClient;
+  /** Where unacknowledged changes are kept. Default: localStorage */
+  local?: StorageProvider;
+  /**
+   * Where the session list is cached, hydrated before the server's sessions
+   * are loaded when it supports that. Default: a per-user IndexedDB
+   * database when available, else `local`
+   */
+  cache?: SessionCache;
+  /**
+   * Most recent sessions kept in the cache; the server keeps the rest.
+   * Default: uncapped in IndexedDB, 20 in `local`
+   */
+  maxCachedSessions?: number;
+}
+
+/**
+ * StorageProvider holding the cached session list; written a session at a
+ * time when it's also a SessionStore
+ */
+export type SessionCache = StorageProvider & {
+  hydrate?(key: string): Promise<void>;
+};
+
+/** Unacknowledged changes by session ID */
+type PendingChanges = Record<string, "put" | "delete">;
+
+function notifySameTabSubscribers(): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(STORAGE_CHANGE_EVENT));
+  }
+}
+
+function dispatchWarning(warning: StorageWarning): void {
+  window.dispatchEvent(
+    new CustomEvent(STORAGE_WARNING_EVENT, { detail: warning }),
+  );
+}
+
+/**
+ * Per-user IndexedDB cache. Moves over a cache left in localStorage by
+ * earlier versions on hydrate. Evicted sessions are still on the server, so
+ * evictions aren't reported as lost chats.
+ */
+function createIndexedDbCache(userId: string): SessionCache {
+  return createIndexedDbStorageProvider({
+    database: createIndexedDbSessionDatabase(
+      `${CHAT_HISTORY_STORAGE_KEY}:${userId}`,
+    ),
+    onChange: notifySameTabSubscribers,
+    onWarning: (warning) => {
+      if (warning.type !== "evicted") dispatchWarning(warning);
+    },
+  });
+}
+
+/**
+ * Create a StorageProvider whose values are chat session lists kept in a
+ * per-user local cache and mirrored to the server. Server writes happen in
+ * the background; failed ones are retried on the next hydrate.
+ */
+export function createServerSyncStorageProvider(
+  options: ServerSyncOptions,
+): SyncStorageProvider {
+  const client = options.client ?? createFetchSessionSyncClient();
+  const local = options.local ?? createLocalStorageProvider();
+  const cache: SessionCache =
+    options.cache ??
+    (isIndexedDbAvailable() ? createIndexedDbCache(options.userId) : local);
+  const maxCachedSessions =
+    options.maxCachedSessions ??
+    (cache === local ? MAX_LOCAL_SESSIONS : Number.POSITIVE_INFINITY);
+  const cacheKey = (key: string) => `${key}:${options.userId}`;
+  const pendingKey = (key: string) => `${cacheKey(key)}:pending`;
+
+  // Unreadable sessions, cached or from the server, are set aside in
+  // `local` as signed-out history is, rather than dropped silently
+  function parseSessions(data: string | null): ChatSession[] {
+    const { sessions, rejected } = parseStoredSessions(data);
+    if (rejected.length > 0) {
+      quarantineSessions(rejected, local);
+    }
+    return sessions;
+  }
+
+  async function listRemoteSessions(): Promise<ChatSession[]> {
+    const { sessions, rejected } = parseSessionRecords(await client.list());
+    if (rejected.length > 0) {
+      quarantineSessions(rejected, local);
+    }
+    return sessions;
+  }
+
+  // Last parse of a cache that isn't a SessionStore
+  let parsedCache: { data: string | null; sessions: ChatSession[] } | null =
+    null;
+
+  function readCache(key: string): ChatSession[] {
+    if (isSessionStore(cache)) return cache.getSessions(cacheKey(key));
+    const data = cache.getItem(cacheKey(key));
+    if (parsedCache?.data !== data) {
+      parsedCache = { data, sessions: parseSessions(data) };
+    }
+    return parsedCache.sessions;
+  }
+
+  function writeCache(key: string, sessions: ChatSession[]): void {
+    cache.setItem(
+      cacheKey(key),
+      JSON.stringify(sessions.slice(0, maxCachedSessions)),
+    );
+  }
+
+  function readPending(key: string): PendingChanges {
+    try {
+      return JSON.parse(local.getItem(pendingKey(key)) ?? "{}");
+    } catch {
+      return {};
+    }
+  }
+
+  function updatePending(
+    key: string,
+    sessionId: string,
+    change: PendingChanges[string] | null,
+  ): void {
+    const pending = readPending(key);
+    if (change) {
+      pending[sessionId] = change;
+    } else {
+      delete pending[sessionId];
+    }
+    local.setItem(pendingKey(key), JSON.stringify(pending));
+  }
+
+  function sendPut(key: string, session: ChatSession): Promise<void> {
+    updatePending(key, session.id, "put");
+    return client.put(session).then(
+      () => {
+        // A newer save may have been queued while this one was in flight;
+        // sessions trimmed from the cache are done unless since deleted
+        const cached = readCache(key).find((s) => s.id === session.id);
+        if (
+          cached
+            ? cached.updatedAt === session.updatedAt
+            : readPending(key)[session.id] === "put"
+        ) {
+          updatePending(key, session.id, null);
+        }
+      },
+      (error) => {
+        console.warn("Failed to sync chat session:", error);
+      },
+    );
+  }
+
+  function sendDelete(key: string, sessionId: string): Promise<void> {
+    updatePending(key, sessionId, "delete");
+    return client.remove(sessionId).then(
+      () => updatePending(key, sessionId, null),
+      (error) => {
+        console.warn("Failed to delete synced chat session:", error);
+      },
+    );
+  }
+
+  return {
+    getItem(key: string): string | null {
+      return cache.getItem(cacheKey(key));
+    },
+
+    // Diffed against the full list, so trimming the cache deletes nothing
+    setItem(key: string, value: string): void {
+      const previous = new Map(readCache(key).map((s) => [s.id, s]));
+      const next = parseSessions(value);
+      writeCache(key, next);
+
+      for (const session of next) {
+        if (previous.get(session.id)?.updatedAt !== session.updatedAt) {
+          void sendPut(key, session);
+        }
+        previous.delete(session.id);
+      }
+      for (const sessionId of previous.keys()) {
+        void sendDelete(key, sessionId);
+      }
+    },
+
+    getSessions: readCache,
+
+    putSession(key: string, session: ChatSession): void {
+      if (isSessionStore(cache)) {
+        cache.putSession(cacheKey(key), session);
+        // Trimmed from the cache only; the server keeps them
+        for (const dropped of cache
+          .getSessions(cacheKey(key))
+          .slice(maxCachedSessions)) {
+          cache.deleteSession(cacheKey(key), dropped.id);
+        }
+      } else {
+        writeCache(
+          key,
+          [session, ...readCache(key).filter((s) => s.id !== session.id)].sort(
+            (a, b) => b.updatedAt - a.updatedAt,
+          ),
+        );
+      }
+      void sendPut(key, session);
+    },
+
+    deleteSession(key: string, sessionId: string): void {
+      if (isSessionStore(cache)) {
+        cache.deleteSession(cacheKey(key), sessionId);
+      } else {
+        writeCache(
+          key,
+          readCache(key).filter((s) => s.id !== sessionId),
+        );
+      }
+      void sendDelete(key, sessionId);
+    },
+
+    removeItem(key: string): void {
+      cache.removeItem(cacheKey(key));
+      local.removeItem(pendingKey(key));
+      client.clear().catch((error) => {
+        console.warn("Failed to clear synced chat history:", error);
+      });
+    },
+
+    async hydrate(key: string): Promise<void> {
+      // Without a persistent cache, sessions are still kept for this tab
+      await cache.hydrate?.(cacheKey(key)).catch((error) => {
+        console.warn("Failed to load chat history cache:", error);
+      });
+      const remote = await listRemoteSessions();
+      const cached = new Map(readCache(key).map((s) => [s.id, s]));
+      const pending = readPending(key);
+
+      const merged = new Map(remote.map((s) => [s.id, s]));
+      const unsent: ChatSession[] = [];
+      for (const [sessionId, change] of Object.entries(pending)) {
+        const session = cached.get(sessionId);
+        if (change === "delete") {
+          merged.delete(sessionId);
+        } else if (session) {
+          merged.set(sessionId, session);
+          unsent.push(session);
+        }
+      }
+
+      writeCache(
+        key,
+        [...merged.values()].sort((a, b) => b.updatedAt - a.updatedAt),
+      );
+      notifySameTabSubscribers();
+
+      await Promise.all([
+        ...unsent.map((session) => sendPut(key, session)),
+        ...Object.entries(pending)
+          .filter(([, change]) => change === "delete")
+          .map(([sessionId]) => sendDelete(key, sessionId)),
+      ]);
+    },
+  };
+}
+
+/**
+ * Fetch one session from the server, for links opened on a device whose
+ * cache doesn't have it yet, upgraded to the current schema. Null when
+ * unavailable, unreadable or signed out.
+ */
+export async function loadServerSession(
+  sessionId: string,
+  client: SessionSyncClient = createFetchSessionSyncClient(),
+): Promise<ChatSession | null> {
+  try {
+    const session = await client.get(sessionId);
+    if (!session) return null;
+    const parsed = parseSessionRecord(session);
+    return parsed.ok ? parsed.session : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Identifies a signed-out browser's staged history */
+export const ANONYMOUS_ID_STORAGE_KEY = "ai-appraiser-anonymous-id";
+
+export interface AnonymousHistoryOptions {
+  /** Default: fetch against /api/sessions */
+  client?: SessionSyncClient;
+  /** Where the anonymous ID is kept. Default: localStorage */
+  local?: StorageProvider;
+}
+
+export interface AnonymousHistoryMigrationOptions
+  extends AnonymousHistoryOptions {
+  /** Where signed-out history is kept, loaded. Default: localStorage */
+  history?: StorageProvider;
+}
+
+/** Room left in each upload for the request fields around the sessions */
+const UPLOAD_ENVELOPE_BYTES = 1024;
+
+/**
+ * Split sessions into batches the upload endpoints accept: at most
+ * MAX_MIGRATED_SESSIONS each, serialized within MAX_UPLOAD_BODY_BYTES.
+ * A session too large on its own is sent alone, and rejected.
+ */
+function toBatches(sessions: ChatSession[]): ChatSession[][] {
+  const encoder = new TextEncoder();
+  const maxBytes = MAX_UPLOAD_BODY_BYTES - UPLOAD_ENVELOPE_BYTES;
+  const batches: ChatSession[][] = [];
+  let batch: ChatSession[] = [];
+  let batchBytes = 0;
+
+  for (const session of sessions) {
+    // Plus one for the comma separating it from the previous session
+    const bytes = encoder.encode(JSON.stringify(session)).byteLength + 1;
+    if (
+      batch.length === MAX_MIGRATED_SESSIONS ||
+      (batch.length > 0 && batchBytes + bytes > maxBytes)
+    ) {
+      batches.push(batch);
+      batch = [];
+      batchBytes = 0;
+    }
+    batch.push(session);
+    batchBytes += bytes;
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+/**
+ * The browser's anonymous ID, created on first use. Passed to sign-up as
+ * unsafe metadata so the Clerk webhook can claim the staged history.
+ */
+export function getAnonymousId(
+  local: StorageProvider = createLocalStorageProvider(),
+): string {
+  const existing = local.getItem(ANONYMOUS_ID_STORAGE_KEY);
+  if (existing) return existing;
+
+  const anonymousId = crypto.randomUUID();
+  local.setItem(ANONYMOUS_ID_STORAGE_KEY, anonymousId);
+  return anonymousId;
+}
+
+/**
+ * Upload signed-out history, in batches the endpoint accepts, for the new
+ * account to claim once the user signs up. Called when a sign-up prompt is
+ * accepted, while the current chat history is still the signed-out one;
+ * failures are only logged, since the first signed-in load migrates the
+ * history anyway.
+ */
+export async function stageAnonymousHistory(
+  options: AnonymousHistoryOptions = {},
+): Promise<void> {
+  const local = options.local ?? createLocalStorageProvider();
+  const sessions = getAllSessions();
+  if (sessions.length === 0) return;
+
+  const client = options.client ?? createFetchSessionSyncClient();
+  const anonymousId = getAnonymousId(local);
+  try {
+    for (const [i, batch] of toBatches(sessions).entries()) {
+      await client.stage(anonymousId, batch, { append: i > 0 });
+    }
+  } catch (error) {
+    console.warn("Failed to stage chat history:", error);
+  }
+}
+
+/**
+ * Move signed-out history into the signed-in account and remove it from
+ * the browser, so it isn't orphaned there. Uploaded in batches the endpoint
+ * accepts and kept for the next attempt when any batch fails.
+ * Returns how many sessions were new to the account.
+ */
+export async function migrateAnonymousHistory(
+  options: AnonymousHistoryMigrationOptions = {},
+): Promise<number> {
+  const local = options.local ?? createLocalStorageProvider();
+  const history = options.history ?? local;
+  // Upgraded and validated like any read, so the server accepts them
+  const { sessions, rejected } = parseStoredSessions(
+    history.getItem(CHAT_HISTORY_STORAGE_KEY),
+  );
+  if (rejected.length > 0) {
+    quarantineSessions(rejected, local);
+  }
+  if (sessions.length === 0) return 0;
+
+  const client = options.client ?? createFetchSessionSyncClient();
+  const anonymousId = getAnonymousId(local);
+  let migrated = 0;
+  try {
+    for (const batch of toBatches(sessions)) {
+      migrated += await client.migrate(anonymousId, batch);
+    }
+  } catch (error) {
+    // Batches already sent are deduped when the whole history is retried
+    console.warn("Failed to migrate chat history:", error);
+    return migrated;
+  }
+
+  history.removeItem(CHAT_HISTORY_STORAGE_KEY);
+  local.removeItem(ANONYMOUS_ID_STORAGE_KEY);
+  return migrated;
+}
@@ -21,6 +21,8 @@ export interface ChatSession {
   updatedAt: number;
   /** The full message history */
   messages: UIMessage[];
+  /** Storage schema version; absent on sessions saved before versioning */
+  schemaVersion?: number;
 }
 
 /**
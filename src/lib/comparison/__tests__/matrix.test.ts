@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import type { UnifiedItem } from "@/lib/adapters/types";
+import { buildComparison } from "../matrix";
+
+function item(overrides: Partial<UnifiedItem> = {}): UnifiedItem {
+  return {
+    id: "liveauctioneers-1",
+    platformItemId: "1",
+    platform: "liveauctioneers",
+    url: "https://example.com/1",
+    title: "Art Deco Table Lamp",
+    description: "",
+    images: ["https://example.com/1.jpg"],
+    category: ["Lighting"],
+    currentPrice: 300,
+    currency: "USD",
+    estimateRange: { low: 200, high: 400 },
+    auctionType: "timed",
+    endTime: new Date("2026-06-01T18:00:00Z"),
+    seller: { name: "Example Auctions", rating: 4.5 },
+    condition: "Very Good",
+    conditionNotes: "Minor wear to base",
+    dimensions: "18 x 10 in",
+    materials: ["Bronze", "Glass"],
+    provenance: "Private collection, New York",
+    ...overrides,
+  };
+}
+
+function rowValues(
+  comparison: ReturnType<typeof buildComparison>,
+  attribute: string,
+) {
+  return comparison.rows.find((row) => row.attribute === attribute);
+}
+
+describe("buildComparison", () => {
+  it("aligns one value per item for every attribute", () => {
+    const comparison = buildComparison([
+      item(),
+      item({
+        platformItemId: "2",
+        provenance: undefined,
+        materials: undefined,
+      }),
+    ]);
+
+    expect(comparison.items.map((i) => i.itemId)).toEqual(["1", "2"]);
+    expect(comparison.rows.map((row) => row.attribute)).toEqual([
+      "price",
+      "estimate",
+      "condition",
+      "dimensions",
+      "materials",
+      "provenance",
+      "sellerRating",
+      "endTime",
+    ]);
+    for (const row of comparison.rows) {
+      expect(row.values).toHaveLength(2);
+    }
+
+    expect(rowValues(comparison, "condition")?.values[0]).toEqual({
+      kind: "text",
+      text: "Very Good — Minor wear to base",
+    });
+    expect(rowValues(comparison, "materials")?.values).toEqual([
+      { kind: "text", text: "Bronze, Glass" },
+      null,
+    ]);
+    expect(rowValues(comparison, "endTime")?.values[0]).toEqual({
+      kind: "date",
+      date: "2026-06-01T18:00:00.000Z",
+    });
+  });
+
+  it("prefers converted prices so platforms line up", () => {
+    const comparison = buildComparison([
+      item({
+        currency: "GBP",
+        currentPrice: 200,
+        estimateRange: { low: 100, high: 300 },
+        converted: {
+          currency: "USD",
+          currentPrice: 250,
+          estimateRange: { low: 125, high: 375 },
+          rate: 1.25,
+          ratesAsOf: "2026-01-01",
+        },
+      }),
+      item({ platformItemId: "2" }),
+    ]);
+
+    expect(rowValues(comparison, "price")?.values[0]).toEqual({
+      kind: "money",
+      amount: 250,
+      currency: "USD",
+    });
+    expect(rowValues(comparison, "estimate")?.values[0]).toEqual({
+      kind: "range",
+      low: 125,
+      high: 375,
+      currency: "USD",
+    });
+    expect(rowValues(comparison, "price")?.best).toBe(0);
+  });
+
+  it("highlights the lowest price and highest seller rating", () => {
+    const comparison = buildComparison([
+      item({ currentPrice: 500 }),
+      item({
+        platformItemId: "2",
+        currentPrice: 250,
+        seller: { name: "Top Seller", rating: 4.9 },
+      }),
+      item({ platformItemId: "3", seller: { name: "New Seller" } }),
+    ]);
+
+    expect(rowValues(comparison, "price")?.best).toBe(1);
+    expect(rowValues(comparison, "sellerRating")?.best).toBe(1);
+  });
+
+  it("doesn't rank ties or mixed currencies", () => {
+    const tied = buildComparison([item(), item({ platformItemId: "2" })]);
+    expect(rowValues(tied, "price")?.best).toBeUndefined();
+
+    const mixed = buildComparison([
+      item(),
+      item({ platformItemId: "2", currency: "EUR", currentPrice: 100 }),
+    ]);
+    expect(rowValues(mixed, "price")?.best).toBeUndefined();
+  });
+});
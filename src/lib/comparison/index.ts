@@ -0,0 +1,11 @@
+export {
+  buildComparison,
+  MAX_COMPARE_ITEMS,
+  MIN_COMPARE_ITEMS,
+  type ComparedItem,
+  type ComparisonAttribute,
+  type ComparisonRow,
+  type ComparisonValue,
+  type ItemComparison,
+  type UncomparedItem,
+} from "./matrix";
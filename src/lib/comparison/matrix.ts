@@ -0,0 +1,220 @@
+/**
+ * Side-by-side item comparison.
+ * Aligns the attributes collectors weigh between lots into one row per
+ * attribute, with a value (or a gap) for every item.
+ */
+
+import type { UnifiedItem } from "@/lib/adapters/types";
+
+export const MIN_COMPARE_ITEMS = 2;
+export const MAX_COMPARE_ITEMS = 4;
+
+export interface ComparedItem {
+  platform: string;
+  itemId: string;
+  title: string;
+  url: string;
+  imageUrl?: string;
+  auctionType: UnifiedItem["auctionType"];
+}
+
+export type ComparisonAttribute =
+  | "price"
+  | "estimate"
+  | "condition"
+  | "dimensions"
+  | "materials"
+  | "provenance"
+  | "sellerRating"
+  | "endTime";
+
+export type ComparisonValue =
+  | { kind: "money"; amount: number; currency: string }
+  | { kind: "range"; low: number; high: number; currency: string }
+  | { kind: "text"; text: string }
+  | { kind: "rating"; rating: number }
+  /** ISO timestamp */
+  | { kind: "date"; date: string };
+
+export interface ComparisonRow {
+  attribute: ComparisonAttribute;
+  label: string;
+  /** One per compared item, in item order; null when the item lacks it */
+  values: Array<ComparisonValue | null>;
+  /** Index of the most favorable value, when the row can be ranked */
+  best?: number;
+}
+
+/** An item that could not be fetched, so has no column. */
+export interface UncomparedItem {
+  platform: string;
+  itemId: string;
+  error: string;
+}
+
+export interface ItemComparison {
+  items: ComparedItem[];
+  rows: ComparisonRow[];
+  unavailable: UncomparedItem[];
+}
+
+const LABELS: Record<ComparisonAttribute, string> = {
+  price: "Current price",
+  estimate: "Estimate",
+  condition: "Condition",
+  dimensions: "Dimensions",
+  materials: "Materials",
+  provenance: "Provenance",
+  sellerRating: "Seller rating",
+  endTime: "Ends",
+};
+
+function text(value: string | undefined): ComparisonValue | null {
+  const trimmed = value?.trim();
+  return trimmed ? { kind: "text", text: trimmed } : null;
+}
+
+/**
+ * Prices in the common currency when the item has been converted, so
+ * columns from different platforms line up.
+ */
+function price(item: UnifiedItem): ComparisonValue {
+  return item.converted
+    ? {
+        kind: "money",
+        amount: item.converted.currentPrice,
+        currency: item.converted.currency,
+      }
+    : { kind: "money", amount: item.currentPrice, currency: item.currency };
+}
+
+function estimate(item: UnifiedItem): ComparisonValue | null {
+  const range = item.converted?.estimateRange ?? item.estimateRange;
+  if (!range) return null;
+  return {
+    kind: "range",
+    ...range,
+    currency: item.converted?.estimateRange
+      ? item.converted.currency
+      : item.currency,
+  };
+}
+
+function condition(item: UnifiedItem): ComparisonValue | null {
+  const parts = [item.condition, item.conditionNotes]
+    .map((part) => part?.trim())
+    .filter(Boolean);
+  return text(parts.join(" — "));
+}
+
+/**
+ * Index of the extreme numeric value, or undefined when fewer than two
+ * items can be ranked or they tie.
+ */
+function bestIndex(
+  values: Array<ComparisonValue | null>,
+  score: (value: ComparisonValue) => number | undefined,
+  prefer: "lowest" | "highest",
+): number | undefined {
+  const scored = values
+    .map((value, index) => ({ index, score: value ? score(value) : undefined }))
+    .filter(
+      (s): s is { index: number; score: number } => s.score !== undefined,
+    );
+  if (scored.length < 2) return undefined;
+
+  const sorted = [...scored].sort((a, b) =>
+    prefer === "lowest" ? a.score - b.score : b.score - a.score,
+  );
+  return sorted[0].score === sorted[1].score ? undefined : sorted[0].index;
+}
+
+/** Amounts are only ranked when every priced item shares a currency. */
+function moneyScore(values: Array<ComparisonValue | null>) {
+  const currencies = new Set(
+    values.flatMap((v) =>
+      v?.kind === "money" || v?.kind === "range" ? [v.currency] : [],
+    ),
+  );
+  return (value: ComparisonValue): number | undefined => {
+    if (currencies.size !== 1) return undefined;
+    if (value.kind === "money") return value.amount;
+    if (value.kind === "range") return (value.low + value.high) / 2;
+    return undefined;
+  };
+}
+
+function row(
+  attribute: ComparisonAttribute,
+  values: Array<ComparisonValue | null>,
+  best?: number,
+): ComparisonRow {
+  return {
+    attribute,
+    label: LABELS[attribute],
+    values,
+    ...(best !== undefined && { best }),
+  };
+}
+
+/**
+ * Build the comparison matrix for fetched items, in the order given.
+ */
+export function buildComparison(
+  items: UnifiedItem[],
+  unavailable: UncomparedItem[] = [],
+): ItemComparison {
+  const prices = items.map(price);
+  const estimates = items.map(estimate);
+  const ratings = items.map((item): ComparisonValue | null =>
+    item.seller.rating !== undefined
+      ? { kind: "rating", rating: item.seller.rating }
+      : null,
+  );
+
+  return {
+    items: items.map((item) => ({
+      platform: item.platform,
+      itemId: item.platformItemId,
+      title: item.title,
+      url: item.url,
+      imageUrl: item.images[0],
+      auctionType: item.auctionType,
+    })),
+    rows: [
+      row("price", prices, bestIndex(prices, moneyScore(prices), "lowest")),
+      row("estimate", estimates),
+      row("condition", items.map(condition)),
+      row(
+        "dimensions",
+        items.map((item) => text(item.dimensions)),
+      ),
+      row(
+        "materials",
+        items.map((item) => text(item.materials?.join(", "))),
+      ),
+      row(
+        "provenance",
+        items.map((item) => text(item.provenance)),
+      ),
+      row(
+        "sellerRating",
+        ratings,
+        bestIndex(
+          ratings,
+          (value) => (value.kind === "rating" ? value.rating : undefined),
+          "highest",
+        ),
+      ),
+      row(
+        "endTime",
+        items.map((item): ComparisonValue | null =>
+          item.endTime
+            ? { kind: "date", date: new Date(item.endTime).toISOString() }
+            : null,
+        ),
+      ),
+    ],
+    unavailable,
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { analyzeCondition, analyzeItemCondition } from "../analysis";
+
+describe("analyzeCondition", () => {
+  it("reads a stated grade and the issues in the report", () => {
+    const report = analyzeCondition(
+      "Very Good",
+      "Minor chip to rim. Professional restoration to one handle.",
+    );
+
+    expect(report.grade).toBe("very-good");
+    expect(report.gradeLabel).toBe("Very Good");
+    expect(report.gradeSource).toBe("stated");
+    expect(report.issues).toEqual([
+      { type: "chip", severity: "minor", excerpt: "minor chip to rim" },
+      {
+        type: "restoration",
+        severity: "moderate",
+        excerpt: "professional restoration to one handle",
+      },
+    ]);
+    expect(report.confidence).toBe("high");
+  });
+
+  it("treats negated issues as ruled out, not found", () => {
+    const report = analyzeCondition(
+      undefined,
+      "No chips, cracks or restoration, but light wear to gilding.",
+    );
+
+    expect(report.ruledOut).toEqual(["chip", "crack", "restoration"]);
+    expect(report.issues).toEqual([
+      { type: "wear", severity: "minor", excerpt: "light wear to gilding" },
+    ]);
+    expect(report.grade).toBe("very-good");
+    expect(report.gradeSource).toBe("inferred");
+  });
+
+  it("doesn't read a negated issue as a grade", () => {
+    // parseConditionGrade alone would grade "restoration" as Fair
+    const report = analyzeCondition("No restoration or damage");
+
+    expect(report.grade).toBe("excellent");
+    expect(report.gradeSource).toBe("inferred");
+    expect(report.issues).toEqual([]);
+  });
+
+  it("infers lower grades from losses and replaced parts", () => {
+    expect(analyzeCondition("Losses to veneer").grade).toBe("fair");
+    expect(analyzeCondition("Shade is a later replacement").grade).toBe("good");
+    expect(
+      analyzeCondition("Replaced hardware, later base").issues.map(
+        (i) => i.type,
+      ),
+    ).toEqual(["replaced-part"]);
+  });
+
+  it("grades major issues as Fair", () => {
+    const report = analyzeCondition("Extensive crazing to glaze");
+    expect(report.issues[0]).toMatchObject({
+      type: "crack",
+      severity: "major",
+    });
+    expect(report.grade).toBe("fair");
+  });
+
+  it("lowers confidence when a top grade conflicts with the issues", () => {
+    const report = analyzeCondition("Excellent", "Large crack to base.");
+    expect(report.grade).toBe("excellent");
+    expect(report.confidence).toBe("medium");
+  });
+
+  it("has low confidence when nothing can be recognized", () => {
+    expect(analyzeCondition("See photos")).toEqual({
+      issues: [],
+      ruledOut: [],
+      confidence: "low",
+    });
+  });
+});
+
+describe("analyzeItemCondition", () => {
+  it("returns undefined for listings without condition text", () => {
+    expect(analyzeItemCondition({})).toBeUndefined();
+    expect(analyzeItemCondition({ condition: "  " })).toBeUndefined();
+  });
+});
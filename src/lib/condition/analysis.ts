@@ -0,0 +1,248 @@
+/**
+ * Condition report analysis.
+ * Parses a listing's free-text condition and condition report into a grade
+ * on the appraiser's Mint→Poor scale, the issues it mentions, and how far
+ * the result can be trusted.
+ */
+
+import type { UnifiedItem } from "@/lib/adapters/types";
+import {
+  CONDITION_LABELS,
+  parseConditionGrade,
+  type ConditionGrade,
+} from "@/lib/valuation/condition";
+
+// --- Types ---
+
+export type ConditionIssueType =
+  | "chip"
+  | "crack"
+  | "loss"
+  | "restoration"
+  | "replaced-part"
+  | "stain"
+  | "scratch"
+  | "wear";
+
+export type ConditionIssueSeverity = "minor" | "moderate" | "major";
+
+export interface ConditionIssue {
+  type: ConditionIssueType;
+  severity: ConditionIssueSeverity;
+  /** The phrase the issue was found in */
+  excerpt: string;
+}
+
+export interface ConditionReport {
+  grade?: ConditionGrade;
+  /** Display label for the grade, e.g. "Very Good" */
+  gradeLabel?: string;
+  /** Whether the listing states the grade or it was inferred from issues */
+  gradeSource?: "stated" | "inferred";
+  issues: ConditionIssue[];
+  /** Issues the report explicitly rules out, e.g. "no chips" */
+  ruledOut: ConditionIssueType[];
+  confidence: "high" | "medium" | "low";
+}
+
+export const CONDITION_ISSUE_LABELS: Record<ConditionIssueType, string> = {
+  chip: "Chips",
+  crack: "Cracks",
+  loss: "Losses",
+  restoration: "Restoration",
+  "replaced-part": "Replaced parts",
+  stain: "Stains",
+  scratch: "Scratches",
+  wear: "Wear",
+};
+
+// --- Patterns ---
+
+const ISSUE_PATTERNS: Array<[ConditionIssueType, RegExp]> = [
+  ["chip", /\b(chip|chips|chipped|chipping|nicks?|fleabites?)\b/],
+  ["crack", /\b(cracks?|cracked|hairlines?|crazing|splits?)\b/],
+  ["loss", /\b(loss|losses|missing|lacking)\b/],
+  [
+    "restoration",
+    /\b(restor(ed|ation|ations)|repair(s|ed)?|re-?glued|touch-?ups?|retouch(ed|ing)?|inpainting|overpaint(ed|ing)?|refinish(ed)?)\b/,
+  ],
+  [
+    "replaced-part",
+    /\b(replaced|replacement|later (base|shade|hardware|handles?|mounts?|parts?|dial|hands|movement|frame|glass)|married|non-original|not original)\b/,
+  ],
+  ["stain", /\b(stain(s|ed|ing)?|foxing|discolou?r(ed|ation)|toning)\b/],
+  ["scratch", /\b(scratch(es|ed)?|scuff(s|ed|ing)?|abrasions?)\b/],
+  ["wear", /\b(wear|worn|rubbing|rubbed|fading|faded)\b/],
+];
+
+const NEGATION = /\b(no|none|not|without|free of|free from|absent)\b/;
+
+const MINOR = /\b(minor|small|tiny|slight|light|faint|minute|very minor)\b/;
+const MAJOR =
+  /\b(major|significant|extensive|large|heavy|severe|substantial|considerable|serious)\b/;
+
+const SEVERITY_RANK: Record<ConditionIssueSeverity, number> = {
+  minor: 0,
+  moderate: 1,
+  major: 2,
+};
+
+// Clauses end at sentence punctuation or a contrast, which also ends
+// the reach of a negation ("no chips, but wear to gilding")
+const CLAUSE_BREAK = /[.;!?\n]|\b(?:but|however|although|though|except)\b/;
+
+// --- Analysis ---
+
+function clauses(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(CLAUSE_BREAK)
+    .map((clause) => clause?.trim())
+    .filter((clause): clause is string => !!clause);
+}
+
+function severityOf(clause: string): ConditionIssueSeverity {
+  if (MAJOR.test(clause)) return "major";
+  if (MINOR.test(clause)) return "minor";
+  return "moderate";
+}
+
+/**
+ * Issues mentioned in the text, and those ruled out by a negation earlier
+ * in the same clause.
+ */
+function findIssues(text: string): {
+  issues: ConditionIssue[];
+  ruledOut: ConditionIssueType[];
+} {
+  const issues = new Map<ConditionIssueType, ConditionIssue>();
+  const ruledOut = new Set<ConditionIssueType>();
+
+  for (const clause of clauses(text)) {
+    const negation = clause.match(NEGATION);
+    for (const [type, pattern] of ISSUE_PATTERNS) {
+      const match = clause.match(pattern);
+      if (!match || match.index === undefined) continue;
+
+      if (negation?.index !== undefined && negation.index < match.index) {
+        ruledOut.add(type);
+        continue;
+      }
+      // Keep the most severe mention of each issue
+      const issue: ConditionIssue = {
+        type,
+        severity: severityOf(clause),
+        excerpt: clause,
+      };
+      const existing = issues.get(type);
+      if (
+        !existing ||
+        SEVERITY_RANK[issue.severity] > SEVERITY_RANK[existing.severity]
+      ) {
+        issues.set(type, issue);
+      }
+    }
+  }
+
+  for (const type of issues.keys()) ruledOut.delete(type);
+  return { issues: [...issues.values()], ruledOut: [...ruledOut] };
+}
+
+// Words that only grade, so a negated "no restoration" isn't read as Fair
+const STATED_GRADE =
+  /\b(mint|as new|like new|unused|excellent|near mint|pristine|very good|good|fair|poor)\b/;
+
+/**
+ * A grade the listing states outright, from grade words in clauses that
+ * aren't negated.
+ */
+function statedGrade(text: string): ConditionGrade | undefined {
+  for (const clause of clauses(text)) {
+    const match = clause.match(STATED_GRADE);
+    if (!match) continue;
+    const negation = clause.match(NEGATION);
+    if (negation?.index !== undefined && negation.index < match.index!) {
+      continue;
+    }
+    const grade = parseConditionGrade(match[0]);
+    if (grade) return grade;
+  }
+  return undefined;
+}
+
+/**
+ * Grade implied by the issues found. Returns undefined when nothing was
+ * said either way.
+ */
+function inferGrade(
+  issues: ConditionIssue[],
+  ruledOut: ConditionIssueType[],
+): ConditionGrade | undefined {
+  if (issues.length === 0) {
+    return ruledOut.length > 0 ? "excellent" : undefined;
+  }
+  if (issues.some((i) => i.severity === "major" || i.type === "loss")) {
+    return "fair";
+  }
+  if (
+    issues.some(
+      (i) =>
+        i.type === "restoration" ||
+        i.type === "replaced-part" ||
+        i.type === "crack",
+    ) ||
+    issues.length >= 3
+  ) {
+    return "good";
+  }
+  return "very-good";
+}
+
+/**
+ * Analyze a condition description and report. Either may be missing.
+ */
+export function analyzeCondition(
+  condition: string | undefined,
+  notes?: string,
+): ConditionReport {
+  const text = [condition, notes].filter(Boolean).join(". ");
+  const { issues, ruledOut } = findIssues(text);
+  const stated = statedGrade(text);
+  const grade = stated ?? inferGrade(issues, ruledOut);
+
+  // A top grade alongside serious issues means the text disagrees with itself
+  const contradicted =
+    (stated === "mint" || stated === "excellent") &&
+    issues.some((i) => i.severity !== "minor");
+  const specific = issues.length > 0 || ruledOut.length > 0;
+  const confidence =
+    stated && specific && !contradicted
+      ? "high"
+      : grade && (stated || issues.length > 0)
+        ? "medium"
+        : "low";
+
+  return {
+    ...(grade && {
+      grade,
+      gradeLabel: CONDITION_LABELS[grade],
+      gradeSource: stated ? ("stated" as const) : ("inferred" as const),
+    }),
+    issues,
+    ruledOut,
+    confidence,
+  };
+}
+
+/**
+ * Condition report for an item, or undefined when the listing says nothing
+ * about condition.
+ */
+export function analyzeItemCondition(
+  item: Pick<UnifiedItem, "condition" | "conditionNotes">,
+): ConditionReport | undefined {
+  if (!item.condition?.trim() && !item.conditionNotes?.trim()) {
+    return undefined;
+  }
+  return analyzeCondition(item.condition, item.conditionNotes);
+}
@@ -0,0 +1,9 @@
+export {
+  analyzeCondition,
+  analyzeItemCondition,
+  CONDITION_ISSUE_LABELS,
+  type ConditionIssue,
+  type ConditionIssueSeverity,
+  type ConditionIssueType,
+  type ConditionReport,
+} from "./analysis";
@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateBuyersPremium,
+  calculateTotalCost,
+  calculateItemTotalCost,
+  resolveItemPrice,
+} from "../total-cost";
+import { getTaxRegion } from "../tax-regions";
+import type { UnifiedItem } from "@/lib/adapters/types";
+
+// --- Test Fixtures ---
+
+function makeItem(overrides: Partial<UnifiedItem> = {}): UnifiedItem {
+  return {
+    id: "liveauctioneers-123",
+    platformItemId: "123",
+    platform: "liveauctioneers",
+    url: "https://www.liveauctioneers.com/item/123",
+    title: "Art Deco Bronze Table Lamp",
+    description: "",
+    images: [],
+    category: [],
+    currentPrice: 1000,
+    currency: "USD",
+    auctionType: "timed",
+    seller: { name: "Rago Arts" },
+    ...overrides,
+  };
+}
+
+// --- calculateBuyersPremium ---
+
+describe("calculateBuyersPremium", () => {
+  it("applies a flat rate", () => {
+    expect(calculateBuyersPremium(1000, [{ rate: 0.25 }])).toBe(250);
+  });
+
+  it("applies tiers marginally", () => {
+    const tiers = [
+      { upTo: 1000, rate: 0.3 },
+      { upTo: 5000, rate: 0.25 },
+      { rate: 0.2 },
+    ];
+    // 1000 * 0.3 + 4000 * 0.25 + 1000 * 0.2
+    expect(calculateBuyersPremium(6000, tiers)).toBe(1500);
+    expect(calculateBuyersPremium(500, tiers)).toBe(150);
+  });
+
+  it("applies the top tier's rate above its bound", () => {
+    const tiers = [
+      { upTo: 1000, rate: 0.3 },
+      { upTo: 5000, rate: 0.25 },
+    ];
+    // 1000 * 0.3 + 4000 * 0.25 + 1000 * 0.25
+    expect(calculateBuyersPremium(6000, tiers)).toBe(1550);
+    expect(
+      calculateTotalCost({
+        hammerPrice: 6000,
+        currency: "USD",
+        premiumTiers: tiers,
+      }).lines[1].label,
+    ).toBe("Buyer's premium (30% up to 1,000, 25% above)");
+  });
+
+  it("rejects empty or unordered tiers", () => {
+    expect(() => calculateBuyersPremium(100, [])).toThrow(
+      "At least one premium tier is required",
+    );
+    expect(() =>
+      calculateBuyersPremium(100, [
+        { upTo: 500, rate: 0.3 },
+        { upTo: 200, rate: 0.2 },
+      ]),
+    ).toThrow("Premium tiers must be in ascending order");
+  });
+});
+
+// --- calculateTotalCost ---
+
+describe("calculateTotalCost", () => {
+  it("defaults to a 25% premium and notes the assumption", () => {
+    const result = calculateTotalCost({ hammerPrice: 1000, currency: "USD" });
+
+    expect(result.buyersPremium).toBe(250);
+    expect(result.total).toBe(1250);
+    expect(result.markup).toBeCloseTo(0.25);
+    expect(result.notes[0]).toContain("Assumes a typical 25%");
+    expect(result.notes).toContain("Shipping not included");
+  });
+
+  it("taxes hammer, premium and shipping where the region does", () => {
+    const result = calculateTotalCost({
+      hammerPrice: 1000,
+      currency: "USD",
+      premiumTiers: [{ rate: 0.2 }],
+      taxRegion: "us-ny",
+      shippingEstimate: 100,
+    });
+
+    // (1000 + 200 + 100) * 4%
+    expect(result.tax).toBe(52);
+    expect(result.total).toBe(1352);
+    expect(result.lines.map((l) => l.kind)).toEqual([
+      "hammer",
+      "premium",
+      "tax",
+      "shipping",
+    ]);
+  });
+
+  it("charges margin-scheme VAT on the premium only", () => {
+    const result = calculateTotalCost({
+      hammerPrice: 1000,
+      currency: "GBP",
+      premiumTiers: [{ rate: 0.25 }],
+      taxRegion: "GB",
+    });
+
+    expect(result.tax).toBe(50);
+    expect(result.notes).toContain(
+      "VAT charged on the premium only, under the margin scheme",
+    );
+  });
+
+  it("rejects unknown tax regions", () => {
+    expect(() =>
+      calculateTotalCost({
+        hammerPrice: 1000,
+        currency: "USD",
+        taxRegion: "XX",
+      }),
+    ).toThrow("Unknown tax region: XX");
+  });
+});
+
+// --- Items ---
+
+describe("resolveItemPrice", () => {
+  it("uses the current bid", () => {
+    expect(resolveItemPrice(makeItem()).hammerPrice).toBe(1000);
+  });
+
+  it("falls back to the low estimate when there are no bids", () => {
+    const item = makeItem({
+      currentPrice: 0,
+      estimateRange: { low: 600, high: 900 },
+    });
+    expect(resolveItemPrice(item)).toEqual({
+      hammerPrice: 600,
+      note: "No bids yet; based on the low estimate",
+    });
+  });
+});
+
+describe("calculateItemTotalCost", () => {
+  it("uses the item's price and currency and references the listing", () => {
+    const result = calculateItemTotalCost(makeItem({ currency: "EUR" }), {
+      taxRegion: "DE",
+    });
+
+    expect(result.currency).toBe("EUR");
+    expect(result.hammerPrice).toBe(1000);
+    expect(result.item).toEqual({
+      platform: "liveauctioneers",
+      itemId: "123",
+      title: "Art Deco Bronze Table Lamp",
+      url: "https://www.liveauctioneers.com/item/123",
+    });
+  });
+
+  it("estimates from a hypothetical hammer price", () => {
+    const result = calculateItemTotalCost(makeItem(), { hammerPrice: 2000 });
+    expect(result.total).toBe(2500);
+  });
+
+  it("omits the premium for buy-now listings", () => {
+    const result = calculateItemTotalCost(
+      makeItem({ auctionType: "buy-now", buyNowPrice: 1500 }),
+    );
+
+    expect(result.total).toBe(1500);
+    expect(result.lines.map((l) => l.kind)).toEqual(["hammer"]);
+    expect(result.notes).toContain("Fixed-price listing; no buyer's premium");
+  });
+});
+
+describe("getTaxRegion", () => {
+  it("looks up regions case-insensitively", () => {
+    expect(getTaxRegion(" us-ca ")?.name).toBe("California");
+    expect(getTaxRegion("ZZ")).toBeUndefined();
+  });
+});
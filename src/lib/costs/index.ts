@@ -0,0 +1,2 @@
+export * from "./tax-regions";
+export * from "./total-cost";
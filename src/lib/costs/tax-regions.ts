@@ -0,0 +1,126 @@
+/**
+ * Sales tax and VAT rates for common buyer locations.
+ * Rates are state/national base rates; local surcharges are not included.
+ */
+
+export type TaxableComponent = "hammer" | "premium" | "shipping";
+
+export interface TaxRegion {
+  code: string;
+  name: string;
+  rate: number;
+  /** Which parts of the purchase the tax is charged on */
+  appliesTo: TaxableComponent[];
+}
+
+const SALES_TAX: TaxableComponent[] = ["hammer", "premium"];
+const SALES_TAX_WITH_SHIPPING: TaxableComponent[] = [
+  "hammer",
+  "premium",
+  "shipping",
+];
+// Auction houses in the UK and EU usually sell under the margin scheme,
+// where VAT is charged on the premium rather than the hammer price
+const MARGIN_SCHEME_VAT: TaxableComponent[] = ["premium"];
+
+export const TAX_REGIONS: Record<string, TaxRegion> = {
+  "US-CA": {
+    code: "US-CA",
+    name: "California",
+    rate: 0.0725,
+    appliesTo: SALES_TAX,
+  },
+  "US-FL": {
+    code: "US-FL",
+    name: "Florida",
+    rate: 0.06,
+    appliesTo: SALES_TAX_WITH_SHIPPING,
+  },
+  "US-IL": {
+    code: "US-IL",
+    name: "Illinois",
+    rate: 0.0625,
+    appliesTo: SALES_TAX,
+  },
+  "US-MA": {
+    code: "US-MA",
+    name: "Massachusetts",
+    rate: 0.0625,
+    appliesTo: SALES_TAX,
+  },
+  "US-NJ": {
+    code: "US-NJ",
+    name: "New Jersey",
+    rate: 0.06625,
+    appliesTo: SALES_TAX_WITH_SHIPPING,
+  },
+  "US-NY": {
+    code: "US-NY",
+    name: "New York",
+    rate: 0.04,
+    appliesTo: SALES_TAX_WITH_SHIPPING,
+  },
+  "US-PA": {
+    code: "US-PA",
+    name: "Pennsylvania",
+    rate: 0.06,
+    appliesTo: SALES_TAX_WITH_SHIPPING,
+  },
+  "US-TX": {
+    code: "US-TX",
+    name: "Texas",
+    rate: 0.0625,
+    appliesTo: SALES_TAX_WITH_SHIPPING,
+  },
+  "US-WA": {
+    code: "US-WA",
+    name: "Washington",
+    rate: 0.065,
+    appliesTo: SALES_TAX_WITH_SHIPPING,
+  },
+  "US-DE": { code: "US-DE", name: "Delaware", rate: 0, appliesTo: [] },
+  "US-MT": { code: "US-MT", name: "Montana", rate: 0, appliesTo: [] },
+  "US-NH": { code: "US-NH", name: "New Hampshire", rate: 0, appliesTo: [] },
+  "US-OR": { code: "US-OR", name: "Oregon", rate: 0, appliesTo: [] },
+  "CA-ON": {
+    code: "CA-ON",
+    name: "Ontario",
+    rate: 0.13,
+    appliesTo: SALES_TAX_WITH_SHIPPING,
+  },
+  "CA-BC": {
+    code: "CA-BC",
+    name: "British Columbia",
+    rate: 0.12,
+    appliesTo: SALES_TAX_WITH_SHIPPING,
+  },
+  GB: {
+    code: "GB",
+    name: "United Kingdom",
+    rate: 0.2,
+    appliesTo: MARGIN_SCHEME_VAT,
+  },
+  FR: { code: "FR", name: "France", rate: 0.2, appliesTo: MARGIN_SCHEME_VAT },
+  DE: { code: "DE", name: "Germany", rate: 0.19, appliesTo: MARGIN_SCHEME_VAT },
+  IT: { code: "IT", name: "Italy", rate: 0.22, appliesTo: MARGIN_SCHEME_VAT },
+  NL: {
+    code: "NL",
+    name: "Netherlands",
+    rate: 0.21,
+    appliesTo: MARGIN_SCHEME_VAT,
+  },
+};
+
+/**
+ * Look up a tax region by code (case-insensitive, e.g. "us-ny").
+ */
+export function getTaxRegion(code: string): TaxRegion | undefined {
+  return TAX_REGIONS[code.trim().toUpperCase()];
+}
+
+/**
+ * All supported region codes, for tool descriptions.
+ */
+export function listTaxRegionCodes(): string[] {
+  return Object.keys(TAX_REGIONS);
+}
@@ -0,0 +1,250 @@
+/**
+ * Total cost of winning an auction lot: hammer price plus buyer's premium,
+ * tax and shipping. Pure functions so the same math serves the agent tool
+ * and any UI that needs an estimate.
+ */
+
+import type { UnifiedItem } from "@/lib/adapters/types";
+import { getTaxRegion, type TaxableComponent } from "./tax-regions";
+
+// --- Types ---
+
+/**
+ * One band of a tiered buyer's premium. Tiers are marginal, like tax
+ * brackets: `rate` applies to the part of the hammer price below `upTo`.
+ * The last tier's rate also applies above its `upTo`.
+ */
+export interface PremiumTier {
+  /** Upper bound of this band; omit on the last tier */
+  upTo?: number;
+  rate: number;
+}
+
+export interface TotalCostInput {
+  hammerPrice: number;
+  currency: string;
+  /** Default: DEFAULT_PREMIUM_TIERS */
+  premiumTiers?: PremiumTier[];
+  /** Tax region code such as "US-NY" or "GB". Omit to leave tax out. */
+  taxRegion?: string;
+  shippingEstimate?: number;
+}
+
+export type CostLineKind = "hammer" | "premium" | "tax" | "shipping";
+
+export interface CostLine {
+  kind: CostLineKind;
+  label: string;
+  amount: number;
+  /** Rate applied, for premium and tax lines */
+  rate?: number;
+}
+
+export interface TotalCostBreakdown {
+  currency: string;
+  hammerPrice: number;
+  buyersPremium: number;
+  tax: number;
+  shipping: number;
+  total: number;
+  /** Total as a fraction above the hammer price (0.3 = 30% more) */
+  markup: number;
+  lines: CostLine[];
+  /** Assumptions the estimate rests on, for display */
+  notes: string[];
+  /** The listing the estimate is for, when calculated from an item */
+  item?: { platform: string; itemId: string; title: string; url: string };
+}
+
+// --- Configuration ---
+
+/** Typical buyer's premium when the auction house's terms are unknown. */
+export const DEFAULT_PREMIUM_TIERS: PremiumTier[] = [{ rate: 0.25 }];
+
+// --- Calculation ---
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Buyer's premium for a hammer price under marginal tiers.
+ * @throws Error if tiers are empty or not in ascending order
+ */
+export function calculateBuyersPremium(
+  hammerPrice: number,
+  tiers: PremiumTier[],
+): number {
+  if (tiers.length === 0) {
+    throw new Error("At least one premium tier is required");
+  }
+
+  let premium = 0;
+  let lowerBound = 0;
+  for (const [index, tier] of tiers.entries()) {
+    const upperBound = tier.upTo ?? Infinity;
+    if (upperBound <= lowerBound) {
+      throw new Error("Premium tiers must be in ascending order");
+    }
+    // Nothing above the top tier goes uncharged
+    const isLast = index === tiers.length - 1;
+    const band =
+      Math.min(hammerPrice, isLast ? Infinity : upperBound) - lowerBound;
+    if (band <= 0) break;
+    premium += band * tier.rate;
+    lowerBound = upperBound;
+  }
+  return roundCents(premium);
+}
+
+function describeTiers(tiers: PremiumTier[]): string {
+  if (tiers.length === 1) return formatRate(tiers[0].rate);
+  return tiers
+    .map((tier, index) =>
+      tier.upTo !== undefined && index < tiers.length - 1
+        ? `${formatRate(tier.rate)} up to ${tier.upTo.toLocaleString()}`
+        : `${formatRate(tier.rate)} above`,
+    )
+    .join(", ");
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 10000) / 100}%`;
+}
+
+/**
+ * Itemized total cost for a hammer price.
+ * @throws Error for unknown tax regions or invalid premium tiers
+ */
+export function calculateTotalCost(input: TotalCostInput): TotalCostBreakdown {
+  const { hammerPrice, currency } = input;
+  const tiers = input.premiumTiers ?? DEFAULT_PREMIUM_TIERS;
+  const shipping = roundCents(input.shippingEstimate ?? 0);
+  const notes: string[] = [];
+
+  const buyersPremium = calculateBuyersPremium(hammerPrice, tiers);
+  if (!input.premiumTiers) {
+    notes.push(
+      `Assumes a typical ${describeTiers(tiers)} buyer's premium; check the auction house's terms`,
+    );
+  }
+
+  const lines: CostLine[] = [
+    { kind: "hammer", label: "Hammer price", amount: roundCents(hammerPrice) },
+    {
+      kind: "premium",
+      label: `Buyer's premium (${describeTiers(tiers)})`,
+      amount: buyersPremium,
+      rate: tiers.length === 1 ? tiers[0].rate : undefined,
+    },
+  ];
+
+  let tax = 0;
+  if (input.taxRegion) {
+    const region = getTaxRegion(input.taxRegion);
+    if (!region) {
+      throw new Error(`Unknown tax region: ${input.taxRegion}`);
+    }
+    const amounts: Record<TaxableComponent, number> = {
+      hammer: hammerPrice,
+      premium: buyersPremium,
+      shipping,
+    };
+    const taxable = region.appliesTo.reduce(
+      (sum, component) => sum + amounts[component],
+      0,
+    );
+    tax = roundCents(taxable * region.rate);
+    lines.push({
+      kind: "tax",
+      label: `Tax (${region.name}, ${formatRate(region.rate)})`,
+      amount: tax,
+      rate: region.rate,
+    });
+    if (region.appliesTo.length === 1 && region.appliesTo[0] === "premium") {
+      notes.push("VAT charged on the premium only, under the margin scheme");
+    }
+  } else {
+    notes.push("Tax not included; provide a tax region to estimate it");
+  }
+
+  if (input.shippingEstimate !== undefined) {
+    lines.push({ kind: "shipping", label: "Shipping", amount: shipping });
+  } else {
+    notes.push("Shipping not included");
+  }
+
+  const total = roundCents(hammerPrice + buyersPremium + tax + shipping);
+  return {
+    currency,
+    hammerPrice: roundCents(hammerPrice),
+    buyersPremium,
+    tax,
+    shipping,
+    total,
+    markup: hammerPrice > 0 ? (total - hammerPrice) / hammerPrice : 0,
+    lines,
+    notes,
+  };
+}
+
+/**
+ * Hammer price to estimate from for an item, and a note when it is not
+ * the current bid. Buy-now listings have no premium by default.
+ */
+export function resolveItemPrice(item: UnifiedItem): {
+  hammerPrice: number;
+  note?: string;
+} {
+  if (item.auctionType === "buy-now") {
+    return { hammerPrice: item.buyNowPrice ?? item.currentPrice };
+  }
+  if (item.currentPrice > 0) {
+    return { hammerPrice: item.currentPrice, note: "Based on the current bid" };
+  }
+  if (item.estimateRange) {
+    return {
+      hammerPrice: item.estimateRange.low,
+      note: "No bids yet; based on the low estimate",
+    };
+  }
+  return { hammerPrice: 0, note: "No bids or estimate available" };
+}
+
+/**
+ * Itemized total cost for an item, optionally at a hypothetical hammer price
+ * in the item's currency. Buy-now listings default to no buyer's premium.
+ */
+export function calculateItemTotalCost(
+  item: UnifiedItem,
+  options: Omit<TotalCostInput, "hammerPrice" | "currency"> & {
+    hammerPrice?: number;
+  } = {},
+): TotalCostBreakdown {
+  const { hammerPrice, note } =
+    options.hammerPrice !== undefined
+      ? { hammerPrice: options.hammerPrice, note: undefined }
+      : resolveItemPrice(item);
+  const premiumTiers =
+    options.premiumTiers ??
+    (item.auctionType === "buy-now" ? [{ rate: 0 }] : undefined);
+
+  const breakdown = calculateTotalCost({
+    ...options,
+    hammerPrice,
+    currency: item.currency,
+    premiumTiers,
+  });
+  if (item.auctionType === "buy-now" && !options.premiumTiers) {
+    breakdown.lines = breakdown.lines.filter((line) => line.kind !== "premium");
+    breakdown.notes.unshift("Fixed-price listing; no buyer's premium");
+  }
+  if (note) breakdown.notes.unshift(note);
+  breakdown.item = {
+    platform: item.platform,
+    itemId: item.platformItemId,
+    title: item.title,
+    url: item.url,
+  };
+  return breakdown;
+}
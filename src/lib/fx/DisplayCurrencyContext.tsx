@@ -0,0 +1,90 @@
+"use client";
+
+/**
+ * React context for the user's display-currency preference.
+ * Persists selection to localStorage. Without a preference, prices are
+ * shown in the currency the platform listed them in.
+ */
+
+import {
+  createContext,
+  useContext,
+  useSyncExternalStore,
+  useCallback,
+  type ReactNode,
+} from "react";
+import { isSupportedCurrency, normalizeCurrencyCode } from "./convert";
+
+const STORAGE_KEY = "apprAIser:displayCurrency";
+
+interface DisplayCurrencyContextValue {
+  /** Preferred currency code, or null to show original currencies */
+  displayCurrency: string | null;
+  setDisplayCurrency: (currency: string | null) => void;
+}
+
+// Components outside the provider (e.g. in isolation) show original currencies
+const DisplayCurrencyContext = createContext<DisplayCurrencyContextValue>({
+  displayCurrency: null,
+  setDisplayCurrency: () => {},
+});
+
+function getStoredCurrency(): string | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored && isSupportedCurrency(stored)
+    ? normalizeCurrencyCode(stored)
+    : null;
+}
+
+// For SSR, always show original currencies
+function getServerSnapshot(): string | null {
+  return null;
+}
+
+// Track subscriptions for storage changes
+let listeners: Array<() => void> = [];
+
+function subscribe(listener: () => void) {
+  listeners = [...listeners, listener];
+  return () => {
+    listeners = listeners.filter((l) => l !== listener);
+  };
+}
+
+function notifyListeners() {
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+export function DisplayCurrencyProvider({ children }: { children: ReactNode }) {
+  const displayCurrency = useSyncExternalStore(
+    subscribe,
+    getStoredCurrency,
+    getServerSnapshot,
+  );
+
+  const setDisplayCurrency = useCallback((currency: string | null) => {
+    if (currency && isSupportedCurrency(currency)) {
+      localStorage.setItem(STORAGE_KEY, normalizeCurrencyCode(currency));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    notifyListeners();
+  }, []);
+
+  return (
+    <DisplayCurrencyContext.Provider
+      value={{ displayCurrency, setDisplayCurrency }}
+    >
+      {children}
+    </DisplayCurrencyContext.Provider>
+  );
+}
+
+export function useDisplayCurrency(): DisplayCurrencyContextValue {
+  return useContext(DisplayCurrencyContext);
+}
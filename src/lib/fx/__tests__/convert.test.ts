@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  convertAmount,
+  formatAmount,
+  getConversionRate,
+  isSupportedCurrency,
+  normalizeCurrencyCode,
+} from "../convert";
+import type { ExchangeRates } from "../types";
+
+const rates: ExchangeRates = {
+  base: "USD",
+  asOf: "2026-01-01",
+  rates: { USD: 1, GBP: 0.8, EUR: 0.9 },
+};
+
+describe("normalizeCurrencyCode", () => {
+  it("trims and uppercases", () => {
+    expect(normalizeCurrencyCode(" gbp ")).toBe("GBP");
+  });
+});
+
+describe("isSupportedCurrency", () => {
+  it("checks the rate table", () => {
+    expect(isSupportedCurrency("eur", rates)).toBe(true);
+    expect(isSupportedCurrency("XYZ", rates)).toBe(false);
+  });
+
+  it("defaults to the bundled table", () => {
+    expect(isSupportedCurrency("GBP")).toBe(true);
+  });
+});
+
+describe("getConversionRate", () => {
+  it("is 1 for the same currency, even if unknown", () => {
+    expect(getConversionRate("XYZ", "xyz", rates)).toBe(1);
+  });
+
+  it("converts from the base currency", () => {
+    expect(getConversionRate("USD", "GBP", rates)).toBe(0.8);
+  });
+
+  it("converts between two non-base currencies", () => {
+    expect(getConversionRate("GBP", "EUR", rates)).toBeCloseTo(1.125);
+  });
+
+  it("is undefined for unknown currencies", () => {
+    expect(getConversionRate("GBP", "XYZ", rates)).toBeUndefined();
+  });
+});
+
+describe("convertAmount", () => {
+  it("applies the conversion rate", () => {
+    expect(convertAmount(800, "GBP", "USD", rates)).toBeCloseTo(1000);
+  });
+
+  it("is undefined for unknown currencies", () => {
+    expect(convertAmount(800, "XYZ", "USD", rates)).toBeUndefined();
+  });
+});
+
+describe("formatAmount", () => {
+  it("formats whole amounts in the currency", () => {
+    expect(formatAmount(1200.4, "USD")).toBe("$1,200");
+    expect(formatAmount(950, "GBP")).toBe("£950");
+  });
+
+  it("falls back to the code for invalid currencies", () => {
+    expect(formatAmount(800, "not a code")).toBe("800 not a code");
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from "vitest";
+import { FxService } from "../server";
+import { STATIC_RATES } from "../rates";
+import type { ExchangeRates, RateSource } from "../types";
+import type { SearchResult, UnifiedItem } from "@/lib/adapters/types";
+import { MockLogger } from "@/lib/logging/mock";
+
+// --- Test Fixtures ---
+
+const rates: ExchangeRates = {
+  base: "USD",
+  asOf: "2026-01-01",
+  rates: { USD: 1, GBP: 0.8 },
+};
+
+function makeSource(getRates = vi.fn().mockResolvedValue(rates)) {
+  return { name: "test", getRates } satisfies RateSource;
+}
+
+function makeResult(overrides: Partial<SearchResult> = {}): SearchResult {
+  return {
+    platform: "liveauctioneers",
+    itemId: "1",
+    title: "Georgian Silver Teapot",
+    currentPrice: 800,
+    currency: "GBP",
+    imageUrl: "https://example.com/1.jpg",
+    url: "https://example.com/1",
+    ...overrides,
+  };
+}
+
+// --- getRates ---
+
+describe("FxService.getRates", () => {
+  it("caches rates for the TTL", async () => {
+    let now = 0;
+    const source = makeSource();
+    const fx = new FxService({
+      source,
+      ttlMs: 1000,
+      now: () => now,
+      log: new MockLogger(),
+    });
+
+    await fx.getRates();
+    now = 999;
+    await fx.getRates();
+    expect(source.getRates).toHaveBeenCalledTimes(1);
+
+    now = 1000;
+    await fx.getRates();
+    expect(source.getRates).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to bundled rates when the source fails", async () => {
+    const log = new MockLogger();
+    const source = makeSource(vi.fn().mockRejectedValue(new Error("offline")));
+    const fx = new FxService({ source, log });
+
+    expect(await fx.getRates()).toBe(STATIC_RATES);
+    expect(log.hasLog("warn", "Rate source failed, using bundled rates")).toBe(
+      true,
+    );
+
+    // The fallback is not cached, so the source is retried
+    await fx.getRates();
+    expect(source.getRates).toHaveBeenCalledTimes(2);
+  });
+
+  it("uses the bundled table by default", async () => {
+    const fx = new FxService({ log: new MockLogger() });
+    expect(await fx.getRates()).toBe(STATIC_RATES);
+  });
+});
+
+// --- Conversion ---
+
+describe("FxService conversion", () => {
+  const fx = new FxService({ source: makeSource(), log: new MockLogger() });
+
+  it("converts amounts to the base currency by default", async () => {
+    expect(await fx.convert(800, "GBP")).toBeCloseTo(1000);
+  });
+
+  it("attaches converted prices while keeping the originals", async () => {
+    const [result] = await fx.convertResults([makeResult({ soldPrice: 400 })]);
+
+    expect(result.currentPrice).toBe(800);
+    expect(result.currency).toBe("GBP");
+    expect(result.converted).toEqual({
+      currency: "USD",
+      currentPrice: 1000,
+      soldPrice: 500,
+      estimateRange: undefined,
+      rate: 1.25,
+      ratesAsOf: "2026-01-01",
+    });
+  });
+
+  it("leaves results already in the target currency unchanged", async () => {
+    const usd = makeResult({ currency: "USD" });
+    const [result] = await fx.convertResults([usd]);
+    expect(result).toBe(usd);
+  });
+
+  it("leaves results in unsupported currencies unchanged", async () => {
+    const [result] = await fx.convertResults([makeResult({ currency: "XYZ" })]);
+    expect(result.converted).toBeUndefined();
+  });
+
+  it("converts item estimates", async () => {
+    const item = {
+      currentPrice: 80,
+      currency: "GBP",
+      estimateRange: { low: 400, high: 800 },
+    } as UnifiedItem;
+
+    const converted = await fx.convertItem(item);
+    expect(converted.converted?.estimateRange).toEqual({
+      low: 500,
+      high: 1000,
+    });
+  });
+});
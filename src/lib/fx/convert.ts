@@ -0,0 +1,72 @@
+/**
+ * Pure currency conversion helpers. Safe to use on the client.
+ */
+
+import type { ExchangeRates } from "./types";
+import { STATIC_RATES } from "./rates";
+
+/**
+ * Normalize a currency code for lookup (e.g. " gbp" → "GBP").
+ */
+export function normalizeCurrencyCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Whether the rate table can convert from or to this currency.
+ */
+export function isSupportedCurrency(
+  code: string,
+  rates: ExchangeRates = STATIC_RATES,
+): boolean {
+  return normalizeCurrencyCode(code) in rates.rates;
+}
+
+/**
+ * Rate to multiply an amount in `from` by to get `to`.
+ * Returns undefined when either currency is not in the table.
+ */
+export function getConversionRate(
+  from: string,
+  to: string,
+  rates: ExchangeRates = STATIC_RATES,
+): number | undefined {
+  const fromCode = normalizeCurrencyCode(from);
+  const toCode = normalizeCurrencyCode(to);
+  if (fromCode === toCode) return 1;
+
+  const fromRate = rates.rates[fromCode];
+  const toRate = rates.rates[toCode];
+  if (!fromRate || !toRate) return undefined;
+  return toRate / fromRate;
+}
+
+/**
+ * Convert an amount between currencies.
+ * Returns undefined when either currency is not in the table.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRates = STATIC_RATES,
+): number | undefined {
+  const rate = getConversionRate(from, to, rates);
+  return rate === undefined ? undefined : amount * rate;
+}
+
+/**
+ * Format a whole amount in its currency (e.g. "$1,200", "£950"), falling
+ * back to "1200 XYZ" for codes Intl doesn't know.
+ */
+export function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Currency conversion.
+ * Re-exports client-safe helpers and the display-currency preference.
+ * For the server FX service, import from "@/lib/fx/server" directly.
+ */
+
+export type { ExchangeRates, RateSource } from "./types";
+export { BASE_CURRENCY, STATIC_RATES, StaticRateSource } from "./rates";
+export {
+  normalizeCurrencyCode,
+  isSupportedCurrency,
+  getConversionRate,
+  convertAmount,
+  formatAmount,
+} from "./convert";
+export {
+  DisplayCurrencyProvider,
+  useDisplayCurrency,
+} from "./DisplayCurrencyContext";
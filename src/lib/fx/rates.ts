@@ -0,0 +1,44 @@
+/**
+ * Bundled exchange rates, used offline and as the fallback rate source.
+ * Refresh periodically; rates only need to be close enough to compare
+ * prices and give approximate conversions.
+ */
+
+import type { ExchangeRates, RateSource } from "./types";
+
+/** Currency prices are normalized to before valuation and sorting. */
+export const BASE_CURRENCY = "USD";
+
+/** Units of each currency per 1 USD. */
+export const STATIC_RATES: ExchangeRates = {
+  base: BASE_CURRENCY,
+  asOf: "2026-09-30",
+  rates: {
+    USD: 1,
+    EUR: 0.926,
+    GBP: 0.787,
+    CAD: 1.37,
+    AUD: 1.515,
+    CHF: 0.893,
+    JPY: 149.3,
+    CNY: 7.21,
+    HKD: 7.81,
+    SEK: 10.6,
+    DKK: 6.91,
+    NOK: 10.8,
+    NZD: 1.65,
+    SGD: 1.35,
+    MXN: 17.9,
+  },
+};
+
+/**
+ * Rate source backed by the bundled table.
+ */
+export class StaticRateSource implements RateSource {
+  readonly name = "static";
+
+  async getRates(): Promise<ExchangeRates> {
+    return STATIC_RATES;
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Server-side FX service.
+ * Caches rates from the configured source and falls back to the bundled
+ * table when the source fails, so conversion never blocks a search.
+ */
+
+import type {
+  ConvertedPrice,
+  SearchResult,
+  UnifiedItem,
+} from "@/lib/adapters/types";
+import type { ILogger } from "@/lib/logging/types";
+import { serverLoggerFactory } from "@/lib/logging/server";
+import type { ExchangeRates, RateSource } from "./types";
+import { BASE_CURRENCY, STATIC_RATES, StaticRateSource } from "./rates";
+import { getConversionRate, normalizeCurrencyCode } from "./convert";
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export interface FxServiceConfig {
+  /** Where rates come from. Default: bundled static table */
+  source?: RateSource;
+  /** How long fetched rates are reused. Default: 1 hour */
+  ttlMs?: number;
+  /** Clock override for testing */
+  now?: () => number;
+  /** Optional logger for testing. If not provided, uses serverLoggerFactory. */
+  log?: ILogger;
+}
+
+export class FxService {
+  private readonly source: RateSource;
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+  private readonly log: ILogger;
+  private cached: { rates: ExchangeRates; expiresAt: number } | null = null;
+
+  constructor(config: FxServiceConfig = {}) {
+    this.source = config.source ?? new StaticRateSource();
+    this.ttlMs = config.ttlMs ?? DEFAULT_TTL_MS;
+    this.now = config.now ?? Date.now;
+    this.log =
+      config.log ??
+      serverLoggerFactory.create({
+        distinctId: "system",
+        component: "fx",
+      });
+  }
+
+  /**
+   * Current rates. Uses the bundled table if the source fails,
+   * without caching the fallback so the next call retries.
+   */
+  async getRates(): Promise<ExchangeRates> {
+    if (this.cached && this.cached.expiresAt > this.now()) {
+      return this.cached.rates;
+    }
+
+    try {
+      const rates = await this.source.getRates();
+      this.cached = { rates, expiresAt: this.now() + this.ttlMs };
+      return rates;
+    } catch (error) {
+      this.log.warn("Rate source failed, using bundled rates", {
+        source: this.source.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return STATIC_RATES;
+    }
+  }
+
+  /**
+   * Convert an amount. Returns undefined for unsupported currencies.
+   */
+  async convert(
+    amount: number,
+    from: string,
+    to: string = BASE_CURRENCY,
+  ): Promise<number | undefined> {
+    const rates = await this.getRates();
+    const rate = getConversionRate(from, to, rates);
+    return rate === undefined ? undefined : amount * rate;
+  }
+
+  /**
+   * Attach converted prices to search results.
+   * Results already in the target currency or in unsupported currencies
+   * are returned unchanged.
+   */
+  async convertResults(
+    results: SearchResult[],
+    to: string = BASE_CURRENCY,
+  ): Promise<SearchResult[]> {
+    if (results.length === 0) return results;
+    const rates = await this.getRates();
+
+    return results.map((result) => {
+      if (isSameCurrency(result.currency, to)) return result;
+      const converted = buildConvertedPrice(result, to, rates);
+      if (!converted) {
+        this.log.debug("Unsupported currency", {
+          currency: result.currency,
+          platform: result.platform,
+        });
+        return result;
+      }
+      return { ...result, converted };
+    });
+  }
+
+  /**
+   * Attach converted prices to an item.
+   * Items already in the target currency or in unsupported currencies
+   * are returned unchanged.
+   */
+  async convertItem(
+    item: UnifiedItem,
+    to: string = BASE_CURRENCY,
+  ): Promise<UnifiedItem> {
+    if (isSameCurrency(item.currency, to)) return item;
+    const rates = await this.getRates();
+    const converted = buildConvertedPrice(item, to, rates);
+    return converted ? { ...item, converted } : item;
+  }
+}
+
+// --- Helpers ---
+
+function isSameCurrency(a: string, b: string): boolean {
+  return normalizeCurrencyCode(a) === normalizeCurrencyCode(b);
+}
+
+function buildConvertedPrice(
+  priced: {
+    currentPrice: number;
+    currency: string;
+    soldPrice?: number;
+    estimateRange?: { low: number; high: number };
+  },
+  to: string,
+  rates: ExchangeRates,
+): ConvertedPrice | undefined {
+  const rate = getConversionRate(priced.currency, to, rates);
+  if (rate === undefined) return undefined;
+
+  const convert = (amount: number) => Math.round(amount * rate * 100) / 100;
+
+  return {
+    currency: to,
+    currentPrice: convert(priced.currentPrice),
+    soldPrice:
+      priced.soldPrice !== undefined ? convert(priced.soldPrice) : undefined,
+    estimateRange: priced.estimateRange
+      ? {
+          low: convert(priced.estimateRange.low),
+          high: convert(priced.estimateRange.high),
+        }
+      : undefined,
+    rate,
+    ratesAsOf: rates.asOf,
+  };
+}
+
+/** Shared service used by the agent tools. */
+export const fxService = new FxService();
@@ -0,0 +1,23 @@
+/**
+ * Types for currency conversion.
+ */
+
+/**
+ * A table of exchange rates against a base currency.
+ * `rates[code]` is how many units of `code` one unit of `base` buys.
+ */
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+  /** ISO date the rates were published */
+  asOf: string;
+}
+
+/**
+ * Provider of exchange rates. Implementations may fetch from a remote API;
+ * the bundled static table is used when none is configured or a fetch fails.
+ */
+export interface RateSource {
+  readonly name: string;
+  getRates(): Promise<ExchangeRates>;
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import {
+  adjustForInflation,
+  adjustResultsForInflation,
+  getInflationFactor,
+  latestIndexYear,
+} from "../adjust";
+import { US_CPI, type PriceIndex } from "../cpi";
+import type { SearchResult } from "@/lib/adapters/types";
+
+const index: PriceIndex = {
+  name: "Test CPI",
+  currency: "USD",
+  values: { 2015: 100, 2020: 120, 2024: 150 },
+};
+
+const NOW = new Date("2024-06-01T00:00:00Z").getTime();
+
+function sold(overrides: Partial<SearchResult> = {}): SearchResult {
+  return {
+    platform: "liveauctioneers",
+    itemId: "1",
+    title: "Lamp",
+    currentPrice: 1000,
+    currency: "USD",
+    imageUrl: "https://example.com/1.jpg",
+    url: "https://example.com/1",
+    status: "sold",
+    soldPrice: 1000,
+    soldDate: new Date("2015-03-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("latestIndexYear", () => {
+  it("returns the most recent year in the table", () => {
+    expect(latestIndexYear(index)).toBe(2024);
+    expect(US_CPI.values[latestIndexYear()]).toBeDefined();
+  });
+});
+
+describe("getInflationFactor", () => {
+  it("divides the later index by the earlier one", () => {
+    expect(getInflationFactor(2015, 2024, index)).toBe(1.5);
+    expect(getInflationFactor(2020, 2020, index)).toBe(1);
+  });
+
+  it("treats years after the table as its latest year", () => {
+    expect(getInflationFactor(2015, 2030, index)).toBe(1.5);
+  });
+
+  it("returns undefined for years missing from the table", () => {
+    expect(getInflationFactor(1980, 2024, index)).toBeUndefined();
+    expect(getInflationFactor(2016, 2024, index)).toBeUndefined();
+  });
+});
+
+describe("adjustForInflation", () => {
+  it("restates a price in the current year's money", () => {
+    expect(adjustForInflation(1000, "2015-03-01", { index, now: NOW })).toEqual(
+      {
+        adjustedPrice: 1500,
+        factor: 1.5,
+        fromYear: 2015,
+        toYear: 2024,
+        index: "Test CPI",
+      },
+    );
+  });
+
+  it("leaves sales from the latest index year unchanged", () => {
+    const later = new Date("2026-01-01T00:00:00Z").getTime();
+    expect(
+      adjustForInflation(1000, "2025-05-01", { index, now: later })?.factor,
+    ).toBe(1);
+  });
+
+  it("returns undefined without a usable sale date", () => {
+    expect(adjustForInflation(1000, undefined, { index })).toBeUndefined();
+    expect(adjustForInflation(1000, "not a date", { index })).toBeUndefined();
+  });
+
+  it("uses the bundled CPI by default", () => {
+    const adjustment = adjustForInflation(1000, "2015-03-01");
+    expect(adjustment?.index).toBe("US CPI-U");
+    expect(adjustment?.adjustedPrice).toBeGreaterThan(1000);
+  });
+});
+
+describe("adjustResultsForInflation", () => {
+  it("attaches the adjusted sold price", () => {
+    const [result] = adjustResultsForInflation([sold()], { index, now: NOW });
+
+    expect(result.soldPrice).toBe(1000);
+    expect(result.inflationAdjusted).toEqual({
+      currency: "USD",
+      soldPrice: 1500,
+      factor: 1.5,
+      fromYear: 2015,
+      toYear: 2024,
+      index: "Test CPI",
+    });
+  });
+
+  it("uses the converted price for other currencies", () => {
+    const [result] = adjustResultsForInflation(
+      [
+        sold({
+          currency: "GBP",
+          soldPrice: 800,
+          converted: {
+            currency: "USD",
+            currentPrice: 1000,
+            soldPrice: 1000,
+            rate: 1.25,
+            ratesAsOf: "2024-01-01",
+          },
+        }),
+      ],
+      { index, now: NOW },
+    );
+
+    expect(result.inflationAdjusted?.soldPrice).toBe(1500);
+  });
+
+  it("skips results without a sold price, date or index-currency price", () => {
+    const results = [
+      sold({ soldPrice: undefined }),
+      sold({ soldDate: undefined }),
+      sold({ currency: "GBP" }),
+    ];
+
+    expect(adjustResultsForInflation(results, { index, now: NOW })).toEqual(
+      results,
+    );
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Inflation adjustment for historical sale prices.
+ */
+
+import type { SearchResult } from "@/lib/adapters/types";
+import { normalizeCurrencyCode } from "@/lib/fx/convert";
+import { US_CPI, type PriceIndex } from "./cpi";
+
+/**
+ * A price restated in a later year's money.
+ */
+export interface InflationAdjustment {
+  /** Nominal price multiplied by `factor`, rounded to whole units */
+  adjustedPrice: number;
+  factor: number;
+  /** Year of the sale */
+  fromYear: number;
+  /** Year whose money the adjusted price is expressed in */
+  toYear: number;
+  /** Name of the price index used */
+  index: string;
+}
+
+export interface InflationOptions {
+  index?: PriceIndex;
+  /** Clock override for testing */
+  now?: number;
+}
+
+function indexYears(index: PriceIndex): number[] {
+  return Object.keys(index.values)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Most recent year with a published index value.
+ */
+export function latestIndexYear(index: PriceIndex = US_CPI): number {
+  const years = indexYears(index);
+  return years[years.length - 1];
+}
+
+/**
+ * Ratio of the index in `toYear` to the index in `fromYear`.
+ * Years after the table are treated as its latest year; years before it
+ * return undefined.
+ */
+export function getInflationFactor(
+  fromYear: number,
+  toYear: number,
+  index: PriceIndex = US_CPI,
+): number | undefined {
+  const latest = latestIndexYear(index);
+  const from = index.values[Math.min(fromYear, latest)];
+  const to = index.values[Math.min(toYear, latest)];
+  if (from === undefined || to === undefined) return undefined;
+  return to / from;
+}
+
+/**
+ * Restate a sale price in today's money.
+ * Returns undefined when the sale date is missing or invalid, or falls
+ * outside the index table.
+ */
+export function adjustForInflation(
+  price: number,
+  soldDate: string | Date | undefined,
+  options: InflationOptions = {},
+): InflationAdjustment | undefined {
+  if (!soldDate) return undefined;
+  const date = new Date(soldDate);
+  if (Number.isNaN(date.getTime())) return undefined;
+
+  const index = options.index ?? US_CPI;
+  const latest = latestIndexYear(index);
+  const fromYear = Math.min(date.getUTCFullYear(), latest);
+  const toYear = Math.min(
+    new Date(options.now ?? Date.now()).getUTCFullYear(),
+    latest,
+  );
+  const factor = getInflationFactor(fromYear, toYear, index);
+  if (factor === undefined) return undefined;
+
+  return {
+    adjustedPrice: Math.round(price * factor),
+    factor: Math.round(factor * 10000) / 10000,
+    fromYear,
+    toYear,
+    index: index.name,
+  };
+}
+
+/**
+ * Sold price in the index currency, using the converted price for
+ * listings in other currencies.
+ */
+function soldPriceInIndexCurrency(
+  result: SearchResult,
+  currency: string,
+): number | undefined {
+  if (normalizeCurrencyCode(result.currency) === currency) {
+    return result.soldPrice;
+  }
+  if (result.converted?.currency === currency) {
+    return result.converted.soldPrice;
+  }
+  return undefined;
+}
+
+/**
+ * Attach inflation-adjusted sold prices to comparable sales.
+ * Results without a sold price, sale date or price in the index currency
+ * are returned unchanged.
+ */
+export function adjustResultsForInflation(
+  results: SearchResult[],
+  options: InflationOptions = {},
+): SearchResult[] {
+  const index = options.index ?? US_CPI;
+
+  return results.map((result) => {
+    const soldPrice = soldPriceInIndexCurrency(result, index.currency);
+    if (soldPrice === undefined) return result;
+    const adjustment = adjustForInflation(soldPrice, result.soldDate, options);
+    if (!adjustment) return result;
+
+    return {
+      ...result,
+      inflationAdjusted: {
+        currency: index.currency,
+        soldPrice: adjustment.adjustedPrice,
+        factor: adjustment.factor,
+        fromYear: adjustment.fromYear,
+        toYear: adjustment.toYear,
+        index: adjustment.index,
+      },
+    };
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * Bundled consumer price index, used to restate historical sale prices in
+ * today's money. Refresh once a year when the annual average is published.
+ */
+
+/**
+ * Annual price index values keyed by calendar year.
+ */
+export interface PriceIndex {
+  /** Short name shown next to adjusted prices */
+  name: string;
+  /** Currency the index measures */
+  currency: string;
+  values: Record<number, number>;
+}
+
+/** US CPI-U, annual average (1982-84 = 100). */
+export const US_CPI: PriceIndex = {
+  name: "US CPI-U",
+  currency: "USD",
+  values: {
+    1990: 130.7,
+    1991: 136.2,
+    1992: 140.3,
+    1993: 144.5,
+    1994: 148.2,
+    1995: 152.4,
+    1996: 156.9,
+    1997: 160.5,
+    1998: 163.0,
+    1999: 166.6,
+    2000: 172.2,
+    2001: 177.1,
+    2002: 179.9,
+    2003: 184.0,
+    2004: 188.9,
+    2005: 195.3,
+    2006: 201.6,
+    2007: 207.342,
+    2008: 215.303,
+    2009: 214.537,
+    2010: 218.056,
+    2011: 224.939,
+    2012: 229.594,
+    2013: 232.957,
+    2014: 236.736,
+    2015: 237.017,
+    2016: 240.007,
+    2017: 245.12,
+    2018: 251.107,
+    2019: 255.657,
+    2020: 258.811,
+    2021: 270.97,
+    2022: 292.655,
+    2023: 304.702,
+    2024: 313.689,
+    2025: 322.2,
+  },
+};
@@ -0,0 +1,13 @@
+/**
+ * Inflation adjustment of historical prices against a bundled price index.
+ */
+
+export { US_CPI, type PriceIndex } from "./cpi";
+export {
+  latestIndexYear,
+  getInflationFactor,
+  adjustForInflation,
+  adjustResultsForInflation,
+  type InflationAdjustment,
+  type InflationOptions,
+} from "./adjust";
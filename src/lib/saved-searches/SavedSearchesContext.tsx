@@ -0,0 +1,136 @@
+"use client";
+
+/**
+ * React context for the signed-in user's saved searches.
+ * Loads them from /api/saved-searches once the user is signed in, which
+ * re-runs searches that are due so new-match counts are current.
+ */
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import { useUser } from "@clerk/nextjs";
+import type { SavedSearchQuery, SavedSearchSummary } from "./types";
+
+interface SaveSearchInput {
+  query: SavedSearchQuery;
+  platforms?: string[];
+  name?: string;
+}
+
+interface SavedSearchesContextValue {
+  /** Whether saving is possible (the user is signed in) */
+  isAvailable: boolean;
+  searches: SavedSearchSummary[];
+  save: (input: SaveSearchInput) => Promise<SavedSearchSummary>;
+  remove: (id: string) => Promise<void>;
+  /** Clears the search's new-match count */
+  markViewed: (id: string) => Promise<void>;
+}
+
+// Components outside the provider (e.g. in isolation) can't save searches
+const SavedSearchesContext = createContext<SavedSearchesContextValue>({
+  isAvailable: false,
+  searches: [],
+  save: async () => {
+    throw new Error("Saved searches are not available");
+  },
+  remove: async () => {},
+  markViewed: async () => {},
+});
+
+async function fetchSearches(): Promise<SavedSearchSummary[]> {
+  const response = await fetch("/api/saved-searches?refresh=1");
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+  const data: { searches: SavedSearchSummary[] } = await response.json();
+  return data.searches;
+}
+
+async function sendRequest(url: string, init: RequestInit): Promise<Response> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+  return response;
+}
+
+export function SavedSearchesProvider({ children }: { children: ReactNode }) {
+  const { isSignedIn } = useUser();
+  const [searches, setSearches] = useState<SavedSearchSummary[]>([]);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+    let cancelled = false;
+    fetchSearches()
+      .then((loaded) => {
+        if (!cancelled) setSearches(loaded);
+      })
+      .catch((error) => {
+        console.warn("Failed to load saved searches:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn]);
+
+  const save = useCallback(async (input: SaveSearchInput) => {
+    const response = await sendRequest("/api/saved-searches", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    });
+    const { search }: { search: SavedSearchSummary } = await response.json();
+    setSearches((current) => [search, ...current]);
+    return search;
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await sendRequest(`/api/saved-searches/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+    setSearches((current) => current.filter((s) => s.id !== id));
+  }, []);
+
+  const markViewed = useCallback(async (id: string) => {
+    const response = await sendRequest(
+      `/api/saved-searches/${encodeURIComponent(id)}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ viewed: true }),
+      },
+    );
+    const { search }: { search: SavedSearchSummary } = await response.json();
+    setSearches((current) => current.map((s) => (s.id === id ? search : s)));
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      isAvailable: Boolean(isSignedIn),
+      // Searches from a previous session are hidden once the user signs out
+      searches: isSignedIn ? searches : [],
+      save,
+      remove,
+      markViewed,
+    }),
+    [isSignedIn, searches, save, remove, markViewed],
+  );
+
+  return (
+    <SavedSearchesContext.Provider value={value}>
+      {children}
+    </SavedSearchesContext.Provider>
+  );
+}
+
+export function useSavedSearches() {
+  return useContext(SavedSearchesContext);
+}
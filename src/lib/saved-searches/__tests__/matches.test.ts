@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { diffMatches, MAX_SEEN_ITEMS } from "../matches";
+import type { SearchResult } from "@/lib/adapters/types";
+
+function result(itemId: string, overrides: Partial<SearchResult> = {}) {
+  return {
+    platform: "liveauctioneers",
+    itemId,
+    title: `Lamp ${itemId}`,
+    currentPrice: 100,
+    currency: "USD",
+    imageUrl: "",
+    url: `https://example.com/${itemId}`,
+    ...overrides,
+  } satisfies SearchResult;
+}
+
+describe("diffMatches", () => {
+  it("treats the first run as a baseline", () => {
+    const diff = diffMatches({ seenItemIds: [], newItemIds: [] }, [
+      result("1"),
+      result("2"),
+    ]);
+
+    expect(diff.newResults).toEqual([]);
+    expect(diff.newItemIds).toEqual([]);
+    expect(diff.seenItemIds).toEqual([
+      "liveauctioneers:1",
+      "liveauctioneers:2",
+    ]);
+  });
+
+  it("reports results not seen before", () => {
+    const diff = diffMatches(
+      {
+        seenItemIds: ["liveauctioneers:1"],
+        newItemIds: [],
+        lastRunAt: "2026-06-01T00:00:00.000Z",
+      },
+      [result("1"), result("2")],
+    );
+
+    expect(diff.newResults.map((r) => r.itemId)).toEqual(["2"]);
+    expect(diff.newItemIds).toEqual(["liveauctioneers:2"]);
+  });
+
+  it("keeps unviewed matches from earlier runs", () => {
+    const diff = diffMatches(
+      {
+        seenItemIds: ["liveauctioneers:1", "liveauctioneers:2"],
+        newItemIds: ["liveauctioneers:2"],
+        lastRunAt: "2026-06-01T00:00:00.000Z",
+      },
+      [result("2"), result("3")],
+    );
+
+    expect(diff.newItemIds).toEqual(["liveauctioneers:2", "liveauctioneers:3"]);
+  });
+
+  it("doesn't count a seen lot listed under another platform as new", () => {
+    const diff = diffMatches(
+      {
+        seenItemIds: ["1stdibs:9"],
+        newItemIds: [],
+        lastRunAt: "2026-06-01T00:00:00.000Z",
+      },
+      [
+        result("1", {
+          alsoOn: [
+            {
+              platform: "1stdibs",
+              itemId: "9",
+              url: "https://example.com/9",
+              currentPrice: 110,
+              currency: "USD",
+            },
+          ],
+        }),
+      ],
+    );
+
+    expect(diff.newResults).toEqual([]);
+    expect(diff.seenItemIds).toContain("liveauctioneers:1");
+  });
+
+  it("caps the seen list, dropping the oldest keys", () => {
+    const seenItemIds = Array.from(
+      { length: MAX_SEEN_ITEMS },
+      (_, i) => `liveauctioneers:old-${i}`,
+    );
+
+    const diff = diffMatches(
+      { seenItemIds, newItemIds: [], lastRunAt: "2026-06-01T00:00:00.000Z" },
+      [result("new")],
+    );
+
+    expect(diff.seenItemIds).toHaveLength(MAX_SEEN_ITEMS);
+    expect(diff.seenItemIds.at(-1)).toBe("liveauctioneers:new");
+    expect(diff.seenItemIds).not.toContain("liveauctioneers:old-0");
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type {
+  MultiPlatformSearchResult,
+  SearchResult,
+} from "@/lib/adapters/types";
+import { MockLogger } from "@/lib/logging/mock";
+import { MemorySavedSearchStore } from "../store";
+
+vi.mock("@/lib/tools", () => ({
+  searchAllAdapters: vi.fn(),
+}));
+
+import { SavedSearchService } from "../server";
+
+// --- Test Fixtures ---
+
+const NOW = new Date("2026-06-01T00:00:00Z").getTime();
+const MINUTE = 60 * 1000;
+
+function result(itemId: string): SearchResult {
+  return {
+    platform: "liveauctioneers",
+    itemId,
+    title: `Art Deco Lamp ${itemId}`,
+    currentPrice: 300,
+    currency: "USD",
+    imageUrl: "",
+    url: `https://example.com/${itemId}`,
+  };
+}
+
+function page(itemIds: string[]): MultiPlatformSearchResult {
+  return { results: itemIds.map(result), platforms: [] };
+}
+
+const query = { keywords: "art deco lamp", priceRange: { max: 500 } };
+
+let clock: number;
+const runSearch = vi.fn();
+
+function createService() {
+  return new SavedSearchService({
+    store: new MemorySavedSearchStore(),
+    runSearch,
+    now: () => clock,
+    log: new MockLogger(),
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  clock = NOW;
+  runSearch.mockResolvedValue(page(["1", "2"]));
+});
+
+describe("SavedSearchService.create", () => {
+  it("names the search and records a baseline", async () => {
+    const service = createService();
+
+    const search = await service.create("user-1", { query });
+
+    expect(search.name).toBe("art deco lamp under $500");
+    expect(search.lastRunAt).toBe(new Date(NOW).toISOString());
+    expect(search.seenItemIds).toEqual([
+      "liveauctioneers:1",
+      "liveauctioneers:2",
+    ]);
+    expect(search.newItemIds).toEqual([]);
+    expect(runSearch).toHaveBeenCalledWith(
+      expect.objectContaining({ keywords: "art deco lamp", pageSize: 50 }),
+      { userId: "user-1", source: "user" },
+    );
+  });
+
+  it("saves the search when the first run fails", async () => {
+    runSearch.mockRejectedValueOnce(new Error("Timeout"));
+    const service = createService();
+
+    const search = await service.create("user-1", { query });
+
+    expect(search.lastRunAt).toBeUndefined();
+    expect(await service.list("user-1")).toHaveLength(1);
+  });
+});
+
+describe("SavedSearchService.run", () => {
+  it("reports new matches since the last run", async () => {
+    const service = createService();
+    const { id } = await service.create("user-1", { query });
+    runSearch.mockResolvedValue(page(["1", "2", "3"]));
+
+    const { search, newResults } = await service.run("user-1", id);
+
+    expect(newResults.map((r) => r.itemId)).toEqual(["3"]);
+    expect(search.newItemIds).toEqual(["liveauctioneers:3"]);
+  });
+
+  it("throws for unknown searches", async () => {
+    await expect(createService().run("user-1", "missing")).rejects.toThrow(
+      "Saved search missing not found",
+    );
+  });
+});
+
+describe("SavedSearchService.refresh", () => {
+  it("only re-runs searches that are due", async () => {
+    const service = createService();
+    await service.create("user-1", { query });
+    runSearch.mockResolvedValue(page(["1", "2", "3"]));
+
+    clock = NOW + 5 * MINUTE;
+    await service.refresh("user-1");
+    expect(runSearch).toHaveBeenCalledTimes(1);
+
+    clock = NOW + 20 * MINUTE;
+    const [search] = await service.refresh("user-1");
+    expect(runSearch).toHaveBeenCalledTimes(2);
+    expect(search.newItemIds).toEqual(["liveauctioneers:3"]);
+  });
+
+  it("keeps a search's state when its run fails", async () => {
+    const service = createService();
+    const created = await service.create("user-1", { query });
+    runSearch.mockRejectedValue(new Error("Timeout"));
+
+    clock = NOW + 20 * MINUTE;
+    const [search] = await service.refresh("user-1");
+
+    expect(search).toEqual(created);
+  });
+});
+
+describe("SavedSearchService.markViewed", () => {
+  it("clears new matches", async () => {
+    const service = createService();
+    const { id } = await service.create("user-1", { query });
+    runSearch.mockResolvedValue(page(["1", "2", "3"]));
+    await service.run("user-1", id);
+
+    const viewed = await service.markViewed("user-1", id);
+
+    expect(viewed?.newItemIds).toEqual([]);
+    expect(viewed?.lastViewedAt).toBe(new Date(NOW).toISOString());
+  });
+
+  it("returns null for another user's search", async () => {
+    const service = createService();
+    const { id } = await service.create("user-1", { query });
+
+    expect(await service.markViewed("user-2", id)).toBeNull();
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Saved searches.
+ * Re-exports client-safe types, helpers and the saved searches context.
+ * For the server service, import from "@/lib/saved-searches/server" directly.
+ */
+
+export type {
+  SavedSearch,
+  SavedSearchQuery,
+  SavedSearchSummary,
+} from "./types";
+export { describeSavedSearchQuery, toSavedSearchSummary } from "./types";
+export {
+  MAX_SEEN_ITEMS,
+  matchKey,
+  diffMatches,
+  type MatchDiff,
+} from "./matches";
+export type { SavedSearchStore } from "./store";
+export {
+  SavedSearchesProvider,
+  useSavedSearches,
+} from "./SavedSearchesContext";
@@ -0,0 +1,71 @@
+/**
+ * New-match detection for saved searches.
+ * Compares a run's results with the item keys seen on earlier runs.
+ */
+
+import type { SearchResult } from "@/lib/adapters/types";
+import type { SavedSearch } from "./types";
+
+/** Seen keys kept per search; the oldest are dropped beyond this. */
+export const MAX_SEEN_ITEMS = 500;
+
+export function matchKey(platform: string, itemId: string): string {
+  return `${platform}:${itemId}`;
+}
+
+/**
+ * Keys a result is known by: its own, plus any cross-platform duplicates
+ * merged into it, so a lot doesn't count as new when dedup picks a
+ * different primary listing.
+ */
+function resultKeys(result: SearchResult): string[] {
+  return [
+    matchKey(result.platform, result.itemId),
+    ...(result.alsoOn ?? []).map((offer) =>
+      matchKey(offer.platform, offer.itemId),
+    ),
+  ];
+}
+
+export interface MatchDiff {
+  /** Results not seen on any earlier run */
+  newResults: SearchResult[];
+  seenItemIds: string[];
+  newItemIds: string[];
+}
+
+/**
+ * Record a run's results against a saved search.
+ * The first run (no lastRunAt) is a baseline: its results are what the user
+ * saw when saving, so none count as new.
+ */
+export function diffMatches(
+  search: Pick<SavedSearch, "seenItemIds" | "newItemIds" | "lastRunAt">,
+  results: SearchResult[],
+): MatchDiff {
+  const seen = new Set(search.seenItemIds);
+  const isBaseline = search.lastRunAt === undefined;
+
+  const newResults = isBaseline
+    ? []
+    : results.filter((result) => !resultKeys(result).some((k) => seen.has(k)));
+
+  const seenItemIds = [...search.seenItemIds];
+  for (const key of results.flatMap(resultKeys)) {
+    if (!seen.has(key)) {
+      seen.add(key);
+      seenItemIds.push(key);
+    }
+  }
+
+  const newItemIds = [
+    ...search.newItemIds,
+    ...newResults.map((result) => matchKey(result.platform, result.itemId)),
+  ];
+
+  return {
+    newResults,
+    seenItemIds: seenItemIds.slice(-MAX_SEEN_ITEMS),
+    newItemIds: newItemIds.slice(-MAX_SEEN_ITEMS),
+  };
+}
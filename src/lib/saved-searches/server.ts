@@ -0,0 +1,233 @@
+/**
+ * Server-side saved search service.
+ * Stores queries per user and re-runs them across platforms to find
+ * matches that weren't there last time.
+ */
+
+import path from "path";
+import type {
+  MultiPlatformSearchResult,
+  SearchResult,
+} from "@/lib/adapters/types";
+import {
+  searchAllAdapters,
+  type PlatformSearchContext,
+  type PlatformSearchInput,
+} from "@/lib/tools";
+import type { ILogger } from "@/lib/logging/types";
+import { serverLoggerFactory } from "@/lib/logging/server";
+import { diffMatches } from "./matches";
+import { FileSavedSearchStore, type SavedSearchStore } from "./store";
+import {
+  describeSavedSearchQuery,
+  type SavedSearch,
+  type SavedSearchQuery,
+} from "./types";
+
+const DEFAULT_SAVED_SEARCHES_FILE = path.join(".data", "saved-searches.json");
+
+/** Results fetched per run; new matches beyond this aren't detected. */
+const RUN_PAGE_SIZE = 50;
+
+/** Searches aren't re-run on refresh more often than this. */
+const DEFAULT_MIN_RUN_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+
+export type SearchRunner = (
+  input: PlatformSearchInput,
+  context: PlatformSearchContext,
+) => Promise<MultiPlatformSearchResult>;
+
+export interface SavedSearchServiceConfig {
+  /** Where searches are kept. Default: JSON file at SAVED_SEARCHES_FILE or .data/saved-searches.json */
+  store?: SavedSearchStore;
+  /** How queries are executed. Default: searchAllAdapters */
+  runSearch?: SearchRunner;
+  /** Minimum time between refresh runs of one search. Default: 15 minutes */
+  minRunIntervalMs?: number;
+  /** Clock override for testing */
+  now?: () => number;
+  /** Optional logger for testing. If not provided, uses serverLoggerFactory. */
+  log?: ILogger;
+}
+
+export interface CreateSavedSearchInput {
+  query: SavedSearchQuery;
+  platforms?: string[];
+  /** Default: a description of the query */
+  name?: string;
+}
+
+export interface SavedSearchRun {
+  search: SavedSearch;
+  newResults: SearchResult[];
+}
+
+export class SavedSearchService {
+  private readonly store: SavedSearchStore;
+  private readonly runSearch: SearchRunner;
+  private readonly minRunIntervalMs: number;
+  private readonly now: () => number;
+  private readonly log: ILogger;
+
+  constructor(config: SavedSearchServiceConfig = {}) {
+    this.store =
+      config.store ??
+      new FileSavedSearchStore(
+        process.env.SAVED_SEARCHES_FILE ?? DEFAULT_SAVED_SEARCHES_FILE,
+      );
+    this.runSearch =
+      config.runSearch ??
+      ((input, context) => searchAllAdapters("search", input, context));
+    this.minRunIntervalMs =
+      config.minRunIntervalMs ?? DEFAULT_MIN_RUN_INTERVAL_MS;
+    this.now = config.now ?? Date.now;
+    this.log =
+      config.log ??
+      serverLoggerFactory.create({
+        distinctId: "system",
+        component: "saved-searches",
+      });
+  }
+
+  /**
+   * Save a query and run it once to record what's already listed.
+   * A failed first run leaves the baseline to the next run.
+   */
+  async create(
+    userId: string,
+    input: CreateSavedSearchInput,
+  ): Promise<SavedSearch> {
+    const createdAt = new Date(this.now());
+    const search: SavedSearch = {
+      id: `search-${createdAt.getTime()}-${Math.random().toString(36).slice(2, 9)}`,
+      userId,
+      name: input.name?.trim() || describeSavedSearchQuery(input.query),
+      query: input.query,
+      platforms: input.platforms?.length ? input.platforms : undefined,
+      createdAt: createdAt.toISOString(),
+      seenItemIds: [],
+      newItemIds: [],
+    };
+    await this.store.put(search);
+
+    try {
+      return (await this.execute(search)).search;
+    } catch (error) {
+      this.logRunFailure(search, error);
+      return search;
+    }
+  }
+
+  async list(userId: string): Promise<SavedSearch[]> {
+    return this.store.list(userId);
+  }
+
+  async get(userId: string, id: string): Promise<SavedSearch | null> {
+    return this.store.get(userId, id);
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    return this.store.delete(userId, id);
+  }
+
+  /** Re-run one search now. Throws if it doesn't exist or the run fails. */
+  async run(userId: string, id: string): Promise<SavedSearchRun> {
+    const search = await this.store.get(userId, id);
+    if (!search) {
+      throw new Error(`Saved search ${id} not found`);
+    }
+    return this.execute(search);
+  }
+
+  /**
+   * Re-run one search if it hasn't run recently. Otherwise returns it
+   * unchanged with no new results. Throws if it doesn't exist or the run fails.
+   */
+  async runIfDue(userId: string, id: string): Promise<SavedSearchRun> {
+    const search = await this.store.get(userId, id);
+    if (!search) {
+      throw new Error(`Saved search ${id} not found`);
+    }
+    return this.isDue(search)
+      ? this.execute(search)
+      : { search, newResults: [] };
+  }
+
+  /**
+   * Re-run the user's searches that haven't run recently and return the
+   * updated list. A failing search keeps its previous state.
+   */
+  async refresh(userId: string): Promise<SavedSearch[]> {
+    const searches = await this.store.list(userId);
+
+    return Promise.all(
+      searches.map(async (search) => {
+        if (!this.isDue(search)) return search;
+        try {
+          return (await this.execute(search)).search;
+        } catch (error) {
+          this.logRunFailure(search, error);
+          return search;
+        }
+      }),
+    );
+  }
+
+  /** Clear the new-match count once the user has opened the search. */
+  async markViewed(userId: string, id: string): Promise<SavedSearch | null> {
+    const search = await this.store.get(userId, id);
+    if (!search) return null;
+
+    const viewed: SavedSearch = {
+      ...search,
+      lastViewedAt: new Date(this.now()).toISOString(),
+      newItemIds: [],
+    };
+    await this.store.put(viewed);
+    return viewed;
+  }
+
+  private isDue(search: SavedSearch): boolean {
+    if (!search.lastRunAt) return true;
+    return (
+      this.now() - new Date(search.lastRunAt).getTime() >= this.minRunIntervalMs
+    );
+  }
+
+  private async execute(search: SavedSearch): Promise<SavedSearchRun> {
+    const result = await this.runSearch(
+      {
+        ...search.query,
+        pageSize: RUN_PAGE_SIZE,
+        platforms: search.platforms,
+      },
+      { userId: search.userId, source: "user" },
+    );
+
+    const diff = diffMatches(search, result.results);
+    const updated: SavedSearch = {
+      ...search,
+      lastRunAt: new Date(this.now()).toISOString(),
+      seenItemIds: diff.seenItemIds,
+      newItemIds: diff.newItemIds,
+    };
+    await this.store.put(updated);
+
+    this.log.info("Saved search run", {
+      id: search.id,
+      resultCount: result.results.length,
+      newCount: diff.newResults.length,
+    });
+    return { search: updated, newResults: diff.newResults };
+  }
+
+  private logRunFailure(search: SavedSearch, error: unknown): void {
+    this.log.warn("Saved search run failed", {
+      id: search.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/** Shared service used by the saved search routes. */
+export const savedSearchService = new SavedSearchService();
@@ -0,0 +1,28 @@
+/**
+ * Storage backends for saved searches, newest first.
+ */
+
+import {
+  FileRecordStore,
+  MemoryRecordStore,
+  type RecordStore,
+} from "@/lib/storage";
+import type { SavedSearch } from "./types";
+
+export type SavedSearchStore = RecordStore<SavedSearch>;
+
+function newestFirst(a: SavedSearch, b: SavedSearch): number {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+export class MemorySavedSearchStore extends MemoryRecordStore<SavedSearch> {
+  constructor() {
+    super({ compare: newestFirst });
+  }
+}
+
+export class FileSavedSearchStore extends FileRecordStore<SavedSearch> {
+  constructor(filePath: string) {
+    super(filePath, { compare: newestFirst });
+  }
+}
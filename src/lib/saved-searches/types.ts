@@ -0,0 +1,76 @@
+/**
+ * Saved search types shared by the server service, API routes and client UI.
+ */
+
+/** The search parameters a saved search re-runs. */
+export interface SavedSearchQuery {
+  keywords: string;
+  category?: string;
+  priceRange?: { min?: number; max?: number };
+}
+
+/**
+ * A query a signed-in user re-runs, with the matches already seen.
+ * Match keys are `${platform}:${itemId}`. Dates are ISO strings.
+ */
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  query: SavedSearchQuery;
+  /** Platforms to search. Default: all enabled platforms */
+  platforms?: string[];
+  createdAt: string;
+  /** Absent until the first successful run, which records a baseline */
+  lastRunAt?: string;
+  lastViewedAt?: string;
+  /** Every match seen so far, most recent last */
+  seenItemIds: string[];
+  /** Matches found since the user last opened the search */
+  newItemIds: string[];
+}
+
+/**
+ * What the client needs to list a saved search.
+ */
+export interface SavedSearchSummary {
+  id: string;
+  name: string;
+  query: SavedSearchQuery;
+  platforms?: string[];
+  createdAt: string;
+  lastRunAt?: string;
+  lastViewedAt?: string;
+  newMatchCount: number;
+}
+
+export function toSavedSearchSummary(search: SavedSearch): SavedSearchSummary {
+  return {
+    id: search.id,
+    name: search.name,
+    query: search.query,
+    platforms: search.platforms,
+    createdAt: search.createdAt,
+    lastRunAt: search.lastRunAt,
+    lastViewedAt: search.lastViewedAt,
+    newMatchCount: search.newItemIds.length,
+  };
+}
+
+/**
+ * Readable name for a query, e.g. "art deco lamps under $500".
+ * Price bounds are in the base currency, as searches use it.
+ */
+export function describeSavedSearchQuery(query: SavedSearchQuery): string {
+  const { min, max } = query.priceRange ?? {};
+  const parts = [query.keywords.trim()];
+  if (query.category) parts.push(`in ${query.category}`);
+  if (min !== undefined && max !== undefined) {
+    parts.push(`$${min}–$${max}`);
+  } else if (max !== undefined) {
+    parts.push(`under $${max}`);
+  } else if (min !== undefined) {
+    parts.push(`over $${min}`);
+  }
+  return parts.join(" ");
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect } from "vitest";
+import {
+  dedupeResults,
+  normalizeTitle,
+  titleSimilarity,
+  priceSimilarity,
+  sellerSimilarity,
+  imageKey,
+  listingSimilarity,
+} from "../dedup";
+import type { SearchResult } from "@/lib/adapters/types";
+
+// --- Test Fixtures ---
+
+function makeResult(overrides: Partial<SearchResult> = {}): SearchResult {
+  return {
+    platform: "liveauctioneers",
+    itemId: "1",
+    title: "Art Deco Bronze Table Lamp",
+    currentPrice: 4500,
+    currency: "USD",
+    imageUrl: "https://p1.liveauctioneers.com/1/2/1_1_x.jpg",
+    url: "https://www.liveauctioneers.com/item/1",
+    ...overrides,
+  };
+}
+
+const laLamp = makeResult({ auctionHouse: "Rago Arts" });
+const fdLamp = makeResult({
+  platform: "1stdibs",
+  itemId: "f_99",
+  title: "Art Deco Bronze Table Lamp, c. 1930",
+  currentPrice: 4800,
+  imageUrl: "https://a.1stdibscdn.com/lamp-photo.jpg",
+  url: "https://www.1stdibs.com/item/f_99",
+});
+
+// --- Pure Helpers ---
+
+describe("normalizeTitle", () => {
+  it("lowercases, strips punctuation and stopwords", () => {
+    expect(normalizeTitle("The Art-Deco Lamp, with Shade!")).toEqual([
+      "art",
+      "deco",
+      "lamp",
+      "shade",
+    ]);
+  });
+
+  it("folds accents", () => {
+    expect(normalizeTitle("Émile Gallé Vase")).toEqual([
+      "emile",
+      "galle",
+      "vase",
+    ]);
+  });
+});
+
+describe("titleSimilarity", () => {
+  it("is 1 for titles differing only in punctuation and case", () => {
+    expect(titleSimilarity("Art Deco Lamp", "art deco lamp.")).toBe(1);
+  });
+
+  it("is 0 for unrelated titles", () => {
+    expect(titleSimilarity("Art Deco Lamp", "Victorian Chair")).toBe(0);
+  });
+
+  it("is 0 when a title is empty", () => {
+    expect(titleSimilarity("", "Lamp")).toBe(0);
+  });
+});
+
+describe("priceSimilarity", () => {
+  it("is 1 for equal prices", () => {
+    expect(priceSimilarity(laLamp, laLamp, 0.2)).toBe(1);
+  });
+
+  it("falls to 0 at the tolerance", () => {
+    const cheaper = makeResult({ currentPrice: 3600 });
+    expect(priceSimilarity(laLamp, cheaper, 0.2)).toBeCloseTo(0);
+  });
+
+  it("compares converted prices across currencies", () => {
+    const gbp = makeResult({
+      currency: "GBP",
+      currentPrice: 3540,
+      converted: {
+        currency: "USD",
+        currentPrice: 4500,
+        rate: 1.27,
+        ratesAsOf: "2026-09-30",
+      },
+    });
+    expect(priceSimilarity(laLamp, gbp, 0.2)).toBe(1);
+  });
+
+  it("is undefined across currencies or for missing prices", () => {
+    expect(
+      priceSimilarity(laLamp, makeResult({ currency: "EUR" }), 0.2),
+    ).toBeUndefined();
+    expect(
+      priceSimilarity(laLamp, makeResult({ currentPrice: 0 }), 0.2),
+    ).toBeUndefined();
+  });
+});
+
+describe("sellerSimilarity", () => {
+  it("matches seller names ignoring case, punctuation and suffixes", () => {
+    const other = makeResult({ auctionHouse: "RAGO ARTS, LLC" });
+    expect(sellerSimilarity(laLamp, other)).toBe(1);
+  });
+
+  it("is undefined when either seller is missing", () => {
+    expect(sellerSimilarity(laLamp, fdLamp)).toBeUndefined();
+  });
+});
+
+describe("imageKey", () => {
+  it("drops query strings, extensions and size suffixes", () => {
+    expect(imageKey("https://cdn.example.com/a/lamp1234_x.jpg?version=2")).toBe(
+      "lamp1234",
+    );
+    expect(imageKey("https://cdn.example.com/lamp1234-800x600.png")).toBe(
+      "lamp1234",
+    );
+  });
+
+  it("ignores stems too short to be meaningful", () => {
+    expect(imageKey("https://cdn.example.com/1.jpg")).toBeUndefined();
+  });
+});
+
+describe("listingSimilarity", () => {
+  it("scores near-identical cross-platform listings highly", () => {
+    expect(listingSimilarity(laLamp, fdLamp)).toBeGreaterThan(0.75);
+  });
+
+  it("returns 0 below the title floor", () => {
+    const other = makeResult({ title: "Bronze Figure of a Dancer" });
+    expect(listingSimilarity(laLamp, other)).toBe(0);
+  });
+
+  it("penalizes different sellers", () => {
+    const sameSeller = makeResult({
+      platform: "1stdibs",
+      auctionHouse: "Rago Arts Inc",
+    });
+    const otherSeller = makeResult({
+      platform: "1stdibs",
+      auctionHouse: "Freeman's",
+    });
+    expect(listingSimilarity(laLamp, otherSeller)).toBeLessThan(
+      listingSimilarity(laLamp, sameSeller),
+    );
+  });
+});
+
+// --- dedupeResults ---
+
+describe("dedupeResults", () => {
+  it("merges cross-platform duplicates into the first listing", () => {
+    const merged = dedupeResults([laLamp, fdLamp]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].platform).toBe("liveauctioneers");
+    expect(merged[0].alsoOn).toEqual([
+      {
+        platform: "1stdibs",
+        itemId: "f_99",
+        url: "https://www.1stdibs.com/item/f_99",
+        currentPrice: 4800,
+        currency: "USD",
+        auctionHouse: undefined,
+        status: undefined,
+      },
+    ]);
+  });
+
+  it("never merges listings from the same platform", () => {
+    const secondLot = makeResult({ itemId: "2" });
+    expect(dedupeResults([laLamp, secondLot])).toHaveLength(2);
+  });
+
+  it("keeps distinct objects separate and preserves order", () => {
+    const chair = makeResult({
+      platform: "1stdibs",
+      itemId: "f_1",
+      title: "Victorian Walnut Side Chair",
+    });
+    const merged = dedupeResults([chair, laLamp, fdLamp]);
+
+    expect(merged.map((r) => r.itemId)).toEqual(["f_1", "1"]);
+    expect(merged[0].alsoOn).toBeUndefined();
+  });
+
+  it("does not merge when prices are far apart and titles differ", () => {
+    const lookalike = makeResult({
+      platform: "1stdibs",
+      itemId: "f_2",
+      title: "Art Deco Bronze Lamp Base Only",
+      currentPrice: 900,
+    });
+    expect(dedupeResults([laLamp, lookalike])).toHaveLength(2);
+  });
+
+  it("respects a custom threshold", () => {
+    expect(dedupeResults([laLamp, fdLamp], { threshold: 0.99 })).toHaveLength(
+      2,
+    );
+  });
+});
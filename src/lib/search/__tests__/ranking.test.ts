@@ -0,0 +1,184 @@
+import { describe, it, expect } from "vitest";
+import {
+  rankResults,
+  comparablePrice,
+  keywordScore,
+  relevanceScore,
+} from "../ranking";
+import type { SearchResult } from "@/lib/adapters/types";
+import { STATIC_RATES } from "@/lib/fx/rates";
+
+// --- Test Fixtures ---
+
+const NOW = new Date("2026-03-01T12:00:00Z").getTime();
+
+function makeResult(overrides: Partial<SearchResult> = {}): SearchResult {
+  return {
+    platform: "liveauctioneers",
+    itemId: "1",
+    title: "Art Deco Bronze Table Lamp",
+    currentPrice: 1000,
+    currency: "USD",
+    imageUrl: "https://p1.liveauctioneers.com/1/2/1_1_x.jpg",
+    url: "https://www.liveauctioneers.com/item/1",
+    ...overrides,
+  };
+}
+
+function la(itemId: string, overrides: Partial<SearchResult> = {}) {
+  return makeResult({ itemId, ...overrides });
+}
+
+function fd(itemId: string, overrides: Partial<SearchResult> = {}) {
+  return makeResult({ platform: "1stdibs", itemId, ...overrides });
+}
+
+function ids(results: SearchResult[]): string[] {
+  return results.map((r) => r.itemId);
+}
+
+// --- Pure Helpers ---
+
+describe("comparablePrice", () => {
+  it("converts known currencies to USD", () => {
+    expect(comparablePrice(makeResult({ currency: "GBP" }))).toBeCloseTo(
+      1000 / STATIC_RATES.rates.GBP,
+    );
+  });
+
+  it("prefers the converted price when present", () => {
+    const result = makeResult({
+      currency: "GBP",
+      converted: {
+        currency: "USD",
+        currentPrice: 1300,
+        rate: 1.3,
+        ratesAsOf: "2026-10-01",
+      },
+    });
+    expect(comparablePrice(result)).toBe(1300);
+  });
+
+  it("prefers sold price over current price", () => {
+    expect(comparablePrice(makeResult({ soldPrice: 800 }))).toBe(800);
+  });
+
+  it("leaves unknown currencies unconverted", () => {
+    expect(comparablePrice(makeResult({ currency: "XYZ" }))).toBe(1000);
+  });
+});
+
+describe("keywordScore", () => {
+  it("is the fraction of keywords found in the title", () => {
+    expect(keywordScore("Art Deco Table Lamp", "art deco chair")).toBeCloseTo(
+      2 / 3,
+    );
+  });
+
+  it("matches plurals by prefix", () => {
+    expect(keywordScore("Pair of Bronze Lamps", "bronze lamp")).toBe(1);
+  });
+
+  it("does not prefix-match very short tokens", () => {
+    expect(keywordScore("Silver Ring", "si")).toBe(0);
+  });
+
+  it("is 0 for keywords that are all stopwords", () => {
+    expect(keywordScore("Art Deco Lamp", "the of")).toBe(0);
+  });
+});
+
+describe("relevanceScore", () => {
+  it("uses platform position alone without keywords", () => {
+    const result = makeResult();
+    expect(relevanceScore(result, 0, 5, undefined)).toBe(1);
+    expect(relevanceScore(result, 4, 5, undefined)).toBe(0);
+  });
+
+  it("weights keyword match above platform position", () => {
+    const match = makeResult({ title: "Tiffany Lamp" });
+    const miss = makeResult({ title: "Oak Chair" });
+    expect(relevanceScore(match, 4, 5, "tiffany lamp")).toBeGreaterThan(
+      relevanceScore(miss, 0, 5, "tiffany lamp"),
+    );
+  });
+});
+
+// --- rankResults ---
+
+describe("rankResults", () => {
+  it("returns single-platform results unchanged", () => {
+    const results = [
+      la("1", { currentPrice: 500 }),
+      la("2", { currentPrice: 100 }),
+    ];
+    expect(rankResults(results, { sort: "price-asc" })).toBe(results);
+  });
+
+  it("interleaves platforms by relevance instead of grouping them", () => {
+    const results = [la("la-1"), la("la-2"), fd("fd-1"), fd("fd-2")];
+    expect(ids(rankResults(results))).toEqual(["la-1", "fd-1", "la-2", "fd-2"]);
+  });
+
+  it("ranks keyword matches ahead of platform order", () => {
+    const results = [
+      la("la-1", { title: "Victorian Oak Chair" }),
+      la("la-2", { title: "Tiffany Studios Lamp" }),
+      fd("fd-1", { title: "Tiffany Favrile Lamp" }),
+    ];
+    const ranked = rankResults(results, {
+      sort: "relevance",
+      keywords: "tiffany lamp",
+    });
+    expect(ids(ranked)).toEqual(["fd-1", "la-2", "la-1"]);
+  });
+
+  it("sorts by normalized price ascending", () => {
+    const results = [
+      la("la-1", { currentPrice: 1200 }),
+      fd("fd-1", { currentPrice: 1000, currency: "GBP" }),
+      fd("fd-2", { currentPrice: 1100, currency: "USD" }),
+    ];
+    expect(ids(rankResults(results, { sort: "price-asc" }))).toEqual([
+      "fd-2",
+      "la-1",
+      "fd-1",
+    ]);
+  });
+
+  it("sorts by normalized price descending with unpriced items last", () => {
+    const results = [
+      la("la-1", { currentPrice: 0 }),
+      la("la-2", { currentPrice: 300 }),
+      fd("fd-1", { currentPrice: 500, currency: "EUR" }),
+    ];
+    expect(ids(rankResults(results, { sort: "price-desc" }))).toEqual([
+      "fd-1",
+      "la-2",
+      "la-1",
+    ]);
+  });
+
+  it("sorts by end time with ended and undated lots last", () => {
+    const inHours = (h: number) => new Date(NOW + h * 60 * 60 * 1000);
+    const results = [
+      la("la-1", { endTime: inHours(48) }),
+      la("la-2", { endTime: inHours(-1) }),
+      fd("fd-1"),
+      fd("fd-2", { endTime: inHours(2) }),
+    ];
+    expect(
+      ids(rankResults(results, { sort: "ending-soon", now: NOW })),
+    ).toEqual(["fd-2", "la-1", "la-2", "fd-1"]);
+  });
+
+  it("breaks ties by platform position", () => {
+    const results = [la("la-1"), la("la-2"), fd("fd-1"), fd("fd-2")];
+    expect(ids(rankResults(results, { sort: "price-asc" }))).toEqual([
+      "la-1",
+      "fd-1",
+      "la-2",
+      "fd-2",
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Cross-platform duplicate detection for merged search results.
+ * Dealers often consign the same object to several platforms; this clusters
+ * near-identical listings and keeps one result with links to the other offers.
+ */
+
+import type { PlatformOffer, SearchResult } from "@/lib/adapters/types";
+
+// --- Configuration ---
+
+export interface DedupOptions {
+  /** Minimum combined similarity to treat two listings as the same object. Default: 0.75 */
+  threshold?: number;
+  /** Minimum title similarity required regardless of other signals. Default: 0.6 */
+  minTitleSimilarity?: number;
+  /** Maximum relative price difference still considered a match. Default: 0.2 */
+  priceTolerance?: number;
+}
+
+const DEFAULT_THRESHOLD = 0.75;
+const DEFAULT_MIN_TITLE_SIMILARITY = 0.6;
+const DEFAULT_PRICE_TOLERANCE = 0.2;
+
+/** Relative weight of each signal. Signals missing on either side are skipped. */
+const SIGNAL_WEIGHTS = {
+  title: 0.5,
+  price: 0.2,
+  seller: 0.15,
+  image: 0.15,
+} as const;
+
+const TITLE_STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "the",
+  "of",
+  "with",
+  "for",
+  "in",
+  "on",
+  "by",
+  "lot",
+]);
+
+// --- Pure Helpers ---
+
+/**
+ * Lowercase, strip punctuation, stopwords and single characters,
+ * and return the remaining tokens.
+ */
+function normalizeTitle(title: string): string[] {
+  return title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token.length > 1 && !TITLE_STOPWORDS.has(token));
+}
+
+/**
+ * Dice coefficient of normalized title tokens (0–1).
+ * More forgiving than Jaccard when one platform appends dates or dimensions.
+ */
+function titleSimilarity(a: string, b: string): number {
+  const tokensA = new Set(normalizeTitle(a));
+  const tokensB = new Set(normalizeTitle(b));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let intersection = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) intersection++;
+  }
+  return (2 * intersection) / (tokensA.size + tokensB.size);
+}
+
+/**
+ * Prices of two listings in a shared currency, using converted prices
+ * when the listings' own currencies differ.
+ */
+function comparablePrices(
+  a: SearchResult,
+  b: SearchResult,
+): [number, number] | undefined {
+  if (a.currency === b.currency) return [a.currentPrice, b.currentPrice];
+  const priceA = a.converted ?? a;
+  const priceB = b.converted ?? b;
+  if (priceA.currency !== priceB.currency) return undefined;
+  return [priceA.currentPrice, priceB.currentPrice];
+}
+
+/**
+ * Price proximity (0–1), or undefined when prices can't be compared.
+ * Linear falloff from 1 at equal prices to 0 at the tolerance.
+ */
+function priceSimilarity(
+  a: SearchResult,
+  b: SearchResult,
+  tolerance: number,
+): number | undefined {
+  const prices = comparablePrices(a, b);
+  if (!prices) return undefined;
+  const [priceA, priceB] = prices;
+  if (priceA <= 0 || priceB <= 0) return undefined;
+
+  const diff = Math.abs(priceA - priceB) / Math.max(priceA, priceB);
+  return Math.max(0, 1 - diff / tolerance);
+}
+
+function normalizeSeller(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "")
+    .replace(/(llc|inc|ltd|gallery|auctions?|antiques)$/g, "");
+}
+
+/**
+ * 1 when seller names match after normalization, 0 otherwise,
+ * undefined when either side has no seller.
+ */
+function sellerSimilarity(
+  a: SearchResult,
+  b: SearchResult,
+): number | undefined {
+  if (!a.auctionHouse || !b.auctionHouse) return undefined;
+  const sellerA = normalizeSeller(a.auctionHouse);
+  const sellerB = normalizeSeller(b.auctionHouse);
+  if (!sellerA || !sellerB) return undefined;
+  return sellerA === sellerB ? 1 : 0;
+}
+
+/**
+ * Reduce an image URL to its file stem, dropping query strings,
+ * extensions and common size suffixes (e.g. `_x`, `-800x600`).
+ */
+function imageKey(url: string): string | undefined {
+  const path = url.split(/[?#]/)[0];
+  const file = path.split("/").pop();
+  if (!file) return undefined;
+  const stem = file
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, "")
+    .replace(/([_-](x|small|medium|large|thumb|\d+x\d+))+$/, "");
+  return stem.length >= 4 ? stem : undefined;
+}
+
+/**
+ * 1 when image file stems match, otherwise undefined.
+ * Platforms re-host photos under their own names, so a mismatch is not evidence.
+ */
+function imageSimilarity(a: SearchResult, b: SearchResult): number | undefined {
+  const keyA = imageKey(a.imageUrl);
+  const keyB = imageKey(b.imageUrl);
+  return keyA && keyA === keyB ? 1 : undefined;
+}
+
+/**
+ * Combined similarity (0–1) of two listings.
+ * Weights are renormalized over the signals available for the pair.
+ */
+function listingSimilarity(
+  a: SearchResult,
+  b: SearchResult,
+  options: DedupOptions = {},
+): number {
+  const minTitle = options.minTitleSimilarity ?? DEFAULT_MIN_TITLE_SIMILARITY;
+  const tolerance = options.priceTolerance ?? DEFAULT_PRICE_TOLERANCE;
+
+  const title = titleSimilarity(a.title, b.title);
+  const image = imageSimilarity(a, b);
+
+  // A shared photo is strong evidence, so allow somewhat looser titles
+  const titleFloor = image === 1 ? minTitle * 0.66 : minTitle;
+  if (title < titleFloor) return 0;
+
+  const signals: Array<[number | undefined, number]> = [
+    [title, SIGNAL_WEIGHTS.title],
+    [priceSimilarity(a, b, tolerance), SIGNAL_WEIGHTS.price],
+    [sellerSimilarity(a, b), SIGNAL_WEIGHTS.seller],
+    [image, SIGNAL_WEIGHTS.image],
+  ];
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [value, weight] of signals) {
+    if (value === undefined) continue;
+    weighted += value * weight;
+    totalWeight += weight;
+  }
+  return totalWeight > 0 ? weighted / totalWeight : 0;
+}
+
+function toOffer(result: SearchResult): PlatformOffer {
+  return {
+    platform: result.platform,
+    itemId: result.itemId,
+    url: result.url,
+    currentPrice: result.currentPrice,
+    currency: result.currency,
+    auctionHouse: result.auctionHouse,
+    status: result.status,
+  };
+}
+
+// --- Deduplication ---
+
+/**
+ * Merge listings of the same object across platforms.
+ * Result order is preserved; the first listing in each cluster is kept and the
+ * rest are attached as `alsoOn` offers. Listings on the same platform are never
+ * merged, since they are distinct lots.
+ */
+export function dedupeResults(
+  results: SearchResult[],
+  options: DedupOptions = {},
+): SearchResult[] {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const clusters: Array<{ primary: SearchResult; members: SearchResult[] }> =
+    [];
+
+  for (const result of results) {
+    let bestCluster: (typeof clusters)[number] | undefined;
+    let bestScore = threshold;
+
+    for (const cluster of clusters) {
+      if (cluster.members.some((m) => m.platform === result.platform)) {
+        continue;
+      }
+      const score = listingSimilarity(cluster.primary, result, options);
+      if (score >= bestScore) {
+        bestScore = score;
+        bestCluster = cluster;
+      }
+    }
+
+    if (bestCluster) {
+      bestCluster.members.push(result);
+    } else {
+      clusters.push({ primary: result, members: [result] });
+    }
+  }
+
+  return clusters.map(({ primary, members }) => {
+    if (members.length === 1) return primary;
+    return {
+      ...primary,
+      alsoOn: [...(primary.alsoOn ?? []), ...members.slice(1).map(toOffer)],
+    };
+  });
+}
+
+// --- Exports for Testing ---
+
+export {
+  normalizeTitle,
+  titleSimilarity,
+  priceSimilarity,
+  sellerSimilarity,
+  imageKey,
+  imageSimilarity,
+  listingSimilarity,
+};
@@ -0,0 +1,188 @@
+/**
+ * Cross-platform ranking for merged search results.
+ * Applies SearchQuery.sort over the combined set so one platform's results
+ * don't always come first.
+ */
+
+import type { SearchQuery, SearchResult } from "@/lib/adapters/types";
+import { convertAmount } from "@/lib/fx/convert";
+import { BASE_CURRENCY } from "@/lib/fx/rates";
+import { normalizeTitle } from "./dedup";
+
+export type SortOrder = NonNullable<SearchQuery["sort"]>;
+
+export interface RankingOptions {
+  sort?: SortOrder;
+  /** Query keywords, used by the relevance scorer */
+  keywords?: string;
+  /** Clock override for testing */
+  now?: number;
+}
+
+// --- Currency Normalization ---
+
+/**
+ * Price in the base currency for sorting. Uses the converted price
+ * attached by the FX service when present, otherwise the bundled rates.
+ * Unknown currencies are left as-is.
+ */
+function comparablePrice(result: SearchResult): number {
+  if (result.converted?.currency === BASE_CURRENCY) {
+    return result.converted.soldPrice ?? result.converted.currentPrice;
+  }
+  const amount = result.soldPrice ?? result.currentPrice;
+  return convertAmount(amount, result.currency, BASE_CURRENCY) ?? amount;
+}
+
+// --- Relevance Scoring ---
+
+/** Share of relevance from keyword match vs. the platform's own ordering. */
+const KEYWORD_WEIGHT = 0.7;
+const PLATFORM_RANK_WEIGHT = 0.3;
+
+/**
+ * Fraction of query keywords found in the title (0–1).
+ * Matches whole tokens, or prefixes of at least four characters
+ * so "lamps" matches "lamp".
+ */
+function keywordScore(title: string, keywords: string): number {
+  const queryTokens = normalizeTitle(keywords);
+  if (queryTokens.length === 0) return 0;
+
+  const titleTokens = normalizeTitle(title);
+  const matched = queryTokens.filter((query) =>
+    titleTokens.some(
+      (token) =>
+        token === query ||
+        (Math.min(token.length, query.length) >= 4 &&
+          (token.startsWith(query) || query.startsWith(token))),
+    ),
+  );
+  return matched.length / queryTokens.length;
+}
+
+/**
+ * Relevance score (0–1) combining keyword match with the result's position
+ * in its own platform's list, which reflects that platform's relevance model.
+ */
+function relevanceScore(
+  result: SearchResult,
+  platformRank: number,
+  platformCount: number,
+  keywords: string | undefined,
+): number {
+  const positional =
+    platformCount > 1 ? 1 - platformRank / (platformCount - 1) : 1;
+  if (!keywords) return positional;
+  return (
+    KEYWORD_WEIGHT * keywordScore(result.title, keywords) +
+    PLATFORM_RANK_WEIGHT * positional
+  );
+}
+
+// --- Ranking ---
+
+interface RankedEntry {
+  result: SearchResult;
+  platformRank: number;
+  platformCount: number;
+  index: number;
+}
+
+function byPrice(direction: 1 | -1) {
+  return (a: RankedEntry, b: RankedEntry): number => {
+    const priceA = comparablePrice(a.result);
+    const priceB = comparablePrice(b.result);
+    // Unpriced items sink to the bottom in either direction
+    if (priceA <= 0 || priceB <= 0) {
+      return (priceB > 0 ? 1 : 0) - (priceA > 0 ? 1 : 0);
+    }
+    return (priceA - priceB) * direction;
+  };
+}
+
+function byEndingSoon(now: number) {
+  const remaining = (entry: RankedEntry): number => {
+    const endTime = entry.result.endTime;
+    if (!endTime) return Infinity;
+    const ms = new Date(endTime).getTime() - now;
+    // Ended lots go after everything still running
+    return ms > 0 ? ms : Number.MAX_SAFE_INTEGER;
+  };
+  return (a: RankedEntry, b: RankedEntry): number => {
+    const diff = remaining(a) - remaining(b);
+    return Number.isNaN(diff) ? 0 : diff;
+  };
+}
+
+/**
+ * Order merged results from several platforms.
+ * Each platform's results must be in that platform's own order; ties fall back
+ * to platform rank so results interleave rather than group by platform.
+ * Single-platform results are returned as-is, since the adapter already
+ * applied the sort.
+ */
+export function rankResults(
+  results: SearchResult[],
+  options: RankingOptions = {},
+): SearchResult[] {
+  const { sort = "relevance", keywords, now = Date.now() } = options;
+
+  const counts = new Map<string, number>();
+  for (const result of results) {
+    counts.set(result.platform, (counts.get(result.platform) ?? 0) + 1);
+  }
+  if (counts.size < 2) return results;
+
+  const seen = new Map<string, number>();
+  const entries: RankedEntry[] = results.map((result, index) => {
+    const platformRank = seen.get(result.platform) ?? 0;
+    seen.set(result.platform, platformRank + 1);
+    return {
+      result,
+      platformRank,
+      platformCount: counts.get(result.platform) ?? 1,
+      index,
+    };
+  });
+
+  const tieBreak = (a: RankedEntry, b: RankedEntry): number =>
+    a.platformRank / a.platformCount - b.platformRank / b.platformCount ||
+    a.index - b.index;
+
+  let compare: (a: RankedEntry, b: RankedEntry) => number;
+  switch (sort) {
+    case "price-asc":
+      compare = byPrice(1);
+      break;
+    case "price-desc":
+      compare = byPrice(-1);
+      break;
+    case "ending-soon":
+      compare = byEndingSoon(now);
+      break;
+    case "relevance":
+    default: {
+      const scores = new Map(
+        entries.map((entry) => [
+          entry,
+          relevanceScore(
+            entry.result,
+            entry.platformRank,
+            entry.platformCount,
+            keywords,
+          ),
+        ]),
+      );
+      compare = (a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0);
+    }
+  }
+
+  return entries
+    .sort((a, b) => compare(a, b) || tieBreak(a, b))
+    .map((entry) => entry.result);
+}
+
+// --- Exports for Testing ---
+
+export { comparablePrice, keywordScore, relevanceScore };
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { buildSellerProfile, type SellerProfileInput } from "../profile";
+import type { SearchResult } from "@/lib/adapters/types";
+
+const NOW = new Date("2026-06-01T00:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+function lot(overrides: Partial<SearchResult> = {}): SearchResult {
+  return {
+    platform: "liveauctioneers",
+    itemId: "1",
+    title: "Lot",
+    currentPrice: 0,
+    currency: "USD",
+    imageUrl: "",
+    url: "https://example.com/1",
+    auctionHouse: "Example Auctions",
+    sellerId: "42",
+    status: "sold",
+    ...overrides,
+  };
+}
+
+function sold(soldPrice: number, daysAgo = 30, overrides = {}) {
+  return lot({
+    status: "sold",
+    soldPrice,
+    soldDate: new Date(NOW.getTime() - daysAgo * DAY),
+    ...overrides,
+  });
+}
+
+function profile(overrides: Partial<SellerProfileInput> = {}) {
+  return buildSellerProfile({
+    platform: "liveauctioneers",
+    sellerId: "42",
+    activeLots: [],
+    completedLots: [],
+    now: NOW,
+    ...overrides,
+  });
+}
+
+describe("buildSellerProfile", () => {
+  it("takes identity from the seller details", () => {
+    const result = profile({
+      seller: { id: "42", name: "Heritage", rating: 4.5, location: "Dallas" },
+    });
+
+    expect(result).toMatchObject({
+      name: "Heritage",
+      rating: 4.5,
+      location: "Dallas",
+    });
+  });
+
+  it("falls back to the house name on listings", () => {
+    expect(profile({ activeLots: [lot({ status: "online" })] }).name).toBe(
+      "Example Auctions",
+    );
+    expect(profile().name).toBe("Unknown");
+  });
+
+  it("prefers the platform's total active count", () => {
+    const activeLots = [lot({ status: "online" }), lot({ status: "live" })];
+
+    expect(profile({ activeLots }).activeLotCount).toBe(2);
+    expect(profile({ activeLots, activeTotalCount: 80 }).activeLotCount).toBe(
+      80,
+    );
+  });
+
+  it("computes sell-through over recent completed lots", () => {
+    const result = profile({
+      completedLots: [
+        sold(100),
+        sold(200),
+        sold(300),
+        lot({ status: "passed" }),
+        sold(5000, 400),
+        lot({ status: "done" }),
+      ],
+    });
+
+    expect(result.recentSales).toEqual({
+      sold: 3,
+      passed: 1,
+      sellThroughRate: 0.75,
+      windowDays: 365,
+    });
+    expect(result.priceBand).toEqual({
+      low: 150,
+      median: 200,
+      high: 250,
+      currency: "USD",
+    });
+  });
+
+  it("ignores lots from other sellers", () => {
+    const result = profile({
+      activeLots: [lot({ status: "online", sellerId: "7" })],
+      completedLots: [sold(100), sold(900, 30, { sellerId: "7" })],
+    });
+
+    expect(result.activeLotCount).toBe(0);
+    expect(result.recentSales.sold).toBe(1);
+  });
+
+  it("bands prices in the most common currency, preferring conversions", () => {
+    const converted = (amount: number) => ({
+      currency: "USD",
+      currentPrice: 0,
+      soldPrice: amount,
+      rate: 1.25,
+      ratesAsOf: "2026-05-01",
+    });
+    const result = profile({
+      completedLots: [
+        sold(80, 30, { currency: "GBP", converted: converted(100) }),
+        sold(160, 30, { currency: "GBP", converted: converted(200) }),
+        sold(1000, 30, { currency: "JPY" }),
+      ],
+    });
+
+    expect(result.priceBand).toEqual({
+      low: 125,
+      median: 150,
+      high: 175,
+      currency: "USD",
+    });
+  });
+
+  it("reports no sell-through or band without completed lots", () => {
+    const result = profile();
+    expect(result.recentSales.sellThroughRate).toBeNull();
+    expect(result.priceBand).toBeNull();
+  });
+});
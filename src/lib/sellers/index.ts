@@ -0,0 +1,6 @@
+export {
+  buildSellerProfile,
+  RECENT_SALES_WINDOW_DAYS,
+  type SellerProfile,
+  type SellerProfileInput,
+} from "./profile";
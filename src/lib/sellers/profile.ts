@@ -0,0 +1,131 @@
+/**
+ * Seller and auction-house reputation, assembled from adapter data.
+ * A profile combines the seller details on a lot with the seller's current
+ * listings and recently completed lots.
+ */
+
+import type { SearchResult, UnifiedItem } from "@/lib/adapters/types";
+import { percentile } from "@/lib/valuation";
+
+export interface SellerProfile {
+  platform: string;
+  sellerId: string;
+  name: string;
+  rating?: number;
+  location?: string;
+  /** Lots currently open for bidding or sale */
+  activeLotCount: number;
+  recentSales: {
+    /** Completed lots within the window that sold */
+    sold: number;
+    /** Completed lots within the window that went unsold */
+    passed: number;
+    /** sold / (sold + passed), 0-1; null without completed lots */
+    sellThroughRate: number | null;
+    windowDays: number;
+  };
+  /** 25th percentile, median and 75th percentile of recent hammer prices */
+  priceBand: {
+    low: number;
+    median: number;
+    high: number;
+    currency: string;
+  } | null;
+}
+
+export interface SellerProfileInput {
+  platform: string;
+  sellerId: string;
+  /** Seller details from one of the seller's lots, when one could be loaded */
+  seller?: UnifiedItem["seller"];
+  activeLots: SearchResult[];
+  /** Total active lots reported by the platform, when available */
+  activeTotalCount?: number;
+  completedLots: SearchResult[];
+  now?: Date;
+}
+
+/** Completed lots older than this don't count towards recent sales. */
+export const RECENT_SALES_WINDOW_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function completedAt(lot: SearchResult): Date | undefined {
+  const date = lot.soldDate ?? lot.endTime;
+  return date ? new Date(date) : undefined;
+}
+
+/**
+ * Hammer prices in the currency most of the sales share, preferring
+ * converted prices so a house selling in several currencies still counts.
+ */
+function priceBandOf(sold: SearchResult[]): SellerProfile["priceBand"] {
+  const prices = sold.map((lot) => ({
+    amount: lot.converted?.soldPrice ?? lot.soldPrice!,
+    currency: lot.converted?.soldPrice ? lot.converted.currency : lot.currency,
+  }));
+  if (prices.length === 0) return null;
+
+  const counts = new Map<string, number>();
+  for (const { currency } of prices) {
+    counts.set(currency, (counts.get(currency) ?? 0) + 1);
+  }
+  const currency = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  const amounts = prices
+    .filter((price) => price.currency === currency)
+    .map((price) => price.amount);
+
+  return {
+    low: Math.round(percentile(amounts, 0.25)),
+    median: Math.round(percentile(amounts, 0.5)),
+    high: Math.round(percentile(amounts, 0.75)),
+    currency,
+  };
+}
+
+/**
+ * Build a seller profile. Listings from other sellers are ignored, in case
+ * a platform returns them despite the seller filter.
+ * Undated completed lots are counted as recent.
+ */
+export function buildSellerProfile(input: SellerProfileInput): SellerProfile {
+  const { platform, sellerId, seller } = input;
+  const now = input.now ?? new Date();
+  const bySeller = (lot: SearchResult) =>
+    lot.sellerId === undefined || lot.sellerId === sellerId;
+
+  const activeLots = input.activeLots.filter(bySeller);
+  const cutoff = now.getTime() - RECENT_SALES_WINDOW_DAYS * DAY_MS;
+  const recent = input.completedLots.filter(bySeller).filter((lot) => {
+    const date = completedAt(lot);
+    return !date || date.getTime() >= cutoff;
+  });
+
+  const sold = recent.filter(
+    (lot) => lot.status === "sold" && lot.soldPrice !== undefined,
+  );
+  const passed = recent.filter((lot) => lot.status === "passed").length;
+  const completed = sold.length + passed;
+
+  const name =
+    seller?.name && seller.name !== "Unknown"
+      ? seller.name
+      : ([...activeLots, ...recent].find((lot) => lot.auctionHouse)
+          ?.auctionHouse ?? "Unknown");
+
+  return {
+    platform,
+    sellerId,
+    name,
+    rating: seller?.rating,
+    location: seller?.location,
+    activeLotCount: Math.max(input.activeTotalCount ?? 0, activeLots.length),
+    recentSales: {
+      sold: sold.length,
+      passed,
+      sellThroughRate: completed > 0 ? sold.length / completed : null,
+      windowDays: RECENT_SALES_WINDOW_DAYS,
+    },
+    priceBand: priceBandOf(sold),
+  };
+}
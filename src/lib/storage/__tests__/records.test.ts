@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  FileRecordStore,
+  MemoryRecordStore,
+  type RecordStore,
+  type RecordStoreOptions,
+} from "../records";
+
+interface TestRecord {
+  id: string;
+  userId: string;
+  title: string;
+  price: number;
+  createdAt: string;
+}
+
+function makeEntry(overrides: Partial<TestRecord> = {}): TestRecord {
+  return {
+    id: "1",
+    userId: "user-1",
+    title: "Art Deco Lamp",
+    price: 250,
+    createdAt: "2026-06-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const newestFirst: RecordStoreOptions<TestRecord> = {
+  compare: (a, b) => b.createdAt.localeCompare(a.createdAt),
+};
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "records-"));
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe.each([
+  ["MemoryRecordStore", () => new MemoryRecordStore(newestFirst)],
+  [
+    "FileRecordStore",
+    () =>
+      new FileRecordStore(
+        path.join(tempDir, "data", "records.json"),
+        newestFirst,
+      ),
+  ],
+])("%s", (_, createStore: () => RecordStore<TestRecord>) => {
+  it("lists a user's records in the configured order", async () => {
+    const store = createStore();
+    await store.put(makeEntry());
+    await store.put(
+      makeEntry({ id: "2", createdAt: "2026-06-02T00:00:00.000Z" }),
+    );
+
+    const entries = await store.list("user-1");
+    expect(entries.map((e) => e.id)).toEqual(["2", "1"]);
+  });
+
+  it("scopes entries by user", async () => {
+    const store = createStore();
+    await store.put(makeEntry());
+
+    expect(await store.list("user-2")).toEqual([]);
+    expect(await store.get("user-2", "1")).toBeNull();
+  });
+
+  it("replaces an entry with the same id", async () => {
+    const store = createStore();
+    await store.put(makeEntry());
+    await store.put(makeEntry({ price: 300 }));
+
+    const entries = await store.list("user-1");
+    expect(entries).toHaveLength(1);
+    expect(entries[0].price).toBe(300);
+  });
+
+  it("deletes entries", async () => {
+    const store = createStore();
+    await store.put(makeEntry());
+
+    expect(await store.delete("user-1", "1")).toBe(true);
+    expect(await store.delete("user-1", "1")).toBe(false);
+    expect(await store.list("user-1")).toEqual([]);
+  });
+
+  it("lists users with records", async () => {
+    const store = createStore();
+    await store.put(makeEntry());
+    await store.put(makeEntry({ userId: "user-2" }));
+    await store.delete("user-2", "1");
+
+    expect(await store.listUserIds()).toEqual(["user-1"]);
+  });
+});
+
+describe("FileRecordStore", () => {
+  it("persists across instances", async () => {
+    const filePath = path.join(tempDir, "records.json");
+    await new FileRecordStore<TestRecord>(filePath).put(makeEntry());
+
+    const reopened = new FileRecordStore<TestRecord>(filePath);
+    expect(await reopened.get("user-1", "1")).toMatchObject({
+      title: "Art Deco Lamp",
+    });
+  });
+
+  it("keeps every entry from concurrent writes", async () => {
+    const store = new FileRecordStore<TestRecord>(
+      path.join(tempDir, "records.json"),
+    );
+    await Promise.all(
+      ["1", "2", "3"].map((id) => store.put(makeEntry({ id }))),
+    );
+
+    expect(await store.list("user-1")).toHaveLength(3);
+  });
+});
@@ -0,0 +1,7 @@
+/**
+ * Server-side per-user record storage.
+ * Server only: the file store uses the filesystem.
+ */
+
+export type { UserRecord, RecordStore, RecordStoreOptions } from "./records";
+export { MemoryRecordStore, FileRecordStore } from "./records";
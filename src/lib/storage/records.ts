@@ -0,0 +1,162 @@
+/**
+ * Per-user record storage for server-side features (watchlist, saved
+ * searches). The file store keeps local development self-contained;
+ * shared deployments can implement RecordStore over a database.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+/** A record owned by one user, keyed by an id unique within that user. */
+export interface UserRecord {
+  id: string;
+  userId: string;
+}
+
+/**
+ * Interface for record storage backends. Records are scoped by user.
+ */
+export interface RecordStore<T extends UserRecord> {
+  list(userId: string): Promise<T[]>;
+  get(userId: string, id: string): Promise<T | null>;
+  /** Insert or replace a record */
+  put(record: T): Promise<void>;
+  /** Returns false when the record didn't exist */
+  delete(userId: string, id: string): Promise<boolean>;
+  /** Users with at least one record, for background jobs */
+  listUserIds(): Promise<string[]>;
+}
+
+export interface RecordStoreOptions<T> {
+  /** Order for list(). Default: insertion order */
+  compare?: (a: T, b: T) => number;
+}
+
+type RecordData<T> = Record<string, T[]>;
+
+function upsert<T extends UserRecord>(
+  data: RecordData<T>,
+  record: T,
+): RecordData<T> {
+  const records = data[record.userId] ?? [];
+  const index = records.findIndex((r) => r.id === record.id);
+  const updated =
+    index === -1
+      ? [...records, record]
+      : records.map((r, i) => (i === index ? record : r));
+  return { ...data, [record.userId]: updated };
+}
+
+function remove<T extends UserRecord>(
+  data: RecordData<T>,
+  userId: string,
+  id: string,
+): { data: RecordData<T>; deleted: boolean } {
+  const records = data[userId] ?? [];
+  const remaining = records.filter((r) => r.id !== id);
+  return {
+    data: { ...data, [userId]: remaining },
+    deleted: remaining.length !== records.length,
+  };
+}
+
+function userIdsWithRecords<T>(data: RecordData<T>): string[] {
+  return Object.keys(data).filter((userId) => data[userId].length > 0);
+}
+
+/**
+ * In-memory store, for tests and ephemeral environments.
+ */
+export class MemoryRecordStore<T extends UserRecord> implements RecordStore<T> {
+  private data: RecordData<T> = {};
+
+  constructor(private readonly options: RecordStoreOptions<T> = {}) {}
+
+  async list(userId: string): Promise<T[]> {
+    const records = [...(this.data[userId] ?? [])];
+    return this.options.compare ? records.sort(this.options.compare) : records;
+  }
+
+  async get(userId: string, id: string): Promise<T | null> {
+    return this.data[userId]?.find((r) => r.id === id) ?? null;
+  }
+
+  async put(record: T): Promise<void> {
+    this.data = upsert(this.data, record);
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const result = remove(this.data, userId, id);
+    this.data = result.data;
+    return result.deleted;
+  }
+
+  async listUserIds(): Promise<string[]> {
+    return userIdsWithRecords(this.data);
+  }
+}
+
+/**
+ * JSON file store. Writes are serialized so concurrent requests in one
+ * process don't overwrite each other, and replace the file atomically.
+ */
+export class FileRecordStore<T extends UserRecord> implements RecordStore<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly options: RecordStoreOptions<T> = {},
+  ) {}
+
+  async list(userId: string): Promise<T[]> {
+    const records = [...((await this.read())[userId] ?? [])];
+    return this.options.compare ? records.sort(this.options.compare) : records;
+  }
+
+  async get(userId: string, id: string): Promise<T | null> {
+    const data = await this.read();
+    return data[userId]?.find((r) => r.id === id) ?? null;
+  }
+
+  async put(record: T): Promise<void> {
+    await this.update((data) => upsert(data, record));
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    let deleted = false;
+    await this.update((data) => {
+      const result = remove(data, userId, id);
+      deleted = result.deleted;
+      return result.data;
+    });
+    return deleted;
+  }
+
+  async listUserIds(): Promise<string[]> {
+    return userIdsWithRecords(await this.read());
+  }
+
+  private async read(): Promise<RecordData<T>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+  }
+
+  private update(
+    mutate: (data: RecordData<T>) => RecordData<T>,
+  ): Promise<void> {
+    const next = this.queue.then(async () => {
+      const data = mutate(await this.read());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+      await fs.rename(tempPath, this.filePath);
+    });
+    // Keep the queue alive after a failed write
+    this.queue = next.catch(() => {});
+    return next;
+  }
+}
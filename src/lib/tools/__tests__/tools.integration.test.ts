@@ -37,7 +37,7 @@ describe.skipIf(SKIP_INTEGRATION)("Tools Integration", () => {
     it(
       "returns results from both 1stDibs and LiveAuctioneers",
       async () => {
-        const results = await searchItems.execute({
+        const { results } = await searchItems.execute({
           keywords: TEST_SEARCH_TERM,
           pageSize: 10,
         });
@@ -74,7 +74,7 @@ describe.skipIf(SKIP_INTEGRATION)("Tools Integration", () => {
     it(
       "respects pageSize parameter",
       async () => {
-        const results = await searchItems.execute({
+        const { results } = await searchItems.execute({
           keywords: TEST_SEARCH_TERM,
           pageSize: 5,
         });
@@ -96,7 +96,7 @@ describe.skipIf(SKIP_INTEGRATION)("Tools Integration", () => {
     it(
       "can filter to single platform",
       async () => {
-        const results = await searchItems.execute({
+        const { results } = await searchItems.execute({
           keywords: TEST_SEARCH_TERM,
           pageSize: 10,
           platforms: ["1stdibs"],
@@ -10,9 +10,18 @@ import {
   searchItems,
   getItemDetails,
   getPriceHistory,
+  identifyItem,
   assessValue,
+  analyzeEstimateAccuracy,
+  calculateTotalCost,
+  getBidHistory,
+  getSellerProfile,
+  watchItem,
+  compareItems,
   tools,
   getToolSubsetWithContext,
+  searchAllAdapters,
+  searchComparables,
 } from "../index";
 
 // Mock the adapter registry
@@ -21,14 +30,29 @@ vi.mock("@/lib/adapters/registry", () => ({
   listPlatforms: vi.fn(() => ["liveauctioneers"]),
 }));
 
+// Mock the watchlist service so no file store is touched
+vi.mock("@/lib/watchlist/server", () => ({
+  watchlistService: { watch: vi.fn() },
+}));
+
 import { getAdapter } from "@/lib/adapters/registry";
+import { watchlistService } from "@/lib/watchlist/server";
 import { serverAnalytics } from "@/lib/analytics/server";
+import { withCache, MemoryCacheStore } from "@/lib/adapters/cache";
+import { MockLogger } from "@/lib/logging/mock";
+import {
+  CircuitOpenError,
+  RequestTimeoutError,
+} from "@/lib/adapters/resilience";
+import { encodePlatformCursors } from "@/lib/adapters/pagination";
+import { STATIC_RATES } from "@/lib/fx/rates";
 
 const mockLiveAuctioneersAdapter = {
   platform: "liveauctioneers",
   search: vi.fn(),
   getItem: vi.fn(),
   getPriceHistory: vi.fn(),
+  getBidHistory: vi.fn(),
 };
 
 beforeEach(() => {
@@ -66,8 +90,8 @@ describe("searchItems", () => {
   });
 
   it("searches all adapters by default", async () => {
-    const laResults = [{ itemId: "la-123", title: "LA Item" }];
-    mockLiveAuctioneersAdapter.search.mockResolvedValue(laResults);
+    const laResults = [{ itemId: "la-123", title: "LA Item", currency: "USD" }];
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({ results: laResults });
 
     const result = await searchItems.execute({
       keywords: "art deco lamp",
@@ -81,12 +105,12 @@ describe("searchItems", () => {
       priceRange: undefined,
       pageSize: 12,
     });
-    expect(result).toEqual(laResults);
+    expect(result.results).toEqual(laResults);
   });
 
   it("filters to specific platforms when provided", async () => {
-    const laResults = [{ itemId: "la-789", title: "LA Only" }];
-    mockLiveAuctioneersAdapter.search.mockResolvedValue(laResults);
+    const laResults = [{ itemId: "la-789", title: "LA Only", currency: "USD" }];
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({ results: laResults });
 
     const result = await searchItems.execute({
       keywords: "furniture",
@@ -95,11 +119,11 @@ describe("searchItems", () => {
     });
 
     expect(getAdapter).toHaveBeenCalledWith("liveauctioneers");
-    expect(result).toEqual(laResults);
+    expect(result.results).toEqual(laResults);
   });
 
   it("passes optional parameters to adapters", async () => {
-    mockLiveAuctioneersAdapter.search.mockResolvedValue([]);
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({ results: [] });
 
     await searchItems.execute({
       keywords: "furniture",
@@ -120,7 +144,9 @@ describe("searchItems", () => {
   });
 
   it("tracks adapter_search events", async () => {
-    mockLiveAuctioneersAdapter.search.mockResolvedValue([{ itemId: "1" }]);
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({
+      results: [{ itemId: "1", currency: "USD" }],
+    });
 
     await searchItems.execute({
       keywords: "test",
@@ -130,6 +156,256 @@ describe("searchItems", () => {
     const mock = serverAnalytics as MockServerAnalytics;
     expect(mock.hasEvent("adapter:search")).toBe(true);
   });
+
+  it("reports cache hits in adapter_search events", async () => {
+    const cachedAdapter = withCache(mockLiveAuctioneersAdapter, {
+      store: new MemoryCacheStore(),
+      log: new MockLogger(),
+    });
+    vi.mocked(getAdapter).mockReturnValue(cachedAdapter);
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({
+      results: [{ itemId: "1", currency: "USD" }],
+    });
+
+    await searchItems.execute({ keywords: "cached", pageSize: 12 });
+    await searchItems.execute({ keywords: "cached", pageSize: 12 });
+
+    const mock = serverAnalytics as MockServerAnalytics;
+    const hits = mock.events
+      .filter((e) => e.event === "adapter:search")
+      .map((e) => (e.properties as { cache_hit: boolean }).cache_hit);
+    expect(hits).toEqual([false, true]);
+    expect(mockLiveAuctioneersAdapter.search).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports per-platform status alongside results", async () => {
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({
+      results: [{ itemId: "1", currency: "USD" }],
+    });
+
+    const result = await searchItems.execute({
+      keywords: "lamp",
+      pageSize: 12,
+    });
+
+    expect(result.platforms).toEqual([
+      {
+        platform: "liveauctioneers",
+        status: "ok",
+        resultCount: 1,
+        latencyMs: expect.any(Number),
+        hasMore: false,
+      },
+    ]);
+  });
+
+  it("reports failed platforms instead of dropping them", async () => {
+    mockLiveAuctioneersAdapter.search.mockRejectedValue(
+      new Error("LiveAuctioneers search failed: 500"),
+    );
+
+    const result = await searchItems.execute({
+      keywords: "lamp",
+      pageSize: 12,
+    });
+
+    expect(result.results).toEqual([]);
+    expect(result.platforms[0]).toMatchObject({
+      platform: "liveauctioneers",
+      status: "error",
+      resultCount: 0,
+      error: "LiveAuctioneers search failed: 500",
+    });
+  });
+
+  it("reports timeouts separately from errors", async () => {
+    mockLiveAuctioneersAdapter.search.mockRejectedValue(
+      new RequestTimeoutError("liveauctioneers", 10000),
+    );
+
+    const result = await searchItems.execute({
+      keywords: "lamp",
+      pageSize: 12,
+    });
+
+    expect(result.platforms[0].status).toBe("timeout");
+  });
+
+  it("reports platforms with an open circuit as unavailable until retry", async () => {
+    const retryAt = new Date("2026-01-01T12:00:30Z");
+    mockLiveAuctioneersAdapter.search.mockRejectedValue(
+      new CircuitOpenError("liveauctioneers", retryAt),
+    );
+
+    const result = await searchItems.execute({
+      keywords: "lamp",
+      pageSize: 12,
+    });
+
+    expect(result.platforms[0]).toMatchObject({
+      platform: "liveauctioneers",
+      status: "unavailable",
+      retryAt: "2026-01-01T12:00:30.000Z",
+    });
+  });
+
+  it("reports a platform unavailable when its failure opens the circuit", async () => {
+    const retryAt = new Date("2026-01-01T12:00:30Z");
+    const adapter = {
+      ...mockLiveAuctioneersAdapter,
+      getAvailability: vi.fn(() => ({
+        platform: "liveauctioneers",
+        available: false,
+        state: "open" as const,
+        consecutiveFailures: 5,
+        retryAt,
+      })),
+    };
+    vi.mocked(getAdapter).mockReturnValue(
+      adapter as unknown as ReturnType<typeof getAdapter>,
+    );
+    adapter.search.mockRejectedValue(
+      new Error("LiveAuctioneers search failed: 503"),
+    );
+
+    const result = await searchItems.execute({
+      keywords: "lamp",
+      pageSize: 12,
+    });
+
+    expect(result.platforms[0]).toMatchObject({
+      status: "unavailable",
+      error: "LiveAuctioneers search failed: 503",
+      retryAt: "2026-01-01T12:00:30.000Z",
+    });
+  });
+
+  it("returns a combined cursor when a platform has more results", async () => {
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({
+      results: [{ itemId: "1", currency: "USD" }],
+      totalCount: 40,
+      nextCursor: "la-page-2",
+    });
+
+    const result = await searchItems.execute({ keywords: "lamp", pageSize: 1 });
+
+    expect(result.nextCursor).toBe(
+      encodePlatformCursors({ liveauctioneers: "la-page-2" }),
+    );
+    expect(result.platforms[0]).toMatchObject({
+      totalCount: 40,
+      hasMore: true,
+    });
+  });
+
+  it("passes platform cursors through to adapters", async () => {
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({ results: [] });
+
+    const result = await searchItems.execute({
+      keywords: "lamp",
+      pageSize: 12,
+      cursor: encodePlatformCursors({ liveauctioneers: "la-page-2" }),
+    });
+
+    expect(mockLiveAuctioneersAdapter.search).toHaveBeenCalledWith(
+      expect.objectContaining({ keywords: "lamp", cursor: "la-page-2" }),
+    );
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  it("only queries platforms present in the cursor", async () => {
+    const result = await searchItems.execute({
+      keywords: "lamp",
+      pageSize: 12,
+      cursor: encodePlatformCursors({ "1stdibs": "fd-page-2" }),
+      platforms: ["liveauctioneers"],
+    });
+
+    expect(mockLiveAuctioneersAdapter.search).not.toHaveBeenCalled();
+    expect(result.platforms).toEqual([]);
+  });
+
+  it("rejects malformed cursors", async () => {
+    await expect(
+      searchItems.execute({ keywords: "lamp", pageSize: 12, cursor: "%%%" }),
+    ).rejects.toThrow("Invalid pagination cursor");
+  });
+
+  it("ranks merged results across platforms by sort order", async () => {
+    const mock1stDibsAdapter = {
+      platform: "1stdibs",
+      search: vi.fn().mockResolvedValue({
+        results: [
+          {
+            platform: "1stdibs",
+            itemId: "fd-1",
+            title: "Oak Chair",
+            currentPrice: 200,
+            currency: "USD",
+            imageUrl: "https://a.1stdibscdn.com/chair.jpg",
+          },
+        ],
+      }),
+      getItem: vi.fn(),
+      getPriceHistory: vi.fn(),
+    };
+    vi.mocked(getAdapter).mockImplementation((platform: string) =>
+      platform === "1stdibs" ? mock1stDibsAdapter : mockLiveAuctioneersAdapter,
+    );
+    (serverAnalytics as MockServerAnalytics).setFeatureFlag(
+      "anonymous",
+      "adapter-1stdibs",
+      true,
+    );
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({
+      results: [
+        {
+          platform: "liveauctioneers",
+          itemId: "la-1",
+          title: "Walnut Desk",
+          currentPrice: 900,
+          currency: "USD",
+          imageUrl: "https://p1.liveauctioneers.com/desk.jpg",
+        },
+      ],
+    });
+
+    const result = await searchItems.execute({
+      keywords: "furniture",
+      pageSize: 12,
+      platforms: ["liveauctioneers", "1stdibs"],
+      sort: "price-asc",
+    });
+
+    expect(mockLiveAuctioneersAdapter.search).toHaveBeenCalledWith(
+      expect.objectContaining({ sort: "price-asc" }),
+    );
+    expect(result.results.map((r) => r.itemId)).toEqual(["fd-1", "la-1"]);
+  });
+
+  it("reports platforms disabled by feature flag", async () => {
+    const mockAnalytics = serverAnalytics as MockServerAnalytics;
+    mockAnalytics.setFeatureFlag("user-789", "adapter-liveauctioneers", false);
+
+    const toolsWithContext = getToolSubsetWithContext(["searchItems"], {
+      userId: "user-789",
+    });
+
+    const result = await toolsWithContext.searchItems?.execute({
+      keywords: "lamp",
+      pageSize: 12,
+    });
+
+    expect(mockLiveAuctioneersAdapter.search).not.toHaveBeenCalled();
+    expect(result?.platforms).toEqual([
+      {
+        platform: "liveauctioneers",
+        status: "disabled",
+        resultCount: 0,
+        latencyMs: 0,
+      },
+    ]);
+  });
 });
 
 // --- getItemDetails Tool ---
@@ -140,7 +416,7 @@ describe("getItemDetails", () => {
   });
 
   it("calls adapter.getItem with platform and itemId", async () => {
-    const mockItem = { id: "la-123", title: "Test Item" };
+    const mockItem = { id: "la-123", title: "Test Item", currency: "USD" };
     mockLiveAuctioneersAdapter.getItem.mockResolvedValue(mockItem);
 
     const result = await getItemDetails.execute({
@@ -153,8 +429,29 @@ describe("getItemDetails", () => {
     expect(result).toEqual(mockItem);
   });
 
+  it("adds a condition report parsed from the listing", async () => {
+    mockLiveAuctioneersAdapter.getItem.mockResolvedValue({
+      id: "la-123",
+      title: "Test Item",
+      currency: "USD",
+      condition: "Good",
+      conditionNotes: "Small chip to foot, no restoration.",
+    });
+
+    const result = await getItemDetails.execute({
+      platform: "liveauctioneers",
+      itemId: "12345",
+    });
+
+    expect(result.conditionReport).toMatchObject({
+      grade: "good",
+      issues: [{ type: "chip", severity: "minor" }],
+      ruledOut: ["restoration"],
+    });
+  });
+
   it("tracks adapter_get_item event", async () => {
-    const mockItem = { id: "la-123", title: "Test Item" };
+    const mockItem = { id: "la-123", title: "Test Item", currency: "USD" };
     mockLiveAuctioneersAdapter.getItem.mockResolvedValue(mockItem);
 
     await getItemDetails.execute({
@@ -180,8 +477,10 @@ describe("getPriceHistory", () => {
   });
 
   it("searches all adapters by default", async () => {
-    const laResults = [{ itemId: "la-456", soldPrice: 200 }];
-    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue(laResults);
+    const laResults = [{ itemId: "la-456", soldPrice: 200, currency: "USD" }];
+    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue({
+      results: laResults,
+    });
 
     const result = await getPriceHistory.execute({
       keywords: "vintage lamp",
@@ -195,12 +494,14 @@ describe("getPriceHistory", () => {
       priceRange: undefined,
       pageSize: 12,
     });
-    expect(result).toEqual(laResults);
+    expect(result.results).toEqual(laResults);
   });
 
   it("filters to specific platforms when provided", async () => {
-    const laResults = [{ itemId: "la-123", soldPrice: 300 }];
-    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue(laResults);
+    const laResults = [{ itemId: "la-123", soldPrice: 300, currency: "USD" }];
+    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue({
+      results: laResults,
+    });
 
     const result = await getPriceHistory.execute({
       keywords: "vintage",
@@ -209,7 +510,158 @@ describe("getPriceHistory", () => {
     });
 
     expect(getAdapter).toHaveBeenCalledWith("liveauctioneers");
-    expect(result).toEqual(laResults);
+    expect(result.results).toEqual(laResults);
+  });
+
+  it("scores comparables against a subject item", async () => {
+    mockLiveAuctioneersAdapter.getItem.mockResolvedValue({
+      id: "liveauctioneers-subject",
+      platformItemId: "subject",
+      platform: "liveauctioneers",
+      title: "Tiffany Dragonfly Table Lamp",
+      category: ["Lighting"],
+      currentPrice: 12000,
+      currency: "USD",
+      estimateRange: { low: 10000, high: 15000 },
+    });
+    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue({
+      results: [
+        {
+          itemId: "brooch",
+          title: "Dragonfly Brooch",
+          soldPrice: 200,
+          currency: "USD",
+        },
+        {
+          itemId: "lamp",
+          title: "Tiffany Dragonfly Lamp",
+          soldPrice: 11000,
+          currency: "USD",
+        },
+      ],
+    });
+
+    const result = await getPriceHistory.execute({
+      keywords: "dragonfly",
+      pageSize: 12,
+      subject: { platform: "liveauctioneers", itemId: "subject" },
+    });
+
+    expect(mockLiveAuctioneersAdapter.getItem).toHaveBeenCalledWith("subject");
+    expect(result.results.map((r) => r.itemId)).toEqual(["lamp", "brooch"]);
+    expect(result.results[0].similarity?.score).toBeGreaterThan(
+      result.results[1].similarity!.score,
+    );
+    expect(result.results[0].similarity?.reasons).toContain(
+      "Within the estimate band",
+    );
+  });
+
+  it("returns unscored comparables when the subject can't be loaded", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockLiveAuctioneersAdapter.getItem.mockRejectedValue(
+      new Error("Item not found"),
+    );
+    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue({
+      results: [
+        {
+          itemId: "lamp",
+          title: "Tiffany Dragonfly Lamp",
+          soldPrice: 11000,
+          currency: "USD",
+        },
+      ],
+    });
+
+    const result = await getPriceHistory.execute({
+      keywords: "dragonfly",
+      pageSize: 12,
+      subject: { platform: "liveauctioneers", itemId: "ended" },
+    });
+
+    expect(result.results.map((r) => r.itemId)).toEqual(["lamp"]);
+    expect(result.results[0].similarity).toBeUndefined();
+  });
+
+  it("adds inflation-adjusted sold prices to dated sales", async () => {
+    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue({
+      results: [
+        {
+          itemId: "la-2015",
+          soldPrice: 1000,
+          currency: "USD",
+          soldDate: new Date("2015-06-01T00:00:00Z"),
+        },
+      ],
+    });
+
+    const result = await getPriceHistory.execute({
+      keywords: "vintage",
+      pageSize: 12,
+    });
+
+    const [sale] = result.results;
+    expect(sale.soldPrice).toBe(1000);
+    expect(sale.inflationAdjusted).toMatchObject({
+      currency: "USD",
+      fromYear: 2015,
+      index: "US CPI-U",
+    });
+    expect(sale.inflationAdjusted!.soldPrice).toBeGreaterThan(1000);
+  });
+
+  it("adjusts later pages of sales for inflation too", async () => {
+    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue({
+      results: [
+        {
+          itemId: "la-2015",
+          soldPrice: 1000,
+          currency: "USD",
+          soldDate: new Date("2015-06-01T00:00:00Z"),
+        },
+      ],
+    });
+
+    const result = await searchAllAdapters("price_history", {
+      keywords: "vintage",
+      pageSize: 12,
+      cursor: encodePlatformCursors({ liveauctioneers: "la-page-2" }),
+    });
+
+    expect(result.results[0].inflationAdjusted).toMatchObject({
+      fromYear: 2015,
+    });
+  });
+
+  it("scores later pages of comparables against identified features", async () => {
+    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue({
+      results: [
+        {
+          itemId: "brooch",
+          title: "Dragonfly Brooch",
+          soldPrice: 200,
+          currency: "USD",
+        },
+        {
+          itemId: "lamp",
+          title: "Tiffany Dragonfly Lamp",
+          soldPrice: 11000,
+          currency: "USD",
+        },
+      ],
+    });
+
+    const result = await searchComparables(
+      {
+        keywords: "dragonfly",
+        pageSize: 12,
+        cursor: encodePlatformCursors({ liveauctioneers: "la-page-2" }),
+      },
+      { title: "Tiffany Dragonfly Lamp", category: ["Lighting"] },
+    );
+
+    expect(result.results.map((r) => r.itemId)).toEqual(["lamp", "brooch"]);
+    expect(result.results[1].similarity?.score).toBeDefined();
   });
 });
 
@@ -232,10 +684,34 @@ describe("assessValue", () => {
 
     expect(result.itemId).toBe("123");
     expect(result.comparablesCount).toBe(3);
-    expect(result.priceRange).toEqual({ low: 100, high: 300, median: 200 });
+    expect(result.priceRange).toEqual({ low: 125, high: 275, median: 200 });
+    expect(result.observedRange).toEqual({ min: 100, max: 300 });
     expect(result.confidence).toBe("low");
   });
 
+  it("converts comparables to USD before valuing", async () => {
+    const gbp = STATIC_RATES.rates.GBP;
+    const result = await assessValue.execute({
+      itemId: "123",
+      comparables: [
+        { title: "Comp 1", soldPrice: 100 },
+        { title: "Comp 2", soldPrice: Math.round(200 * gbp), currency: "GBP" },
+        { title: "Comp 3", soldPrice: 300 },
+        { title: "Comp 4", soldPrice: 900, currency: "XYZ" },
+      ],
+    });
+
+    expect(result.currency).toBe("USD");
+    expect(result.comparablesCount).toBe(3);
+    expect(result.priceRange?.median).toBeCloseTo(200, -1);
+    expect(result.factors).toContain(
+      `1 comparable converted to USD at rates as of ${STATIC_RATES.asOf}`,
+    );
+    expect(result.factors).toContain(
+      "1 comparable excluded due to unsupported currency",
+    );
+  });
+
   it("returns medium confidence with 5+ comparables", async () => {
     const comparables = Array.from({ length: 5 }, (_, i) => ({
       title: `Comp ${i}`,
@@ -247,10 +723,12 @@ describe("assessValue", () => {
     expect(result.confidence).toBe("medium");
   });
 
-  it("returns high confidence with 10+ comparables", async () => {
+  it("returns high confidence with 10+ recent comparables", async () => {
+    const soldDate = new Date().toISOString();
     const comparables = Array.from({ length: 10 }, (_, i) => ({
       title: `Comp ${i}`,
       soldPrice: 100 + i * 20,
+      soldDate,
     }));
 
     const result = await assessValue.execute({ itemId: "123", comparables });
@@ -286,6 +764,94 @@ describe("assessValue", () => {
     );
   });
 
+  it("excludes outlier sales from the range", async () => {
+    const result = await assessValue.execute({
+      itemId: "123",
+      comparables: [
+        { title: "Comp 1", soldPrice: 200 },
+        { title: "Comp 2", soldPrice: 210 },
+        { title: "Comp 3", soldPrice: 220 },
+        { title: "Comp 4", soldPrice: 230 },
+        { title: "Comp 5", soldPrice: 5000 },
+      ],
+    });
+
+    expect(result.comparablesCount).toBe(4);
+    expect(result.outliersExcluded).toBe(1);
+    expect(result.observedRange).toEqual({ min: 200, max: 230 });
+    expect(result.factors).toContain("1 outlier sale excluded from the range");
+  });
+
+  it("adjusts comparables to the subject's condition", async () => {
+    const result = await assessValue.execute({
+      itemId: "123",
+      subjectCondition: "Excellent",
+      comparables: [
+        { title: "Comp 1", soldPrice: 100, condition: "Very Good" },
+        { title: "Comp 2", soldPrice: 100, condition: "Very Good" },
+        { title: "Comp 3", soldPrice: 100, condition: "Very Good" },
+      ],
+    });
+
+    expect(result.priceRange?.median).toBe(115);
+    expect(result.factors).toContain(
+      "Comparable prices adjusted to Excellent condition",
+    );
+  });
+
+  it("values older sales in today's money", async () => {
+    const result = await assessValue.execute({
+      itemId: "123",
+      comparables: [
+        { title: "Comp 1", soldPrice: 1000, soldDate: "2015-06-01" },
+        { title: "Comp 2", soldPrice: 1000, soldDate: "2015-06-01" },
+        { title: "Comp 3", soldPrice: 1000, soldDate: "2015-06-01" },
+      ],
+    });
+
+    const [comparable] = result.comparables;
+    expect(comparable.soldPrice).toBe(1000);
+    expect(comparable.soldYear).toBe(2015);
+    expect(comparable.inflationAdjustedPrice).toBeGreaterThan(1000);
+    expect(result.priceRange?.median).toBe(comparable.inflationAdjustedPrice);
+    expect(
+      result.factors.some((f) =>
+        f.startsWith("3 older sales adjusted for inflation"),
+      ),
+    ).toBe(true);
+  });
+
+  it("weights comparables by similarity", async () => {
+    const result = await assessValue.execute({
+      itemId: "123",
+      comparables: [
+        { title: "Close 1", soldPrice: 1000, similarity: 0.9 },
+        { title: "Close 2", soldPrice: 1100, similarity: 0.9 },
+        { title: "Loose", soldPrice: 400, similarity: 0.1 },
+      ],
+    });
+
+    expect(result.priceRange!.median).toBeGreaterThan(900);
+    expect(result.comparables.map((c) => c.similarity)).toEqual([
+      0.9, 0.9, 0.1,
+    ]);
+  });
+
+  it("skips inflation adjustment when disabled", async () => {
+    const result = await assessValue.execute({
+      itemId: "123",
+      adjustForInflation: false,
+      comparables: [
+        { title: "Comp 1", soldPrice: 1000, soldDate: "2015-06-01" },
+        { title: "Comp 2", soldPrice: 1000, soldDate: "2015-06-01" },
+        { title: "Comp 3", soldPrice: 1000, soldDate: "2015-06-01" },
+      ],
+    });
+
+    expect(result.priceRange?.median).toBe(1000);
+    expect(result.comparables[0].inflationAdjustedPrice).toBeUndefined();
+  });
+
   it("adds factor for missing condition data", async () => {
     const result = await assessValue.execute({
       itemId: "123",
@@ -325,6 +891,7 @@ describe("assessValue", () => {
 
     expect(result.recommendation).toContain("Market value likely between");
     expect(result.recommendation).toContain("median");
+    expect(result.recommendation).toMatch(/between \$1\d\d - \$1\d\d/);
   });
 
   it("provides cautious recommendation for medium confidence", async () => {
@@ -352,6 +919,514 @@ describe("assessValue", () => {
   });
 });
 
+// --- calculateTotalCost Tool ---
+
+describe("calculateTotalCost", () => {
+  it("estimates from a listing's current bid", async () => {
+    mockLiveAuctioneersAdapter.getItem.mockResolvedValue({
+      platformItemId: "123",
+      platform: "liveauctioneers",
+      url: "https://www.liveauctioneers.com/item/123",
+      title: "Test Item",
+      currentPrice: 1000,
+      currency: "USD",
+      auctionType: "timed",
+    });
+
+    const result = await calculateTotalCost.execute({
+      platform: "liveauctioneers",
+      itemId: "123",
+      taxRegion: "US-OR",
+      shippingEstimate: 50,
+    });
+
+    expect(mockLiveAuctioneersAdapter.getItem).toHaveBeenCalledWith("123");
+    expect(result.total).toBe(1300);
+    expect(result.item?.itemId).toBe("123");
+  });
+
+  it("estimates from a hammer price alone", async () => {
+    const result = await calculateTotalCost.execute({
+      hammerPrice: 400,
+      currency: "GBP",
+      premiumTiers: [{ rate: 0.3 }],
+    });
+
+    expect(result.currency).toBe("GBP");
+    expect(result.total).toBe(520);
+    expect(mockLiveAuctioneersAdapter.getItem).not.toHaveBeenCalled();
+  });
+
+  it("requires a listing or a hammer price", async () => {
+    await expect(calculateTotalCost.execute({})).rejects.toThrow(
+      "Provide platform and itemId, or a hammerPrice",
+    );
+  });
+});
+
+// --- getBidHistory Tool ---
+
+describe("getBidHistory", () => {
+  it("summarizes the lot's bids", async () => {
+    mockLiveAuctioneersAdapter.getBidHistory.mockResolvedValue([
+      {
+        bidder: "Bidder 2",
+        amount: 150,
+        currency: "USD",
+        timestamp: new Date("2026-01-01T12:00:00Z"),
+      },
+      {
+        bidder: "Bidder 1",
+        amount: 100,
+        currency: "USD",
+        timestamp: new Date("2026-01-01T10:00:00Z"),
+      },
+      {
+        bidder: "Bidder 1",
+        amount: 175,
+        currency: "USD",
+        timestamp: new Date("2026-01-01T13:00:00Z"),
+      },
+    ]);
+
+    const result = await getBidHistory.execute({
+      platform: "liveauctioneers",
+      itemId: "123",
+    });
+
+    expect(mockLiveAuctioneersAdapter.getBidHistory).toHaveBeenCalledWith(
+      "123",
+    );
+    expect(result).toMatchObject({
+      platform: "liveauctioneers",
+      itemId: "123",
+      bidCount: 3,
+      bidderCount: 2,
+      openingBid: 100,
+      currentBid: 175,
+    });
+    expect(result.bids.map((b) => b.amount)).toEqual([100, 150, 175]);
+  });
+
+  it("tracks adapter:get_bid_history events", async () => {
+    mockLiveAuctioneersAdapter.getBidHistory.mockResolvedValue([]);
+
+    await getBidHistory.execute({ platform: "liveauctioneers", itemId: "123" });
+
+    const mock = serverAnalytics as MockServerAnalytics;
+    expect(mock.findEvent("adapter:get_bid_history")?.properties).toMatchObject(
+      {
+        platform: "liveauctioneers",
+        item_id: "123",
+        bid_count: 0,
+        success: true,
+        source: "agent",
+      },
+    );
+  });
+
+  it("rejects platforms without bid history", async () => {
+    vi.mocked(getAdapter).mockReturnValueOnce({
+      ...mockLiveAuctioneersAdapter,
+      getBidHistory: undefined,
+    } as unknown as ReturnType<typeof getAdapter>);
+
+    await expect(
+      getBidHistory.execute({ platform: "liveauctioneers", itemId: "123" }),
+    ).rejects.toThrow("Bid history is not available for liveauctioneers");
+  });
+});
+
+// --- watchItem Tool ---
+
+describe("watchItem", () => {
+  it("asks anonymous users to sign in", async () => {
+    const result = await watchItem.execute({
+      platform: "liveauctioneers",
+      itemId: "123",
+    });
+
+    expect(result).toEqual({ watched: false, requiresSignIn: true });
+    expect(watchlistService.watch).not.toHaveBeenCalled();
+  });
+
+  it("watches the item for the signed-in user", async () => {
+    const item = {
+      id: "liveauctioneers-123",
+      platformItemId: "123",
+      platform: "liveauctioneers",
+      title: "Art Deco Lamp",
+      currentPrice: 250,
+      currency: "USD",
+    };
+    const entry = {
+      id: "liveauctioneers:123",
+      userId: "user-123",
+      platform: "liveauctioneers",
+      itemId: "123",
+      platformWatched: false,
+    };
+    mockLiveAuctioneersAdapter.getItem.mockResolvedValue(item);
+    vi.mocked(watchlistService.watch).mockResolvedValue(
+      entry as unknown as Awaited<ReturnType<typeof watchlistService.watch>>,
+    );
+
+    const toolsWithContext = getToolSubsetWithContext(["watchItem"], {
+      userId: "user-123",
+    });
+    const result = await toolsWithContext.watchItem?.execute({
+      platform: "liveauctioneers",
+      itemId: "123",
+    });
+
+    expect(watchlistService.watch).toHaveBeenCalledWith("user-123", item);
+    expect(result).toEqual({ watched: true, entry });
+
+    const mock = serverAnalytics as MockServerAnalytics;
+    expect(mock.findEvent("watchlist:item_watched")?.properties).toMatchObject({
+      platform: "liveauctioneers",
+      item_id: "123",
+      platform_watched: false,
+      source: "agent",
+    });
+  });
+});
+
+// --- identifyItem ---
+
+describe("identifyItem", () => {
+  const identification = {
+    description: "Dragonfly table lamp",
+    category: "Lighting",
+    maker: "Tiffany Studios",
+    materials: ["Bronze", "Leaded glass"],
+    suggestedKeywords: ["Tiffany Studios dragonfly lamp", "leaded glass lamp"],
+    confidence: "medium" as const,
+  };
+
+  function sold(itemId: string, title: string) {
+    return {
+      platform: "liveauctioneers",
+      itemId,
+      title,
+      currentPrice: 0,
+      currency: "USD",
+      imageUrl: "",
+      url: `https://example.com/${itemId}`,
+      status: "sold",
+      soldPrice: 5000,
+    };
+  }
+
+  it("searches comparable sales with the first suggested phrase", async () => {
+    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue({
+      results: [
+        sold("1", "Leaded Glass Lamp Shade"),
+        sold("2", "Tiffany Studios Bronze Dragonfly Lamp"),
+      ],
+    });
+
+    const result = await identifyItem.execute(identification);
+
+    expect(mockLiveAuctioneersAdapter.getPriceHistory).toHaveBeenCalledTimes(1);
+    expect(
+      mockLiveAuctioneersAdapter.getPriceHistory.mock.calls[0][0],
+    ).toMatchObject({ keywords: "Tiffany Studios dragonfly lamp" });
+    expect(result.searchKeywords).toBe("Tiffany Studios dragonfly lamp");
+    expect(result.identification).toEqual(identification);
+    // Ranked by similarity to the identified object
+    expect(result.priceHistory.results.map((r) => r.itemId)).toEqual([
+      "2",
+      "1",
+    ]);
+  });
+
+  it("falls back to the next phrase when nothing is found", async () => {
+    mockLiveAuctioneersAdapter.getPriceHistory
+      .mockResolvedValueOnce({ results: [] })
+      .mockResolvedValueOnce({ results: [sold("3", "Leaded Glass Lamp")] });
+
+    const result = await identifyItem.execute(identification);
+
+    expect(result.searchKeywords).toBe("leaded glass lamp");
+    expect(result.priceHistory.results).toHaveLength(1);
+  });
+});
+
+// --- getSellerProfile ---
+
+describe("getSellerProfile", () => {
+  function lot(itemId: string, status: string, soldPrice?: number) {
+    return {
+      platform: "liveauctioneers",
+      itemId,
+      title: `Lot ${itemId}`,
+      currentPrice: 100,
+      currency: "USD",
+      imageUrl: "",
+      url: `https://example.com/${itemId}`,
+      auctionHouse: "Heritage Auctions",
+      sellerId: "42",
+      status,
+      soldPrice,
+    };
+  }
+
+  it("assembles the profile from listings, completed lots and details", async () => {
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({
+      results: [lot("1", "online")],
+      totalCount: 120,
+    });
+    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue({
+      results: [
+        lot("2", "sold", 100),
+        lot("3", "sold", 300),
+        lot("4", "passed"),
+      ],
+    });
+    mockLiveAuctioneersAdapter.getItem.mockResolvedValue({
+      seller: {
+        id: "42",
+        name: "Heritage Auctions",
+        rating: 4.8,
+        location: "Dallas, TX",
+      },
+    });
+
+    const result = await getSellerProfile.execute({
+      platform: "liveauctioneers",
+      sellerId: "42",
+    });
+
+    expect(mockLiveAuctioneersAdapter.search).toHaveBeenCalledWith(
+      expect.objectContaining({ sellerId: "42" }),
+    );
+    expect(mockLiveAuctioneersAdapter.getItem).toHaveBeenCalledWith("1");
+    expect(result).toMatchObject({
+      name: "Heritage Auctions",
+      rating: 4.8,
+      location: "Dallas, TX",
+      activeLotCount: 120,
+      recentSales: { sold: 2, passed: 1 },
+      priceBand: { low: 150, median: 200, high: 250, currency: "USD" },
+    });
+    expect(result.recentSales.sellThroughRate).toBeCloseTo(2 / 3);
+
+    const mock = serverAnalytics as MockServerAnalytics;
+    expect(mock.findEvent("seller:profile_viewed")?.properties).toMatchObject({
+      platform: "liveauctioneers",
+      seller_id: "42",
+      active_lot_count: 120,
+      recent_sale_count: 2,
+      source: "agent",
+    });
+  });
+
+  it("falls back to the listing's house name when details fail", async () => {
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({
+      results: [lot("1", "online")],
+    });
+    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValue({
+      results: [],
+    });
+    mockLiveAuctioneersAdapter.getItem.mockRejectedValue(new Error("404"));
+
+    const result = await getSellerProfile.execute({
+      platform: "liveauctioneers",
+      sellerId: "42",
+    });
+
+    expect(result.name).toBe("Heritage Auctions");
+    expect(result.rating).toBeUndefined();
+    expect(result.recentSales.sellThroughRate).toBeNull();
+  });
+
+  it("rejects platforms without seller profiles", async () => {
+    const mock = serverAnalytics as MockServerAnalytics;
+    mock.setFeatureFlag("anonymous", "adapter-1stdibs", true);
+
+    await expect(
+      getSellerProfile.execute({ platform: "1stdibs", sellerId: "42" }),
+    ).rejects.toThrow("Seller profiles are not available for 1stdibs");
+  });
+});
+
+// --- analyzeEstimateAccuracy ---
+
+describe("analyzeEstimateAccuracy", () => {
+  function lot(itemId: string, auctionHouse: string, soldPrice: number) {
+    return {
+      platform: "liveauctioneers",
+      itemId,
+      title: `Lot ${itemId}`,
+      currentPrice: 0,
+      currency: "USD",
+      imageUrl: "",
+      url: `https://example.com/${itemId}`,
+      auctionHouse,
+      status: "sold",
+      estimateRange: { low: 100, high: 200 },
+      soldPrice,
+    };
+  }
+
+  it("follows cursors and summarizes lots for the auction house", async () => {
+    mockLiveAuctioneersAdapter.getPriceHistory
+      .mockResolvedValueOnce({
+        results: [
+          lot("1", "Heritage Auctions", 400),
+          lot("2", "Heritage Auctions", 300),
+          lot("3", "Other House", 50),
+        ],
+        nextCursor: "la-page-2",
+      })
+      .mockResolvedValueOnce({
+        results: [
+          lot("4", "Heritage Auctions", 250),
+          lot("5", "heritage auctions", 150),
+          lot("6", "Heritage Auctions", 500),
+        ],
+      });
+
+    const result = await analyzeEstimateAccuracy.execute({
+      category: "Asian Art",
+      auctionHouse: "heritage",
+    });
+
+    expect(mockLiveAuctioneersAdapter.getPriceHistory).toHaveBeenCalledTimes(2);
+    expect(
+      mockLiveAuctioneersAdapter.getPriceHistory.mock.calls[0][0],
+    ).toMatchObject({ keywords: "Asian Art", category: "Asian Art" });
+    expect(
+      mockLiveAuctioneersAdapter.getPriceHistory.mock.calls[1][0],
+    ).toMatchObject({ cursor: "la-page-2" });
+    expect(result.lotsExamined).toBe(5);
+    expect(result.accuracy).toMatchObject({
+      sampleSize: 5,
+      below: 0,
+      within: 1,
+      above: 4,
+      medianRatio: 2,
+      tendency: "conservative",
+    });
+    expect(result.accuracy.byAuctionHouse).toHaveLength(1);
+  });
+
+  it("requires a category, auction house or keywords", async () => {
+    expect(analyzeEstimateAccuracy.inputSchema.safeParse({}).success).toBe(
+      false,
+    );
+    expect(
+      analyzeEstimateAccuracy.inputSchema.safeParse({
+        keywords: "",
+        category: " ",
+      }).success,
+    ).toBe(false);
+    await expect(
+      analyzeEstimateAccuracy.execute({ keywords: "", auctionHouse: "" }),
+    ).rejects.toThrow("Provide keywords, a category or an auction house");
+    expect(mockLiveAuctioneersAdapter.getPriceHistory).not.toHaveBeenCalled();
+  });
+
+  it("skips blank fields when choosing the search keywords", async () => {
+    mockLiveAuctioneersAdapter.getPriceHistory.mockResolvedValueOnce({
+      results: [],
+    });
+
+    const result = await analyzeEstimateAccuracy.execute({
+      keywords: "",
+      category: "Asian Art",
+    });
+
+    expect(result.keywords).toBe("Asian Art");
+    expect(
+      mockLiveAuctioneersAdapter.getPriceHistory.mock.calls[0][0],
+    ).toMatchObject({ keywords: "Asian Art" });
+  });
+});
+
+// --- compareItems ---
+
+describe("compareItems", () => {
+  function lamp(id: string, price: number) {
+    return {
+      id: `liveauctioneers-${id}`,
+      platformItemId: id,
+      platform: "liveauctioneers",
+      url: `https://example.com/${id}`,
+      title: `Lamp ${id}`,
+      description: "",
+      images: [],
+      category: [],
+      currentPrice: price,
+      currency: "USD",
+      auctionType: "timed",
+      seller: { name: "Example Auctions" },
+    };
+  }
+
+  it("aligns the fetched items in the order given", async () => {
+    mockLiveAuctioneersAdapter.getItem.mockImplementation(async (id) =>
+      lamp(id, id === "1" ? 300 : 200),
+    );
+
+    const result = await compareItems.execute({
+      items: [
+        { platform: "liveauctioneers", itemId: "1" },
+        { platform: "liveauctioneers", itemId: "2" },
+      ],
+    });
+
+    expect(result.items.map((item) => item.itemId)).toEqual(["1", "2"]);
+    const priceRow = result.rows.find((row) => row.attribute === "price");
+    expect(priceRow?.best).toBe(1);
+    expect(result.unavailable).toEqual([]);
+
+    const mock = serverAnalytics as MockServerAnalytics;
+    expect(mock.findEvent("comparison:created")?.properties).toMatchObject({
+      platforms: ["liveauctioneers"],
+      item_count: 2,
+      unavailable_count: 0,
+      source: "agent",
+    });
+  });
+
+  it("reports items that couldn't be fetched", async () => {
+    mockLiveAuctioneersAdapter.getItem.mockImplementation(async (id) => {
+      if (id === "3") throw new Error("Item not found");
+      return lamp(id, 100);
+    });
+
+    const result = await compareItems.execute({
+      items: [
+        { platform: "liveauctioneers", itemId: "1" },
+        { platform: "liveauctioneers", itemId: "2" },
+        { platform: "liveauctioneers", itemId: "3" },
+      ],
+    });
+
+    expect(result.items).toHaveLength(2);
+    expect(result.unavailable).toEqual([
+      { platform: "liveauctioneers", itemId: "3", error: "Item not found" },
+    ]);
+  });
+
+  it("fails when fewer than two items load", async () => {
+    mockLiveAuctioneersAdapter.getItem.mockRejectedValue(
+      new Error("Item not found"),
+    );
+
+    await expect(
+      compareItems.execute({
+        items: [
+          { platform: "liveauctioneers", itemId: "1" },
+          { platform: "liveauctioneers", itemId: "2" },
+        ],
+      }),
+    ).rejects.toThrow("Couldn't load enough items to compare");
+  });
+});
+
 // --- getToolSubsetWithContext ---
 
 describe("getToolSubsetWithContext", () => {
@@ -360,7 +1435,9 @@ describe("getToolSubsetWithContext", () => {
       userId: "user-123",
     });
 
-    mockLiveAuctioneersAdapter.search.mockResolvedValue([{ itemId: "1" }]);
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({
+      results: [{ itemId: "1", currency: "USD" }],
+    });
 
     await toolsWithContext.searchItems?.execute({
       keywords: "test",
@@ -380,7 +1457,7 @@ describe("getToolSubsetWithContext", () => {
       userId: "user-456",
     });
 
-    const mockItem = { id: "la-123", title: "Test Item" };
+    const mockItem = { id: "la-123", title: "Test Item", currency: "USD" };
     mockLiveAuctioneersAdapter.getItem.mockResolvedValue(mockItem);
 
     await toolsWithContext.getItemDetails?.execute({
@@ -396,7 +1473,9 @@ describe("getToolSubsetWithContext", () => {
   it("uses undefined distinctId when no userId provided", async () => {
     const toolsWithContext = getToolSubsetWithContext(["searchItems"], {});
 
-    mockLiveAuctioneersAdapter.search.mockResolvedValue([{ itemId: "1" }]);
+    mockLiveAuctioneersAdapter.search.mockResolvedValue({
+      results: [{ itemId: "1", currency: "USD" }],
+    });
 
     await toolsWithContext.searchItems?.execute({
       keywords: "test",
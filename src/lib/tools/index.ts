@@ -6,12 +6,68 @@
 import { z } from "zod";
 import { serverAnalytics } from "@/lib/analytics/server";
 import { getAdapter, listPlatforms } from "@/lib/adapters/registry";
+import { supportsSellerProfile } from "@/lib/adapters/platforms";
+import { wasServedFromCache } from "@/lib/adapters/cache";
+import {
+  CircuitOpenError,
+  RequestTimeoutError,
+} from "@/lib/adapters/resilience";
+import {
+  decodePlatformCursors,
+  encodePlatformCursors,
+} from "@/lib/adapters/pagination";
+import { dedupeResults } from "@/lib/search/dedup";
+import { rankResults, type SortOrder } from "@/lib/search/ranking";
+import { BASE_CURRENCY } from "@/lib/fx/rates";
+import { fxService } from "@/lib/fx/server";
+import {
+  analyzeEstimateAccuracy as computeEstimateAccuracy,
+  estimateValue,
+  featuresFromIdentification,
+  identificationSearchPhrases,
+  matchesAuctionHouse,
+  scoreComparables,
+  type ComparableFeatures,
+  type ComparableSale,
+  type ConfidenceLevel,
+  type EstimateAccuracyResult,
+  type IdentifyItemResult,
+  type ItemIdentification,
+} from "@/lib/valuation";
+import { formatAmount, getConversionRate } from "@/lib/fx/convert";
+import {
+  adjustForInflation,
+  adjustResultsForInflation,
+  type InflationAdjustment,
+} from "@/lib/inflation";
+import {
+  calculateItemTotalCost,
+  calculateTotalCost as computeTotalCost,
+  listTaxRegionCodes,
+  type PremiumTier,
+  type TotalCostBreakdown,
+} from "@/lib/costs";
 import type {
+  MultiPlatformSearchResult,
   PlatformAdapter,
+  PlatformSearchStatus,
+  SearchPage,
   SearchResult,
   UnifiedItem,
 } from "@/lib/adapters/types";
 import type { ToolName } from "@/lib/agent/types";
+import { summarizeBids, type BidTimeline } from "@/lib/bids";
+import { analyzeItemCondition } from "@/lib/condition";
+import {
+  buildComparison,
+  MAX_COMPARE_ITEMS,
+  MIN_COMPARE_ITEMS,
+  type ItemComparison,
+  type UncomparedItem,
+} from "@/lib/comparison";
+import { buildSellerProfile, type SellerProfile } from "@/lib/sellers";
+import type { WatchItemResult, WatchlistEntry } from "@/lib/watchlist";
+import { watchlistService } from "@/lib/watchlist/server";
 
 /**
  * Context passed to tools for analytics attribution.
@@ -20,6 +76,13 @@ export interface ToolContext {
   userId?: string;
 }
 
+/** Listings and completed lots fetched for a seller profile */
+const SELLER_PROFILE_PAGE_SIZE = 50;
+
+/** Pages of sold lots fetched for an estimate accuracy analysis */
+const ESTIMATE_ACCURACY_MAX_PAGES = 3;
+const ESTIMATE_ACCURACY_PAGE_SIZE = 50;
+
 /**
  * Platforms that require feature flags to be enabled.
  * Map of platform name to feature flag key.
@@ -70,57 +133,416 @@ async function getEnabledPlatforms(
   return enabledPlatforms.filter((p): p is string => p !== null);
 }
 
+/**
+ * Fetch the item being valued, with prices in the base currency.
+ */
+async function getSubjectItem(
+  platform: string,
+  itemId: string,
+  userId?: string,
+): Promise<UnifiedItem> {
+  const enabledPlatforms = await getEnabledPlatforms([platform], userId);
+  if (!enabledPlatforms.includes(platform)) {
+    throw new Error(`Platform ${platform} is not available`);
+  }
+  const item = await getAdapter(platform).getItem(itemId);
+  return fxService.convertItem(item);
+}
+
+/**
+ * Query shared by the multi-platform search tools and the "load more" endpoint.
+ */
+export interface PlatformSearchInput {
+  keywords: string;
+  category?: string;
+  priceRange?: { min?: number; max?: number };
+  pageSize: number;
+  platforms?: string[];
+  /** Applied per platform and again over the merged results. Default: "relevance" */
+  sort?: SortOrder;
+  /** Cursor from a previous MultiPlatformSearchResult */
+  cursor?: string;
+}
+
+export interface PlatformSearchContext extends ToolContext {
+  /** Who triggered the search, for analytics. Default: "agent" */
+  source?: "agent" | "user";
+}
+
 /**
  * Execute search across multiple adapters in parallel.
- * Returns merged results from all platforms.
+ * Returns merged results with prices converted to the base currency, ranked
+ * across platforms by `sort` and with cross-platform duplicates collapsed
+ * into one result, plus a status entry for every requested platform, including
+ * platforms skipped because their feature flag is disabled. Dated sales in
+ * price history also get their sold price in today's money.
+ * With a cursor, only platforms that still have more results are queried.
  * Tracks performance metrics for each adapter.
  */
-async function searchAllAdapters<T>(
-  platforms: string[] | undefined,
-  searchFn: (adapter: PlatformAdapter) => Promise<T[]>,
+export async function searchAllAdapters(
   operationType: "search" | "price_history",
-  userId?: string,
-): Promise<T[]> {
-  const targetPlatforms = await getEnabledPlatforms(platforms, userId);
+  input: PlatformSearchInput,
+  context: PlatformSearchContext = {},
+): Promise<MultiPlatformSearchResult> {
+  const { userId, source = "agent" } = context;
+  const { platforms, cursor, ...query } = input;
+
+  const platformCursors = cursor ? decodePlatformCursors(cursor) : null;
+  if (cursor && !platformCursors) {
+    throw new Error("Invalid pagination cursor");
+  }
+
+  const requestedPlatforms = platformCursors
+    ? Object.keys(platformCursors).filter(
+        (platform) => !platforms?.length || platforms.includes(platform),
+      )
+    : platforms?.length
+      ? platforms
+      : listPlatforms();
+  // An empty list here means the cursor has nothing left to fetch
+  const targetPlatforms = requestedPlatforms.length
+    ? await getEnabledPlatforms(requestedPlatforms, userId)
+    : [];
 
-  const results = await Promise.all(
+  const outcomes = await Promise.all(
     targetPlatforms.map(async (platform) => {
       const startTime = performance.now();
-      let resultCount = 0;
-      let success = true;
+      let page: SearchPage = { results: [] };
+      let status: PlatformSearchStatus["status"] = "ok";
+      let cacheHit = false;
       let errorMessage: string | undefined;
+      let retryAt: string | undefined;
+
+      let adapter: PlatformAdapter | undefined;
 
       try {
-        const adapter = getAdapter(platform);
-        const adapterResults = await searchFn(adapter);
-        resultCount = adapterResults.length;
-        return adapterResults;
+        adapter = getAdapter(platform);
+        const platformQuery = { ...query, cursor: platformCursors?.[platform] };
+        page =
+          operationType === "search"
+            ? await adapter.search(platformQuery)
+            : await adapter.getPriceHistory(platformQuery);
+        cacheHit = wasServedFromCache(page);
       } catch (error) {
-        success = false;
+        // Don't fail entire search if one adapter fails. A failure that
+        // opened the circuit also makes the platform unavailable for now.
+        const availability = adapter?.getAvailability?.();
+        if (error instanceof CircuitOpenError) {
+          status = "unavailable";
+          retryAt = error.retryAt.toISOString();
+        } else if (availability?.available === false) {
+          status = "unavailable";
+          retryAt = availability.retryAt?.toISOString();
+        } else {
+          status = error instanceof RequestTimeoutError ? "timeout" : "error";
+        }
         errorMessage = error instanceof Error ? error.message : String(error);
         console.warn(`Search failed for ${platform}:`, error);
-        return []; // Don't fail entire search if one adapter fails
-      } finally {
-        const latencyMs = Math.round(performance.now() - startTime);
-
-        serverAnalytics.track(
-          "adapter:search",
-          {
-            platform,
-            operation: operationType,
-            result_count: resultCount,
-            latency_ms: latencyMs,
-            success,
-            error: errorMessage,
-            source: "agent",
-          },
-          userId,
-        );
       }
+
+      const latencyMs = Math.round(performance.now() - startTime);
+
+      serverAnalytics.track(
+        "adapter:search",
+        {
+          platform,
+          operation: operationType,
+          result_count: page.results.length,
+          latency_ms: latencyMs,
+          success: status === "ok",
+          cache_hit: cacheHit,
+          error: errorMessage,
+          source,
+        },
+        userId,
+      );
+
+      const platformStatus: PlatformSearchStatus = {
+        platform,
+        status,
+        resultCount: page.results.length,
+        latencyMs,
+        totalCount: page.totalCount,
+        hasMore: page.nextCursor !== undefined,
+        error: errorMessage,
+        retryAt,
+      };
+      return { page, platformStatus };
     }),
   );
 
-  return results.flat();
+  const disabledStatuses: PlatformSearchStatus[] = requestedPlatforms
+    .filter((platform) => !targetPlatforms.includes(platform))
+    .map((platform) => ({
+      platform,
+      status: "disabled",
+      resultCount: 0,
+      latencyMs: 0,
+    }));
+
+  const nextCursors: Record<string, string> = {};
+  for (const { page, platformStatus } of outcomes) {
+    if (page.nextCursor) {
+      nextCursors[platformStatus.platform] = page.nextCursor;
+    }
+  }
+
+  const converted = await fxService.convertResults(
+    outcomes.flatMap((outcome) => outcome.page.results),
+  );
+  // Rank before deduplicating so each cluster keeps its best-ranked listing
+  const ranked = rankResults(converted, {
+    sort: query.sort,
+    keywords: query.keywords,
+  });
+
+  const results = dedupeResults(ranked);
+
+  return {
+    results:
+      operationType === "price_history"
+        ? adjustResultsForInflation(results)
+        : results,
+    platforms: [
+      ...outcomes.map((outcome) => outcome.platformStatus),
+      ...disabledStatuses,
+    ],
+    nextCursor: encodePlatformCursors(nextCursors),
+  };
+}
+
+/**
+ * What comparable sales are scored against: a listed item, or the features
+ * of an object identified from a photo.
+ */
+export type ComparableSubject =
+  | { platform: string; itemId: string }
+  | ComparableFeatures;
+
+/**
+ * Search price history and score each comparable for similarity to the
+ * subject, closest first with relevance sort.
+ * Shared by the comparable-sales tools and the "load more" endpoint.
+ */
+export async function searchComparables(
+  input: PlatformSearchInput,
+  subject?: ComparableSubject,
+  context: PlatformSearchContext = {},
+): Promise<MultiPlatformSearchResult> {
+  // Similarity scoring is optional: when the subject can't be
+  // loaded (ended, removed, platform down), return unscored comparables
+  const [result, subjectFeatures] = await Promise.all([
+    searchAllAdapters("price_history", input, context),
+    subject && "itemId" in subject
+      ? getSubjectItem(subject.platform, subject.itemId, context.userId).catch(
+          (error) => {
+            console.warn(
+              `Couldn't load subject ${subject.platform}/${subject.itemId}:`,
+              error,
+            );
+            return null;
+          },
+        )
+      : subject,
+  ]);
+  if (!subjectFeatures) return result;
+
+  const results = scoreComparables(subjectFeatures, result.results);
+  if (!input.sort || input.sort === "relevance") {
+    results.sort(
+      (a, b) => (b.similarity?.score ?? 0) - (a.similarity?.score ?? 0),
+    );
+  }
+  return { ...result, results };
+}
+
+/**
+ * Fetch an item's bid history as a timeline.
+ * Shared by the getBidHistory tool and the item detail bid timeline endpoint.
+ */
+export async function getBidTimeline(
+  platform: string,
+  itemId: string,
+  context: PlatformSearchContext = {},
+): Promise<BidTimeline> {
+  const { userId, source = "agent" } = context;
+  const startTime = performance.now();
+  let bidCount = 0;
+  let success = true;
+  let errorMessage: string | undefined;
+
+  try {
+    const enabledPlatforms = await getEnabledPlatforms([platform], userId);
+    if (!enabledPlatforms.includes(platform)) {
+      throw new Error(`Platform ${platform} is not available`);
+    }
+
+    const adapter = getAdapter(platform);
+    if (!adapter.getBidHistory) {
+      throw new Error(`Bid history is not available for ${platform}`);
+    }
+    const bids = await adapter.getBidHistory(itemId);
+    bidCount = bids.length;
+    return summarizeBids(platform, itemId, bids);
+  } catch (error) {
+    success = false;
+    errorMessage = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    serverAnalytics.track(
+      "adapter:get_bid_history",
+      {
+        platform,
+        item_id: itemId,
+        bid_count: bidCount,
+        latency_ms: Math.round(performance.now() - startTime),
+        success,
+        error: errorMessage,
+        source,
+      },
+      userId,
+    );
+  }
+}
+
+/**
+ * Add an item to a signed-in user's watchlist.
+ * Shared by the watchItem tool and the watchlist endpoint.
+ */
+export async function addToWatchlist(
+  platform: string,
+  itemId: string,
+  context: PlatformSearchContext & { userId: string },
+): Promise<WatchlistEntry> {
+  const { userId, source = "agent" } = context;
+  const item = await getSubjectItem(platform, itemId, userId);
+  const entry = await watchlistService.watch(userId, item);
+
+  serverAnalytics.track(
+    "watchlist:item_watched",
+    {
+      platform,
+      item_id: itemId,
+      platform_watched: entry.platformWatched,
+      source,
+    },
+    userId,
+  );
+
+  return entry;
+}
+
+/**
+ * Assemble a seller's profile from their current listings, recently
+ * completed lots and the seller details on one of their lots.
+ * Shared by the getSellerProfile tool and the seller profile endpoint.
+ */
+export async function fetchSellerProfile(
+  platform: string,
+  sellerId: string,
+  context: PlatformSearchContext = {},
+): Promise<SellerProfile> {
+  const { userId, source = "agent" } = context;
+  const enabledPlatforms = await getEnabledPlatforms([platform], userId);
+  if (!enabledPlatforms.includes(platform)) {
+    throw new Error(`Platform ${platform} is not available`);
+  }
+  if (!supportsSellerProfile(platform)) {
+    throw new Error(`Seller profiles are not available for ${platform}`);
+  }
+
+  const adapter = getAdapter(platform);
+  const query = { keywords: "", sellerId, pageSize: SELLER_PROFILE_PAGE_SIZE };
+  const [activePage, completedPage] = await Promise.all([
+    adapter.search(query),
+    adapter.getPriceHistory(query),
+  ]);
+  const completedLots = await fxService.convertResults(completedPage.results);
+
+  // Seller rating and location are only on item details
+  const sampleLot = activePage.results[0] ?? completedPage.results[0];
+  const seller = sampleLot
+    ? await adapter.getItem(sampleLot.itemId).then(
+        (item) => item.seller,
+        () => undefined,
+      )
+    : undefined;
+
+  const profile = buildSellerProfile({
+    platform,
+    sellerId,
+    seller,
+    activeLots: activePage.results,
+    activeTotalCount: activePage.totalCount,
+    completedLots,
+  });
+
+  serverAnalytics.track(
+    "seller:profile_viewed",
+    {
+      platform,
+      seller_id: sellerId,
+      active_lot_count: profile.activeLotCount,
+      recent_sale_count: profile.recentSales.sold,
+      source,
+    },
+    userId,
+  );
+
+  return profile;
+}
+
+/**
+ * Fetch 2–4 items in parallel and align them for side-by-side comparison.
+ * Shared by the compareItems tool and the comparison endpoint.
+ */
+export async function getItemComparison(
+  refs: Array<{ platform: string; itemId: string }>,
+  context: PlatformSearchContext = {},
+): Promise<ItemComparison> {
+  const { userId, source = "agent" } = context;
+  if (refs.length < MIN_COMPARE_ITEMS || refs.length > MAX_COMPARE_ITEMS) {
+    throw new Error(
+      `Compare between ${MIN_COMPARE_ITEMS} and ${MAX_COMPARE_ITEMS} items`,
+    );
+  }
+
+  const outcomes = await Promise.allSettled(
+    refs.map(({ platform, itemId }) =>
+      getSubjectItem(platform, itemId, userId),
+    ),
+  );
+  const items: UnifiedItem[] = [];
+  const unavailable: UncomparedItem[] = [];
+  outcomes.forEach((outcome, i) => {
+    if (outcome.status === "fulfilled") {
+      items.push(outcome.value);
+    } else {
+      const reason = outcome.reason;
+      unavailable.push({
+        ...refs[i],
+        error: reason instanceof Error ? reason.message : String(reason),
+      });
+    }
+  });
+
+  serverAnalytics.track(
+    "comparison:created",
+    {
+      platforms: [...new Set(refs.map((ref) => ref.platform))],
+      item_count: items.length,
+      unavailable_count: unavailable.length,
+      source,
+    },
+    userId,
+  );
+
+  if (items.length < MIN_COMPARE_ITEMS) {
+    throw new Error(
+      `Couldn't load enough items to compare: ${unavailable.map((u) => u.error).join("; ")}`,
+    );
+  }
+  return buildComparison(items, unavailable);
 }
 
 /**
@@ -128,13 +550,37 @@ async function searchAllAdapters<T>(
  */
 interface ValuationAssessment {
   itemId: string;
+  /** Currency of priceRange; comparables are converted to it */
+  currency: string;
+  /** Comparables used after outlier rejection */
   comparablesCount: number;
+  /** Weighted 25th percentile, median and 75th percentile */
   priceRange: { low: number; high: number; median: number } | null;
-  confidence: "high" | "medium" | "low";
+  observedRange: { min: number; max: number } | null;
+  confidence: ConfidenceLevel;
+  /** 0–1, from sample size, dispersion and recency */
+  confidenceScore: number;
+  outliersExcluded: number;
+  comparables: ValuationComparable[];
   factors: string[];
   recommendation: string;
 }
 
+/**
+ * A comparable as valued, in the assessment currency.
+ */
+interface ValuationComparable {
+  title: string;
+  /** Nominal sold price */
+  soldPrice: number;
+  /** Sold price in today's money, when the sale date is known */
+  inflationAdjustedPrice?: number;
+  soldYear?: number;
+  /** Similarity to the subject (0–1), when provided */
+  similarity?: number;
+  outlier: boolean;
+}
+
 /**
  * Mode switch result shape.
  */
@@ -162,7 +608,7 @@ function createTools(context: ToolContext = {}) {
   return {
     searchItems: {
       description:
-        "Search for active auction items. Use this to find items matching user criteria like keywords, category, or price range.",
+        "Search for active auction items. Use this to find items matching user criteria like keywords, category, or price range. Returns results plus a per-platform status so you can tell when a platform failed rather than had no matches.",
       inputSchema: z.object({
         keywords: z.string().describe("Search keywords describing the item"),
         category: z
@@ -171,8 +617,14 @@ function createTools(context: ToolContext = {}) {
           .describe('Category filter (e.g., "Furniture", "Art", "Jewelry")'),
         priceRange: z
           .object({
-            min: z.number().optional().describe("Minimum price in USD"),
-            max: z.number().optional().describe("Maximum price in USD"),
+            min: z
+              .number()
+              .optional()
+              .describe(`Minimum price in ${BASE_CURRENCY}, the base currency`),
+            max: z
+              .number()
+              .optional()
+              .describe(`Maximum price in ${BASE_CURRENCY}, the base currency`),
           })
           .optional()
           .describe("Price range filter"),
@@ -188,38 +640,29 @@ function createTools(context: ToolContext = {}) {
           .describe(
             `Filter to specific platforms. Available: ${listPlatforms().join(", ")}. Omit to search all.`,
           ),
+        sort: z
+          .enum(["relevance", "price-asc", "price-desc", "ending-soon"])
+          .optional()
+          .describe(
+            `Result order across all platforms. Prices in other currencies are converted to ${BASE_CURRENCY}, the base currency, before comparing. Default: relevance`,
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "nextCursor from a previous result to fetch the next page. Repeat the original search arguments with it.",
+          ),
       }),
-      execute: async ({
-        keywords,
-        category,
-        priceRange,
-        pageSize,
-        platforms,
-      }: {
-        keywords: string;
-        category?: string;
-        priceRange?: { min?: number; max?: number };
-        pageSize: number;
-        platforms?: string[];
-      }): Promise<SearchResult[]> => {
-        return searchAllAdapters(
-          platforms,
-          (adapter) =>
-            adapter.search({
-              keywords,
-              category,
-              priceRange,
-              pageSize,
-            }),
-          "search",
-          userId,
-        );
+      execute: async (
+        input: PlatformSearchInput,
+      ): Promise<MultiPlatformSearchResult> => {
+        return searchAllAdapters("search", input, { userId });
       },
     },
 
     getItemDetails: {
       description:
-        "Get complete details for a specific auction item including description, images, estimates, condition, and seller info. Use this when users want to know more about a specific item.",
+        "Get complete details for a specific auction item including description, images, estimates, condition, and seller info. conditionReport gives the condition as a grade on the Mint-to-Poor scale, the issues the listing mentions (chips, cracks, losses, restoration, replaced parts) and a confidence. Use this when users want to know more about a specific item.",
       inputSchema: z.object({
         platform: z
           .string()
@@ -235,6 +678,7 @@ function createTools(context: ToolContext = {}) {
       }): Promise<UnifiedItem> => {
         const startTime = performance.now();
         let success = true;
+        let cacheHit = false;
         let errorMessage: string | undefined;
 
         try {
@@ -248,7 +692,13 @@ function createTools(context: ToolContext = {}) {
           }
 
           const adapter = getAdapter(platform);
-          return await adapter.getItem(itemId);
+          const item = await adapter.getItem(itemId);
+          cacheHit = wasServedFromCache(item);
+          const converted = await fxService.convertItem(item);
+          return {
+            ...converted,
+            conditionReport: analyzeItemCondition(converted),
+          };
         } catch (error) {
           success = false;
           errorMessage = error instanceof Error ? error.message : String(error);
@@ -263,6 +713,7 @@ function createTools(context: ToolContext = {}) {
               item_id: itemId,
               latency_ms: latencyMs,
               success,
+              cache_hit: cacheHit,
               error: errorMessage,
               source: "agent",
             },
@@ -274,7 +725,7 @@ function createTools(context: ToolContext = {}) {
 
     getPriceHistory: {
       description:
-        "Search recently sold auction items to find comparable sales. Use this to help users understand market value by finding what similar items have sold for.",
+        "Search recently sold auction items to find comparable sales. Use this to help users understand market value by finding what similar items have sold for. Dated sales include inflationAdjusted, the sold price in today's USD. Returns results plus a per-platform status so you can tell when a platform failed rather than had no matches.",
       inputSchema: z.object({
         keywords: z.string().describe("Search keywords for comparable items"),
         category: z
@@ -283,8 +734,18 @@ function createTools(context: ToolContext = {}) {
           .describe("Category filter to narrow comparables"),
         priceRange: z
           .object({
-            min: z.number().optional().describe("Minimum sold price in USD"),
-            max: z.number().optional().describe("Maximum sold price in USD"),
+            min: z
+              .number()
+              .optional()
+              .describe(
+                `Minimum sold price in ${BASE_CURRENCY}, the base currency`,
+              ),
+            max: z
+              .number()
+              .optional()
+              .describe(
+                `Maximum sold price in ${BASE_CURRENCY}, the base currency`,
+              ),
           })
           .optional()
           .describe("Price range for comparable sales"),
@@ -300,38 +761,101 @@ function createTools(context: ToolContext = {}) {
           .describe(
             `Filter to specific platforms. Available: ${listPlatforms().join(", ")}. Omit to search all.`,
           ),
+        sort: z
+          .enum(["relevance", "price-asc", "price-desc"])
+          .optional()
+          .describe(
+            `Order of comparables across all platforms. Prices in other currencies are converted to ${BASE_CURRENCY}, the base currency, before comparing. Default: relevance`,
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "nextCursor from a previous result to fetch the next page. Repeat the original search arguments with it.",
+          ),
+        subject: z
+          .object({
+            platform: z.string(),
+            itemId: z.string(),
+          })
+          .optional()
+          .describe(
+            "The item being valued. Each comparable is scored for similarity to it, and with relevance sort the closest comparables come first.",
+          ),
       }),
       execute: async ({
-        keywords,
-        category,
-        priceRange,
-        pageSize,
-        platforms,
-      }: {
-        keywords: string;
-        category?: string;
-        priceRange?: { min?: number; max?: number };
-        pageSize: number;
-        platforms?: string[];
-      }): Promise<SearchResult[]> => {
-        return searchAllAdapters(
-          platforms,
-          (adapter) =>
-            adapter.getPriceHistory({
-              keywords,
-              category,
-              priceRange,
-              pageSize,
-            }),
-          "price_history",
-          userId,
-        );
+        subject,
+        ...input
+      }: PlatformSearchInput & {
+        subject?: { platform: string; itemId: string };
+      }): Promise<MultiPlatformSearchResult> => {
+        return searchComparables(input, subject, { userId });
+      },
+    },
+
+    identifyItem: {
+      description:
+        "Record what you can identify about an object from the user's photo, then automatically search comparable sales for it. Fill in the attributes from the image itself: what it is, its category, likely maker, period and materials, and search phrases for comparables, most specific first. Returns the identification plus comparable sales ranked by similarity, as getPriceHistory would.",
+      inputSchema: z.object({
+        description: z
+          .string()
+          .describe('Short name for the object, e.g. "Bronze table lamp"'),
+        category: z
+          .string()
+          .describe('Category, e.g. "Lighting", "Ceramics", "Jewelry"'),
+        maker: z
+          .string()
+          .optional()
+          .describe(
+            "Likely maker, artist or manufacturer, from marks, signatures or style. Omit if unknown.",
+          ),
+        period: z
+          .string()
+          .optional()
+          .describe('Style or date range, e.g. "Art Deco, c. 1925-1935"'),
+        materials: z
+          .array(z.string())
+          .optional()
+          .describe("Visible materials, e.g. bronze, leaded glass"),
+        suggestedKeywords: z
+          .array(z.string())
+          .min(1)
+          .max(5)
+          .describe(
+            "Search phrases for comparable sales, most specific first. The first that finds sales is used.",
+          ),
+        confidence: z
+          .enum(["high", "medium", "low"])
+          .describe("How sure you are of the identification"),
+      }),
+      execute: async (
+        identification: ItemIdentification,
+      ): Promise<IdentifyItemResult> => {
+        const phrases = identificationSearchPhrases(identification);
+        const subject = featuresFromIdentification(identification);
+        let searchKeywords = phrases[0];
+        let priceHistory: MultiPlatformSearchResult = {
+          results: [],
+          platforms: [],
+        };
+
+        for (const keywords of phrases) {
+          searchKeywords = keywords;
+          priceHistory = await searchComparables(
+            { keywords, pageSize: 10 },
+            subject,
+            { userId },
+          );
+          if (priceHistory.results.length > 0) break;
+        }
+
+        return { identification, searchKeywords, priceHistory };
       },
     },
 
     assessValue: {
       description:
-        "Provide valuation guidance for an item based on comparable sales data. Use this after gathering item details and finding comparables to synthesize a value assessment.",
+        "Provide valuation guidance for an item based on comparable sales data. Adjusts older sales for inflation, rejects outlier sales, weights recent and more similar sales more heavily, adjusts for condition and returns the likely range (25th-75th percentile), median and a confidence score. Use this after gathering item details and finding comparables to synthesize a value assessment.",
       inputSchema: z.object({
         itemId: z.string().describe("The item ID being assessed"),
         comparables: z
@@ -339,61 +863,135 @@ function createTools(context: ToolContext = {}) {
             z.object({
               title: z.string(),
               soldPrice: z.number(),
-              soldDate: z.string().optional(),
-              condition: z.string().optional(),
+              currency: z
+                .string()
+                .optional()
+                .describe("Currency of soldPrice (e.g. GBP). Default: USD"),
+              soldDate: z
+                .string()
+                .optional()
+                .describe(
+                  "ISO sale date; recent sales carry more weight and older prices are adjusted for inflation",
+                ),
+              condition: z
+                .string()
+                .optional()
+                .describe("Condition grade, e.g. Excellent, Very Good, Fair"),
+              similarity: z
+                .number()
+                .min(0)
+                .max(1)
+                .optional()
+                .describe(
+                  "similarity.score from getPriceHistory; less similar sales carry less weight. Default: 1",
+                ),
             }),
           )
           .min(1)
           .describe("Array of comparable sold items with prices"),
+        subjectCondition: z
+          .string()
+          .optional()
+          .describe(
+            "Condition of the item being assessed. Comparable prices are adjusted to it.",
+          ),
+        adjustForInflation: z
+          .boolean()
+          .optional()
+          .describe(
+            "Restate dated sales in today's money using CPI before valuing. Default: true",
+          ),
       }),
       execute: async ({
         itemId,
         comparables,
+        subjectCondition,
+        adjustForInflation: adjustInflation = true,
       }: {
         itemId: string;
+        subjectCondition?: string;
+        adjustForInflation?: boolean;
         comparables: Array<{
           title: string;
           soldPrice: number;
+          currency?: string;
           soldDate?: string;
           condition?: string;
+          similarity?: number;
         }>;
       }): Promise<ValuationAssessment> => {
-        const prices = comparables
-          .map((c) => c.soldPrice)
-          .sort((a, b) => a - b);
-        const count = prices.length;
-
-        let priceRange: ValuationAssessment["priceRange"] = null;
-        let confidence: ValuationAssessment["confidence"] = "low";
-
-        if (count >= 3) {
-          const low = prices[0];
-          const high = prices[count - 1];
-          const median =
-            count % 2 === 0
-              ? (prices[count / 2 - 1] + prices[count / 2]) / 2
-              : prices[Math.floor(count / 2)];
-
-          priceRange = { low, high, median };
-          confidence = count >= 10 ? "high" : count >= 5 ? "medium" : "low";
+        // Normalize every comparable to the base currency before comparing
+        const rates = await fxService.getRates();
+        let convertedCount = 0;
+        let unsupportedCount = 0;
+        const sales: ComparableSale[] = [];
+        const valued: Omit<ValuationComparable, "outlier">[] = [];
+        const inflationAdjusted: InflationAdjustment[] = [];
+        for (const c of comparables) {
+          const currency = c.currency ?? BASE_CURRENCY;
+          const rate = getConversionRate(currency, BASE_CURRENCY, rates);
+          if (rate === undefined) {
+            unsupportedCount++;
+            continue;
+          }
+          if (rate !== 1) convertedCount++;
+          const soldPrice = Math.round(c.soldPrice * rate);
+          const inflation = adjustInflation
+            ? adjustForInflation(soldPrice, c.soldDate)
+            : undefined;
+          if (inflation && inflation.factor !== 1) {
+            inflationAdjusted.push(inflation);
+          }
+          valued.push({
+            title: c.title,
+            soldPrice,
+            inflationAdjustedPrice: inflation?.adjustedPrice,
+            soldYear: inflation?.fromYear,
+            similarity: c.similarity,
+          });
+          sales.push({
+            title: c.title,
+            price: inflation?.adjustedPrice ?? soldPrice,
+            soldDate: c.soldDate,
+            condition: c.condition,
+            similarity: c.similarity,
+          });
         }
 
-        const factors: string[] = [];
-        if (count < 5) factors.push("Limited comparable data available");
-        if (priceRange && priceRange.high > priceRange.low * 3) {
+        const estimate = estimateValue(sales, { subjectCondition });
+        const { confidence, percentiles } = estimate;
+        const priceRange: ValuationAssessment["priceRange"] = percentiles
+          ? {
+              low: percentiles.p25,
+              high: percentiles.p75,
+              median: percentiles.p50,
+            }
+          : null;
+
+        const factors = [...estimate.factors];
+        if (convertedCount > 0) {
+          factors.push(
+            `${convertedCount} comparable${convertedCount === 1 ? "" : "s"} converted to ${BASE_CURRENCY} at rates as of ${rates.asOf}`,
+          );
+        }
+        if (unsupportedCount > 0) {
           factors.push(
-            "Wide price variance suggests condition or attribution differences",
+            `${unsupportedCount} comparable${unsupportedCount === 1 ? "" : "s"} excluded due to unsupported currency`,
           );
         }
-        if (comparables.some((c) => !c.condition)) {
-          factors.push("Condition data missing from some comparables");
+        if (inflationAdjusted.length > 0) {
+          const { toYear, index } = inflationAdjusted[0];
+          factors.push(
+            `${inflationAdjusted.length} older sale${inflationAdjusted.length === 1 ? "" : "s"} adjusted for inflation to ${toYear} ${BASE_CURRENCY} (${index})`,
+          );
         }
 
+        const format = (amount: number) => formatAmount(amount, BASE_CURRENCY);
         let recommendation: string;
         if (confidence === "high" && priceRange) {
-          recommendation = `Market value likely between $${priceRange.low.toLocaleString()} - $${priceRange.high.toLocaleString()}, with median at $${priceRange.median.toLocaleString()}`;
+          recommendation = `Market value likely between ${format(priceRange.low)} - ${format(priceRange.high)}, with median at ${format(priceRange.median)}`;
         } else if (confidence === "medium" && priceRange) {
-          recommendation = `Estimated range $${priceRange.low.toLocaleString()} - $${priceRange.high.toLocaleString()}, but limited data suggests getting additional opinions`;
+          recommendation = `Estimated range ${format(priceRange.low)} - ${format(priceRange.high)}, but limited data suggests getting additional opinions`;
         } else {
           recommendation =
             "Insufficient comparable data for reliable valuation. Consider professional appraisal.";
@@ -401,15 +999,282 @@ function createTools(context: ToolContext = {}) {
 
         return {
           itemId,
-          comparablesCount: count,
+          currency: BASE_CURRENCY,
+          comparablesCount: estimate.comparablesUsed,
           priceRange,
+          observedRange: estimate.observedRange,
           confidence,
+          confidenceScore: estimate.confidenceScore,
+          outliersExcluded: estimate.outliersExcluded,
+          comparables: valued.map((c, i) => ({
+            ...c,
+            outlier: estimate.comparables[i].outlier,
+          })),
           factors,
           recommendation,
         };
       },
     },
 
+    analyzeEstimateAccuracy: {
+      description:
+        "Measure how an auction house's pre-sale estimates compare with hammer prices, for a category, an auction house or both. Returns how often sold lots landed below, within and above estimate, the median hammer-to-estimate-midpoint ratio, and whether estimates look conservative, in line or optimistic, overall and per house. Use it to put a house's estimate in context before advising on a bid.",
+      inputSchema: z
+        .object({
+          keywords: z
+            .string()
+            .optional()
+            .describe(
+              'Search terms for the kind of lot, e.g. "Tiffany lamp". Default: the category or auction house',
+            ),
+          category: z
+            .string()
+            .optional()
+            .describe('Category to analyze, e.g. "Asian Art"'),
+          auctionHouse: z
+            .string()
+            .optional()
+            .describe(
+              "Only count lots sold by this house (partial, case-insensitive match)",
+            ),
+        })
+        .refine(
+          (input) =>
+            [input.keywords, input.category, input.auctionHouse].some((value) =>
+              value?.trim(),
+            ),
+          { message: "Provide keywords, a category or an auction house" },
+        ),
+      execute: async ({
+        keywords,
+        category,
+        auctionHouse,
+      }: {
+        keywords?: string;
+        category?: string;
+        auctionHouse?: string;
+      }): Promise<EstimateAccuracyResult> => {
+        // Blank fields fall through, so no adapter gets an empty query
+        const searchKeywords = [keywords, category, auctionHouse]
+          .map((value) => value?.trim())
+          .find(Boolean);
+        if (!searchKeywords) {
+          throw new Error("Provide keywords, a category or an auction house");
+        }
+        const sold: SearchResult[] = [];
+        let cursor: string | undefined;
+
+        for (let page = 0; page < ESTIMATE_ACCURACY_MAX_PAGES; page++) {
+          const result = await searchAllAdapters(
+            "price_history",
+            {
+              keywords: searchKeywords,
+              category,
+              pageSize: ESTIMATE_ACCURACY_PAGE_SIZE,
+              cursor,
+            },
+            { userId },
+          );
+          sold.push(
+            ...result.results.filter(
+              (lot) => !auctionHouse || matchesAuctionHouse(lot, auctionHouse),
+            ),
+          );
+          cursor = result.nextCursor;
+          if (!cursor) break;
+        }
+
+        return {
+          keywords: searchKeywords,
+          category,
+          auctionHouse,
+          lotsExamined: sold.length,
+          accuracy: computeEstimateAccuracy(sold),
+        };
+      },
+    },
+
+    calculateTotalCost: {
+      description:
+        "Estimate what the buyer will actually pay: hammer price plus buyer's premium, tax and shipping, itemized. Pass platform and itemId to use a listing's current bid, and/or a hammerPrice for a hypothetical winning bid. Use this when users ask about total cost or what they will actually pay.",
+      inputSchema: z.object({
+        platform: z
+          .string()
+          .optional()
+          .describe(
+            `Platform of the listing. Available: ${listPlatforms().join(", ")}`,
+          ),
+        itemId: z.string().optional().describe("The item ID on the platform"),
+        hammerPrice: z
+          .number()
+          .min(0)
+          .optional()
+          .describe(
+            "Hammer price to estimate from. Overrides the listing's current bid.",
+          ),
+        currency: z
+          .string()
+          .optional()
+          .describe(
+            "Currency of hammerPrice when no listing is given. Default: USD",
+          ),
+        premiumTiers: z
+          .array(
+            z.object({
+              upTo: z
+                .number()
+                .optional()
+                .describe(
+                  "Upper bound of this band; omit on the last tier, whose rate applies to the rest",
+                ),
+              rate: z.number().min(0).max(1).describe("e.g. 0.25 for 25%"),
+            }),
+          )
+          .optional()
+          .describe(
+            "Auction house's buyer's premium tiers, lowest first. Omit to assume a typical 25%.",
+          ),
+        taxRegion: z
+          .string()
+          .optional()
+          .describe(
+            `Buyer's tax region. Available: ${listTaxRegionCodes().join(", ")}. Omit if unknown.`,
+          ),
+        shippingEstimate: z
+          .number()
+          .min(0)
+          .optional()
+          .describe("Estimated shipping cost in the same currency"),
+      }),
+      execute: async ({
+        platform,
+        itemId,
+        hammerPrice,
+        currency,
+        ...options
+      }: {
+        platform?: string;
+        itemId?: string;
+        hammerPrice?: number;
+        currency?: string;
+        premiumTiers?: PremiumTier[];
+        taxRegion?: string;
+        shippingEstimate?: number;
+      }): Promise<TotalCostBreakdown> => {
+        if (platform && itemId) {
+          const enabledPlatforms = await getEnabledPlatforms(
+            [platform],
+            userId,
+          );
+          if (!enabledPlatforms.includes(platform)) {
+            throw new Error(`Platform ${platform} is not available`);
+          }
+          const item = await getAdapter(platform).getItem(itemId);
+          return calculateItemTotalCost(item, { ...options, hammerPrice });
+        }
+
+        if (hammerPrice === undefined) {
+          throw new Error("Provide platform and itemId, or a hammerPrice");
+        }
+        return computeTotalCost({
+          ...options,
+          hammerPrice,
+          currency: currency ?? BASE_CURRENCY,
+        });
+      },
+    },
+
+    getBidHistory: {
+      description:
+        "Get the bid history for an auction lot: each bid's amount and time, the number of distinct bidders, and the opening and current bid. Use this when users ask how competitive a lot is or how bidding has progressed.",
+      inputSchema: z.object({
+        platform: z
+          .string()
+          .describe(`Platform name. Available: ${listPlatforms().join(", ")}`),
+        itemId: z.string().describe("The item ID on the platform"),
+      }),
+      execute: async ({
+        platform,
+        itemId,
+      }: {
+        platform: string;
+        itemId: string;
+      }): Promise<BidTimeline> => {
+        return getBidTimeline(platform, itemId, { userId });
+      },
+    },
+
+    getSellerProfile: {
+      description:
+        "Get a seller or auction house's profile: rating, location, how many lots they have open, their sell-through rate over the past year and the typical hammer price band of their recent sales. Use this when users ask whether a seller is reputable or active, or how a house's lots usually sell. Take sellerId from a search result's sellerId or an item's seller.id.",
+      inputSchema: z.object({
+        platform: z
+          .string()
+          .describe(`Platform name. Available: ${listPlatforms().join(", ")}`),
+        sellerId: z.string().describe("The seller's ID on the platform"),
+      }),
+      execute: async ({
+        platform,
+        sellerId,
+      }: {
+        platform: string;
+        sellerId: string;
+      }): Promise<SellerProfile> => {
+        return fetchSellerProfile(platform, sellerId, { userId });
+      },
+    },
+
+    watchItem: {
+      description:
+        "Add an item to the user's watchlist so they can track its price, bids and time remaining. Only use this when the user asks to watch, track or save a specific lot. Requires a signed-in user; if the result says sign-in is required, use promptSignIn.",
+      inputSchema: z.object({
+        platform: z
+          .string()
+          .describe(`Platform name. Available: ${listPlatforms().join(", ")}`),
+        itemId: z.string().describe("The item ID on the platform"),
+      }),
+      execute: async ({
+        platform,
+        itemId,
+      }: {
+        platform: string;
+        itemId: string;
+      }): Promise<WatchItemResult> => {
+        if (!userId) {
+          return { watched: false, requiresSignIn: true };
+        }
+        const entry = await addToWatchlist(platform, itemId, { userId });
+        return { watched: true, entry };
+      },
+    },
+
+    compareItems: {
+      description: `Compare ${MIN_COMPARE_ITEMS} to ${MAX_COMPARE_ITEMS} specific lots side by side: current price, estimate, condition, dimensions, materials, provenance, seller rating and end time, aligned in one table. Use this when users ask which of several items is the better buy or how they differ.`,
+      inputSchema: z.object({
+        items: z
+          .array(
+            z.object({
+              platform: z
+                .string()
+                .describe(
+                  `Platform name. Available: ${listPlatforms().join(", ")}`,
+                ),
+              itemId: z.string().describe("The item ID on the platform"),
+            }),
+          )
+          .min(MIN_COMPARE_ITEMS)
+          .max(MAX_COMPARE_ITEMS)
+          .describe("The items to compare, in the order to show them"),
+      }),
+      execute: async ({
+        items,
+      }: {
+        items: Array<{ platform: string; itemId: string }>;
+      }): Promise<ItemComparison> => {
+        return getItemComparison(items, { userId });
+      },
+    },
+
     switchAgentMode: {
       description:
         "Switch to a DIFFERENT agent mode. Only use this to switch to an agent you are NOT currently. After switching, continue helping the user - do not stop.",
@@ -491,7 +1356,14 @@ export const {
   searchItems,
   getItemDetails,
   getPriceHistory,
+  identifyItem,
   assessValue,
+  analyzeEstimateAccuracy,
+  calculateTotalCost,
+  getBidHistory,
+  getSellerProfile,
+  watchItem,
+  compareItems,
   switchAgentMode,
   promptSignIn,
 } = tools;
@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import { estimateValue, type ComparableSale } from "../engine";
+import { conditionAdjustment, parseConditionGrade } from "../condition";
+
+const NOW = new Date("2026-06-01T00:00:00Z").getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): string {
+  return new Date(NOW - days * DAY).toISOString();
+}
+
+function sales(prices: number[], extra: Partial<ComparableSale> = {}) {
+  return prices.map((price, i) => ({ title: `Comp ${i}`, price, ...extra }));
+}
+
+describe("parseConditionGrade", () => {
+  it("recognizes the appraiser's grading scale", () => {
+    expect(parseConditionGrade("Mint/As New")).toBe("mint");
+    expect(parseConditionGrade("Excellent")).toBe("excellent");
+    expect(parseConditionGrade("very good overall")).toBe("very-good");
+    expect(parseConditionGrade("Good, minor chips")).toBe("good");
+    expect(parseConditionGrade("Fair - needs restoration")).toBe("fair");
+    expect(parseConditionGrade("Poor")).toBe("poor");
+  });
+
+  it("returns undefined for unrecognized text", () => {
+    expect(parseConditionGrade("see photos")).toBeUndefined();
+    expect(parseConditionGrade(undefined)).toBeUndefined();
+  });
+});
+
+describe("conditionAdjustment", () => {
+  it("scales between grades", () => {
+    expect(conditionAdjustment("very-good", "excellent")).toBeCloseTo(1.15);
+    expect(conditionAdjustment("excellent", "excellent")).toBe(1);
+  });
+
+  it("treats unknown grades as Very Good", () => {
+    expect(conditionAdjustment(undefined, "good")).toBeCloseTo(0.85);
+  });
+});
+
+describe("estimateValue", () => {
+  it("reports weighted quartiles and the observed range", () => {
+    const estimate = estimateValue(sales([100, 200, 300]), { now: NOW });
+
+    expect(estimate.percentiles).toEqual({ p25: 125, p50: 200, p75: 275 });
+    expect(estimate.observedRange).toEqual({ min: 100, max: 300 });
+    expect(estimate.comparablesUsed).toBe(3);
+  });
+
+  it("returns no range with fewer than 3 comparables", () => {
+    const estimate = estimateValue(sales([100, 200]), { now: NOW });
+
+    expect(estimate.percentiles).toBeNull();
+    expect(estimate.observedRange).toBeNull();
+    expect(estimate.confidence).toBe("low");
+  });
+
+  it("rejects outliers with IQR by default", () => {
+    const estimate = estimateValue(sales([200, 210, 220, 230, 5000]), {
+      now: NOW,
+    });
+
+    expect(estimate.outliersExcluded).toBe(1);
+    expect(estimate.comparables[4].outlier).toBe(true);
+    expect(estimate.observedRange).toEqual({ min: 200, max: 230 });
+  });
+
+  it("supports MAD outlier rejection", () => {
+    const estimate = estimateValue(sales([10, 200, 210, 220, 230]), {
+      now: NOW,
+      outlierMethod: "mad",
+    });
+
+    expect(estimate.outliersExcluded).toBe(1);
+    expect(estimate.comparables[0].outlier).toBe(true);
+  });
+
+  it("does not reject outliers from very small samples", () => {
+    const estimate = estimateValue(sales([100, 110, 5000]), { now: NOW });
+    expect(estimate.outliersExcluded).toBe(0);
+  });
+
+  it("weights recent sales more heavily", () => {
+    const estimate = estimateValue(
+      [
+        { title: "Old", price: 100, soldDate: daysAgo(1500) },
+        { title: "Old", price: 110, soldDate: daysAgo(1500) },
+        { title: "Recent", price: 200, soldDate: daysAgo(10) },
+        { title: "Recent", price: 210, soldDate: daysAgo(10) },
+      ],
+      { now: NOW },
+    );
+
+    expect(estimate.percentiles!.p50).toBeGreaterThan(155);
+    expect(estimate.factors).toContain("2 older sales given reduced weight");
+  });
+
+  it("gives a one-year-old sale half weight", () => {
+    const estimate = estimateValue(
+      [{ title: "Comp", price: 100, soldDate: daysAgo(365) }],
+      { now: NOW },
+    );
+    expect(estimate.comparables[0].weight).toBeCloseTo(0.5);
+  });
+
+  it("weights comparables by similarity", () => {
+    const estimate = estimateValue(
+      [
+        { title: "Close", price: 1000, similarity: 0.9 },
+        { title: "Close", price: 1100, similarity: 0.9 },
+        { title: "Loose", price: 300, similarity: 0.2 },
+        { title: "Loose", price: 350, similarity: 0.2 },
+      ],
+      { now: NOW },
+    );
+
+    expect(estimate.percentiles!.p50).toBeGreaterThan(900);
+    expect(estimate.factors).toContain(
+      "2 loosely similar comparables given reduced weight",
+    );
+  });
+
+  it("keeps zero-similarity sales at a token weight", () => {
+    const estimate = estimateValue(sales([100, 200, 300], { similarity: 0 }), {
+      now: NOW,
+    });
+    expect(estimate.percentiles).toEqual({ p25: 125, p50: 200, p75: 275 });
+  });
+
+  it("notes undated sales", () => {
+    const estimate = estimateValue(sales([100, 200, 300]), { now: NOW });
+    expect(estimate.factors).toContain(
+      "Sale date missing for 3 comparables; weighted as older sales",
+    );
+  });
+
+  it("adjusts comparables to the subject's condition", () => {
+    const estimate = estimateValue(
+      [
+        { title: "A", price: 100, condition: "Fair" },
+        { title: "B", price: 150, condition: "Very Good" },
+        { title: "C", price: 170, condition: "Excellent" },
+      ],
+      { now: NOW, subjectCondition: "Very Good" },
+    );
+
+    expect(estimate.comparables.map((c) => c.adjustedPrice)).toEqual([
+      154, 150, 148,
+    ]);
+    expect(estimate.factors).toContain(
+      "Comparable prices adjusted to Very Good condition",
+    );
+  });
+
+  it("leaves prices unadjusted without a subject condition", () => {
+    const estimate = estimateValue(
+      sales([100, 200, 300], { condition: "Fair" }),
+      { now: NOW },
+    );
+    expect(estimate.comparables.map((c) => c.adjustedPrice)).toEqual([
+      100, 200, 300,
+    ]);
+  });
+
+  it("scores tight, recent, plentiful comparables as high confidence", () => {
+    const estimate = estimateValue(
+      sales(
+        Array.from({ length: 10 }, (_, i) => 100 + i * 5),
+        { soldDate: daysAgo(30), condition: "Good" },
+      ),
+      { now: NOW },
+    );
+
+    expect(estimate.confidenceScore).toBeGreaterThanOrEqual(0.7);
+    expect(estimate.confidence).toBe("high");
+  });
+
+  it("lowers confidence for widely dispersed prices", () => {
+    const tight = estimateValue(sales([100, 105, 110, 115, 120]), {
+      now: NOW,
+    });
+    const wide = estimateValue(sales([100, 200, 400, 800, 1600]), {
+      now: NOW,
+      outlierMethod: "mad",
+    });
+
+    expect(wide.confidenceScore).toBeLessThan(tight.confidenceScore);
+    expect(wide.factors).toContain(
+      "Wide price variance suggests condition or attribution differences",
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeEstimateAccuracy,
+  classifyHammer,
+  matchesAuctionHouse,
+} from "../estimate-accuracy";
+import type { SearchResult } from "@/lib/adapters/types";
+
+function lot(
+  soldPrice: number | undefined,
+  overrides: Partial<SearchResult> = {},
+): SearchResult {
+  return {
+    platform: "liveauctioneers",
+    itemId: "1",
+    title: "Lot",
+    currentPrice: 0,
+    currency: "USD",
+    imageUrl: "",
+    url: "https://example.com/1",
+    auctionHouse: "Example Auctions",
+    status: "sold",
+    estimateRange: { low: 100, high: 200 },
+    soldPrice,
+    ...overrides,
+  };
+}
+
+function lots(prices: number[], auctionHouse = "Example Auctions") {
+  return prices.map((price) => lot(price, { auctionHouse }));
+}
+
+describe("classifyHammer", () => {
+  it("treats the estimate bounds as within", () => {
+    const estimate = { low: 100, high: 200 };
+    expect(classifyHammer(99, estimate)).toBe("below");
+    expect(classifyHammer(100, estimate)).toBe("within");
+    expect(classifyHammer(200, estimate)).toBe("within");
+    expect(classifyHammer(201, estimate)).toBe("above");
+  });
+});
+
+describe("analyzeEstimateAccuracy", () => {
+  it("counts outcomes and the median hammer-to-midpoint ratio", () => {
+    const accuracy = analyzeEstimateAccuracy(lots([50, 150, 150, 300, 450]));
+
+    expect(accuracy).toMatchObject({
+      sampleSize: 5,
+      below: 1,
+      within: 2,
+      above: 2,
+      belowShare: 0.2,
+      withinShare: 0.4,
+      aboveShare: 0.4,
+      medianRatio: 1,
+      tendency: "in-line",
+    });
+  });
+
+  it("ignores unsold lots and lots without an estimate", () => {
+    const accuracy = analyzeEstimateAccuracy([
+      lot(undefined),
+      lot(150, { estimateRange: undefined }),
+      lot(150),
+    ]);
+    expect(accuracy.sampleSize).toBe(1);
+  });
+
+  it("calls estimates conservative when most lots beat them", () => {
+    expect(
+      analyzeEstimateAccuracy(lots([250, 300, 320, 150, 400])).tendency,
+    ).toBe("conservative");
+  });
+
+  it("calls estimates optimistic when most lots fall short", () => {
+    expect(analyzeEstimateAccuracy(lots([60, 80, 90, 150, 160])).tendency).toBe(
+      "optimistic",
+    );
+  });
+
+  it("withholds a tendency from small samples", () => {
+    const accuracy = analyzeEstimateAccuracy(lots([400, 500]));
+    expect(accuracy.medianRatio).toBe(3);
+    expect(accuracy.tendency).toBe("insufficient-data");
+  });
+
+  it("breaks results down by house, ignoring case and small samples", () => {
+    const accuracy = analyzeEstimateAccuracy([
+      ...lots([300, 400], "Heritage Auctions"),
+      ...lots([350], "HERITAGE AUCTIONS"),
+      ...lots([150, 160, 170, 180], "Example Auctions"),
+      ...lots([90, 80], "Small House"),
+    ]);
+
+    expect(
+      accuracy.byAuctionHouse.map((house) => [
+        house.auctionHouse,
+        house.sampleSize,
+      ]),
+    ).toEqual([
+      ["Example Auctions", 4],
+      ["Heritage Auctions", 3],
+    ]);
+  });
+});
+
+describe("matchesAuctionHouse", () => {
+  it("matches part of the house name, ignoring case", () => {
+    expect(matchesAuctionHouse(lot(1), "example")).toBe(true);
+    expect(matchesAuctionHouse(lot(1), "Heritage")).toBe(false);
+    expect(
+      matchesAuctionHouse(lot(1, { auctionHouse: undefined }), "example"),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  featuresFromIdentification,
+  identificationSearchPhrases,
+  type ItemIdentification,
+} from "../identification";
+
+function identification(
+  overrides: Partial<ItemIdentification> = {},
+): ItemIdentification {
+  return {
+    description: "Dragonfly table lamp",
+    category: "Lighting",
+    maker: "Tiffany Studios",
+    period: "Art Nouveau, c. 1900-1910",
+    materials: ["Bronze", "Leaded glass"],
+    suggestedKeywords: ["Tiffany Studios dragonfly lamp", "leaded glass lamp"],
+    confidence: "medium",
+    ...overrides,
+  };
+}
+
+describe("identificationSearchPhrases", () => {
+  it("tries suggested phrases first, then maker and description", () => {
+    expect(identificationSearchPhrases(identification())).toEqual([
+      "Tiffany Studios dragonfly lamp",
+      "leaded glass lamp",
+      "Tiffany Studios Dragonfly table lamp",
+    ]);
+  });
+
+  it("drops blank and repeated phrases and caps the attempts", () => {
+    expect(
+      identificationSearchPhrases(
+        identification({
+          suggestedKeywords: [
+            "  bronze   lamp ",
+            "Bronze lamp",
+            "",
+            "desk lamp",
+            "table lamp",
+          ],
+        }),
+      ),
+    ).toEqual(["bronze lamp", "desk lamp", "table lamp"]);
+  });
+});
+
+describe("featuresFromIdentification", () => {
+  it("describes the object for similarity scoring", () => {
+    expect(featuresFromIdentification(identification())).toEqual({
+      title: "Tiffany Studios Dragonfly table lamp",
+      category: ["Lighting"],
+      maker: "Tiffany Studios",
+      materials: ["Bronze", "Leaded glass"],
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import {
+  dimensionSimilarity,
+  estimateSimilarity,
+  featuresFromItem,
+  featuresFromResult,
+  parseDimensions,
+  scoreComparables,
+  scoreSimilarity,
+  type ComparableFeatures,
+} from "../similarity";
+import type { SearchResult, UnifiedItem } from "@/lib/adapters/types";
+
+function item(overrides: Partial<UnifiedItem> = {}): UnifiedItem {
+  return {
+    id: "liveauctioneers-1",
+    platformItemId: "1",
+    platform: "liveauctioneers",
+    url: "https://example.com/1",
+    title: "Tiffany Studios Bronze Dragonfly Table Lamp",
+    description: "",
+    images: [],
+    category: ["Lighting", "Lamps"],
+    currentPrice: 12000,
+    currency: "USD",
+    estimateRange: { low: 10000, high: 15000 },
+    auctionType: "live",
+    seller: { name: "Example Auctions" },
+    materials: ["Bronze", "Leaded glass"],
+    dimensions: "22 x 16 in",
+    facets: { Maker: ["Tiffany Studios"] },
+    ...overrides,
+  };
+}
+
+function result(overrides: Partial<SearchResult> = {}): SearchResult {
+  return {
+    platform: "liveauctioneers",
+    itemId: "2",
+    title: "Tiffany Studios Dragonfly Lamp, Bronze Base",
+    currentPrice: 0,
+    currency: "USD",
+    imageUrl: "https://example.com/2.jpg",
+    url: "https://example.com/2",
+    status: "sold",
+    soldPrice: 13000,
+    ...overrides,
+  };
+}
+
+describe("featuresFromItem", () => {
+  it("reads maker from facets and the estimate band", () => {
+    const features = featuresFromItem(item());
+
+    expect(features.maker).toBe("Tiffany Studios");
+    expect(features.priceBand).toEqual({
+      low: 10000,
+      high: 15000,
+      currency: "USD",
+    });
+  });
+
+  it("falls back to the current price without an estimate", () => {
+    const features = featuresFromItem(item({ estimateRange: undefined }));
+    expect(features.priceBand).toEqual({
+      low: 12000,
+      high: 12000,
+      currency: "USD",
+    });
+  });
+});
+
+describe("featuresFromResult", () => {
+  it("uses the sold price as the price band", () => {
+    expect(featuresFromResult(result()).priceBand).toEqual({
+      low: 13000,
+      high: 13000,
+      currency: "USD",
+    });
+  });
+
+  it("prefers full details when provided", () => {
+    const features = featuresFromResult(result(), item({ title: "Details" }));
+    expect(features.title).toBe("Details");
+    expect(features.materials).toEqual(["Bronze", "Leaded glass"]);
+  });
+});
+
+describe("parseDimensions", () => {
+  it("converts to centimeters, largest first", () => {
+    expect(parseDimensions("10 x 20 cm")).toEqual([20, 10]);
+    expect(parseDimensions('12" high')).toEqual([12 * 2.54]);
+    expect(parseDimensions("H 300mm")).toEqual([30]);
+  });
+
+  it("assumes inches without a unit", () => {
+    expect(parseDimensions("10 x 5")).toEqual([25.4, 12.7]);
+  });
+});
+
+describe("dimensionSimilarity", () => {
+  it("compares corresponding measurements", () => {
+    expect(dimensionSimilarity("20 x 10 cm", "10 x 20 cm")).toBe(1);
+    expect(dimensionSimilarity("20 cm", "10 cm")).toBe(0.5);
+  });
+
+  it("returns undefined without measurements", () => {
+    expect(dimensionSimilarity("large", "20 cm")).toBeUndefined();
+  });
+});
+
+describe("estimateSimilarity", () => {
+  it("is 1 for overlapping bands", () => {
+    expect(
+      estimateSimilarity(
+        { low: 100, high: 200, currency: "USD" },
+        { low: 150, high: 150, currency: "USD" },
+      ),
+    ).toBe(1);
+  });
+
+  it("falls to 0 at four times the price", () => {
+    expect(
+      estimateSimilarity(
+        { low: 100, high: 100, currency: "USD" },
+        { low: 400, high: 400, currency: "USD" },
+      ),
+    ).toBeCloseTo(0);
+  });
+
+  it("returns undefined across currencies", () => {
+    expect(
+      estimateSimilarity(
+        { low: 100, high: 100, currency: "USD" },
+        { low: 100, high: 100, currency: "GBP" },
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("scoreSimilarity", () => {
+  const subject = featuresFromItem(item());
+
+  it("scores a true comparable highly with reasons", () => {
+    const comparable: ComparableFeatures = {
+      title: "Tiffany Studios Bronze Dragonfly Lamp",
+      category: ["Lighting", "Lamps"],
+      maker: "Tiffany",
+      materials: ["bronze", "leaded glass"],
+      dimensions: "22 x 15 in",
+      priceBand: { low: 11000, high: 11000, currency: "USD" },
+    };
+
+    const { score, reasons } = scoreSimilarity(subject, comparable);
+
+    expect(score).toBeGreaterThan(0.8);
+    expect(reasons).toContain("Same maker (Tiffany)");
+    expect(reasons).toContain("Same category");
+    expect(reasons).toContain("Shared materials: bronze, leaded glass");
+    expect(reasons).toContain("Similar size");
+    expect(reasons).toContain("Within the estimate band");
+  });
+
+  it("scores a keyword-only match low", () => {
+    const comparable: ComparableFeatures = {
+      title: "Dragonfly Brooch",
+      category: ["Jewelry"],
+      maker: "Unknown Workshop",
+      materials: ["silver"],
+      priceBand: { low: 150, high: 150, currency: "USD" },
+    };
+
+    const { score, reasons } = scoreSimilarity(subject, comparable);
+
+    expect(score).toBeLessThan(0.2);
+    expect(reasons).toContain("Different maker (Unknown Workshop)");
+    expect(reasons).toContain("Different category");
+    expect(reasons).toContain("Price level differs");
+  });
+
+  it("only weighs signals present on both sides", () => {
+    const { score, signals } = scoreSimilarity(
+      { title: "Dragonfly Table Lamp" },
+      { title: "Dragonfly Table Lamp", maker: "Tiffany" },
+    );
+
+    expect(score).toBe(1);
+    expect(Object.keys(signals)).toEqual(["title"]);
+  });
+});
+
+describe("scoreComparables", () => {
+  it("attaches a score and reasons to each result", () => {
+    const [scored] = scoreComparables(item(), [result()]);
+
+    expect(scored.similarity?.score).toBeGreaterThan(0.5);
+    expect(scored.similarity?.reasons).toContain("Within the estimate band");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  iqrOutliers,
+  madOutliers,
+  median,
+  percentile,
+  weightedPercentile,
+} from "../stats";
+
+describe("percentile", () => {
+  it("interpolates between ranks", () => {
+    expect(percentile([100, 200, 300, 400], 0.5)).toBe(250);
+    expect(percentile([100, 200, 300], 0.25)).toBe(150);
+  });
+
+  it("does not depend on input order", () => {
+    expect(median([300, 100, 200])).toBe(200);
+  });
+
+  it("returns NaN for an empty list", () => {
+    expect(percentile([], 0.5)).toBeNaN();
+  });
+});
+
+describe("weightedPercentile", () => {
+  it("matches the ordinary median with equal weights", () => {
+    const items = [100, 200, 300, 400].map((value) => ({ value, weight: 1 }));
+    expect(weightedPercentile(items, 0.5)).toBe(250);
+  });
+
+  it("pulls toward heavily weighted values", () => {
+    const items = [
+      { value: 100, weight: 1 },
+      { value: 200, weight: 1 },
+      { value: 300, weight: 8 },
+    ];
+    expect(weightedPercentile(items, 0.5)).toBeGreaterThan(250);
+  });
+
+  it("clamps to the extremes", () => {
+    const items = [
+      { value: 100, weight: 1 },
+      { value: 200, weight: 1 },
+    ];
+    expect(weightedPercentile(items, 0)).toBe(100);
+    expect(weightedPercentile(items, 1)).toBe(200);
+  });
+
+  it("ignores zero weights and returns NaN without positive weight", () => {
+    expect(weightedPercentile([{ value: 100, weight: 0 }], 0.5)).toBeNaN();
+    expect(
+      weightedPercentile(
+        [
+          { value: 100, weight: 0 },
+          { value: 200, weight: 1 },
+        ],
+        0.5,
+      ),
+    ).toBe(200);
+  });
+});
+
+describe("iqrOutliers", () => {
+  it("flags values outside Tukey's fences", () => {
+    expect(iqrOutliers([200, 210, 220, 230, 5000])).toEqual(new Set([4]));
+  });
+
+  it("flags nothing for evenly spread values", () => {
+    expect(iqrOutliers([100, 150, 200, 250, 300]).size).toBe(0);
+  });
+});
+
+describe("madOutliers", () => {
+  it("flags values with a large modified z-score", () => {
+    expect(madOutliers([10, 200, 210, 220, 230])).toEqual(new Set([0]));
+  });
+
+  it("flags nothing when most values are identical", () => {
+    expect(madOutliers([100, 100, 100, 500]).size).toBe(0);
+  });
+});
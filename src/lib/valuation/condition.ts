@@ -0,0 +1,68 @@
+/**
+ * Condition grades and price factors, matching the appraiser's grading scale.
+ */
+
+export type ConditionGrade =
+  | "mint"
+  | "excellent"
+  | "very-good"
+  | "good"
+  | "fair"
+  | "poor";
+
+/** Price relative to a "Very Good" example of the same object. */
+export const CONDITION_FACTORS: Record<ConditionGrade, number> = {
+  mint: 1.3,
+  excellent: 1.15,
+  "very-good": 1,
+  good: 0.85,
+  fair: 0.65,
+  poor: 0.4,
+};
+
+export const CONDITION_LABELS: Record<ConditionGrade, string> = {
+  mint: "Mint/As New",
+  excellent: "Excellent",
+  "very-good": "Very Good",
+  good: "Good",
+  fair: "Fair",
+  poor: "Poor",
+};
+
+// Checked in order, so "very good" wins over "good" and "as new" over "new"
+const GRADE_PATTERNS: Array<[RegExp, ConditionGrade]> = [
+  [/\b(mint|as new|like new|unused|new old stock)\b/, "mint"],
+  [/\b(excellent|near mint|pristine)\b/, "excellent"],
+  [/\bvery good\b/, "very-good"],
+  [/\bgood\b/, "good"],
+  [/\b(fair|worn|restoration|as is)\b/, "fair"],
+  [/\b(poor|damaged|broken|for parts)\b/, "poor"],
+];
+
+/**
+ * Map a free-text condition description to a grade.
+ * Returns undefined when no grade can be recognized.
+ */
+export function parseConditionGrade(
+  condition: string | undefined,
+): ConditionGrade | undefined {
+  if (!condition) return undefined;
+  const text = condition.toLowerCase();
+  for (const [pattern, grade] of GRADE_PATTERNS) {
+    if (pattern.test(text)) return grade;
+  }
+  return undefined;
+}
+
+/**
+ * Multiplier that adjusts a comparable's price to the subject's condition.
+ * Unknown grades are treated as "Very Good".
+ */
+export function conditionAdjustment(
+  comparable: ConditionGrade | undefined,
+  subject: ConditionGrade | undefined,
+): number {
+  const from = CONDITION_FACTORS[comparable ?? "very-good"];
+  const to = CONDITION_FACTORS[subject ?? "very-good"];
+  return to / from;
+}
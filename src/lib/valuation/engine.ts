@@ -0,0 +1,269 @@
+/**
+ * Comparable-sales valuation engine.
+ * Adjusts comparables for condition, rejects outliers, weights recent and
+ * more similar sales more heavily and reports weighted quartiles with a
+ * confidence score.
+ */
+
+import {
+  iqrOutliers,
+  madOutliers,
+  weightedPercentile,
+  type WeightedValue,
+} from "./stats";
+import {
+  CONDITION_LABELS,
+  conditionAdjustment,
+  parseConditionGrade,
+  type ConditionGrade,
+} from "./condition";
+
+// --- Types ---
+
+export interface ComparableSale {
+  title: string;
+  /** Sold price, already in the valuation currency */
+  price: number;
+  soldDate?: string | Date;
+  condition?: string;
+  /** Similarity to the subject (0–1). Default: 1 */
+  similarity?: number;
+}
+
+export interface ValuationOptions {
+  /** Condition of the item being valued; comparables are adjusted to it */
+  subjectCondition?: string;
+  /** Age at which a sale counts half as much. Default: 365 days */
+  halfLifeDays?: number;
+  /** Default: "iqr" */
+  outlierMethod?: "iqr" | "mad";
+  /** Clock override for testing */
+  now?: number;
+}
+
+export interface WeightedComparable {
+  title: string;
+  price: number;
+  /** Price adjusted to the subject's condition */
+  adjustedPrice: number;
+  /** Recency weight multiplied by similarity (0–1) */
+  weight: number;
+  similarity: number;
+  ageDays?: number;
+  grade?: ConditionGrade;
+  outlier: boolean;
+}
+
+export type ConfidenceLevel = "high" | "medium" | "low";
+
+export interface ValuationEstimate {
+  /** Weighted quartiles of the retained comparables; null with fewer than 3 */
+  percentiles: { p25: number; p50: number; p75: number } | null;
+  /** Lowest and highest retained adjusted price */
+  observedRange: { min: number; max: number } | null;
+  comparablesUsed: number;
+  outliersExcluded: number;
+  confidence: ConfidenceLevel;
+  /** 0–1, from sample size, dispersion, recency and similarity */
+  confidenceScore: number;
+  factors: string[];
+  comparables: WeightedComparable[];
+}
+
+// --- Configuration ---
+
+const DEFAULT_HALF_LIFE_DAYS = 365;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Weight given to sales without a date, equal to one half-life of age */
+const UNDATED_WEIGHT = 0.5;
+
+/** Comparables below this similarity are reported as loosely related */
+const LOW_SIMILARITY = 0.5;
+/** Keeps dissimilar sales in the range at a token weight instead of dropping them */
+const MIN_SIMILARITY_WEIGHT = 0.05;
+
+/** Outlier rejection needs enough points for quartiles to mean anything */
+const MIN_COMPARABLES_FOR_OUTLIERS = 4;
+const MIN_COMPARABLES_FOR_RANGE = 3;
+
+/** Comparables needed for full sample-size credit */
+const FULL_SAMPLE_SIZE = 10;
+
+/** Quartile coefficient of dispersion treated as "no agreement" */
+const MAX_DISPERSION = 0.5;
+const WIDE_DISPERSION = 0.33;
+
+/** Relevance is the mean comparable weight, from recency and similarity */
+const CONFIDENCE_WEIGHTS = { size: 0.4, dispersion: 0.35, relevance: 0.25 };
+const HIGH_CONFIDENCE = 0.7;
+const MEDIUM_CONFIDENCE = 0.45;
+
+// --- Helpers ---
+
+function ageInDays(
+  soldDate: string | Date | undefined,
+  now: number,
+): number | undefined {
+  if (!soldDate) return undefined;
+  const time = new Date(soldDate).getTime();
+  if (Number.isNaN(time)) return undefined;
+  return Math.max(0, (now - time) / MS_PER_DAY);
+}
+
+/**
+ * Exponential decay: 1 for a sale today, 0.5 at one half-life.
+ */
+function recencyWeight(ageDays: number | undefined, halfLifeDays: number) {
+  if (ageDays === undefined) return UNDATED_WEIGHT;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+function confidenceLevel(score: number): ConfidenceLevel {
+  if (score >= HIGH_CONFIDENCE) return "high";
+  if (score >= MEDIUM_CONFIDENCE) return "medium";
+  return "low";
+}
+
+// --- Engine ---
+
+/**
+ * Estimate value from comparable sales.
+ */
+export function estimateValue(
+  sales: ComparableSale[],
+  options: ValuationOptions = {},
+): ValuationEstimate {
+  const now = options.now ?? Date.now();
+  const halfLifeDays = options.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+  const subjectGrade = parseConditionGrade(options.subjectCondition);
+
+  const comparables: WeightedComparable[] = sales.map((sale) => {
+    const grade = parseConditionGrade(sale.condition);
+    const ageDays = ageInDays(sale.soldDate, now);
+    const adjustment = subjectGrade
+      ? conditionAdjustment(grade, subjectGrade)
+      : 1;
+    const similarity = Math.min(1, Math.max(0, sale.similarity ?? 1));
+    return {
+      title: sale.title,
+      price: sale.price,
+      adjustedPrice: Math.round(sale.price * adjustment),
+      weight:
+        recencyWeight(ageDays, halfLifeDays) *
+        Math.max(similarity, MIN_SIMILARITY_WEIGHT),
+      similarity,
+      ageDays,
+      grade,
+      outlier: false,
+    };
+  });
+
+  // Reject outliers on condition-adjusted prices, so a cheap damaged
+  // example isn't discarded for being cheap
+  if (comparables.length >= MIN_COMPARABLES_FOR_OUTLIERS) {
+    const prices = comparables.map((c) => c.adjustedPrice);
+    const outliers =
+      options.outlierMethod === "mad"
+        ? madOutliers(prices)
+        : iqrOutliers(prices);
+    for (const index of outliers) comparables[index].outlier = true;
+  }
+
+  const retained = comparables.filter((c) => !c.outlier);
+  const weighted: WeightedValue[] = retained.map((c) => ({
+    value: c.adjustedPrice,
+    weight: c.weight,
+  }));
+
+  let percentiles: ValuationEstimate["percentiles"] = null;
+  let observedRange: ValuationEstimate["observedRange"] = null;
+  let dispersion = 1;
+
+  if (retained.length >= MIN_COMPARABLES_FOR_RANGE) {
+    percentiles = {
+      p25: Math.round(weightedPercentile(weighted, 0.25)),
+      p50: Math.round(weightedPercentile(weighted, 0.5)),
+      p75: Math.round(weightedPercentile(weighted, 0.75)),
+    };
+    const prices = retained.map((c) => c.adjustedPrice);
+    observedRange = { min: Math.min(...prices), max: Math.max(...prices) };
+    const spread = percentiles.p75 + percentiles.p25;
+    dispersion = spread > 0 ? (percentiles.p75 - percentiles.p25) / spread : 1;
+  }
+
+  const sizeScore = Math.min(1, retained.length / FULL_SAMPLE_SIZE);
+  const dispersionScore = percentiles
+    ? 1 - Math.min(1, dispersion / MAX_DISPERSION)
+    : 0;
+  const relevanceScore =
+    retained.length > 0
+      ? retained.reduce((sum, c) => sum + c.weight, 0) / retained.length
+      : 0;
+  const confidenceScore =
+    Math.round(
+      (CONFIDENCE_WEIGHTS.size * sizeScore +
+        CONFIDENCE_WEIGHTS.dispersion * dispersionScore +
+        CONFIDENCE_WEIGHTS.relevance * relevanceScore) *
+        100,
+    ) / 100;
+  const confidence = percentiles ? confidenceLevel(confidenceScore) : "low";
+
+  // --- Factors ---
+
+  const factors: string[] = [];
+  if (retained.length < 5) factors.push("Limited comparable data available");
+  if (percentiles && dispersion > WIDE_DISPERSION) {
+    factors.push(
+      "Wide price variance suggests condition or attribution differences",
+    );
+  }
+  const outliersExcluded = comparables.length - retained.length;
+  if (outliersExcluded > 0) {
+    factors.push(
+      `${outliersExcluded} outlier sale${outliersExcluded === 1 ? "" : "s"} excluded from the range`,
+    );
+  }
+  if (sales.some((s) => !s.condition)) {
+    factors.push("Condition data missing from some comparables");
+  }
+  if (subjectGrade) {
+    factors.push(
+      `Comparable prices adjusted to ${CONDITION_LABELS[subjectGrade]} condition`,
+    );
+  }
+  const undated = comparables.filter((c) => c.ageDays === undefined).length;
+  if (undated > 0) {
+    factors.push(
+      `Sale date missing for ${undated} comparable${undated === 1 ? "" : "s"}; weighted as older sales`,
+    );
+  }
+  const stale = retained.filter(
+    (c) => c.ageDays !== undefined && c.ageDays > 2 * halfLifeDays,
+  ).length;
+  if (stale > 0) {
+    factors.push(
+      `${stale} older sale${stale === 1 ? "" : "s"} given reduced weight`,
+    );
+  }
+
+  const dissimilar = retained.filter(
+    (c) => c.similarity < LOW_SIMILARITY,
+  ).length;
+  if (dissimilar > 0) {
+    factors.push(
+      `${dissimilar} loosely similar comparable${dissimilar === 1 ? "" : "s"} given reduced weight`,
+    );
+  }
+
+  return {
+    percentiles,
+    observedRange,
+    comparablesUsed: retained.length,
+    outliersExcluded,
+    confidence,
+    confidenceScore,
+    factors,
+    comparables,
+  };
+}
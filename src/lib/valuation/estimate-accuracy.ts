@@ -0,0 +1,177 @@
+/**
+ * How auction houses' pre-sale estimates compare with hammer prices.
+ * Ratios are taken within each lot's own currency, so no conversion is needed.
+ */
+
+import type { SearchResult } from "@/lib/adapters/types";
+import { median } from "./stats";
+
+export type EstimateOutcome = "below" | "within" | "above";
+
+export type EstimateTendency =
+  | "conservative"
+  | "in-line"
+  | "optimistic"
+  | "insufficient-data";
+
+export interface EstimateAccuracyStats {
+  /** Sold lots with a published estimate */
+  sampleSize: number;
+  below: number;
+  within: number;
+  above: number;
+  /** Shares of sampleSize, 0-1 */
+  belowShare: number;
+  withinShare: number;
+  aboveShare: number;
+  /** Median hammer price divided by the estimate midpoint */
+  medianRatio: number | null;
+  tendency: EstimateTendency;
+}
+
+export interface AuctionHouseEstimateAccuracy extends EstimateAccuracyStats {
+  auctionHouse: string;
+}
+
+export interface EstimateAccuracy extends EstimateAccuracyStats {
+  /** Houses with at least MIN_HOUSE_LOTS lots, largest sample first */
+  byAuctionHouse: AuctionHouseEstimateAccuracy[];
+}
+
+export interface EstimateAccuracyResult {
+  keywords: string;
+  category?: string;
+  auctionHouse?: string;
+  /** Sold lots examined, including those without an estimate */
+  lotsExamined: number;
+  accuracy: EstimateAccuracy;
+}
+
+/** Fewer lots than this say little about a house's habits. */
+export const MIN_TENDENCY_LOTS = 5;
+/** Fewer lots than this are left out of the per-house breakdown. */
+export const MIN_HOUSE_LOTS = 3;
+
+const CONSERVATIVE_RATIO = 1.2;
+const OPTIMISTIC_RATIO = 0.85;
+const MAJORITY_SHARE = 0.5;
+
+export function classifyHammer(
+  hammer: number,
+  estimate: { low: number; high: number },
+): EstimateOutcome {
+  if (hammer < estimate.low) return "below";
+  if (hammer > estimate.high) return "above";
+  return "within";
+}
+
+interface EstimatedSale {
+  hammer: number;
+  estimate: { low: number; high: number };
+  auctionHouse?: string;
+}
+
+function estimatedSales(results: SearchResult[]): EstimatedSale[] {
+  return results.flatMap((result) =>
+    result.soldPrice &&
+    result.estimateRange &&
+    result.estimateRange.high >= result.estimateRange.low &&
+    result.estimateRange.high > 0
+      ? [
+          {
+            hammer: result.soldPrice,
+            estimate: result.estimateRange,
+            auctionHouse: result.auctionHouse?.trim() || undefined,
+          },
+        ]
+      : [],
+  );
+}
+
+function tendencyOf(
+  sampleSize: number,
+  medianRatio: number | null,
+  belowShare: number,
+  aboveShare: number,
+): EstimateTendency {
+  if (sampleSize < MIN_TENDENCY_LOTS || medianRatio === null) {
+    return "insufficient-data";
+  }
+  if (medianRatio >= CONSERVATIVE_RATIO || aboveShare >= MAJORITY_SHARE) {
+    return "conservative";
+  }
+  if (medianRatio <= OPTIMISTIC_RATIO || belowShare >= MAJORITY_SHARE) {
+    return "optimistic";
+  }
+  return "in-line";
+}
+
+function summarize(sales: EstimatedSale[]): EstimateAccuracyStats {
+  const counts: Record<EstimateOutcome, number> = {
+    below: 0,
+    within: 0,
+    above: 0,
+  };
+  for (const sale of sales) {
+    counts[classifyHammer(sale.hammer, sale.estimate)]++;
+  }
+
+  const sampleSize = sales.length;
+  const share = (count: number) => (sampleSize > 0 ? count / sampleSize : 0);
+  const ratios = sales.map(
+    (sale) => sale.hammer / ((sale.estimate.low + sale.estimate.high) / 2),
+  );
+  const medianRatio =
+    ratios.length > 0 ? Math.round(median(ratios) * 100) / 100 : null;
+
+  return {
+    sampleSize,
+    ...counts,
+    belowShare: share(counts.below),
+    withinShare: share(counts.within),
+    aboveShare: share(counts.above),
+    medianRatio,
+    tendency: tendencyOf(
+      sampleSize,
+      medianRatio,
+      share(counts.below),
+      share(counts.above),
+    ),
+  };
+}
+
+/**
+ * Where sold lots landed against their estimates, overall and per house.
+ * Lots without a sold price or a published estimate are ignored.
+ */
+export function analyzeEstimateAccuracy(
+  results: SearchResult[],
+): EstimateAccuracy {
+  const sales = estimatedSales(results);
+
+  const byHouse = new Map<string, EstimatedSale[]>();
+  for (const sale of sales) {
+    if (!sale.auctionHouse) continue;
+    const key = sale.auctionHouse.toLowerCase();
+    byHouse.set(key, [...(byHouse.get(key) ?? []), sale]);
+  }
+
+  const byAuctionHouse = [...byHouse.values()]
+    .filter((houseSales) => houseSales.length >= MIN_HOUSE_LOTS)
+    .map((houseSales) => ({
+      auctionHouse: houseSales[0].auctionHouse!,
+      ...summarize(houseSales),
+    }))
+    .sort((a, b) => b.sampleSize - a.sampleSize);
+
+  return { ...summarize(sales), byAuctionHouse };
+}
+
+/** Whether a result was sold by the named house, ignoring case. */
+export function matchesAuctionHouse(
+  result: SearchResult,
+  auctionHouse: string,
+): boolean {
+  const wanted = auctionHouse.trim().toLowerCase();
+  return result.auctionHouse?.trim().toLowerCase().includes(wanted) ?? false;
+}
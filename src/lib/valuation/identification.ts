@@ -0,0 +1,73 @@
+/**
+ * Identification of an object from a user's photo.
+ * The multimodal model reports what it sees; these helpers turn that into
+ * comparable-sales searches and a subject for similarity scoring.
+ */
+
+import type { MultiPlatformSearchResult } from "@/lib/adapters/types";
+import type { ComparableFeatures } from "./similarity";
+
+export interface ItemIdentification {
+  /** Short name for the object, e.g. "Bronze table lamp" */
+  description: string;
+  category: string;
+  maker?: string;
+  /** Style or date range, e.g. "Art Deco, c. 1925-1935" */
+  period?: string;
+  materials?: string[];
+  /** Comparable-sales search phrases, most specific first */
+  suggestedKeywords: string[];
+  confidence: "high" | "medium" | "low";
+}
+
+export interface IdentifyItemResult {
+  identification: ItemIdentification;
+  /** The suggested phrase that found comparables, or the last one tried */
+  searchKeywords: string;
+  priceHistory: MultiPlatformSearchResult;
+}
+
+/** Phrases tried in turn until one finds comparable sales. */
+export const MAX_KEYWORD_ATTEMPTS = 3;
+
+/**
+ * Distinct, non-empty search phrases to try, most specific first.
+ * Falls back to the maker and description when none were suggested.
+ */
+export function identificationSearchPhrases(
+  identification: ItemIdentification,
+): string[] {
+  const fallback = [identification.maker, identification.description]
+    .filter(Boolean)
+    .join(" ");
+  const phrases = [...identification.suggestedKeywords, fallback]
+    .map((phrase) => phrase.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const seen = new Set<string>();
+  return phrases
+    .filter((phrase) => {
+      const key = phrase.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_KEYWORD_ATTEMPTS);
+}
+
+/**
+ * Similarity features for a photographed object, so comparables can be
+ * ranked against it like a listed item.
+ */
+export function featuresFromIdentification(
+  identification: ItemIdentification,
+): ComparableFeatures {
+  return {
+    title: [identification.maker, identification.description]
+      .filter(Boolean)
+      .join(" "),
+    category: [identification.category],
+    maker: identification.maker,
+    materials: identification.materials,
+  };
+}
@@ -0,0 +1,6 @@
+export * from "./stats";
+export * from "./condition";
+export * from "./engine";
+export * from "./similarity";
+export * from "./identification";
+export * from "./estimate-accuracy";
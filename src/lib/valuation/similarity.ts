@@ -0,0 +1,305 @@
+/**
+ * Comparable similarity scoring.
+ * Compares a sold lot to the item being valued on title, category, maker,
+ * materials, size and price level, so loosely related keyword matches count
+ * for less than true comparables.
+ */
+
+import type { SearchResult, UnifiedItem } from "@/lib/adapters/types";
+import { normalizeTitle, titleSimilarity } from "@/lib/search/dedup";
+
+// --- Types ---
+
+/**
+ * Attributes of an object used for comparison. Any may be missing.
+ */
+export interface ComparableFeatures {
+  title: string;
+  category?: string[];
+  maker?: string;
+  materials?: string[];
+  dimensions?: string;
+  /** Estimate range, or a single price as low = high */
+  priceBand?: { low: number; high: number; currency: string };
+}
+
+export type SimilaritySignal =
+  | "title"
+  | "category"
+  | "maker"
+  | "materials"
+  | "dimensions"
+  | "estimate";
+
+export interface SimilarityScore {
+  /** 0–1, weighted over the signals available on both sides */
+  score: number;
+  reasons: string[];
+  signals: Partial<Record<SimilaritySignal, number>>;
+}
+
+// --- Configuration ---
+
+/** Relative weight of each signal. Signals missing on either side are skipped. */
+const SIGNAL_WEIGHTS: Record<SimilaritySignal, number> = {
+  title: 0.35,
+  maker: 0.2,
+  category: 0.15,
+  materials: 0.1,
+  dimensions: 0.1,
+  estimate: 0.1,
+};
+
+/** Price levels this many times apart score 0 */
+const MAX_PRICE_RATIO = 4;
+
+const STRONG = 0.7;
+const WEAK = 0.3;
+
+const MAKER_FACET_PATTERN =
+  /^(maker|artist|creator|designer|manufacturer|brand)s?$/i;
+
+const UNIT_TO_CM: Record<string, number> = {
+  mm: 0.1,
+  cm: 1,
+  m: 100,
+  in: 2.54,
+  inch: 2.54,
+  inches: 2.54,
+  '"': 2.54,
+};
+
+// --- Feature Extraction ---
+
+function makerFromFacets(
+  facets: Record<string, string[]> | undefined,
+): string | undefined {
+  if (!facets) return undefined;
+  for (const [key, values] of Object.entries(facets)) {
+    if (MAKER_FACET_PATTERN.test(key) && values.length > 0) return values[0];
+  }
+  return undefined;
+}
+
+/**
+ * Features of an item's full details.
+ */
+export function featuresFromItem(item: UnifiedItem): ComparableFeatures {
+  const price = item.converted ?? item;
+  const estimate = price.estimateRange;
+  return {
+    title: item.title,
+    category: item.category,
+    maker: makerFromFacets(item.facets),
+    materials: item.materials,
+    dimensions: item.dimensions,
+    priceBand: estimate
+      ? { ...estimate, currency: price.currency }
+      : {
+          low: price.currentPrice,
+          high: price.currentPrice,
+          currency: price.currency,
+        },
+  };
+}
+
+/**
+ * Features of a sold search result, enriched with its details when fetched.
+ * The sold price stands in for the estimate band when details are missing.
+ */
+export function featuresFromResult(
+  result: SearchResult,
+  details?: UnifiedItem,
+): ComparableFeatures {
+  if (details) return featuresFromItem(details);
+  const price = result.converted ?? result;
+  const amount = price.soldPrice ?? price.currentPrice;
+  return {
+    title: result.title,
+    priceBand:
+      amount > 0
+        ? { low: amount, high: amount, currency: price.currency }
+        : undefined,
+  };
+}
+
+// --- Signals ---
+
+function normalizeTerm(term: string): string {
+  return normalizeTitle(term).join(" ");
+}
+
+function jaccard(a: string[], b: string[]): number {
+  const setA = new Set(a.map(normalizeTerm).filter(Boolean));
+  const setB = new Set(b.map(normalizeTerm).filter(Boolean));
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let intersection = 0;
+  for (const term of setA) {
+    if (setB.has(term)) intersection++;
+  }
+  return intersection / (setA.size + setB.size - intersection);
+}
+
+/**
+ * 1 when one maker name contains the other's tokens, else 0.
+ * Handles "Tiffany" vs "Tiffany Studios".
+ */
+function makerSimilarity(a: string, b: string): number {
+  const tokensA = normalizeTitle(a);
+  const tokensB = normalizeTitle(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+  const [shorter, longer] =
+    tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  return shorter.every((token) => longer.includes(token)) ? 1 : 0;
+}
+
+/**
+ * Numeric measurements in centimeters, largest first.
+ * Understands "12 x 8 in", "H 30cm" and 12" forms; assumes inches without a unit.
+ */
+function parseDimensions(text: string): number[] {
+  const unitMatch = text
+    .toLowerCase()
+    .match(/\d\s*(mm|cm|m|inches|inch|in|")(?![a-z])/);
+  const factor = UNIT_TO_CM[unitMatch?.[1] ?? "in"];
+  const numbers = text.match(/\d+(?:\.\d+)?/g) ?? [];
+  return numbers
+    .map((n) => parseFloat(n) * factor)
+    .filter((n) => n > 0)
+    .sort((a, b) => b - a);
+}
+
+/**
+ * Mean ratio of corresponding measurements (0–1), or undefined when either
+ * side has none.
+ */
+function dimensionSimilarity(a: string, b: string): number | undefined {
+  const dimsA = parseDimensions(a);
+  const dimsB = parseDimensions(b);
+  const count = Math.min(dimsA.length, dimsB.length);
+  if (count === 0) return undefined;
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    total += Math.min(dimsA[i], dimsB[i]) / Math.max(dimsA[i], dimsB[i]);
+  }
+  return total / count;
+}
+
+/**
+ * 1 when price bands overlap, falling to 0 as their midpoints move
+ * MAX_PRICE_RATIO apart. Undefined across currencies.
+ */
+function estimateSimilarity(
+  a: NonNullable<ComparableFeatures["priceBand"]>,
+  b: NonNullable<ComparableFeatures["priceBand"]>,
+): number | undefined {
+  if (a.currency !== b.currency) return undefined;
+  if (a.low <= b.high && b.low <= a.high) return 1;
+  const midA = (a.low + a.high) / 2;
+  const midB = (b.low + b.high) / 2;
+  if (midA <= 0 || midB <= 0) return undefined;
+  const ratio = Math.max(midA, midB) / Math.min(midA, midB);
+  return Math.max(0, 1 - Math.log(ratio) / Math.log(MAX_PRICE_RATIO));
+}
+
+// --- Scoring ---
+
+/**
+ * Score how comparable a sold lot is to the subject item.
+ */
+export function scoreSimilarity(
+  subject: ComparableFeatures,
+  comparable: ComparableFeatures,
+): SimilarityScore {
+  const signals: SimilarityScore["signals"] = {};
+  const reasons: string[] = [];
+
+  signals.title = titleSimilarity(subject.title, comparable.title);
+  if (signals.title >= STRONG) reasons.push("Closely matching title");
+  else if (signals.title < WEAK) reasons.push("Few title words in common");
+
+  if (subject.maker && comparable.maker) {
+    signals.maker = makerSimilarity(subject.maker, comparable.maker);
+    reasons.push(
+      signals.maker === 1
+        ? `Same maker (${comparable.maker})`
+        : `Different maker (${comparable.maker})`,
+    );
+  }
+
+  if (subject.category?.length && comparable.category?.length) {
+    signals.category = jaccard(subject.category, comparable.category);
+    if (signals.category >= STRONG) reasons.push("Same category");
+    else if (signals.category < WEAK) reasons.push("Different category");
+  }
+
+  const subjectMaterials = subject.materials ?? [];
+  if (subjectMaterials.length > 0 && comparable.materials?.length) {
+    signals.materials = jaccard(subjectMaterials, comparable.materials);
+    if (signals.materials > 0) {
+      const wanted = new Set(subjectMaterials.map(normalizeTerm));
+      const shared = comparable.materials.filter((m) =>
+        wanted.has(normalizeTerm(m)),
+      );
+      reasons.push(`Shared materials: ${shared.join(", ")}`);
+    } else {
+      reasons.push("Different materials");
+    }
+  }
+
+  if (subject.dimensions && comparable.dimensions) {
+    const dims = dimensionSimilarity(subject.dimensions, comparable.dimensions);
+    if (dims !== undefined) {
+      signals.dimensions = dims;
+      if (dims >= STRONG) reasons.push("Similar size");
+      else reasons.push("Size differs");
+    }
+  }
+
+  if (subject.priceBand && comparable.priceBand) {
+    const estimate = estimateSimilarity(
+      subject.priceBand,
+      comparable.priceBand,
+    );
+    if (estimate !== undefined) {
+      signals.estimate = estimate;
+      if (estimate === 1) reasons.push("Within the estimate band");
+      else if (estimate < WEAK) reasons.push("Price level differs");
+    }
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [signal, value] of Object.entries(signals)) {
+    const weight = SIGNAL_WEIGHTS[signal as SimilaritySignal];
+    weighted += weight * value;
+    totalWeight += weight;
+  }
+  const score =
+    totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) / 100 : 0;
+
+  return { score, reasons, signals };
+}
+
+/**
+ * Attach each sold result's similarity to the subject item, or to features
+ * of an unlisted object such as one identified from a photo.
+ */
+export function scoreComparables(
+  subject: UnifiedItem | ComparableFeatures,
+  results: SearchResult[],
+): SearchResult[] {
+  const subjectFeatures =
+    "platformItemId" in subject ? featuresFromItem(subject) : subject;
+  return results.map((result) => {
+    const { score, reasons } = scoreSimilarity(
+      subjectFeatures,
+      featuresFromResult(result),
+    );
+    return { ...result, similarity: { score, reasons } };
+  });
+}
+
+// --- Exports for Testing ---
+
+export { parseDimensions, dimensionSimilarity, estimateSimilarity };
@@ -0,0 +1,90 @@
+/**
+ * Robust statistics for comparable-sales valuation.
+ */
+
+export interface WeightedValue {
+  value: number;
+  weight: number;
+}
+
+/**
+ * Unweighted percentile (0–1) with linear interpolation between ranks.
+ * Returns NaN for an empty list.
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function median(values: number[]): number {
+  return percentile(values, 0.5);
+}
+
+/**
+ * Weighted percentile (0–1). Each value sits at the midpoint of its share of
+ * the total weight and percentiles interpolate between those points, so equal
+ * weights reproduce the ordinary median.
+ * Returns NaN when there is no positive weight.
+ */
+export function weightedPercentile(items: WeightedValue[], p: number): number {
+  const sorted = items
+    .filter((item) => item.weight > 0)
+    .sort((a, b) => a.value - b.value);
+  const totalWeight = sorted.reduce((sum, item) => sum + item.weight, 0);
+  if (sorted.length === 0 || totalWeight <= 0) return NaN;
+
+  let cumulative = 0;
+  const positions = sorted.map((item) => {
+    const position = (cumulative + item.weight / 2) / totalWeight;
+    cumulative += item.weight;
+    return position;
+  });
+
+  if (p <= positions[0]) return sorted[0].value;
+  for (let i = 1; i < sorted.length; i++) {
+    if (p <= positions[i]) {
+      const span = positions[i] - positions[i - 1];
+      const t = span > 0 ? (p - positions[i - 1]) / span : 0;
+      return sorted[i - 1].value + t * (sorted[i].value - sorted[i - 1].value);
+    }
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Indexes of values outside Tukey's fences (Q1 − k·IQR, Q3 + k·IQR).
+ */
+export function iqrOutliers(values: number[], k = 1.5): Set<number> {
+  const q1 = percentile(values, 0.25);
+  const q3 = percentile(values, 0.75);
+  const iqr = q3 - q1;
+  const low = q1 - k * iqr;
+  const high = q3 + k * iqr;
+
+  const outliers = new Set<number>();
+  values.forEach((value, index) => {
+    if (value < low || value > high) outliers.add(index);
+  });
+  return outliers;
+}
+
+/**
+ * Indexes of values whose modified z-score (based on the median absolute
+ * deviation) exceeds the threshold. Iglewicz and Hoaglin recommend 3.5.
+ */
+export function madOutliers(values: number[], threshold = 3.5): Set<number> {
+  const center = median(values);
+  const mad = median(values.map((value) => Math.abs(value - center)));
+
+  const outliers = new Set<number>();
+  if (mad === 0) return outliers;
+  values.forEach((value, index) => {
+    const modifiedZ = (0.6745 * Math.abs(value - center)) / mad;
+    if (modifiedZ > threshold) outliers.add(index);
+  });
+  return outliers;
+}
@@ -0,0 +1,128 @@
+"use client";
+
+/**
+ * React context for the signed-in user's watchlist.
+ * Loads entries from /api/watchlist once the user is signed in and keeps
+ * them in sync as items are watched and unwatched.
+ */
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import { useUser } from "@clerk/nextjs";
+import { watchlistEntryId, type WatchlistEntry } from "./types";
+
+interface WatchlistContextValue {
+  /** Whether watching is possible (the user is signed in) */
+  isAvailable: boolean;
+  entries: WatchlistEntry[];
+  isWatched: (platform: string, itemId: string) => boolean;
+  watch: (platform: string, itemId: string) => Promise<void>;
+  unwatch: (platform: string, itemId: string) => Promise<void>;
+}
+
+// Components outside the provider (e.g. in isolation) can't watch items
+const WatchlistContext = createContext<WatchlistContextValue>({
+  isAvailable: false,
+  entries: [],
+  isWatched: () => false,
+  watch: async () => {},
+  unwatch: async () => {},
+});
+
+async function fetchEntries(): Promise<WatchlistEntry[]> {
+  const response = await fetch("/api/watchlist");
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+  const data: { entries: WatchlistEntry[] } = await response.json();
+  return data.entries;
+}
+
+export function WatchlistProvider({ children }: { children: ReactNode }) {
+  const { isSignedIn } = useUser();
+  const [entries, setEntries] = useState<WatchlistEntry[]>([]);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+    let cancelled = false;
+    fetchEntries()
+      .then((loaded) => {
+        if (!cancelled) setEntries(loaded);
+      })
+      .catch((error) => {
+        console.warn("Failed to load watchlist:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn]);
+
+  // Entries from a previous session are hidden once the user signs out
+  const visibleEntries = useMemo(
+    () => (isSignedIn ? entries : []),
+    [isSignedIn, entries],
+  );
+
+  const isWatched = useCallback(
+    (platform: string, itemId: string) => {
+      const id = watchlistEntryId(platform, itemId);
+      return visibleEntries.some((entry) => entry.id === id);
+    },
+    [visibleEntries],
+  );
+
+  const watch = useCallback(async (platform: string, itemId: string) => {
+    const response = await fetch("/api/watchlist", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ platform, itemId }),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP error: ${response.status}`);
+    }
+    const { entry }: { entry: WatchlistEntry } = await response.json();
+    setEntries((current) => [
+      entry,
+      ...current.filter((e) => e.id !== entry.id),
+    ]);
+  }, []);
+
+  const unwatch = useCallback(async (platform: string, itemId: string) => {
+    const id = watchlistEntryId(platform, itemId);
+    const response = await fetch(`/api/watchlist/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`HTTP error: ${response.status}`);
+    }
+    setEntries((current) => current.filter((e) => e.id !== id));
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      isAvailable: Boolean(isSignedIn),
+      entries: visibleEntries,
+      isWatched,
+      watch,
+      unwatch,
+    }),
+    [isSignedIn, visibleEntries, isWatched, watch, unwatch],
+  );
+
+  return (
+    <WatchlistContext.Provider value={value}>
+      {children}
+    </WatchlistContext.Provider>
+  );
+}
+
+export function useWatchlist() {
+  return useContext(WatchlistContext);
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { UnifiedItem } from "@/lib/adapters/types";
+import { MockLogger } from "@/lib/logging/mock";
+import { MemoryWatchlistStore } from "../store";
+
+vi.mock("@/lib/adapters/registry", () => ({
+  getAdapter: vi.fn(),
+}));
+
+import { getAdapter } from "@/lib/adapters/registry";
+import { WatchlistService } from "../server";
+
+// --- Test Fixtures ---
+
+const NOW = new Date("2026-06-01T00:00:00Z").getTime();
+const HOUR = 60 * 60 * 1000;
+
+function makeItem(overrides: Partial<UnifiedItem> = {}): UnifiedItem {
+  return {
+    id: "liveauctioneers-1",
+    platformItemId: "1",
+    platform: "liveauctioneers",
+    url: "https://example.com/1",
+    title: "Art Deco Lamp",
+    description: "",
+    images: ["https://example.com/1.jpg"],
+    category: [],
+    currentPrice: 250,
+    currency: "USD",
+    auctionType: "timed",
+    endTime: new Date(NOW + 2 * HOUR),
+    bidCount: 3,
+    seller: { name: "Example Auctions" },
+    ...overrides,
+  };
+}
+
+const mockAdapter = {
+  platform: "liveauctioneers",
+  search: vi.fn(),
+  getItem: vi.fn(),
+  getPriceHistory: vi.fn(),
+  watchItem: vi.fn(),
+};
+
+function createService() {
+  return new WatchlistService({
+    store: new MemoryWatchlistStore(),
+    now: () => NOW,
+    log: new MockLogger(),
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getAdapter).mockReturnValue(mockAdapter);
+  mockAdapter.watchItem.mockResolvedValue({
+    success: true,
+    itemId: "1",
+    watchedAt: new Date(NOW),
+  });
+});
+
+describe("WatchlistService.watch", () => {
+  it("stores a snapshot and watches on the platform", async () => {
+    const service = createService();
+
+    const entry = await service.watch("user-1", makeItem());
+
+    expect(entry).toMatchObject({
+      id: "liveauctioneers:1",
+      userId: "user-1",
+      imageUrl: "https://example.com/1.jpg",
+      priceAtWatch: 250,
+      endTime: new Date(NOW + 2 * HOUR).toISOString(),
+      watchedAt: new Date(NOW).toISOString(),
+      platformWatched: true,
+    });
+    expect(mockAdapter.watchItem).toHaveBeenCalledWith("1");
+    expect(await service.list("user-1")).toEqual([entry]);
+  });
+
+  it("keeps the original entry when watched twice", async () => {
+    const service = createService();
+    const first = await service.watch("user-1", makeItem());
+
+    const second = await service.watch(
+      "user-1",
+      makeItem({ currentPrice: 400 }),
+    );
+
+    expect(second).toEqual(first);
+    expect(mockAdapter.watchItem).toHaveBeenCalledTimes(1);
+  });
+
+  it("still watches locally when the platform watch fails", async () => {
+    mockAdapter.watchItem.mockRejectedValue(new Error("Unauthorized"));
+    const service = createService();
+
+    const entry = await service.watch("user-1", makeItem());
+
+    expect(entry.platformWatched).toBe(false);
+    expect(await service.list("user-1")).toHaveLength(1);
+  });
+});
+
+describe("WatchlistService.refresh", () => {
+  it("reports current price, bids and time remaining", async () => {
+    const service = createService();
+    await service.watch("user-1", makeItem());
+    mockAdapter.getItem.mockResolvedValue(
+      makeItem({ currentPrice: 325, bidCount: 5 }),
+    );
+
+    const [status] = await service.refresh("user-1");
+
+    expect(status).toMatchObject({
+      currentPrice: 325,
+      bidCount: 5,
+      timeRemainingMs: 2 * HOUR,
+    });
+    expect(status.refreshError).toBeUndefined();
+  });
+
+  it("reports ended lots as zero time remaining", async () => {
+    const service = createService();
+    await service.watch("user-1", makeItem());
+    mockAdapter.getItem.mockResolvedValue(
+      makeItem({ endTime: new Date(NOW - HOUR) }),
+    );
+
+    const [status] = await service.refresh("user-1");
+    expect(status.timeRemainingMs).toBe(0);
+  });
+
+  it("falls back to the stored snapshot when the platform fails", async () => {
+    const service = createService();
+    await service.watch("user-1", makeItem());
+    mockAdapter.getItem.mockRejectedValue(new Error("Timeout"));
+
+    const [status] = await service.refresh("user-1");
+
+    expect(status.currentPrice).toBeUndefined();
+    expect(status.timeRemainingMs).toBe(2 * HOUR);
+    expect(status.refreshError).toBe("Timeout");
+  });
+});
+
+describe("WatchlistService.unwatch", () => {
+  it("removes the entry", async () => {
+    const service = createService();
+    await service.watch("user-1", makeItem());
+
+    expect(await service.unwatch("user-1", "liveauctioneers:1")).toBe(true);
+    expect(await service.list("user-1")).toEqual([]);
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Watchlist.
+ * Re-exports client-safe types and the watchlist context.
+ * For the server service, import from "@/lib/watchlist/server" directly.
+ */
+
+export type {
+  WatchItemResult,
+  WatchlistEntry,
+  WatchlistItemStatus,
+} from "./types";
+export { watchlistEntryId } from "./types";
+export type { WatchlistStore } from "./store";
+export { WatchlistProvider, useWatchlist } from "./WatchlistContext";
@@ -0,0 +1,159 @@
+/**
+ * Server-side watchlist service.
+ * Stores watched lots per user and refreshes their live state from the
+ * platform adapters.
+ */
+
+import path from "path";
+import type { UnifiedItem } from "@/lib/adapters/types";
+import { getAdapter } from "@/lib/adapters/registry";
+import type { ILogger } from "@/lib/logging/types";
+import { serverLoggerFactory } from "@/lib/logging/server";
+import { FileWatchlistStore, type WatchlistStore } from "./store";
+import {
+  watchlistEntryId,
+  type WatchlistEntry,
+  type WatchlistItemStatus,
+} from "./types";
+
+const DEFAULT_WATCHLIST_FILE = path.join(".data", "watchlist.json");
+
+export interface WatchlistServiceConfig {
+  /** Where entries are kept. Default: JSON file at WATCHLIST_FILE or .data/watchlist.json */
+  store?: WatchlistStore;
+  /** Clock override for testing */
+  now?: () => number;
+  /** Optional logger for testing. If not provided, uses serverLoggerFactory. */
+  log?: ILogger;
+}
+
+export class WatchlistService {
+  private readonly store: WatchlistStore;
+  private readonly now: () => number;
+  private readonly log: ILogger;
+
+  constructor(config: WatchlistServiceConfig = {}) {
+    this.store =
+      config.store ??
+      new FileWatchlistStore(
+        process.env.WATCHLIST_FILE ?? DEFAULT_WATCHLIST_FILE,
+      );
+    this.now = config.now ?? Date.now;
+    this.log =
+      config.log ??
+      serverLoggerFactory.create({
+        distinctId: "system",
+        component: "watchlist",
+      });
+  }
+
+  /**
+   * Add an item to the user's watchlist. Also watches it on the platform
+   * when the adapter supports that; a platform failure doesn't block the
+   * local entry. Watching an item twice keeps the original entry.
+   */
+  async watch(userId: string, item: UnifiedItem): Promise<WatchlistEntry> {
+    const id = watchlistEntryId(item.platform, item.platformItemId);
+    const existing = await this.store.get(userId, id);
+    if (existing) return existing;
+
+    const entry: WatchlistEntry = {
+      id,
+      userId,
+      platform: item.platform,
+      itemId: item.platformItemId,
+      title: item.title,
+      url: item.url,
+      imageUrl: item.images[0],
+      currency: item.currency,
+      priceAtWatch: item.currentPrice,
+      endTime: item.endTime ? new Date(item.endTime).toISOString() : undefined,
+      watchedAt: new Date(this.now()).toISOString(),
+      platformWatched: await this.watchOnPlatform(item),
+    };
+
+    await this.store.put(entry);
+    this.log.info("Item watched", { platform: entry.platform, id });
+    return entry;
+  }
+
+  /** Returns false when the item wasn't on the watchlist. */
+  async unwatch(userId: string, id: string): Promise<boolean> {
+    return this.store.delete(userId, id);
+  }
+
+  async get(userId: string, id: string): Promise<WatchlistEntry | null> {
+    return this.store.get(userId, id);
+  }
+
+  async list(userId: string): Promise<WatchlistEntry[]> {
+    return this.store.list(userId);
+  }
+
+  /**
+   * Current price, bid count and time remaining for each watched item.
+   * Items whose platform fails keep their stored snapshot with an error.
+   */
+  async refresh(userId: string): Promise<WatchlistItemStatus[]> {
+    const entries = await this.store.list(userId);
+    return Promise.all(entries.map((entry) => this.refreshEntry(entry)));
+  }
+
+  /**
+   * Live state of one watched item, for callers that pace their own
+   * platform requests (e.g. the alert scheduler).
+   */
+  async refreshEntry(entry: WatchlistEntry): Promise<WatchlistItemStatus> {
+    try {
+      const item = await getAdapter(entry.platform).getItem(entry.itemId);
+      const endTime = item.endTime
+        ? new Date(item.endTime).toISOString()
+        : entry.endTime;
+      return {
+        entry,
+        currentPrice: item.currentPrice,
+        bidCount: item.bidCount,
+        endTime,
+        timeRemainingMs: this.timeRemaining(endTime),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log.warn("Watchlist refresh failed", {
+        platform: entry.platform,
+        id: entry.id,
+        error: message,
+      });
+      return {
+        entry,
+        endTime: entry.endTime,
+        timeRemainingMs: this.timeRemaining(entry.endTime),
+        refreshError: message,
+      };
+    }
+  }
+
+  private timeRemaining(endTime: string | undefined): number | undefined {
+    if (!endTime) return undefined;
+    return Math.max(0, new Date(endTime).getTime() - this.now());
+  }
+
+  private async watchOnPlatform(item: UnifiedItem): Promise<boolean> {
+    const adapter = getAdapter(item.platform);
+    if (!adapter.watchItem) return false;
+
+    try {
+      const result = await adapter.watchItem(item.platformItemId);
+      return result.success;
+    } catch (error) {
+      this.log.warn("Platform watch failed", {
+        platform: item.platform,
+        itemId: item.platformItemId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+}
+
+/** Shared service used by the watchlist routes and agent tool. */
+export const watchlistService = new WatchlistService();
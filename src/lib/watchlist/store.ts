@@ -0,0 +1,28 @@
+/**
+ * Storage backends for watchlists, newest entries first.
+ */
+
+import {
+  FileRecordStore,
+  MemoryRecordStore,
+  type RecordStore,
+} from "@/lib/storage";
+import type { WatchlistEntry } from "./types";
+
+export type WatchlistStore = RecordStore<WatchlistEntry>;
+
+function newestFirst(a: WatchlistEntry, b: WatchlistEntry): number {
+  return b.watchedAt.localeCompare(a.watchedAt);
+}
+
+export class MemoryWatchlistStore extends MemoryRecordStore<WatchlistEntry> {
+  constructor() {
+    super({ compare: newestFirst });
+  }
+}
+
+export class FileWatchlistStore extends FileRecordStore<WatchlistEntry> {
+  constructor(filePath: string) {
+    super(filePath, { compare: newestFirst });
+  }
+}
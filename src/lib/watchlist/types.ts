@@ -0,0 +1,53 @@
+/**
+ * Watchlist types shared by the server service, API routes and client UI.
+ */
+
+/**
+ * A lot a signed-in user is watching, with a snapshot taken when it was added.
+ * Dates are ISO strings so entries survive JSON storage unchanged.
+ */
+export interface WatchlistEntry {
+  /** Stable key: `${platform}:${itemId}` */
+  id: string;
+  userId: string;
+  platform: string;
+  itemId: string;
+  title: string;
+  url: string;
+  imageUrl?: string;
+  currency: string;
+  /** Current bid when the item was watched */
+  priceAtWatch: number;
+  endTime?: string;
+  watchedAt: string;
+  /** Whether the platform's own watch list was updated too */
+  platformWatched: boolean;
+}
+
+/**
+ * Live state of a watched lot, fetched from its platform.
+ */
+export interface WatchlistItemStatus {
+  entry: WatchlistEntry;
+  currentPrice?: number;
+  bidCount?: number;
+  endTime?: string;
+  /** Milliseconds until the lot closes; 0 once ended */
+  timeRemainingMs?: number;
+  /** Set when the platform couldn't be reached; the snapshot is shown instead */
+  refreshError?: string;
+}
+
+export function watchlistEntryId(platform: string, itemId: string): string {
+  return `${platform}:${itemId}`;
+}
+
+/**
+ * Result of the watchItem agent tool.
+ */
+export interface WatchItemResult {
+  watched: boolean;
+  entry?: WatchlistEntry;
+  /** Set when the user must sign in before watching */
+  requiresSignIn?: boolean;
+}
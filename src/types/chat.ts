@@ -2,28 +2,69 @@
  * Type definitions for chat UI and tool invocation rendering.
  */
 
-import type { SearchResult, UnifiedItem } from "@/lib/adapters/types";
+import type {
+  MultiPlatformSearchResult,
+  UnifiedItem,
+} from "@/lib/adapters/types";
+import type { TotalCostBreakdown } from "@/lib/costs";
+import type { BidTimeline } from "@/lib/bids";
+import type { SellerProfile } from "@/lib/sellers";
+import type { WatchItemResult } from "@/lib/watchlist";
+import type { ItemComparison } from "@/lib/comparison";
+import type {
+  EstimateAccuracyResult,
+  IdentifyItemResult,
+} from "@/lib/valuation";
 
 export type ToolName =
   | "searchItems"
   | "getItemDetails"
   | "getPriceHistory"
-  | "assessValue";
+  | "identifyItem"
+  | "assessValue"
+  | "analyzeEstimateAccuracy"
+  | "calculateTotalCost"
+  | "getBidHistory"
+  | "getSellerProfile"
+  | "watchItem"
+  | "compareItems";
 
 export interface ValuationAssessment {
   itemId: string;
+  /** Currency of priceRange. Absent on sessions saved before conversion; USD */
+  currency?: string;
   comparablesCount: number;
+  /** Weighted 25th percentile, median and 75th percentile */
   priceRange: { low: number; high: number; median: number } | null;
+  /** Fields below are absent on sessions saved before the valuation engine */
+  observedRange?: { min: number; max: number } | null;
   confidence: "high" | "medium" | "low";
+  confidenceScore?: number;
+  outliersExcluded?: number;
+  comparables?: Array<{
+    title: string;
+    soldPrice: number;
+    inflationAdjustedPrice?: number;
+    soldYear?: number;
+    similarity?: number;
+    outlier: boolean;
+  }>;
   factors: string[];
   recommendation: string;
 }
 
 export type ToolResultMap = {
-  searchItems: SearchResult[];
+  searchItems: MultiPlatformSearchResult;
   getItemDetails: UnifiedItem;
-  getPriceHistory: SearchResult[];
+  getPriceHistory: MultiPlatformSearchResult;
+  identifyItem: IdentifyItemResult;
   assessValue: ValuationAssessment;
+  analyzeEstimateAccuracy: EstimateAccuracyResult;
+  calculateTotalCost: TotalCostBreakdown;
+  getBidHistory: BidTimeline;
+  getSellerProfile: SellerProfile;
+  watchItem: WatchItemResult;
+  compareItems: ItemComparison;
 };
 
 export interface ToolInvocationState {